@@ -0,0 +1,87 @@
+import express from 'express';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { DataGenerationScheduler } from '../infrastructure/data-generation-scheduler';
+import { setAuthVerifier } from '../infrastructure/auth/auth-verifier';
+import { LocalAuthVerifier } from '../infrastructure/auth/local-auth-verifier';
+import { listen } from '../test/listen';
+import adminRouter from './admin';
+import { globalErrorHandler } from './middlewares/global-error-handling-middleware';
+
+const issuer = new LocalAuthVerifier('test-secret');
+
+const app = express();
+app.use(express.json());
+app.use('/api/admin', adminRouter);
+app.use(globalErrorHandler);
+
+let server: Awaited<ReturnType<typeof listen>>;
+
+const post = (path: string, headers: Record<string, string> = {}) =>
+  fetch(`${server.url}/api/admin${path}`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', ...headers },
+    body: JSON.stringify({ days: 1 }),
+  });
+
+const adminToken = () => ({ authorization: `Bearer ${issuer.sign({ userId: 'user_1', role: 'admin' })}` });
+
+beforeAll(async () => {
+  setAuthVerifier(issuer);
+  process.env.SERVICE_API_KEYS = 'cron-job:cron-key,core-backend:read-key';
+  process.env.SERVICE_API_KEY_SCOPES = 'cron-job:generation';
+  server = await listen(app);
+});
+
+afterAll(async () => {
+  setAuthVerifier(null);
+  delete process.env.SERVICE_API_KEYS;
+  delete process.env.SERVICE_API_KEY_SCOPES;
+  await server.close();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('POST /api/admin/generate-today-data', () => {
+  it('runs the daily generation for a service key with the generation scope', async () => {
+    const generate = vi.spyOn(DataGenerationScheduler, 'generateTodayData').mockResolvedValue(null);
+
+    const response = await post('/generate-today-data', { 'x-api-key': 'cron-key' });
+
+    expect(response.status).toBe(200);
+    expect(generate).toHaveBeenCalledOnce();
+  });
+
+  it('runs the daily generation for an admin session', async () => {
+    const generate = vi.spyOn(DataGenerationScheduler, 'generateTodayData').mockResolvedValue(null);
+
+    expect((await post('/generate-today-data', adminToken())).status).toBe(200);
+    expect(generate).toHaveBeenCalledOnce();
+  });
+
+  it('forbids service keys without the generation scope', async () => {
+    const generate = vi.spyOn(DataGenerationScheduler, 'generateTodayData').mockResolvedValue(null);
+
+    expect((await post('/generate-today-data', { 'x-api-key': 'read-key' })).status).toBe(403);
+    expect(generate).not.toHaveBeenCalled();
+  });
+
+  it('rejects an unknown API key and users without the admin role', async () => {
+    const generate = vi.spyOn(DataGenerationScheduler, 'generateTodayData').mockResolvedValue(null);
+    const staffToken = issuer.sign({ userId: 'user_2', role: 'staff' });
+
+    expect((await post('/generate-today-data', { 'x-api-key': 'wrong-key' })).status).toBe(401);
+    expect((await post('/generate-today-data', { authorization: `Bearer ${staffToken}` })).status).toBe(403);
+    expect(generate).not.toHaveBeenCalled();
+  });
+});
+
+describe('other admin routes', () => {
+  it('do not accept a service API key', async () => {
+    const generate = vi.spyOn(DataGenerationScheduler, 'generateHistoricalData');
+
+    expect((await post('/generate-historical-data', { 'x-api-key': 'cron-key' })).status).toBe(401);
+    expect(generate).not.toHaveBeenCalled();
+  });
+});
@@ -1,24 +1,50 @@
 import express from 'express';
 import { DataGenerationScheduler } from '../infrastructure/data-generation-scheduler';
+import { GenerateHistoricalDataDto } from '../domain/dtos/backfill';
+import { createAlertRule, deleteAlertRule, evaluateAlertRulesNow, getAlertRules, updateAlertRule } from '../application/alert';
+import { detectAnomaliesForUnits } from '../application/anomaly';
+import { createBackfill } from '../application/backfill';
+import { backfillDataQualityGaps } from '../application/data-quality';
+import { createDeviceKey, getDeviceKeys, revokeDeviceKey } from '../application/device-key';
+import { formatIssues } from '../application/energy-generation-record';
+import { getJobRunById, getJobRuns } from '../application/job-run';
+import { cancelMaintenanceWindow, createMaintenanceWindow, getMaintenanceWindows } from '../application/maintenance-window';
+import { createImport, getImportById, getImportErrorReport, getImports } from '../application/record-import';
+import {
+  createWebhookSubscription,
+  deleteWebhookSubscription,
+  getWebhookDeliveries,
+  getWebhookSubscriptions,
+  retryWebhookDelivery,
+  updateWebhookSubscription,
+} from '../application/webhook';
+import { logger } from '../infrastructure/logging/logger';
+import { isAuthenticated, isAuthenticatedOrService } from './middlewares/authentication-middleware';
+import { isAdmin, isAdminOrServiceWithScope } from './middlewares/authorization-middleware';
 
 const adminRouter = express.Router();
 
 /**
  * Manual endpoint to trigger daily data generation
  * Use this endpoint with cron-job.org to generate data at midnight daily
+ * Unlike the other admin routes it also accepts, in the x-api-key header cron-job.org can send,
+ * a service API key that SERVICE_API_KEY_SCOPES grants the generation scope (e.g. "cron-job:generation")
  * 
  * POST /api/admin/generate-today-data
  */
-adminRouter.post('/generate-today-data', async (req, res) => {
+adminRouter.post('/generate-today-data', isAuthenticatedOrService, isAdminOrServiceWithScope('generation'), async (req, res) => {
   try {
-    console.log('📊 Manual data generation triggered via API');
-    await DataGenerationScheduler.generateTodayData();
+    logger.info('Manual data generation triggered via API');
+    const jobRun = await DataGenerationScheduler.generateTodayData();
     return res.status(200).json({ 
       success: true,
-      message: 'Today\'s energy data generated successfully' 
+      message: jobRun
+        ? 'Today\'s energy data generated successfully'
+        : 'Today\'s energy data is already being generated by another instance',
+      jobRun,
     });
   } catch (error: any) {
-    console.error('❌ Manual data generation failed:', error);
+    logger.error('Manual data generation failed', { error });
     return res.status(500).json({ 
       success: false,
       message: 'Data generation failed', 
@@ -27,24 +53,32 @@ adminRouter.post('/generate-today-data', async (req, res) => {
   }
 });
 
+// Every route below requires a session token of a user with the admin role
+adminRouter.use(isAuthenticated, isAdmin);
+
 /**
  * Generate historical data for past N days
- * Useful for backfilling missing data
+ * Days that already have records are skipped; use /backfills for date ranges and gaps
  * 
  * POST /api/admin/generate-historical-data
- * Body: { days: 7 }
+ * Body: { days: 7 }   - 1 to 366
  */
 adminRouter.post('/generate-historical-data', async (req, res) => {
+  const result = GenerateHistoricalDataDto.safeParse(req.body ?? {});
+  if (!result.success) {
+    return res.status(400).json({ message: formatIssues(result.error) });
+  }
+
   try {
-    const days = req.body?.days || 7;
-    console.log(`📚 Generating historical data for ${days} days`);
+    const { days } = result.data;
+    logger.info('Historical data generation triggered via API', { days });
     await DataGenerationScheduler.generateHistoricalData(days);
     return res.status(200).json({ 
       success: true,
       message: `Historical data generated for past ${days} days` 
     });
   } catch (error: any) {
-    console.error('❌ Historical data generation failed:', error);
+    logger.error('Historical data generation failed', { error });
     return res.status(500).json({ 
       success: false,
       message: 'Historical data generation failed', 
@@ -53,4 +87,108 @@ adminRouter.post('/generate-historical-data', async (req, res) => {
   }
 });
 
+/**
+ * Backfill or regenerate records of a date range as a background job
+ * fill-gaps generates only missing intervals, skip-existing only days without records and
+ * replace deletes and regenerates every day. dryRun reports the changes without making them.
+ * A real run answers 202 with its job run; poll GET /api/admin/jobs/:id for progress.
+ *
+ * POST /api/admin/backfills
+ * Body: { from: "2025-11-01", to: "2025-11-30", serialNumbers?: ["SU-TEST-2024"], mode?: "fill-gaps", dryRun?: false }
+ */
+adminRouter.post('/backfills', createBackfill);
+
+/**
+ * Run anomaly detection and store the results
+ * Omit serialNumber to scan every unit with records
+ *
+ * POST /api/admin/detect-anomalies
+ * Body: { serialNumber?: "SU-TEST-2024", from?: "2025-12-01", to?: "2025-12-31" }
+ */
+adminRouter.post('/detect-anomalies', detectAnomaliesForUnits);
+
+/**
+ * Alert rules, evaluated every ALERT_EVALUATION_INTERVAL_MS against each active unit (or the rule's unit)
+ * Conditions: zero-generation { hours }, low-daily-yield { ratio, baselineDays }, no-data { hours }
+ * Channels: console, webhook { url, secret? } and email { to } over SMTP (SMTP_HOST, SMTP_PORT, ...)
+ * The alerts themselves are at /api/alerts.
+ *
+ * POST /api/admin/alert-rules          Body: { name, condition, serialNumber?, severity?, channels?, cooldownMinutes?, enabled? }
+ * GET /api/admin/alert-rules
+ * PATCH /api/admin/alert-rules/:id
+ * DELETE /api/admin/alert-rules/:id    - resolves the rule's active alerts
+ * POST /api/admin/alert-rules/evaluate
+ */
+adminRouter.route('/alert-rules').post(createAlertRule).get(getAlertRules);
+adminRouter.post('/alert-rules/evaluate', evaluateAlertRulesNow);
+adminRouter.route('/alert-rules/:id').patch(updateAlertRule).delete(deleteAlertRule);
+
+/**
+ * Maintenance windows: scheduled downtime of one unit, or of every unit without a serialNumber
+ * Intervals inside a window are generated with zero output and records are tagged inMaintenance;
+ * metrics, performance, forecasts, anomaly detection and alerts leave them out.
+ *
+ * POST /api/admin/maintenance-windows              Body: { serialNumber?, reason, startsAt, endsAt }
+ * GET /api/admin/maintenance-windows?serialNumber=&from=&to=&includeCancelled=
+ * POST /api/admin/maintenance-windows/:id/cancel   - ends an in-progress window now
+ */
+adminRouter.route('/maintenance-windows').post(createMaintenanceWindow).get(getMaintenanceWindows);
+adminRouter.post('/maintenance-windows/:id/cancel', cancelMaintenanceWindow);
+
+/**
+ * Device keys for the ingestion API
+ *
+ * POST /api/admin/device-keys            Body: { serialNumber, name? } - returns the key once
+ * GET /api/admin/device-keys?serialNumber=
+ * POST /api/admin/device-keys/:id/revoke
+ */
+adminRouter.route('/device-keys').post(createDeviceKey).get(getDeviceKeys);
+adminRouter.post('/device-keys/:id/revoke', revokeDeviceKey);
+
+/**
+ * Job run history (daily generation, catch-up, manual runs and backfills)
+ *
+ * GET /api/admin/jobs?type=&status=&limit=
+ * GET /api/admin/jobs/:id
+ */
+adminRouter.get('/jobs', getJobRuns);
+adminRouter.get('/jobs/:id', getJobRunById);
+
+/**
+ * Webhook subscriptions for records.created, records.deleted, generation.completed and anomaly.detected
+ * Deliveries are signed: X-Webhook-Signature = sha256=HMAC(secret, "<X-Webhook-Timestamp>.<body>")
+ *
+ * POST /api/admin/webhooks             Body: { url, events, secret?, description? }
+ * GET /api/admin/webhooks
+ * PATCH /api/admin/webhooks/:id        Body: { url?, events?, description?, active? }
+ * DELETE /api/admin/webhooks/:id
+ * GET /api/admin/webhooks/deliveries?status=dead&subscriptionId=&limit=
+ * POST /api/admin/webhooks/deliveries/:id/retry
+ */
+adminRouter.route('/webhooks').post(createWebhookSubscription).get(getWebhookSubscriptions);
+adminRouter.get('/webhooks/deliveries', getWebhookDeliveries);
+adminRouter.post('/webhooks/deliveries/:id/retry', retryWebhookDelivery);
+adminRouter.route('/webhooks/:id').patch(updateWebhookSubscription).delete(deleteWebhookSubscription);
+
+/**
+ * Import historical readings from a CSV or NDJSON file sent as the raw request body
+ * Existing (serialNumber, timestamp) readings are skipped; imports never modify or delete data.
+ *
+ * POST /api/admin/imports?format=&mapping=timestamp=Time,energyGenerated=Yield&serialNumber=&fileName=
+ * GET /api/admin/imports?status=&limit=
+ * GET /api/admin/imports/:id
+ * GET /api/admin/imports/:id/errors   - rejected rows as CSV
+ */
+adminRouter.route('/imports').post(createImport).get(getImports);
+adminRouter.get('/imports/:id', getImportById);
+adminRouter.get('/imports/:id/errors', getImportErrorReport);
+
+/**
+ * Generate records for the intervals a data-quality report lists as missing
+ * This is the report's one-click backfill link; existing records are never touched.
+ *
+ * POST /api/admin/data-quality/:serialNumber/backfill?from=&to=
+ */
+adminRouter.post('/data-quality/:serialNumber/backfill', backfillDataQualityGaps);
+
 export default adminRouter;
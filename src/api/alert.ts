@@ -0,0 +1,11 @@
+import express from "express";
+import { acknowledgeAlert, getAlertById, getAlerts, resolveAlert } from "../application/alert";
+
+const alertRouter = express.Router();
+
+alertRouter.route("/").get(getAlerts);
+alertRouter.route("/:id").get(getAlertById);
+alertRouter.route("/:id/acknowledge").post(acknowledgeAlert);
+alertRouter.route("/:id/resolve").post(resolveAlert);
+
+export default alertRouter;
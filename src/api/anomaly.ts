@@ -0,0 +1,8 @@
+import express from "express";
+import { getAnomalies } from "../application/anomaly";
+
+const anomalyRouter = express.Router();
+
+anomalyRouter.route("/").get(getAnomalies);
+
+export default anomalyRouter;
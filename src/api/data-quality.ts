@@ -0,0 +1,8 @@
+import express from "express";
+import { getDataQuality } from "../application/data-quality";
+
+const dataQualityRouter = express.Router();
+
+dataQualityRouter.route("/:serialNumber").get(getDataQuality);
+
+export default dataQualityRouter;
@@ -0,0 +1,147 @@
+import express from "express";
+import mongoose from "mongoose";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { DeviceKey } from "../infrastructure/entities/DeviceKey";
+import { EnergyGenerationRecord } from "../infrastructure/entities/EnergyGenerationRecord";
+import { setSolarUnitProvider } from "../infrastructure/solar-units/solar-unit-provider";
+import { listen } from "../test/listen";
+import energyGenerationRecordRouter, { bulkJsonParser } from "./energy-generation-record";
+import { globalErrorHandler } from "./middlewares/global-error-handling-middleware";
+
+vi.mock("../application/solar-unit", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../application/solar-unit")>()),
+  findHeldBackSolarUnits: async (serialNumbers: string[]) =>
+    new Map(serialNumbers.filter((serialNumber) => serialNumber === "SU-HELD").map((serialNumber) => [serialNumber, "INACTIVE"])),
+}));
+
+vi.mock("../application/maintenance-schedule", () => ({
+  tagMaintenance: async <T>(readings: T[]) => readings,
+}));
+
+vi.mock("../application/energy-rollups", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../application/energy-rollups")>()),
+  applyRecordsToRollups: async () => undefined,
+}));
+
+vi.mock("../infrastructure/webhooks/event-publisher", () => ({
+  publishEvent: async () => undefined,
+}));
+
+// Wired as in index.ts
+const app = express();
+app.use("/api/energy-generation-records/bulk", bulkJsonParser);
+app.use(express.json());
+app.use("/api/energy-generation-records", energyGenerationRecordRouter);
+app.use(globalErrorHandler);
+
+let server: Awaited<ReturnType<typeof listen>>;
+
+const post = async (path: string, body: string) => {
+  const response = await fetch(`${server.url}/api/energy-generation-records${path}`, {
+    method: "POST",
+    headers: { "content-type": "application/json", "x-device-key": "device-key" },
+    body,
+  });
+  return { status: response.status, body: (await response.json()) as any };
+};
+
+const reading = (index: number, values: Record<string, unknown> = {}) => ({
+  serialNumber: "SU-0001",
+  timestamp: new Date(Date.UTC(2025, 0, 1) + index * 2 * 60 * 60 * 1000).toISOString(),
+  energyGenerated: 512.5,
+  intervalHours: 2,
+  peakPower: 1480.25,
+  efficiency: 18.4,
+  temperature: 31.2,
+  ...values,
+});
+
+beforeAll(async () => {
+  server = await listen(app);
+});
+
+afterAll(async () => {
+  setSolarUnitProvider(null);
+  await server.close();
+});
+
+beforeEach(() => {
+  setSolarUnitProvider({ name: "test", getActiveSolarUnits: async () => [] });
+  vi.spyOn(DeviceKey, "findOneAndUpdate").mockResolvedValue({ serialNumber: "SU-0001" });
+  vi.spyOn(EnergyGenerationRecord, "bulkWrite").mockImplementation((async (operations: unknown[]) => ({
+    upsertedIds: Object.fromEntries(operations.map((_, index) => [index, new mongoose.Types.ObjectId()])),
+  })) as any);
+  vi.spyOn(EnergyGenerationRecord, "find").mockReturnValue({
+    sort: () => ({ lean: async () => [{ serialNumber: "SU-0001" }] }),
+  } as any);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("POST /api/energy-generation-records/bulk", () => {
+  it("accepts a full batch of 1000 readings", async () => {
+    const body = JSON.stringify({ records: Array.from({ length: 1000 }, (_, index) => reading(index)) });
+    expect(body.length).toBeGreaterThan(100 * 1024);
+
+    const response = await post("/bulk", body);
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ accepted: 1000, duplicates: 0, rejected: 0 });
+  });
+
+  it("reports each reading as accepted, duplicate or rejected with its reason", async () => {
+    const response = await post(
+      "/bulk",
+      JSON.stringify({
+        records: [
+          reading(0),
+          reading(1, { energyGenerated: -5 }),
+          reading(2, { intervalHours: 30 }),
+          reading(3, { serialNumber: "SU-0002" }),
+          reading(0),
+        ],
+      })
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ accepted: 1, duplicates: 1, rejected: 3 });
+    expect(response.body.results.map(({ status, reason }: { status: string; reason?: string }) => [status, reason])).toEqual([
+      ["accepted", undefined],
+      ["rejected", "energyGenerated: energyGenerated must not be negative"],
+      ["rejected", "intervalHours: intervalHours must be at most 24"],
+      ["rejected", "Device key is not valid for this serial number"],
+      ["duplicate", "Repeated earlier in this batch"],
+    ]);
+  });
+
+  it("answers a body over the limit with 413 and a reason", async () => {
+    const response = await post("/bulk", JSON.stringify({ records: [reading(0, { note: "x".repeat(1024 * 1024) })] }));
+
+    expect(response.status).toBe(413);
+    expect(response.body.message).toBe("Request body is larger than the 1048576 byte limit");
+  });
+
+  it("answers malformed JSON with 400 and a reason", async () => {
+    const response = await post("/bulk", '{"records": [');
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toBe("Request body is not valid JSON");
+  });
+});
+
+describe("POST /api/energy-generation-records", () => {
+  it("rejects an out of range reading with its reason", async () => {
+    const response = await post("/", JSON.stringify(reading(0, { intervalHours: 0 })));
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toBe("intervalHours: intervalHours must be at least 0.1");
+  });
+
+  it("keeps the default limit on other routes", async () => {
+    const response = await post("/", JSON.stringify(reading(0, { note: "x".repeat(200 * 1024) })));
+
+    expect(response.status).toBe(413);
+  });
+});
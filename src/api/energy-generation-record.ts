@@ -1,10 +1,34 @@
 import express from "express";
-import { getAllEnergyGenerationRecordsBySerialNumber } from "../application/energy-generation-record";
+import {
+  createEnergyGenerationRecord,
+  createEnergyGenerationRecordsBulk,
+  getAllEnergyGenerationRecordsBySerialNumber,
+} from "../application/energy-generation-record";
+import { exportEnergyGenerationRecordsBySerialNumber } from "../application/energy-generation-record-export";
+import { isAuthenticatedOrService, isDevice } from "./middlewares/authentication-middleware";
+
+/**
+ * Body parser of the bulk route, mounted ahead of the app-wide express.json (which then leaves the body alone)
+ * A full batch of 1000 readings is well over express.json's default 100kb.
+ */
+export const bulkJsonParser = express.json({ limit: "1mb" });
 
 const energyGenerationRecordRouter = express.Router();
 
+energyGenerationRecordRouter
+  .route("/")
+  .post(isDevice, createEnergyGenerationRecord);
+
+energyGenerationRecordRouter
+  .route("/bulk")
+  .post(isDevice, createEnergyGenerationRecordsBulk);
+
 energyGenerationRecordRouter
   .route("/solar-unit/:serialNumber")
-  .get(getAllEnergyGenerationRecordsBySerialNumber);
+  .get(isAuthenticatedOrService, getAllEnergyGenerationRecordsBySerialNumber);
+
+energyGenerationRecordRouter
+  .route("/solar-unit/:serialNumber/export")
+  .get(isAuthenticatedOrService, exportEnergyGenerationRecordsBySerialNumber);
 
 export default energyGenerationRecordRouter;
@@ -0,0 +1,8 @@
+import express from "express";
+import { getForecast } from "../application/forecast";
+
+const forecastRouter = express.Router();
+
+forecastRouter.route("/:serialNumber").get(getForecast);
+
+export default forecastRouter;
@@ -0,0 +1,9 @@
+import express from "express";
+import { getLiveness, getReadiness } from "../application/health";
+
+const healthRouter = express.Router();
+
+healthRouter.route("/live").get(getLiveness);
+healthRouter.route("/ready").get(getReadiness);
+
+export default healthRouter;
@@ -0,0 +1,9 @@
+import express from "express";
+import { getFleetMetrics, getSolarUnitMetrics } from "../application/metrics";
+
+const metricsRouter = express.Router();
+
+metricsRouter.route("/fleet").get(getFleetMetrics);
+metricsRouter.route("/solar-unit/:serialNumber").get(getSolarUnitMetrics);
+
+export default metricsRouter;
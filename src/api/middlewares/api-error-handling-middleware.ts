@@ -0,0 +1,32 @@
+import { NextFunction, Request, Response } from "express";
+import { API_ERROR_CODES } from "../../domain/dtos/v1";
+import { logger } from "../../infrastructure/logging/logger";
+
+type ApiErrorCode = (typeof API_ERROR_CODES)[number];
+
+// Domain errors by name, as in globalErrorHandler
+const DOMAIN_ERRORS: Record<string, { status: number; code: ApiErrorCode }> = {
+  ValidationError: { status: 400, code: "VALIDATION_ERROR" },
+  UnauthorizedError: { status: 401, code: "UNAUTHORIZED" },
+  ForbiddenError: { status: 403, code: "FORBIDDEN" },
+  NotFoundError: { status: 404, code: "NOT_FOUND" },
+  ConflictError: { status: 409, code: "CONFLICT" },
+};
+
+/**
+ * Error handler of the versioned API: every error as { error: { code, message, status } }
+ */
+export const apiErrorHandler = (
+  err: Error,
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const known = DOMAIN_ERRORS[err.name];
+  if (known) {
+    return res.status(known.status).json({ error: { ...known, message: err.message } });
+  }
+
+  logger.error("Unhandled error", { error: err });
+  res.status(500).json({ error: { status: 500, code: "INTERNAL_ERROR", message: "Internal server error" } });
+};
@@ -0,0 +1,130 @@
+import express from "express";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { setAuthVerifier } from "../../infrastructure/auth/auth-verifier";
+import { LocalAuthVerifier } from "../../infrastructure/auth/local-auth-verifier";
+import { listen } from "../../test/listen";
+import { isAuthenticated, isAuthenticatedOrService } from "./authentication-middleware";
+import { isAdmin, isAdminOrServiceWithScope } from "./authorization-middleware";
+import { globalErrorHandler } from "./global-error-handling-middleware";
+
+const issuer = new LocalAuthVerifier("test-secret", "test-issuer");
+
+const app = express();
+app.get("/user", isAuthenticated, (req, res) => res.json(req.principal));
+app.get("/user-or-service", isAuthenticatedOrService, (req, res) => res.json(req.principal));
+app.get("/admin", isAuthenticated, isAdmin, (req, res) => res.json(req.principal));
+app.get("/generation", isAuthenticatedOrService, isAdminOrServiceWithScope("generation"), (req, res) => res.json(req.principal));
+app.use(globalErrorHandler);
+
+let server: Awaited<ReturnType<typeof listen>>;
+
+const get = (path: string, headers: Record<string, string> = {}) => fetch(`${server.url}${path}`, { headers });
+
+const bearer = (token: string) => ({ authorization: `Bearer ${token}` });
+
+beforeAll(async () => {
+  server = await listen(app);
+});
+
+afterAll(async () => {
+  setAuthVerifier(null);
+  delete process.env.SERVICE_API_KEYS;
+  delete process.env.SERVICE_API_KEY_SCOPES;
+  await server.close();
+});
+
+beforeEach(() => {
+  setAuthVerifier(issuer);
+  process.env.SERVICE_API_KEYS = "cron:cron-key,core-backend:core-key";
+  process.env.SERVICE_API_KEY_SCOPES = "cron:generation,cron:unknown-scope";
+});
+
+describe("isAuthenticated", () => {
+  it("resolves the user from a valid token", async () => {
+    const response = await get("/user", bearer(issuer.sign({ userId: "user_1", role: "staff" })));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ type: "user", userId: "user_1", role: "staff" });
+  });
+
+  it("rejects a request without a token", async () => {
+    expect((await get("/user")).status).toBe(401);
+  });
+
+  it("rejects a token signed with another secret", async () => {
+    const forged = new LocalAuthVerifier("other-secret", "test-issuer").sign({ userId: "user_1", role: "admin" });
+
+    expect((await get("/user", bearer(forged))).status).toBe(401);
+  });
+
+  it("rejects a token from another issuer", async () => {
+    const token = new LocalAuthVerifier("test-secret", "other-issuer").sign({ userId: "user_1" });
+
+    expect((await get("/user", bearer(token))).status).toBe(401);
+  });
+
+  it("rejects an expired token", async () => {
+    expect((await get("/user", bearer(issuer.sign({ userId: "user_1" }, -1)))).status).toBe(401);
+  });
+
+  it("does not accept a service API key", async () => {
+    expect((await get("/user", { "x-api-key": "cron-key" })).status).toBe(401);
+  });
+});
+
+describe("isAuthenticatedOrService", () => {
+  it("resolves the service named for the API key", async () => {
+    const response = await get("/user-or-service", { "x-api-key": "core-key" });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ type: "service", name: "core-backend", scopes: [] });
+  });
+
+  it("rejects an unknown API key even alongside a valid token", async () => {
+    const response = await get("/user-or-service", {
+      "x-api-key": "wrong-key",
+      ...bearer(issuer.sign({ userId: "user_1" })),
+    });
+
+    expect(response.status).toBe(401);
+  });
+
+  it("rejects every API key when SERVICE_API_KEYS is unset", async () => {
+    delete process.env.SERVICE_API_KEYS;
+
+    expect((await get("/user-or-service", { "x-api-key": "cron-key" })).status).toBe(401);
+  });
+
+  it("falls back to the session token without an API key", async () => {
+    const response = await get("/user-or-service", bearer(issuer.sign({ userId: "user_1" })));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ type: "user", userId: "user_1" });
+  });
+});
+
+describe("isAdmin", () => {
+  it("lets admins through", async () => {
+    expect((await get("/admin", bearer(issuer.sign({ userId: "user_1", role: "admin" })))).status).toBe(200);
+  });
+
+  it("forbids users without the admin role", async () => {
+    expect((await get("/admin", bearer(issuer.sign({ userId: "user_1", role: "staff" })))).status).toBe(403);
+    expect((await get("/admin", bearer(issuer.sign({ userId: "user_1" })))).status).toBe(403);
+  });
+});
+
+describe("isAdminOrServiceWithScope", () => {
+  it("lets admins and services granted the scope through", async () => {
+    const response = await get("/generation", { "x-api-key": "cron-key" });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ type: "service", name: "cron", scopes: ["generation"] });
+    expect((await get("/generation", bearer(issuer.sign({ userId: "user_1", role: "admin" })))).status).toBe(200);
+  });
+
+  it("forbids services without the scope and users without the admin role", async () => {
+    expect((await get("/generation", { "x-api-key": "core-key" })).status).toBe(403);
+    expect((await get("/generation", bearer(issuer.sign({ userId: "user_1", role: "staff" })))).status).toBe(403);
+  });
+});
@@ -0,0 +1,174 @@
+import { timingSafeEqual } from "crypto";
+import { NextFunction, Request, Response } from "express";
+import { UnauthorizedError } from "../../domain/errors/errors";
+import { SERVICE_SCOPES, ServiceScope } from "../../domain/types";
+import { hashDeviceKey } from "../../application/device-key";
+import { getAuthVerifier } from "../../infrastructure/auth/auth-verifier";
+import { verifyStreamToken } from "../../infrastructure/auth/stream-tokens";
+import { DeviceKey } from "../../infrastructure/entities/DeviceKey";
+
+const getBearerToken = (req: Request) => {
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith("Bearer ")) {
+    return null;
+  }
+  return header.slice("Bearer ".length).trim() || null;
+};
+
+/**
+ * Service API keys from SERVICE_API_KEYS, formatted as "name:key,name:key"
+ */
+const getServiceApiKeys = () =>
+  (process.env.SERVICE_API_KEYS || "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf(":");
+      return separator === -1
+        ? { name: "service", key: entry }
+        : { name: entry.slice(0, separator), key: entry.slice(separator + 1) };
+    });
+
+/**
+ * Scopes granted to services from SERVICE_API_KEY_SCOPES, formatted as "name:scope,name:scope"
+ * (e.g. "cron-job:generation"); services not listed there may only read
+ */
+const getServiceScopes = (name: string) =>
+  (process.env.SERVICE_API_KEY_SCOPES || "")
+    .split(",")
+    .map((entry) => entry.trim().split(":"))
+    .filter(([service, scope]) => service === name && SERVICE_SCOPES.includes(scope as ServiceScope))
+    .map(([, scope]) => scope as ServiceScope);
+
+const matches = (provided: string, key: string) => {
+  const expected = Buffer.from(key);
+  const actual = Buffer.from(provided);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
+
+const findService = (apiKey: string) => getServiceApiKeys().find(({ key }) => matches(apiKey, key));
+
+const authenticateUser = async (req: Request) => {
+  const token = getBearerToken(req);
+  if (!token) {
+    throw new UnauthorizedError("Unauthorized");
+  }
+  const user = await getAuthVerifier().verify(token);
+  req.principal = { type: "user", ...user };
+};
+
+/**
+ * Requires a signed-in user session
+ */
+export const isAuthenticated = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    await authenticateUser(req);
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Requires a signed-in user session or a service API key in the x-api-key header
+ * Used by read endpoints the core backend calls machine-to-machine
+ */
+export const isAuthenticatedOrService = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const apiKey = req.header("x-api-key");
+    if (apiKey) {
+      const service = findService(apiKey);
+      if (!service) {
+        throw new UnauthorizedError("Invalid API key");
+      }
+      req.principal = { type: "service", name: service.name, scopes: getServiceScopes(service.name) };
+      return next();
+    }
+
+    await authenticateUser(req);
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Requires a stream token (see POST /api/stream/token) in the access_token query parameter, or what
+ * isAuthenticatedOrService accepts
+ * Browsers' EventSource cannot set headers, so it authenticates through the URL with a short-lived token.
+ */
+export const isStreamClient = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const token = req.query.access_token;
+  if (token === undefined) {
+    return isAuthenticatedOrService(req, res, next);
+  }
+  try {
+    if (typeof token !== "string") {
+      throw new UnauthorizedError("Malformed stream token");
+    }
+    req.principal = verifyStreamToken(token);
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Requires a device key in the x-device-key header
+ * The device may only submit readings for the solar unit its key was issued for.
+ */
+export const isDevice = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const deviceKey = req.header("x-device-key");
+    if (!deviceKey) {
+      throw new UnauthorizedError("Device key required");
+    }
+
+    const device = await DeviceKey.findOneAndUpdate(
+      { keyHash: hashDeviceKey(deviceKey), revokedAt: { $exists: false } },
+      { $set: { lastUsedAt: new Date() } }
+    );
+    if (!device) {
+      throw new UnauthorizedError("Invalid device key");
+    }
+
+    req.principal = { type: "device", serialNumber: device.serialNumber };
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Requires METRICS_TOKEN as a bearer token when it is set
+ * Without it /metrics is open, for scrapers that reach the service from inside its network.
+ */
+export const isMetricsScraper = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const metricsToken = process.env.METRICS_TOKEN;
+  const token = getBearerToken(req);
+  if (metricsToken && !(token && matches(token, metricsToken))) {
+    return next(new UnauthorizedError("Invalid metrics token"));
+  }
+  next();
+};
@@ -0,0 +1,42 @@
+import { NextFunction, Request, Response } from "express";
+import { ForbiddenError, UnauthorizedError } from "../../domain/errors/errors";
+import { Role, ServiceScope } from "../../domain/types";
+
+/**
+ * Requires the authenticated user to have one of the given roles
+ * Must run after isAuthenticated
+ */
+export const hasRole = (...roles: Role[]) => (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const principal = req.principal;
+  if (!principal) {
+    return next(new UnauthorizedError("Unauthorized"));
+  }
+  if (principal.type !== "user" || !principal.role || !roles.includes(principal.role)) {
+    return next(new ForbiddenError("Forbidden"));
+  }
+  next();
+};
+
+export const isAdmin = hasRole("admin");
+
+/**
+ * Lets admins through, and services whose key SERVICE_API_KEY_SCOPES grants the scope
+ * Must run after isAuthenticatedOrService
+ */
+export const isAdminOrServiceWithScope = (scope: ServiceScope) => (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const principal = req.principal;
+  if (principal?.type === "service") {
+    return principal.scopes.includes(scope)
+      ? next()
+      : next(new ForbiddenError(`Service key does not have the ${scope} scope`));
+  }
+  isAdmin(req, res, next);
+};
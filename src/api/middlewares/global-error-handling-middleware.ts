@@ -1,12 +1,45 @@
 import { NextFunction, Request, Response } from "express";
+import { logger } from "../../infrastructure/logging/logger";
+
+const DOMAIN_ERROR_NAMES = [
+  "NotFoundError",
+  "ValidationError",
+  "UnauthorizedError",
+  "ForbiddenError",
+  "ConflictError",
+];
+
+// Errors express.json raises before a handler runs, e.g. { type: "entity.too.large", status: 413 }
+type BodyParserError = Error & { type?: string; status?: number; limit?: number };
+
+const describeBodyParserError = (err: BodyParserError) => {
+  if (err.type === "entity.too.large") {
+    return `Request body is larger than the ${err.limit} byte limit`;
+  }
+  if (err.type === "entity.parse.failed") {
+    return "Request body is not valid JSON";
+  }
+  return err.message;
+};
 
 export const globalErrorHandler = (
-  err: Error,
+  err: BodyParserError,
   req: Request,
   res: Response,
   next: NextFunction
 ) => {
-  console.error(err);
+  if (err.type && err.status && err.status >= 400 && err.status < 500) {
+    const message = describeBodyParserError(err);
+    logger.info("Request rejected", { reason: err.type, message });
+    return res.status(err.status).json({ message });
+  }
+
+  // Domain errors are expected outcomes; anything else is a bug or an outage
+  if (DOMAIN_ERROR_NAMES.includes(err.name)) {
+    logger.info("Request rejected", { reason: err.name, message: err.message });
+  } else {
+    logger.error("Unhandled error", { error: err });
+  }
   if (err.name === "NotFoundError") {
     return res.status(404).json({ message: err.message });
   }
@@ -19,6 +52,14 @@ export const globalErrorHandler = (
     return res.status(401).json({ message: err.message });
   }
 
+  if (err.name === "ForbiddenError") {
+    return res.status(403).json({ message: err.message });
+  }
+
+  if (err.name === "ConflictError") {
+    return res.status(409).json({ message: err.message });
+  }
+
   // Handle other errors
   res.status(500).json({ message: "Internal server error" });
 };
@@ -0,0 +1,111 @@
+import axios from "axios";
+import express from "express";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { traceOutboundRequests } from "../../infrastructure/logging/http-tracing";
+import { getLogContext, logger } from "../../infrastructure/logging/logger";
+import { renderMetrics } from "../../infrastructure/metrics/metrics-registry";
+import { listen } from "../../test/listen";
+import { loggerMiddleware } from "./logger-middleware";
+
+// Stand-in for a service this one calls, recording the request ids it receives
+const forwardedIds: (string | undefined)[] = [];
+const downstream = express();
+downstream.get("/readings", (req, res) => {
+  forwardedIds.push(req.header("x-request-id"));
+  res.json([]);
+});
+
+const client = axios.create();
+traceOutboundRequests(client);
+
+let downstreamServer: Awaited<ReturnType<typeof listen>>;
+let server: Awaited<ReturnType<typeof listen>>;
+
+const app = express();
+app.use(loggerMiddleware);
+app.get("/api/items/:id", async (req, res) => {
+  await client.get(`${downstreamServer.url}/readings?key=secret`);
+  res.json({ requestId: req.requestId, context: getLogContext() });
+});
+app.get("/api/broken", () => {
+  throw new Error("Broken");
+});
+app.get("/health", (req, res) => {
+  res.json({ status: "ok" });
+});
+
+beforeAll(async () => {
+  downstreamServer = await listen(downstream);
+  server = await listen(app);
+});
+
+afterAll(async () => {
+  await server.close();
+  await downstreamServer.close();
+});
+
+beforeEach(() => {
+  forwardedIds.length = 0;
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("loggerMiddleware", () => {
+  it("tags the request with an id, echoes it and carries it through the handler and its outbound calls", async () => {
+    const debug = vi.spyOn(logger, "debug");
+
+    const response = await fetch(`${server.url}/api/items/42`);
+    const body = await response.json();
+
+    const requestId = response.headers.get("x-request-id");
+    expect(requestId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(body).toEqual({ requestId, context: { requestId } });
+    expect(forwardedIds).toEqual([requestId]);
+    expect(debug).toHaveBeenCalledWith(
+      "Outbound request completed",
+      expect.objectContaining({ method: "GET", url: `${downstreamServer.url}/readings`, status: 200 })
+    );
+  });
+
+  it("keeps a plausible incoming request id and replaces an implausible one", async () => {
+    const kept = await fetch(`${server.url}/api/items/42`, { headers: { "x-request-id": "edge-7f3a.1" } });
+    const replaced = await fetch(`${server.url}/api/items/42`, { headers: { "x-request-id": "<script>" } });
+
+    expect(kept.headers.get("x-request-id")).toBe("edge-7f3a.1");
+    expect(replaced.headers.get("x-request-id")).not.toBe("<script>");
+    expect(forwardedIds).toEqual(["edge-7f3a.1", replaced.headers.get("x-request-id")]);
+  });
+
+  it("logs the status, declared route and duration once the response is done, and measures it", async () => {
+    const info = vi.spyOn(logger, "info");
+
+    await fetch(`${server.url}/api/items/42`, { headers: { "x-request-id": "req-logged" } });
+
+    await vi.waitFor(() =>
+      expect(info).toHaveBeenCalledWith("Request completed", {
+        requestId: "req-logged",
+        method: "GET",
+        path: "/api/items/42",
+        route: "/api/items/:id",
+        status: 200,
+        durationMs: expect.any(Number),
+      })
+    );
+    expect(renderMetrics()).toMatch(/http_request_duration_seconds_count\{method="GET",route="\/api\/items\/:id",status="200"\} \d+/);
+  });
+
+  it("logs server errors as failures and probes only at debug level", async () => {
+    const error = vi.spyOn(logger, "error");
+    const debug = vi.spyOn(logger, "debug");
+
+    await fetch(`${server.url}/api/broken`);
+    await fetch(`${server.url}/health`);
+
+    await vi.waitFor(() => {
+      expect(error).toHaveBeenCalledWith("Request failed", expect.objectContaining({ route: "/api/broken", status: 500 }));
+      expect(debug).toHaveBeenCalledWith("Request completed", expect.objectContaining({ path: "/health", status: 200 }));
+    });
+  });
+});
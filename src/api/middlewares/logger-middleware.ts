@@ -1,10 +1,69 @@
+import { randomUUID } from "crypto";
 import { Request, Response, NextFunction } from "express";
+import { logger, runWithLogContext } from "../../infrastructure/logging/logger";
+import { httpRequestDuration } from "../../infrastructure/metrics/metrics";
 
+const REQUEST_ID_HEADER = "x-request-id";
+
+// A caller's id is kept when it is a plausible one (e.g. set by a proxy), so traces join up across services
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+// Probes and scrapes arrive every few seconds, failing ones included; their lines only show at LOG_LEVEL=debug
+const QUIET_PATHS = ["/health", "/metrics"];
+
+// Query parameters that carry credentials (stream tokens) are kept out of the logs
+const SECRET_QUERY_PARAMETER = /([?&]access_token=)[^&]*/g;
+
+export const redactUrl = (url: string) => url.replace(SECRET_QUERY_PARAMETER, "$1[redacted]");
+
+// Route as declared ("/api/solar-units/:serialNumber"), so the latency histogram has bounded labels
+const routeOf = (req: Request) => {
+  if (!req.route) {
+    return "unmatched";
+  }
+  // The app router unsets baseUrl again when an error falls through to express's own handler
+  const baseUrl = req.baseUrl ?? "";
+  return baseUrl && req.route.path === "/" ? baseUrl : `${baseUrl}${req.route.path}`;
+};
+
+/**
+ * Tag the request with an id (echoed in x-request-id), run the rest of it in that log context,
+ * and log and measure its status and duration once the response is done
+ */
 export const loggerMiddleware = (
   req: Request,
   res: Response,
   next: NextFunction
 ) => {
-  console.log(`${req.method} ${req.url}`);
-  next();
+  const incoming = req.header(REQUEST_ID_HEADER);
+  const requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+  req.requestId = requestId;
+  res.setHeader(REQUEST_ID_HEADER, requestId);
+
+  const started = process.hrtime.bigint();
+  res.once("close", () => {
+    const durationSeconds = Number(process.hrtime.bigint() - started) / 1e9;
+    // A response closed before it finished was abandoned by the client
+    const status = res.writableFinished ? res.statusCode : 499;
+    const route = routeOf(req);
+    httpRequestDuration.observe({ method: req.method, route, status }, durationSeconds);
+
+    const fields = {
+      requestId,
+      method: req.method,
+      path: redactUrl(req.originalUrl),
+      route,
+      status,
+      durationMs: Math.round(durationSeconds * 1000),
+    };
+    if (QUIET_PATHS.some((path) => req.originalUrl.startsWith(path))) {
+      logger.debug("Request completed", fields);
+    } else if (status >= 500) {
+      logger.error("Request failed", fields);
+    } else {
+      logger.info("Request completed", fields);
+    }
+  });
+
+  runWithLogContext({ requestId }, next);
 };
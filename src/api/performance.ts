@@ -0,0 +1,8 @@
+import express from "express";
+import { getPerformance } from "../application/performance";
+
+const performanceRouter = express.Router();
+
+performanceRouter.route("/:serialNumber").get(getPerformance);
+
+export default performanceRouter;
@@ -0,0 +1,8 @@
+import express from "express";
+import { getPrometheusMetrics } from "../application/prometheus";
+
+const prometheusRouter = express.Router();
+
+prometheusRouter.route("/").get(getPrometheusMetrics);
+
+export default prometheusRouter;
@@ -0,0 +1,87 @@
+import express from "express";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { setAuthVerifier } from "../infrastructure/auth/auth-verifier";
+import { LocalAuthVerifier } from "../infrastructure/auth/local-auth-verifier";
+import { SolarUnit } from "../infrastructure/entities/SolarUnit";
+import { listen } from "../test/listen";
+import { isAuthenticatedOrService } from "./middlewares/authentication-middleware";
+import { globalErrorHandler } from "./middlewares/global-error-handling-middleware";
+import solarUnitRouter from "./solar-unit";
+
+const issuer = new LocalAuthVerifier("test-secret", "test-issuer");
+
+const app = express();
+app.use(express.json());
+app.use("/api/solar-units", isAuthenticatedOrService, solarUnitRouter);
+app.use(globalErrorHandler);
+
+let server: Awaited<ReturnType<typeof listen>>;
+
+const send = async (method: string, path: string, headers: Record<string, string>) => {
+  const response = await fetch(`${server.url}/api/solar-units${path}`, {
+    method,
+    headers: { "content-type": "application/json", ...headers },
+    body: method === "GET" ? undefined : "{}",
+  });
+  return { status: response.status, body: await response.json() };
+};
+
+// Every registry write, with the status it answers once authorization passes: 400 for the empty body, 404 for the unknown unit
+const writes = [
+  ["POST", "/", 400],
+  ["PUT", "/SU-9999", 400],
+  ["DELETE", "/SU-9999", 404],
+  ["POST", "/SU-9999/status", 400],
+] as const;
+
+beforeAll(async () => {
+  server = await listen(app);
+});
+
+afterAll(async () => {
+  setAuthVerifier(null);
+  delete process.env.SERVICE_API_KEYS;
+  delete process.env.SERVICE_API_KEY_SCOPES;
+  await server.close();
+});
+
+beforeEach(() => {
+  setAuthVerifier(issuer);
+  process.env.SERVICE_API_KEYS = "core-backend:core-key,reporting:reporting-key";
+  process.env.SERVICE_API_KEY_SCOPES = "core-backend:registry,reporting:generation";
+  vi.spyOn(SolarUnit, "findOne").mockResolvedValue(null);
+  vi.spyOn(SolarUnit, "find").mockReturnValue({ sort: () => ({ lean: async () => [] }) } as any);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("solar unit registry authorization", () => {
+  it.each(writes)("%s %s lets a service with the registry scope through", async (method, path, status) => {
+    expect((await send(method, path, { "x-api-key": "core-key" })).status).toBe(status);
+  });
+
+  it.each(writes)("%s %s lets admins through", async (method, path, status) => {
+    const token = issuer.sign({ userId: "user_1", role: "admin" });
+
+    expect((await send(method, path, { authorization: `Bearer ${token}` })).status).toBe(status);
+  });
+
+  it.each(writes)("%s %s forbids services without the registry scope", async (method, path) => {
+    const response = await send(method, path, { "x-api-key": "reporting-key" });
+
+    expect(response.status).toBe(403);
+    expect(response.body).toMatchObject({ message: "Service key does not have the registry scope" });
+  });
+
+  it.each(writes)("%s %s forbids users without the admin role", async (method, path) => {
+    const token = issuer.sign({ userId: "user_1", role: "staff" });
+
+    expect((await send(method, path, { authorization: `Bearer ${token}` })).status).toBe(403);
+  });
+
+  it("lets any service read the registry", async () => {
+    expect((await send("GET", "/", { "x-api-key": "reporting-key" })).status).toBe(200);
+  });
+});
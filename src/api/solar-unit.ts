@@ -0,0 +1,29 @@
+import express from "express";
+import {
+  changeSolarUnitStatus,
+  createSolarUnit,
+  deleteSolarUnit,
+  getSolarUnitBySerialNumber,
+  getSolarUnits,
+  updateSolarUnit,
+} from "../application/solar-unit";
+import { isAdminOrServiceWithScope } from "./middlewares/authorization-middleware";
+
+const solarUnitRouter = express.Router();
+
+solarUnitRouter
+  .route("/")
+  .get(getSolarUnits)
+  .post(isAdminOrServiceWithScope("registry"), createSolarUnit);
+
+solarUnitRouter
+  .route("/:serialNumber")
+  .get(getSolarUnitBySerialNumber)
+  .put(isAdminOrServiceWithScope("registry"), updateSolarUnit)
+  .delete(isAdminOrServiceWithScope("registry"), deleteSolarUnit);
+
+solarUnitRouter
+  .route("/:serialNumber/status")
+  .post(isAdminOrServiceWithScope("registry"), changeSolarUnitStatus);
+
+export default solarUnitRouter;
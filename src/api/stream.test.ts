@@ -0,0 +1,135 @@
+import express from "express";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { setAuthVerifier } from "../infrastructure/auth/auth-verifier";
+import { LocalAuthVerifier } from "../infrastructure/auth/local-auth-verifier";
+import { publishLiveEvent } from "../infrastructure/live-events/live-events";
+import { logger } from "../infrastructure/logging/logger";
+import { listen } from "../test/listen";
+import { globalErrorHandler } from "./middlewares/global-error-handling-middleware";
+import { loggerMiddleware } from "./middlewares/logger-middleware";
+import streamRouter from "./stream";
+
+const issuer = new LocalAuthVerifier("test-secret", "test-issuer");
+
+const app = express();
+app.use(loggerMiddleware);
+app.use("/api/stream", streamRouter);
+app.use(globalErrorHandler);
+
+let server: Awaited<ReturnType<typeof listen>>;
+
+const issueToken = async () => {
+  const response = await fetch(`${server.url}/api/stream/token`, {
+    method: "POST",
+    headers: { authorization: `Bearer ${issuer.sign({ userId: "user_1", role: "staff" })}` },
+  });
+  expect(response.status).toBe(201);
+  return (await response.json()) as { token: string; expiresAt: string };
+};
+
+// Read the stream until it contains the text
+const readUntil = async (body: ReadableStream<Uint8Array>, text: string) => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let received = "";
+  while (!received.includes(text)) {
+    const { value, done } = await reader.read();
+    if (done) {
+      break;
+    }
+    received += decoder.decode(value);
+  }
+  reader.releaseLock();
+  return received;
+};
+
+beforeAll(async () => {
+  server = await listen(app);
+});
+
+afterAll(async () => {
+  setAuthVerifier(null);
+  await server.close();
+});
+
+beforeEach(() => {
+  setAuthVerifier(issuer);
+  process.env.LIVE_EVENTS_SOURCE = "in-process";
+});
+
+afterEach(() => {
+  delete process.env.LIVE_EVENTS_SOURCE;
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("stream authentication", () => {
+  it("lets a client without custom headers, like a browser EventSource, connect with a stream token", async () => {
+    const { token, expiresAt } = await issueToken();
+    const controller = new AbortController();
+
+    const response = await fetch(`${server.url}/api/stream/solar-unit/SU-0001?access_token=${token}`, {
+      signal: controller.signal,
+    });
+    try {
+      expect(response.status).toBe(200);
+      expect(response.headers.get("content-type")).toContain("text/event-stream");
+      expect(new Date(expiresAt).getTime() - Date.now()).toBeLessThanOrEqual(60 * 1000);
+
+      await readUntil(response.body!, "retry:");
+      publishLiveEvent("records.created", { serialNumber: "SU-0001", records: [] });
+      expect(await readUntil(response.body!, "\n\n")).toContain("event: records.created\n");
+    } finally {
+      controller.abort();
+    }
+  });
+
+  it("still accepts the headers", async () => {
+    const controller = new AbortController();
+
+    const response = await fetch(`${server.url}/api/stream/fleet`, {
+      headers: { authorization: `Bearer ${issuer.sign({ userId: "user_1" })}` },
+      signal: controller.signal,
+    });
+
+    expect(response.status).toBe(200);
+    controller.abort();
+  });
+
+  it.each([
+    ["no token", ""],
+    ["a forged token", "?access_token=eyJwcmluY2lwYWwiOnt9fQ.forged"],
+    ["a malformed token", "?access_token=nonsense"],
+  ])("refuses a connection with %s", async (_, query) => {
+    const response = await fetch(`${server.url}/api/stream/fleet${query}`);
+
+    expect(response.status).toBe(401);
+  });
+
+  it("refuses an expired stream token", async () => {
+    const { token } = await issueToken();
+    vi.useFakeTimers({ toFake: ["Date"], now: Date.now() + 61 * 1000 });
+
+    const response = await fetch(`${server.url}/api/stream/fleet?access_token=${token}`);
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toMatchObject({ message: "Stream token expired" });
+  });
+
+  it("does not hand out stream tokens without authentication", async () => {
+    expect((await fetch(`${server.url}/api/stream/token`, { method: "POST" })).status).toBe(401);
+  });
+
+  it("keeps the token out of the request log", async () => {
+    const info = vi.spyOn(logger, "info");
+
+    await fetch(`${server.url}/api/stream/fleet?lastEventId=abc-1&access_token=secret-token`);
+
+    await vi.waitFor(() =>
+      expect(info).toHaveBeenCalledWith(
+        "Request completed",
+        expect.objectContaining({ path: "/api/stream/fleet?lastEventId=abc-1&access_token=[redacted]" })
+      )
+    );
+  });
+});
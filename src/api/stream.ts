@@ -0,0 +1,11 @@
+import express from "express";
+import { createStreamToken, streamFleetEvents, streamSolarUnitEvents } from "../application/stream";
+import { isAuthenticatedOrService, isStreamClient } from "./middlewares/authentication-middleware";
+
+const streamRouter = express.Router();
+
+streamRouter.route("/token").post(isAuthenticatedOrService, createStreamToken);
+streamRouter.route("/fleet").get(isStreamClient, streamFleetEvents);
+streamRouter.route("/solar-unit/:serialNumber").get(isStreamClient, streamSolarUnitEvents);
+
+export default streamRouter;
@@ -0,0 +1,296 @@
+import express from "express";
+import mongoose from "mongoose";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { API_RESPONSE_SCHEMAS } from "../domain/dtos/v1";
+import { SolarUnit as SolarUnitType } from "../domain/types";
+import { Anomaly } from "../infrastructure/entities/Anomaly";
+import { EnergyGenerationRecord } from "../infrastructure/entities/EnergyGenerationRecord";
+import { SolarUnit } from "../infrastructure/entities/SolarUnit";
+import { logger } from "../infrastructure/logging/logger";
+import { setSolarUnitProvider } from "../infrastructure/solar-units/solar-unit-provider";
+import { listen } from "../test/listen";
+import v1Router from "./v1";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const units = [
+  {
+    _id: new mongoose.Types.ObjectId(),
+    serialNumber: "SU-0001",
+    name: "Roof",
+    installationDate: new Date("2024-01-15T00:00:00Z"),
+    capacity: 5000,
+    status: "ACTIVE",
+    timezone: "Asia/Colombo",
+    latitude: 6.93,
+    longitude: 79.85,
+  },
+  {
+    _id: new mongoose.Types.ObjectId(),
+    serialNumber: "SU-0002",
+    installationDate: new Date("2023-06-01T00:00:00Z"),
+    capacity: 3000,
+    status: "INACTIVE",
+    decommissionedAt: new Date("2025-06-01T00:00:00Z"),
+  },
+];
+
+// Known only to the unit provider, not the registry
+const providerUnit = {
+  serialNumber: "SU-0003",
+  installationDate: "2025-02-01",
+  capacity: 4000,
+  status: "ACTIVE",
+} as SolarUnitType;
+
+const records = Array.from({ length: 5 }, (_, index) => ({
+  _id: new mongoose.Types.ObjectId(),
+  serialNumber: "SU-0001",
+  timestamp: new Date(Date.UTC(2025, 11, 1) + index * 2 * HOUR_MS),
+  intervalHours: 2,
+  energyGenerated: 400 + index * 100,
+  ...(index % 2 === 0 && { expectedEnergy: 450, peakPower: 1200, efficiency: 18.5, temperature: 31 }),
+  ...(index === 4 && { inMaintenance: true }),
+}));
+
+const anomalies = [
+  {
+    _id: new mongoose.Types.ObjectId(),
+    serialNumber: "SU-0001",
+    type: "ZERO_GENERATION",
+    severity: "HIGH",
+    windowStart: new Date("2025-12-01T04:00:00Z"),
+    windowEnd: new Date("2025-12-01T08:00:00Z"),
+    description: "No output for 4 hours in daylight",
+    evidence: { intervals: 2 },
+    detectedAt: new Date("2025-12-01T09:00:00Z"),
+  },
+  {
+    _id: new mongoose.Types.ObjectId(),
+    serialNumber: "SU-0001",
+    type: "SUDDEN_DROP",
+    severity: "MEDIUM",
+    windowStart: new Date("2025-12-05T03:00:00Z"),
+    windowEnd: new Date("2025-12-05T09:00:00Z"),
+    detectedAt: new Date("2025-12-05T10:00:00Z"),
+  },
+];
+
+// In-memory stand-in for the mongoose queries the v1 handlers build (equality, $and, $or, $gt/$gte/$lt/$lte)
+const comparable = (value: any) => (value instanceof Date ? value.getTime() : String(value));
+
+const matches = (doc: any, filter: Record<string, any>): boolean =>
+  Object.entries(filter).every(([key, condition]) => {
+    if (key === "$and") {
+      return condition.every((part: Record<string, any>) => matches(doc, part));
+    }
+    if (key === "$or") {
+      return condition.some((part: Record<string, any>) => matches(doc, part));
+    }
+    const value = comparable(doc[key]);
+    if (condition && typeof condition === "object" && !(condition instanceof Date) && !mongoose.isValidObjectId(condition)) {
+      return Object.entries(condition).every(([operator, bound]) => {
+        const limit = comparable(bound);
+        return (
+          (operator === "$gt" && value > limit) ||
+          (operator === "$gte" && value >= limit) ||
+          (operator === "$lt" && value < limit) ||
+          (operator === "$lte" && value <= limit)
+        );
+      });
+    }
+    return value === comparable(condition);
+  });
+
+const query = (result: any): any => ({
+  sort: (spec: Record<string, 1 | -1>) =>
+    query(
+      [...result].sort((a: any, b: any) => {
+        for (const [field, direction] of Object.entries(spec)) {
+          const [left, right] = [comparable(a[field]), comparable(b[field])];
+          if (left !== right) {
+            return (left < right ? -1 : 1) * direction;
+          }
+        }
+        return 0;
+      })
+    ),
+  limit: (count: number) => query(result.slice(0, count)),
+  lean: () => Promise.resolve(result),
+  then: (resolve: any, reject: any) => Promise.resolve(result).then(resolve, reject),
+});
+
+const fakeModel = (model: mongoose.Model<any>, docs: any[]) => {
+  vi.spyOn(model, "find").mockImplementation(((filter = {}) => query(docs.filter((doc) => matches(doc, filter)))) as any);
+  vi.spyOn(model, "findOne").mockImplementation(
+    ((filter = {}) => query(docs.find((doc) => matches(doc, filter)) ?? null)) as any
+  );
+  vi.spyOn(model, "exists").mockImplementation(((filter = {}) => {
+    const doc = docs.find((candidate) => matches(candidate, filter));
+    return query(doc ? { _id: doc._id } : null);
+  }) as any);
+};
+
+const app = express();
+app.use("/api/v1", v1Router);
+
+let server: Awaited<ReturnType<typeof listen>>;
+let document: any;
+
+const get = async (path: string, headers: Record<string, string> = { "x-api-key": "contract-key" }) => {
+  const response = await fetch(`${server.url}/api/v1${path}`, { headers });
+  return { status: response.status, body: (await response.json()) as any };
+};
+
+const refId = (ref: string) => ref.replace("#/components/schemas/", "");
+
+/**
+ * Problems with a response against the document: its status must be documented for the route,
+ * and its body must match the schema the document names for that status
+ */
+const contractIssues = (route: string, response: { status: number; body: unknown }) => {
+  const documented = document.paths[route]?.get.responses[String(response.status)];
+  if (!documented) {
+    return [`status ${response.status} is not documented for ${route}`];
+  }
+  const schemaId = refId(documented.content["application/json"].schema.$ref);
+  if (!document.components.schemas[schemaId]) {
+    return [`${schemaId} is not in the document's components`];
+  }
+  const result = API_RESPONSE_SCHEMAS[schemaId].safeParse(response.body);
+  return result.success
+    ? []
+    : result.error.issues.map((issue) => `${schemaId}.${issue.path.join(".")}: ${issue.message}`);
+};
+
+beforeAll(async () => {
+  process.env.SERVICE_API_KEYS = "contract:contract-key";
+  server = await listen(app);
+  document = (await get("/openapi.json", {})).body;
+});
+
+afterAll(async () => {
+  delete process.env.SERVICE_API_KEYS;
+  setSolarUnitProvider(null);
+  await server.close();
+});
+
+beforeEach(() => {
+  fakeModel(SolarUnit, units);
+  fakeModel(EnergyGenerationRecord, records);
+  fakeModel(Anomaly, anomalies);
+  setSolarUnitProvider({ name: "test", getActiveSolarUnits: async () => [providerUnit] });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("/api/v1 contract", () => {
+  it("documents every route the router serves", () => {
+    expect(Object.keys(document.paths).sort()).toEqual([
+      "/solar-units",
+      "/solar-units/{serialNumber}",
+      "/solar-units/{serialNumber}/anomalies",
+      "/solar-units/{serialNumber}/records",
+    ]);
+  });
+
+  it.each([
+    ["/solar-units", "/solar-units"],
+    ["/solar-units?status=INACTIVE", "/solar-units"],
+    ["/solar-units/SU-0001", "/solar-units/{serialNumber}"],
+    ["/solar-units/SU-0002", "/solar-units/{serialNumber}"],
+    ["/solar-units/SU-0003", "/solar-units/{serialNumber}"],
+    ["/solar-units/SU-0001/records", "/solar-units/{serialNumber}/records"],
+    ["/solar-units/SU-0001/records?order=desc&from=2025-12-01T02:00:00Z", "/solar-units/{serialNumber}/records"],
+    ["/solar-units/SU-0001/anomalies", "/solar-units/{serialNumber}/anomalies"],
+    ["/solar-units/SU-0001/anomalies?type=SUDDEN_DROP&severity=MEDIUM", "/solar-units/{serialNumber}/anomalies"],
+    ["/solar-units/SU-0003/records", "/solar-units/{serialNumber}/records"],
+  ])("GET %s answers 200 as documented", async (path, route) => {
+    const response = await get(path);
+
+    expect(response.status).toBe(200);
+    expect(contractIssues(route, response)).toEqual([]);
+  });
+
+  it("pages through records in order until nextCursor is null", async () => {
+    const seen: string[] = [];
+    let cursor: string | null = null;
+    do {
+      const response = await get(`/solar-units/SU-0001/records?limit=2${cursor ? `&cursor=${cursor}` : ""}`);
+      expect(response.status).toBe(200);
+      expect(contractIssues("/solar-units/{serialNumber}/records", response)).toEqual([]);
+      seen.push(...response.body.data.map((record: { id: string }) => record.id));
+      cursor = response.body.page.nextCursor;
+    } while (cursor);
+
+    expect(seen).toEqual(records.map((record) => String(record._id)));
+  });
+
+  it("filters and orders as asked", async () => {
+    const { body: units } = await get("/solar-units?status=INACTIVE");
+    const { body: latest } = await get("/solar-units/SU-0001/records?order=desc&limit=1");
+    const { body: drops } = await get("/solar-units/SU-0001/anomalies?type=SUDDEN_DROP");
+
+    expect(units.data.map((unit: { serialNumber: string }) => unit.serialNumber)).toEqual(["SU-0002"]);
+    expect(latest.data[0].id).toBe(String(records[4]._id));
+    expect(latest.data[0].inMaintenance).toBe(true);
+    expect(drops.data.map((anomaly: { type: string }) => anomaly.type)).toEqual(["SUDDEN_DROP"]);
+  });
+
+  it.each([
+    ["an unknown unit", "/solar-units/SU-9999", "/solar-units/{serialNumber}", 404],
+    ["records of an unknown unit", "/solar-units/SU-9999/records", "/solar-units/{serialNumber}/records", 404],
+    ["an invalid cursor", "/solar-units/SU-0001/records?cursor=not-a-cursor", "/solar-units/{serialNumber}/records", 400],
+    ["an invalid limit", "/solar-units/SU-0001/records?limit=0", "/solar-units/{serialNumber}/records", 400],
+    ["from after to", "/solar-units/SU-0001/anomalies?from=2025-12-05&to=2025-12-01", "/solar-units/{serialNumber}/anomalies", 400],
+    ["an unknown status", "/solar-units?status=RETIRED", "/solar-units", 400],
+  ])("answers %s with a documented error", async (_, path, route, status) => {
+    const response = await get(path);
+
+    expect(response.status).toBe(status);
+    expect(contractIssues(route, response)).toEqual([]);
+  });
+
+  it.each([
+    ["fails", () => Promise.reject(new Error("core backend unreachable"))],
+    ["does not answer in time", () => new Promise<SolarUnitType[]>((resolve) => setTimeout(() => resolve([]), 500))],
+  ])("answers 404 for an unknown unit when the unit provider %s", async (_, getActiveSolarUnits) => {
+    process.env.SOLAR_UNIT_LOOKUP_TIMEOUT_MS = "50";
+    setSolarUnitProvider({ name: "test", getActiveSolarUnits });
+    const warn = vi.spyOn(logger, "warn");
+
+    try {
+      for (const [path, route] of [
+        ["/solar-units/SU-9999", "/solar-units/{serialNumber}"],
+        ["/solar-units/SU-9999/records", "/solar-units/{serialNumber}/records"],
+        ["/solar-units/SU-9999/anomalies", "/solar-units/{serialNumber}/anomalies"],
+      ]) {
+        const response = await get(path);
+        expect(response.status).toBe(404);
+        expect(contractIssues(route, response)).toEqual([]);
+      }
+      expect(warn).toHaveBeenCalledWith(
+        "Solar unit provider lookup failed, treating the unit as unknown",
+        expect.objectContaining({ serialNumber: "SU-9999" })
+      );
+    } finally {
+      delete process.env.SOLAR_UNIT_LOOKUP_TIMEOUT_MS;
+    }
+  });
+
+  it("answers requests without credentials with a documented 401", async () => {
+    const response = await get("/solar-units/SU-0001/records", {});
+
+    expect(response.status).toBe(401);
+    expect(contractIssues("/solar-units/{serialNumber}/records", response)).toEqual([]);
+  });
+
+  it("answers unknown routes with an ErrorResponse", async () => {
+    const response = await get("/no-such-route");
+
+    expect(response.status).toBe(404);
+    expect(API_RESPONSE_SCHEMAS.ErrorResponse.safeParse(response.body).success).toBe(true);
+  });
+});
@@ -0,0 +1,30 @@
+import express from "express";
+import { NotFoundError } from "../domain/errors/errors";
+import {
+  getOpenApi,
+  getSolarUnitV1,
+  listAnomaliesV1,
+  listEnergyGenerationRecordsV1,
+  listSolarUnitsV1,
+} from "../application/v1";
+import { apiErrorHandler } from "./middlewares/api-error-handling-middleware";
+import { isAuthenticatedOrService } from "./middlewares/authentication-middleware";
+
+/**
+ * Versioned API with a fixed contract (see /api/v1/openapi.json); routes must match application/openapi.ts
+ */
+const v1Router = express.Router();
+
+v1Router.route("/openapi.json").get(getOpenApi);
+
+v1Router.use(isAuthenticatedOrService);
+
+v1Router.route("/solar-units").get(listSolarUnitsV1);
+v1Router.route("/solar-units/:serialNumber").get(getSolarUnitV1);
+v1Router.route("/solar-units/:serialNumber/records").get(listEnergyGenerationRecordsV1);
+v1Router.route("/solar-units/:serialNumber/anomalies").get(listAnomaliesV1);
+
+v1Router.use((req, res, next) => next(new NotFoundError("Route not found")));
+v1Router.use(apiErrorHandler);
+
+export default v1Router;
@@ -0,0 +1,321 @@
+import { z } from "zod";
+import { AlertConditionDto } from "../domain/dtos/alert";
+import { addZonedDays, formatZonedDate, getUnitTimeZone, startOfZonedDay } from "../domain/time-zone";
+import { SolarUnit } from "../domain/types";
+import { Alert } from "../infrastructure/entities/Alert";
+import { AlertRule } from "../infrastructure/entities/AlertRule";
+import { EnergyGenerationRecord } from "../infrastructure/entities/EnergyGenerationRecord";
+import { getClearSkyIrradiation } from "../infrastructure/generation/solar-position";
+import { ChannelTarget } from "../infrastructure/notifications/notification-channel";
+import { getNotificationChannel } from "../infrastructure/notifications/notification-channels";
+import { getSolarUnitProvider } from "../infrastructure/solar-units/solar-unit-provider";
+import { DAY_MS, getDailySummaries, getSiteLocation, SiteLocation } from "./energy-rollups";
+import { findMaintenancePeriods } from "./maintenance-schedule";
+import { logger } from "../infrastructure/logging/logger";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DUPLICATE_KEY_ERROR = 11000;
+
+// Mean clear-sky irradiance (W/m²) from which an interval counts as daylight for zero-generation rules
+const DAYLIGHT_IRRADIANCE = 50;
+
+// Fewer baseline days with records than this and low-daily-yield rules do not judge the day
+const MIN_BASELINE_DAYS = 3;
+
+export type AlertCondition = z.infer<typeof AlertConditionDto>;
+
+export type ConditionOutcome = {
+  triggered: boolean;
+  message: string;
+  evidence: Record<string, unknown>;
+};
+
+export type ZeroGenerationRecord = {
+  timestamp: Date;
+  energyGenerated: number;
+  intervalHours?: number | null;
+  inMaintenance?: boolean | null;
+};
+
+type AlertRuleDocument = InstanceType<typeof AlertRule>;
+
+export type EvaluationSummary = {
+  rulesEvaluated: number;
+  fired: number;
+  updated: number;
+  suppressed: number;
+  resolved: number;
+  failures: { ruleId: string; serialNumber: string; message: string }[];
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Daylight hours of zero output leading up to the latest record (records sorted by timestamp)
+ * Night intervals and intervals in maintenance windows neither count nor break the run; any daylight output ends it.
+ */
+export const getZeroGenerationRun = (records: ZeroGenerationRecord[], location: SiteLocation) => {
+  let hours = 0;
+  let intervals = 0;
+  let since: Date | null = null;
+  for (let index = records.length - 1; index >= 0; index--) {
+    const record = records[index];
+    if (record.inMaintenance) {
+      continue;
+    }
+    const intervalHours = record.intervalHours ?? 2;
+    const irradiation = getClearSkyIrradiation(
+      record.timestamp,
+      intervalHours,
+      location.latitude,
+      location.longitude,
+      location.tilt,
+      location.azimuth
+    );
+    if (irradiation / intervalHours < DAYLIGHT_IRRADIANCE) {
+      continue;
+    }
+    if (record.energyGenerated > 0) {
+      break;
+    }
+    hours += intervalHours;
+    intervals++;
+    since = record.timestamp;
+  }
+  return { hours, intervals, since };
+};
+
+const checkZeroGeneration = async (unit: SolarUnit, hours: number, now: Date): Promise<ConditionOutcome> => {
+  // Enough days back to hold `hours` of daylight even on short winter days
+  const lookback = (Math.ceil(hours / 6) + 1) * DAY_MS;
+  const records = await EnergyGenerationRecord.find({
+    serialNumber: unit.serialNumber,
+    timestamp: { $gte: new Date(now.getTime() - lookback), $lte: now },
+  })
+    .sort({ timestamp: 1 })
+    .select("timestamp energyGenerated intervalHours inMaintenance")
+    .lean();
+
+  const run = getZeroGenerationRun(records, getSiteLocation(unit));
+  return {
+    triggered: run.hours > hours,
+    message: `No generation for ${run.hours} daylight hours (limit ${hours})`,
+    evidence: { zeroDaylightHours: run.hours, intervals: run.intervals, since: run.since, limitHours: hours },
+  };
+};
+
+const checkLowDailyYield = async (
+  unit: SolarUnit,
+  ratio: number,
+  baselineDays: number,
+  now: Date
+): Promise<ConditionOutcome> => {
+  const timeZone = getUnitTimeZone(unit);
+  const yesterday = addZonedDays(startOfZonedDay(now, timeZone), -1, timeZone);
+  const summaries = await getDailySummaries(unit, addZonedDays(yesterday, -baselineDays, timeZone), yesterday);
+  const day = summaries[summaries.length - 1];
+  // Days with maintenance are neither judged nor part of the baseline
+  const baseline = summaries
+    .slice(0, -1)
+    .filter((summary) => summary.recordCount > 0 && !summary.maintenanceHours)
+    .map((summary) => summary.energy);
+
+  const date = formatZonedDate(yesterday, timeZone);
+  if (day?.maintenanceHours) {
+    return {
+      triggered: false,
+      message: `${date} had ${day.maintenanceHours} hours of maintenance`,
+      evidence: { date, maintenanceHours: day.maintenanceHours },
+    };
+  }
+  // A day without records is a no-data matter, not a low yield
+  if (!day || day.recordCount === 0 || baseline.length < MIN_BASELINE_DAYS) {
+    return {
+      triggered: false,
+      message: `Not enough data to judge the yield of ${date}`,
+      evidence: { date, baselineDays: baseline.length },
+    };
+  }
+
+  const baselineMedian = median(baseline);
+  const share = baselineMedian > 0 ? day.energy / baselineMedian : null;
+  return {
+    triggered: share !== null && share < ratio,
+    message: `Yield on ${date} was ${share === null ? "n/a" : `${Math.round(share * 100)}%`} of the ${baseline.length}-day median (limit ${Math.round(ratio * 100)}%)`,
+    evidence: { date, energy: day.energy, baselineMedian, baselineDays: baseline.length, share, ratio },
+  };
+};
+
+const checkNoData = async (unit: SolarUnit, hours: number, now: Date): Promise<ConditionOutcome> => {
+  // Units may well stay silent during maintenance
+  const [maintenance] = await findMaintenancePeriods(unit.serialNumber, now, new Date(now.getTime() + 1));
+  if (maintenance) {
+    return {
+      triggered: false,
+      message: `In maintenance until ${maintenance.endsAt.toISOString()}`,
+      evidence: { maintenanceStartsAt: maintenance.startsAt, maintenanceEndsAt: maintenance.endsAt, limitHours: hours },
+    };
+  }
+
+  const latest = await EnergyGenerationRecord.findOne({ serialNumber: unit.serialNumber })
+    .sort({ timestamp: -1 })
+    .select("timestamp intervalHours")
+    .lean();
+  if (!latest) {
+    return { triggered: true, message: "No data received yet", evidence: { lastRecordAt: null, limitHours: hours } };
+  }
+
+  const lastDataAt = new Date(latest.timestamp.getTime() + (latest.intervalHours ?? 2) * HOUR_MS);
+  const silentHours = Math.max(0, (now.getTime() - lastDataAt.getTime()) / HOUR_MS);
+  return {
+    triggered: silentHours > hours,
+    message: `No data received for ${Math.floor(silentHours)} hours (limit ${hours})`,
+    evidence: { lastRecordAt: latest.timestamp, lastDataAt, silentHours, limitHours: hours },
+  };
+};
+
+/**
+ * Check one rule condition against one unit at the given time
+ */
+export const checkCondition = (condition: AlertCondition, unit: SolarUnit, now: Date) => {
+  switch (condition.type) {
+    case "zero-generation":
+      return checkZeroGeneration(unit, condition.hours, now);
+    case "low-daily-yield":
+      return checkLowDailyYield(unit, condition.ratio, condition.baselineDays, now);
+    case "no-data":
+      return checkNoData(unit, condition.hours, now);
+  }
+};
+
+const getDedupKey = (ruleId: unknown, serialNumber: string) => `${ruleId}:${serialNumber}`;
+
+/**
+ * Send a new alert through each of the rule's channels and record the outcome on the alert
+ * A failing channel is logged and does not stop the others.
+ */
+const notify = async (alert: InstanceType<typeof Alert>, rule: AlertRuleDocument) => {
+  const notification = {
+    alertId: String(alert._id),
+    ruleId: String(rule._id),
+    ruleName: rule.name,
+    serialNumber: alert.serialNumber,
+    severity: alert.severity,
+    message: alert.message,
+    evidence: alert.evidence,
+    triggeredAt: alert.firstTriggeredAt,
+  };
+
+  const results = [];
+  for (const target of rule.channels as ChannelTarget[]) {
+    try {
+      await getNotificationChannel(target.type).send(notification, target);
+      results.push({ channel: target.type, status: "sent", sentAt: new Date() });
+    } catch (error: any) {
+      logger.error("Failed to send alert notification", { channel: target.type, alertId: String(alert._id), error });
+      results.push({ channel: target.type, status: "failed", error: error.message, sentAt: new Date() });
+    }
+  }
+  await Alert.updateOne({ _id: alert._id }, { $push: { notifications: { $each: results } } });
+};
+
+/**
+ * Raise an alert for a triggered condition, or update the unit's active alert of the rule
+ * Only a newly raised alert is notified. Within the rule's cooldown after an alert was resolved,
+ * the unit does not alert again.
+ */
+const fire = async (rule: AlertRuleDocument, serialNumber: string, outcome: ConditionOutcome, now: Date) => {
+  const dedupKey = getDedupKey(rule._id, serialNumber);
+  const active = await Alert.findOneAndUpdate(
+    { dedupKey },
+    { $set: { lastTriggeredAt: now, message: outcome.message, evidence: outcome.evidence }, $inc: { triggerCount: 1 } }
+  );
+  if (active) {
+    return "updated";
+  }
+
+  const lastResolved = await Alert.findOne({ ruleId: rule._id, serialNumber, status: "resolved" })
+    .sort({ resolvedAt: -1 })
+    .select("resolvedAt");
+  if (lastResolved?.resolvedAt && now.getTime() - lastResolved.resolvedAt.getTime() < rule.cooldownMinutes * 60 * 1000) {
+    return "suppressed";
+  }
+
+  let alert;
+  try {
+    alert = await Alert.create({
+      ruleId: rule._id,
+      ruleName: rule.name,
+      serialNumber,
+      dedupKey,
+      severity: rule.severity,
+      message: outcome.message,
+      evidence: outcome.evidence,
+      firstTriggeredAt: now,
+      lastTriggeredAt: now,
+    });
+  } catch (error: any) {
+    // Another instance raised the same alert first
+    if (error?.code === DUPLICATE_KEY_ERROR) {
+      return "updated";
+    }
+    throw error;
+  }
+  await notify(alert, rule);
+  return "fired";
+};
+
+/**
+ * Resolve the unit's active alert of a rule, e.g. once its condition has cleared
+ */
+const resolveActiveAlert = async (ruleId: unknown, serialNumber: string, resolvedBy: string, now = new Date()) =>
+  Alert.findOneAndUpdate(
+    { dedupKey: getDedupKey(ruleId, serialNumber) },
+    { $set: { status: "resolved", resolvedAt: now, resolvedBy }, $unset: { dedupKey: 1 } },
+    { new: true }
+  );
+
+/**
+ * Evaluate every enabled rule against the active units it covers
+ * Triggered conditions raise or update alerts; conditions that cleared resolve them.
+ */
+export const evaluateAlertRules = async (now = new Date()): Promise<EvaluationSummary> => {
+  const summary: EvaluationSummary = { rulesEvaluated: 0, fired: 0, updated: 0, suppressed: 0, resolved: 0, failures: [] };
+  const rules = await AlertRule.find({ enabled: true });
+  if (rules.length === 0) {
+    return summary;
+  }
+
+  const units = await getSolarUnitProvider().getActiveSolarUnits();
+  for (const rule of rules) {
+    const condition = AlertConditionDto.safeParse(rule.toObject().condition);
+    if (!condition.success) {
+      summary.failures.push({ ruleId: String(rule._id), serialNumber: "*", message: "Invalid condition" });
+      continue;
+    }
+
+    const targets = rule.serialNumber ? units.filter((unit) => unit.serialNumber === rule.serialNumber) : units;
+    for (const unit of targets) {
+      try {
+        const outcome = await checkCondition(condition.data, unit, now);
+        if (outcome.triggered) {
+          summary[await fire(rule, unit.serialNumber, outcome, now)]++;
+        } else if (await resolveActiveAlert(rule._id, unit.serialNumber, "system", now)) {
+          summary.resolved++;
+        }
+      } catch (error: any) {
+        logger.error("Could not evaluate alert rule", { rule: rule.name, serialNumber: unit.serialNumber, error });
+        summary.failures.push({ ruleId: String(rule._id), serialNumber: unit.serialNumber, message: error.message });
+      }
+    }
+
+    rule.lastEvaluatedAt = now;
+    await rule.save();
+    summary.rulesEvaluated++;
+  }
+  return summary;
+};
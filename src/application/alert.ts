@@ -0,0 +1,255 @@
+import { NextFunction, Request, Response } from "express";
+import mongoose from "mongoose";
+import { CreateAlertRuleDto, GetAlertsQueryDto, UpdateAlertRuleDto } from "../domain/dtos/alert";
+import { ConflictError, NotFoundError, ValidationError } from "../domain/errors/errors";
+import { Principal } from "../domain/types";
+import { Alert } from "../infrastructure/entities/Alert";
+import { AlertRule } from "../infrastructure/entities/AlertRule";
+import { evaluateAlertRules } from "./alert-evaluation";
+import { formatIssues } from "./energy-generation-record";
+
+const assertObjectId = (id: string, label: string) => {
+  if (!mongoose.isValidObjectId(id)) {
+    throw new ValidationError(`Invalid ${label} id`);
+  }
+};
+
+// Recorded as acknowledgedBy / resolvedBy
+export const describePrincipal = (principal?: Principal) => {
+  switch (principal?.type) {
+    case "user":
+      return principal.userId;
+    case "service":
+      return `service:${principal.name}`;
+    case "device":
+      return `device:${principal.serialNumber}`;
+    default:
+      return "unknown";
+  }
+};
+
+// Webhook channel secrets are write-only
+const hideSecrets = (rule: InstanceType<typeof AlertRule>) => {
+  const { channels, ...fields } = rule.toObject();
+  return { ...fields, channels: channels.map(({ secret, ...channel }) => channel) };
+};
+
+/**
+ * POST /api/admin/alert-rules
+ */
+export const createAlertRule = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = CreateAlertRuleDto.safeParse(req.body ?? {});
+    if (!result.success) {
+      throw new ValidationError(formatIssues(result.error));
+    }
+
+    const rule = await AlertRule.create(result.data);
+    res.status(201).json(hideSecrets(rule));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getAlertRules = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const rules = await AlertRule.find().sort({ createdAt: -1 });
+    res.status(200).json(rules.map(hideSecrets));
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * serialNumber: null turns a unit rule into a fleet-wide one
+ */
+export const updateAlertRule = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    assertObjectId(req.params.id, "alert rule");
+    const result = UpdateAlertRuleDto.safeParse(req.body ?? {});
+    if (!result.success) {
+      throw new ValidationError(formatIssues(result.error));
+    }
+
+    const { serialNumber, ...fields } = result.data;
+    const rule = await AlertRule.findByIdAndUpdate(
+      req.params.id,
+      {
+        $set: { ...fields, ...(serialNumber && { serialNumber }) },
+        ...(serialNumber === null && { $unset: { serialNumber: 1 } }),
+      },
+      { new: true }
+    );
+    if (!rule) {
+      throw new NotFoundError("Alert rule not found");
+    }
+    res.status(200).json(hideSecrets(rule));
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Delete a rule; its open and acknowledged alerts are resolved
+ */
+export const deleteAlertRule = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    assertObjectId(req.params.id, "alert rule");
+    const rule = await AlertRule.findByIdAndDelete(req.params.id);
+    if (!rule) {
+      throw new NotFoundError("Alert rule not found");
+    }
+    await Alert.updateMany(
+      { ruleId: rule._id, status: { $ne: "resolved" } },
+      { $set: { status: "resolved", resolvedAt: new Date(), resolvedBy: describePrincipal(req.principal) }, $unset: { dedupKey: 1 } }
+    );
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Evaluate every enabled rule now instead of waiting for the next scheduled round
+ *
+ * POST /api/admin/alert-rules/evaluate
+ */
+export const evaluateAlertRulesNow = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    res.status(200).json(await evaluateAlertRules());
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Alerts, most recently triggered first
+ *
+ * GET /api/alerts?status=&serialNumber=&ruleId=&limit=
+ */
+export const getAlerts = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = GetAlertsQueryDto.safeParse(req.query);
+    if (!result.success) {
+      throw new ValidationError(formatIssues(result.error));
+    }
+
+    const { status, serialNumber, ruleId, limit } = result.data;
+    if (ruleId) {
+      assertObjectId(ruleId, "alert rule");
+    }
+    const alerts = await Alert.find({
+      ...(status && { status }),
+      ...(serialNumber && { serialNumber }),
+      ...(ruleId && { ruleId }),
+    })
+      .sort({ lastTriggeredAt: -1 })
+      .limit(limit);
+    res.status(200).json(alerts);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getAlertById = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    assertObjectId(req.params.id, "alert");
+    const alert = await Alert.findById(req.params.id);
+    if (!alert) {
+      throw new NotFoundError("Alert not found");
+    }
+    res.status(200).json(alert);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Move an open alert to acknowledged; it stays active until resolved
+ *
+ * POST /api/alerts/:id/acknowledge
+ */
+export const acknowledgeAlert = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    assertObjectId(req.params.id, "alert");
+    const alert = await Alert.findOneAndUpdate(
+      { _id: req.params.id, status: "open" },
+      { $set: { status: "acknowledged", acknowledgedAt: new Date(), acknowledgedBy: describePrincipal(req.principal) } },
+      { new: true }
+    );
+    if (!alert) {
+      if (!(await Alert.exists({ _id: req.params.id }))) {
+        throw new NotFoundError("Alert not found");
+      }
+      throw new ConflictError("Only open alerts can be acknowledged");
+    }
+    res.status(200).json(alert);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Resolve an open or acknowledged alert
+ * If the condition still holds, the rule alerts again once its cooldown has passed.
+ *
+ * POST /api/alerts/:id/resolve
+ */
+export const resolveAlert = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    assertObjectId(req.params.id, "alert");
+    const alert = await Alert.findOneAndUpdate(
+      { _id: req.params.id, status: { $ne: "resolved" } },
+      {
+        $set: { status: "resolved", resolvedAt: new Date(), resolvedBy: describePrincipal(req.principal) },
+        $unset: { dedupKey: 1 },
+      },
+      { new: true }
+    );
+    if (!alert) {
+      if (!(await Alert.exists({ _id: req.params.id }))) {
+        throw new NotFoundError("Alert not found");
+      }
+      throw new ConflictError("Alert is already resolved");
+    }
+    res.status(200).json(alert);
+  } catch (error) {
+    next(error);
+  }
+};
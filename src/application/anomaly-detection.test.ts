@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { ANOMALY_PATTERNS, buildAnomalySeedRecords } from "../infrastructure/generation/anomaly-seed";
+import { createGenerationModel } from "../infrastructure/generation/create-generation-model";
+import { GenerationSite } from "../infrastructure/generation/generation-model";
+import { createRandom } from "../infrastructure/generation/random";
+import { detectAnomalies } from "./anomaly-detection";
+
+const SEED = "anomaly-detection-test";
+
+// The patterns are placed in UTC hours, so the physics site sits close to longitude 0 (Accra)
+const DATASETS: { model: string; site: GenerationSite }[] = [
+  { model: "simple", site: { serialNumber: "SU-TEST-2024", capacity: 500 } },
+  { model: "physics", site: { serialNumber: "SU-TEST-2024", capacity: 500, latitude: 5.6, longitude: -0.19 } },
+];
+
+// First and last day each pattern was injected on
+const injectedDays = (pattern: (typeof ANOMALY_PATTERNS)[number]) =>
+  pattern.dateRange ? [pattern.dateRange.start, pattern.dateRange.end] : [pattern.date!, pattern.date!];
+
+describe.each(DATASETS)("detectAnomalies on $model model data", ({ model, site }) => {
+  const seedRecords = () =>
+    buildAnomalySeedRecords(createGenerationModel({ model, seed: SEED }), createRandom(`${SEED}|anomalies`), site);
+
+  it("reports every pattern injected into the seeded dataset", async () => {
+    const { records } = await seedRecords();
+    const anomalies = detectAnomalies(site.serialNumber, records, "UTC");
+
+    for (const pattern of ANOMALY_PATTERNS) {
+      const [firstDay, lastDay] = injectedDays(pattern);
+      const found = anomalies.filter(
+        (anomaly) =>
+          anomaly.type === pattern.type &&
+          anomaly.windowStart.toISOString().slice(0, 10) <= lastDay &&
+          anomaly.windowEnd.toISOString().slice(0, 10) >= firstDay
+      );
+      expect(found, `${pattern.type} on ${firstDay}`).not.toHaveLength(0);
+    }
+  });
+
+  it("reports nothing before the injected patterns", async () => {
+    const { records } = await seedRecords();
+    const clean = records.filter((record) => record.timestamp < new Date("2025-12-01T00:00:00Z"));
+
+    expect(detectAnomalies(site.serialNumber, clean, "UTC")).toEqual([]);
+  });
+});
@@ -0,0 +1,365 @@
+import { formatZonedDate, getZonedParts } from "../domain/time-zone";
+import { AnomalySeverity, AnomalyType } from "../domain/types";
+import { Anomaly } from "../infrastructure/entities/Anomaly";
+import { EnergyGenerationRecord } from "../infrastructure/entities/EnergyGenerationRecord";
+import { publishEvent } from "../infrastructure/webhooks/event-publisher";
+import { resolveUnitTimeZone } from "./energy-rollups";
+
+export type DetectionRecord = {
+  timestamp: Date;
+  energyGenerated: number;
+  intervalHours?: number | null;
+};
+
+export type DetectedAnomaly = {
+  serialNumber: string;
+  type: AnomalyType;
+  severity: AnomalySeverity;
+  windowStart: Date;
+  windowEnd: Date;
+  description: string;
+  evidence: Record<string, unknown>;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+// Baseline: median of the same time slot over the last clean days
+const BASELINE_DAYS = 14;
+const MIN_BASELINE_DAYS = 7;
+
+// Slots are "daylight" when their baseline reaches 15% of the day's peak slot, "night" below 1%
+const DAYLIGHT_SLOT_SHARE = 0.15;
+const NIGHT_SLOT_SHARE = 0.01;
+// Night output above 5% of the peak slot baseline is treated as a sensor fault
+const NIGHT_OUTPUT_SHARE = 0.05;
+
+// Interval output relative to the day's reference level (upper quartile of its ratios,
+// so a partial drop does not drag the reference down with it)
+const DAY_REFERENCE_QUANTILE = 0.75;
+const LOW_RELATIVE_RATIO = 0.5;
+const HIGH_RELATIVE_RATIO = 1.6;
+// Whole-day output relative to the baseline
+const LOW_DAY_RATIO = 0.55;
+const HIGH_DAY_RATIO = 1.45;
+const MIN_LOW_DAYS = 3;
+
+/**
+ * Lookback needed before the first evaluated day so its baseline can be built
+ */
+export const DETECTION_LOOKBACK_MS = (BASELINE_DAYS + 1) * DAY_MS;
+
+const quantile = (values: number[], q: number) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+const median = (values: number[]) => quantile(values, 0.5);
+
+const round = (value: number, digits = 2) => Number(value.toFixed(digits));
+
+const intervalEnd = (record: DetectionRecord) =>
+  new Date(record.timestamp.getTime() + (record.intervalHours || 2) * HOUR_MS);
+
+const dayKey = (timestamp: Date, timeZone: string) => formatZonedDate(timestamp, timeZone);
+
+// Minutes after local midnight, so a slot stays at the same wall-clock time across DST changes
+const slotKey = (timestamp: Date, timeZone: string) => {
+  const parts = getZonedParts(timestamp, timeZone);
+  return parts.hour * 60 + parts.minute;
+};
+
+const sumEnergy = (records: DetectionRecord[]) =>
+  records.reduce((total, record) => total + record.energyGenerated, 0);
+
+/**
+ * Split items into runs of adjacent elements that match the predicate
+ */
+const findRuns = <T>(items: T[], predicate: (item: T, index: number) => boolean) => {
+  const runs: T[][] = [];
+  let current: T[] = [];
+  items.forEach((item, index) => {
+    if (predicate(item, index)) {
+      current.push(item);
+    } else if (current.length > 0) {
+      runs.push(current);
+      current = [];
+    }
+  });
+  if (current.length > 0) {
+    runs.push(current);
+  }
+  return runs;
+};
+
+type LowDay = {
+  day: string;
+  records: DetectionRecord[];
+  ratio: number;
+  actualEnergy: number;
+  expectedEnergy: number;
+};
+
+/**
+ * Classify anomalies in a unit's generation series
+ *
+ * Each day is compared against a per-slot baseline (median of the same slot over the last
+ * clean days). Days with any anomaly are kept out of the baseline so a faulty week does not
+ * become the new normal.
+ * - ZERO_GENERATION: consecutive daylight intervals with no output
+ * - SUDDEN_DROP: one contiguous run of intervals far below the rest of the day
+ * - IRREGULAR_PATTERN: spikes, repeated drops or a day far above its baseline
+ * - CAPACITY_FACTOR: at least three consecutive days far below their baseline
+ * - IRREGULAR_PATTERN_NIGHT: output in slots that are normally dark
+ * Days and slots are taken in the unit's time zone.
+ */
+export const detectAnomalies = (
+  serialNumber: string,
+  records: DetectionRecord[],
+  timeZone = "UTC"
+): DetectedAnomaly[] => {
+  const anomalies: DetectedAnomaly[] = [];
+  const history = new Map<number, number[]>();
+  let lowDays: LowDay[] = [];
+
+  const days = new Map<string, DetectionRecord[]>();
+  [...records]
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+    .forEach((record) => {
+      const key = dayKey(record.timestamp, timeZone);
+      days.set(key, [...(days.get(key) || []), record]);
+    });
+
+  const flushLowDays = () => {
+    if (lowDays.length >= MIN_LOW_DAYS) {
+      const actualEnergy = lowDays.reduce((total, day) => total + day.actualEnergy, 0);
+      const expectedEnergy = lowDays.reduce((total, day) => total + day.expectedEnergy, 0);
+      const ratio = expectedEnergy > 0 ? actualEnergy / expectedEnergy : 0;
+      const first = lowDays[0];
+      const last = lowDays[lowDays.length - 1];
+      anomalies.push({
+        serialNumber,
+        type: "CAPACITY_FACTOR",
+        severity: ratio <= 0.4 ? "HIGH" : "MEDIUM",
+        windowStart: first.records[0].timestamp,
+        windowEnd: intervalEnd(last.records[last.records.length - 1]),
+        description: `Output at ${Math.round(ratio * 100)}% of expected for ${lowDays.length} consecutive days`,
+        evidence: {
+          days: lowDays.length,
+          actualEnergy: round(actualEnergy),
+          expectedEnergy: round(expectedEnergy),
+          ratio: round(ratio),
+          dailyRatios: lowDays.map((day) => ({ date: day.day, ratio: round(day.ratio) })),
+        },
+      });
+    }
+    lowDays = [];
+  };
+
+  let previousDay: string | null = null;
+
+  for (const [day, dayRecords] of Array.from(days)) {
+    // Low days only form a capacity-factor window when they are consecutive
+    if (previousDay && Date.parse(day) - Date.parse(previousDay) > DAY_MS) {
+      flushLowDays();
+    }
+    previousDay = day;
+
+    const baselines = dayRecords.map((record) => {
+      const values = history.get(slotKey(record.timestamp, timeZone)) || [];
+      return values.length >= MIN_BASELINE_DAYS ? median(values) : null;
+    });
+
+    const remember = () => {
+      dayRecords.forEach((record) => {
+        const slot = slotKey(record.timestamp, timeZone);
+        history.set(slot, [...(history.get(slot) || []), record.energyGenerated].slice(-BASELINE_DAYS));
+      });
+    };
+
+    const peakBaseline = Math.max(0, ...baselines.map((baseline) => baseline ?? 0));
+    if (baselines.some((baseline) => baseline === null) || peakBaseline <= 0) {
+      flushLowDays();
+      remember();
+      continue;
+    }
+
+    const slots = dayRecords.map((record, index) => ({ record, expected: baselines[index] as number }));
+    const daylight = slots.filter((slot) => slot.expected >= peakBaseline * DAYLIGHT_SLOT_SHARE);
+    const night = slots.filter((slot) => slot.expected <= peakBaseline * NIGHT_SLOT_SHARE);
+    const found: DetectedAnomaly[] = [];
+
+    // Night output
+    const nightThreshold = peakBaseline * NIGHT_OUTPUT_SHARE;
+    const nightHits = night.filter((slot) => slot.record.energyGenerated > nightThreshold);
+    if (nightHits.length > 0) {
+      const energies = nightHits.map((slot) => slot.record.energyGenerated);
+      found.push({
+        serialNumber,
+        type: "IRREGULAR_PATTERN_NIGHT",
+        severity: nightHits.length > 2 ? "HIGH" : "MEDIUM",
+        windowStart: nightHits[0].record.timestamp,
+        windowEnd: intervalEnd(nightHits[nightHits.length - 1].record),
+        description: `Generation reported in ${nightHits.length} night interval(s)`,
+        evidence: {
+          intervals: nightHits.length,
+          totalEnergy: round(sumEnergy(nightHits.map((slot) => slot.record))),
+          maxEnergy: round(Math.max(...energies)),
+          threshold: round(nightThreshold),
+          timestamps: nightHits.map((slot) => slot.record.timestamp),
+        },
+      });
+    }
+
+    // Zero output during daylight
+    findRuns(daylight, (slot) => slot.record.energyGenerated === 0).forEach((run) => {
+      const hours = run.reduce((total, slot) => total + (slot.record.intervalHours || 2), 0);
+      const expectedEnergy = run.reduce((total, slot) => total + slot.expected, 0);
+      found.push({
+        serialNumber,
+        type: "ZERO_GENERATION",
+        severity: hours >= 4 ? "HIGH" : "MEDIUM",
+        windowStart: run[0].record.timestamp,
+        windowEnd: intervalEnd(run[run.length - 1].record),
+        description: `No generation for ${hours} daylight hour(s)`,
+        evidence: {
+          durationHours: hours,
+          intervals: run.length,
+          expectedEnergy: round(expectedEnergy),
+        },
+      });
+    });
+
+    // Shape of the producing daylight intervals
+    const producing = daylight.filter((slot) => slot.record.energyGenerated > 0);
+    let isLowDay = false;
+    if (producing.length >= 3) {
+      const ratios = producing.map((slot) => slot.record.energyGenerated / slot.expected);
+      const dayRatio = quantile(ratios, DAY_REFERENCE_QUANTILE);
+      const relative = ratios.map((ratio) => ratio / dayRatio);
+      const lowRuns = findRuns(producing, (_slot, index) => relative[index] < LOW_RELATIVE_RATIO);
+      const highCount = relative.filter((ratio) => ratio > HIGH_RELATIVE_RATIO).length;
+      const actualEnergy = sumEnergy(producing.map((slot) => slot.record));
+      const expectedEnergy = producing.reduce((total, slot) => total + slot.expected, 0);
+
+      if (dayRatio > HIGH_DAY_RATIO || highCount > 0 || lowRuns.length >= 2) {
+        found.push({
+          serialNumber,
+          type: "IRREGULAR_PATTERN",
+          severity: "MEDIUM",
+          windowStart: producing[0].record.timestamp,
+          windowEnd: intervalEnd(producing[producing.length - 1].record),
+          description: "Erratic output with spikes and drops during daylight",
+          evidence: {
+            dayRatio: round(dayRatio),
+            spikes: highCount,
+            dropRuns: lowRuns.length,
+            ratios: ratios.map((ratio) => round(ratio)),
+          },
+        });
+      } else if (dayRatio < LOW_DAY_RATIO) {
+        isLowDay = true;
+        lowDays.push({
+          day,
+          records: dayRecords,
+          ratio: dayRatio,
+          actualEnergy,
+          expectedEnergy,
+        });
+      } else if (lowRuns.length === 1) {
+        const run = lowRuns[0];
+        const runRatios = run.map((slot) => slot.record.energyGenerated / slot.expected / dayRatio);
+        const drop = 1 - runRatios.reduce((total, ratio) => total + ratio, 0) / runRatios.length;
+        const hours = run.reduce((total, slot) => total + (slot.record.intervalHours || 2), 0);
+        found.push({
+          serialNumber,
+          type: "SUDDEN_DROP",
+          severity: drop >= 0.7 ? "HIGH" : "MEDIUM",
+          windowStart: run[0].record.timestamp,
+          windowEnd: intervalEnd(run[run.length - 1].record),
+          description: `Output dropped by ${Math.round(drop * 100)}% for ${hours} hour(s)`,
+          evidence: {
+            dropPercent: round(drop * 100, 1),
+            durationHours: hours,
+            actualEnergy: round(sumEnergy(run.map((slot) => slot.record))),
+            expectedEnergy: round(run.reduce((total, slot) => total + slot.expected * dayRatio, 0)),
+          },
+        });
+      }
+    }
+
+    if (!isLowDay) {
+      flushLowDays();
+    }
+    anomalies.push(...found);
+
+    // Keep anomalous days out of the baseline
+    if (found.length === 0 && !isLowDay) {
+      remember();
+    }
+  }
+  flushLowDays();
+
+  return anomalies.sort((a, b) => a.windowStart.getTime() - b.windowStart.getTime());
+};
+
+/**
+ * Run detection over a unit's stored records and upsert the results into the Anomaly collection.
+ * Only anomalies whose window overlaps [from, to] are stored; earlier records feed the baseline.
+ * Records in maintenance windows are left out, so planned downtime neither raises anomalies nor skews the baseline.
+ */
+export const runAnomalyDetection = async (serialNumber: string, from?: Date, to?: Date) => {
+  const timestamp: Record<string, Date> = {};
+  if (from) {
+    timestamp.$gte = new Date(from.getTime() - DETECTION_LOOKBACK_MS);
+  }
+  if (to) {
+    timestamp.$lte = to;
+  }
+
+  const records = await EnergyGenerationRecord.find({
+    serialNumber,
+    ...(Object.keys(timestamp).length > 0 && { timestamp }),
+    inMaintenance: { $ne: true },
+  })
+    .select({ timestamp: 1, energyGenerated: 1, intervalHours: 1 })
+    .sort({ timestamp: 1 })
+    .lean();
+
+  const anomalies = detectAnomalies(
+    serialNumber,
+    records.map((record) => ({
+      timestamp: record.timestamp as Date,
+      energyGenerated: record.energyGenerated,
+      intervalHours: record.intervalHours,
+    })),
+    await resolveUnitTimeZone(serialNumber)
+  ).filter((anomaly) => (!from || anomaly.windowEnd >= from) && (!to || anomaly.windowStart <= to));
+
+  if (anomalies.length > 0) {
+    const outcome = await Anomaly.bulkWrite(
+      anomalies.map((anomaly) => ({
+        updateOne: {
+          filter: {
+            serialNumber: anomaly.serialNumber,
+            type: anomaly.type,
+            windowStart: anomaly.windowStart,
+          },
+          update: { $set: { ...anomaly, detectedAt: new Date() } },
+          upsert: true,
+        },
+      }))
+    );
+
+    // Only anomalies seen for the first time are announced
+    for (const index of Object.keys(outcome.upsertedIds)) {
+      const anomaly = anomalies[Number(index)];
+      await publishEvent("anomaly.detected", { ...anomaly, _id: String(outcome.upsertedIds[Number(index)]) });
+    }
+  }
+
+  return anomalies;
+};
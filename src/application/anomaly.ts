@@ -0,0 +1,62 @@
+import { NextFunction, Request, Response } from "express";
+import { DetectAnomaliesDto, GetAnomaliesQueryDto } from "../domain/dtos/anomaly";
+import { ValidationError } from "../domain/errors/errors";
+import { Anomaly } from "../infrastructure/entities/Anomaly";
+import { EnergyGenerationRecord } from "../infrastructure/entities/EnergyGenerationRecord";
+import { runAnomalyDetection } from "./anomaly-detection";
+import { formatIssues } from "./energy-generation-record";
+
+export const getAnomalies = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = GetAnomaliesQueryDto.safeParse(req.query);
+    if (!result.success) {
+      throw new ValidationError(formatIssues(result.error));
+    }
+
+    const { serialNumber, type, severity, from, to } = result.data;
+    const filter: Record<string, unknown> = {};
+    if (serialNumber) filter.serialNumber = serialNumber;
+    if (type) filter.type = type;
+    if (severity) filter.severity = severity;
+    // Anomalies whose window overlaps the requested range
+    if (from) filter.windowEnd = { $gte: from };
+    if (to) filter.windowStart = { $lte: to };
+
+    const anomalies = await Anomaly.find(filter).sort({ windowStart: 1 });
+    res.status(200).json(anomalies);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const detectAnomaliesForUnits = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = DetectAnomaliesDto.safeParse(req.body ?? {});
+    if (!result.success) {
+      throw new ValidationError(formatIssues(result.error));
+    }
+
+    const { serialNumber, from, to } = result.data;
+    const serialNumbers: string[] = serialNumber
+      ? [serialNumber]
+      : await EnergyGenerationRecord.distinct("serialNumber");
+
+    const summary = [];
+    for (const unitSerialNumber of serialNumbers) {
+      const anomalies = await runAnomalyDetection(unitSerialNumber, from, to);
+      summary.push({ serialNumber: unitSerialNumber, anomalies: anomalies.length });
+    }
+
+    res.status(200).json({ success: true, units: summary });
+  } catch (error) {
+    next(error);
+  }
+};
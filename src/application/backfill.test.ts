@@ -0,0 +1,158 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { SolarUnit } from "../domain/types";
+import { DataGenerationScheduler } from "../infrastructure/data-generation-scheduler";
+import { EnergyGenerationRecord } from "../infrastructure/entities/EnergyGenerationRecord";
+import { JobRunner } from "../infrastructure/job-runner";
+import { setSolarUnitProvider } from "../infrastructure/solar-units/solar-unit-provider";
+import { createBackfill } from "./backfill";
+import { insertNewReadings } from "./energy-generation-record";
+import { rebuildRollups } from "./energy-rollups";
+
+vi.mock("./energy-generation-record", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./energy-generation-record")>()),
+  insertNewReadings: vi.fn(),
+}));
+
+vi.mock("./energy-rollups", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./energy-rollups")>()),
+  rebuildRollups: vi.fn(),
+}));
+
+vi.mock("../infrastructure/webhooks/event-publisher", () => ({
+  publishEvent: async () => undefined,
+}));
+
+const HOUR_MS = 60 * 60 * 1000;
+const NOV_1 = Date.UTC(2025, 10, 1);
+const NOV_2 = Date.UTC(2025, 10, 2);
+
+const unit = {
+  serialNumber: "SU-0001",
+  installationDate: "2024-01-15",
+  capacity: 5000,
+  status: "ACTIVE",
+  timezone: "UTC",
+} as SolarUnit;
+
+// 1 November has three readings, 2 November none
+const existing = [0, 2, 10].map((hour) => ({ timestamp: new Date(NOV_1 + hour * HOUR_MS) }));
+
+const body = { from: "2025-11-01", to: "2025-11-02" };
+
+const post = async (values: Record<string, unknown>) => {
+  const res = { status: vi.fn(), json: vi.fn(), location: vi.fn() };
+  res.status.mockReturnValue(res);
+  res.location.mockReturnValue(res);
+  const next = vi.fn();
+  await createBackfill({ body: { ...body, ...values } } as Request, res as unknown as Response, next);
+  expect(next).not.toHaveBeenCalled();
+  return { status: res.status.mock.calls[0][0], body: res.json.mock.calls[0][0] };
+};
+
+// Timestamps each insertNewReadings call was given, as hours after midnight on 1 November
+const insertedHours = () =>
+  vi
+    .mocked(insertNewReadings)
+    .mock.calls.map(([readings]) => readings.map((reading) => (reading.timestamp.getTime() - NOV_1) / HOUR_MS));
+
+let progress: unknown[];
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"], now: new Date("2025-11-10T12:00:00Z") });
+  setSolarUnitProvider({ name: "test", getActiveSolarUnits: async () => [unit] });
+  progress = [];
+
+  vi.spyOn(EnergyGenerationRecord, "find").mockReturnValue({
+    select: () => ({ lean: async () => existing }),
+    sort: () => ({ lean: async () => [] }),
+  } as any);
+  vi.spyOn(EnergyGenerationRecord, "deleteMany").mockResolvedValue({ deletedCount: 3 } as any);
+  vi.spyOn(DataGenerationScheduler, "generateReadings").mockImplementation(async (generated, timestamps) =>
+    timestamps.map((timestamp) => ({
+      serialNumber: generated.serialNumber,
+      solarUnitId: undefined,
+      timestamp,
+      intervalHours: 2,
+      energyGenerated: 100,
+      peakPower: 60,
+      efficiency: 18,
+      temperature: 30,
+      expectedEnergy: 100,
+    }))
+  );
+  vi.mocked(insertNewReadings).mockImplementation(async (readings) =>
+    Object.fromEntries(readings.map((_, index) => [index, new mongoose.Types.ObjectId()]))
+  );
+  // Runs the job inline instead of in the background
+  vi.spyOn(JobRunner, "start").mockImplementation(async (_, task) => {
+    const result = await task(async (update) => {
+      progress.push(update);
+    }, "job-run-1");
+    return { _id: "job-run-1", ...result } as any;
+  });
+});
+
+afterEach(() => {
+  setSolarUnitProvider(null);
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  vi.mocked(insertNewReadings).mockReset();
+  vi.mocked(rebuildRollups).mockReset();
+});
+
+describe("createBackfill", () => {
+  it("fill-gaps generates only the intervals without a reading and leaves existing ones alone", async () => {
+    const response = await post({ mode: "fill-gaps" });
+
+    expect(response.status).toBe(202);
+    expect(insertedHours()).toEqual([
+      [4, 6, 8, 12, 14, 16, 18, 20, 22],
+      [24, 26, 28, 30, 32, 34, 36, 38, 40, 42, 44, 46],
+    ]);
+    expect(EnergyGenerationRecord.deleteMany).not.toHaveBeenCalled();
+    expect(rebuildRollups).not.toHaveBeenCalled();
+    expect(response.body).toMatchObject({ unitsProcessed: 1, recordsInserted: 21, recordsDeleted: 0 });
+    expect(progress).toHaveLength(2);
+  });
+
+  it("skip-existing leaves a day with any reading untouched", async () => {
+    await post({ mode: "skip-existing" });
+
+    expect(insertedHours()).toEqual([[24, 26, 28, 30, 32, 34, 36, 38, 40, 42, 44, 46]]);
+    expect(EnergyGenerationRecord.deleteMany).not.toHaveBeenCalled();
+  });
+
+  it("replace deletes each day's readings before generating it again", async () => {
+    const response = await post({ mode: "replace" });
+
+    expect(EnergyGenerationRecord.deleteMany).toHaveBeenCalledWith({
+      serialNumber: "SU-0001",
+      timestamp: { $gte: new Date(NOV_1), $lt: new Date(NOV_2) },
+    });
+    expect(insertedHours().map((hours) => hours.length)).toEqual([12, 12]);
+    expect(rebuildRollups).toHaveBeenCalledOnce();
+    expect(response.body).toMatchObject({ recordsInserted: 24, recordsDeleted: 3 });
+  });
+
+  it.each([
+    ["fill-gaps", { recordsToInsert: 21, recordsToDelete: 0, daysChanged: 2 }],
+    ["skip-existing", { recordsToInsert: 12, recordsToDelete: 0, daysChanged: 1 }],
+    ["replace", { recordsToInsert: 24, recordsToDelete: 3, daysChanged: 2 }],
+  ])("a %s dry run reports the plan and writes nothing", async (mode, plan) => {
+    const response = await post({ mode, dryRun: true });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({
+      dryRun: true,
+      recordsToInsert: plan.recordsToInsert,
+      recordsToDelete: plan.recordsToDelete,
+    });
+    expect(response.body.units).toEqual([{ serialNumber: "SU-0001", days: 2, ...plan }]);
+    expect(JobRunner.start).not.toHaveBeenCalled();
+    expect(DataGenerationScheduler.generateReadings).not.toHaveBeenCalled();
+    expect(insertNewReadings).not.toHaveBeenCalled();
+    expect(EnergyGenerationRecord.deleteMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,284 @@
+import { NextFunction, Request, Response } from "express";
+import { CreateBackfillDto } from "../domain/dtos/backfill";
+import { ConflictError, NotFoundError, ValidationError } from "../domain/errors/errors";
+import { BackfillMode, SolarUnit } from "../domain/types";
+import { getDefaultTimeZone, getUnitTimeZone, getZonedDate, startOfDateInZone } from "../domain/time-zone";
+import { DataGenerationScheduler } from "../infrastructure/data-generation-scheduler";
+import { EnergyGenerationRecord } from "../infrastructure/entities/EnergyGenerationRecord";
+import { JobResult, JobRunner, ReportProgress } from "../infrastructure/job-runner";
+import { getSolarUnitProvider } from "../infrastructure/solar-units/solar-unit-provider";
+import { publishEvent } from "../infrastructure/webhooks/event-publisher";
+import { formatIssues, insertNewReadings } from "./energy-generation-record";
+import { rebuildRollups } from "./energy-rollups";
+import { logger } from "../infrastructure/logging/logger";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INTERVAL_HOURS = 2;
+
+// The longest range one backfill may cover
+const MAX_RANGE_DAYS = 366;
+
+// One backfill at a time across instances; replace mode must not race another run over the same days
+const BACKFILL_LEASE_KEY = "backfill";
+
+export type BackfillOptions = {
+  from: Date;
+  to: Date;
+  mode: BackfillMode;
+  serialNumbers?: string[];
+};
+
+type DayPlan = {
+  date: Date;
+  start: Date;
+  end: Date;
+  timestamps: Date[];
+  existingCount: number;
+};
+
+export type UnitBackfillPlan = {
+  serialNumber: string;
+  days: number;
+  daysChanged: number;
+  recordsToInsert: number;
+  recordsToDelete: number;
+};
+
+const resolveUnits = async (serialNumbers?: string[]) => {
+  const units = await getSolarUnitProvider().getActiveSolarUnits();
+  if (!serialNumbers) {
+    return units;
+  }
+
+  const requested = Array.from(new Set(serialNumbers));
+  const unknown = requested.filter((serialNumber) => !units.some((unit) => unit.serialNumber === serialNumber));
+  if (unknown.length > 0) {
+    throw new NotFoundError(`Solar units not found: ${unknown.join(", ")}`);
+  }
+  return requested.map((serialNumber) => units.find((unit) => unit.serialNumber === serialNumber) as SolarUnit);
+};
+
+// Calendar dates (midnight UTC) touched by [from, to] in the unit's time zone, like the days the scheduler generates
+const listDays = (from: Date, to: Date, timeZone: string) => {
+  const days: Date[] = [];
+  const last = getZonedDate(to, timeZone);
+  for (let day = getZonedDate(from, timeZone); day <= last; day = new Date(day.getTime() + DAY_MS)) {
+    days.push(day);
+  }
+  return days;
+};
+
+/**
+ * Work out which intervals of each day a backfill generates
+ * - fill-gaps: intervals without any record starting inside them
+ * - skip-existing: every interval of days without a single record
+ * - replace: every interval of every day; the day's existing records are deleted first
+ */
+const planUnitDays = async (unit: SolarUnit, from: Date, to: Date, mode: BackfillMode): Promise<DayPlan[]> => {
+  const timeZone = getUnitTimeZone(unit);
+  const days = listDays(from, to, timeZone);
+  const existing = await EnergyGenerationRecord.find({
+    serialNumber: unit.serialNumber,
+    timestamp: {
+      $gte: startOfDateInZone(days[0], timeZone),
+      $lt: startOfDateInZone(days[days.length - 1], timeZone, 1),
+    },
+  })
+    .select("timestamp")
+    .lean();
+
+  const timestampsByDay = new Map<number, number[]>();
+  existing.forEach((record) => {
+    const key = getZonedDate(record.timestamp, timeZone).getTime();
+    const dayTimestamps = timestampsByDay.get(key);
+    if (dayTimestamps) {
+      dayTimestamps.push(record.timestamp.getTime());
+    } else {
+      timestampsByDay.set(key, [record.timestamp.getTime()]);
+    }
+  });
+
+  return days.map((date) => {
+    const intervals = DataGenerationScheduler.getIntervalStarts(date, timeZone);
+    const dayTimestamps = timestampsByDay.get(date.getTime()) ?? [];
+    const end = startOfDateInZone(date, timeZone, 1);
+
+    let timestamps = intervals;
+    if (mode === "skip-existing" && dayTimestamps.length > 0) {
+      timestamps = [];
+    } else if (mode === "fill-gaps") {
+      // An interval runs until the next one starts (they are uneven on DST days)
+      timestamps = intervals.filter((start, index) => {
+        const intervalEnd = (intervals[index + 1] ?? end).getTime();
+        return !dayTimestamps.some((time) => time >= start.getTime() && time < intervalEnd);
+      });
+    }
+    return {
+      date,
+      start: startOfDateInZone(date, timeZone),
+      end,
+      timestamps,
+      existingCount: dayTimestamps.length,
+    };
+  });
+};
+
+const summarizePlan = (serialNumber: string, plans: DayPlan[], mode: BackfillMode): UnitBackfillPlan => {
+  const recordsToDelete = (plan: DayPlan) => (mode === "replace" ? plan.existingCount : 0);
+  return {
+    serialNumber,
+    days: plans.length,
+    daysChanged: plans.filter((plan) => plan.timestamps.length > 0 || recordsToDelete(plan) > 0).length,
+    recordsToInsert: plans.reduce((sum, plan) => sum + plan.timestamps.length, 0),
+    recordsToDelete: plans.reduce((sum, plan) => sum + recordsToDelete(plan), 0),
+  };
+};
+
+/**
+ * Report what a backfill would insert and delete, without changing anything
+ */
+export const planBackfill = async (options: BackfillOptions) => {
+  const units = await resolveUnits(options.serialNumbers);
+
+  const plans: UnitBackfillPlan[] = [];
+  for (const unit of units) {
+    const days = await planUnitDays(unit, options.from, options.to, options.mode);
+    plans.push(summarizePlan(unit.serialNumber, days, options.mode));
+  }
+  return {
+    ...options,
+    recordsToInsert: plans.reduce((sum, plan) => sum + plan.recordsToInsert, 0),
+    recordsToDelete: plans.reduce((sum, plan) => sum + plan.recordsToDelete, 0),
+    units: plans,
+  };
+};
+
+const backfillDay = async (unit: SolarUnit, plan: DayPlan, mode: BackfillMode, jobRunId: string) => {
+  const serialNumber = unit.serialNumber;
+  let deleted = 0;
+  if (mode === "replace" && plan.existingCount > 0) {
+    const timestamp = { $gte: plan.start, $lt: plan.end };
+    deleted = (await EnergyGenerationRecord.deleteMany({ serialNumber, timestamp })).deletedCount;
+    await publishEvent("records.deleted", {
+      source: "backfill",
+      jobRunId,
+      serialNumber,
+      from: plan.start,
+      to: plan.end,
+      count: deleted,
+    });
+  }
+  if (plan.timestamps.length === 0) {
+    return { inserted: 0, deleted };
+  }
+
+  // Readings that appeared since the plan was made are left alone
+  const readings = await DataGenerationScheduler.generateReadings(unit, plan.timestamps, INTERVAL_HOURS);
+  const insertedIds = Object.values(await insertNewReadings(readings, "backfill"));
+  if (insertedIds.length > 0) {
+    const inserted = await EnergyGenerationRecord.find({ _id: { $in: insertedIds } }).sort({ timestamp: 1 }).lean();
+    await publishEvent("records.created", { source: "backfill", jobRunId, serialNumber, records: inserted });
+  }
+  return { inserted: insertedIds.length, deleted };
+};
+
+/**
+ * Run a backfill day by day for each unit, reporting progress after every unit-day
+ * A unit that fails is recorded and the run moves on to the next one.
+ */
+const runBackfill = async (
+  units: SolarUnit[],
+  options: BackfillOptions,
+  jobRunId: string,
+  reportProgress: ReportProgress
+): Promise<JobResult> => {
+  const result: JobResult = { unitsProcessed: 0, recordsInserted: 0, recordsDeleted: 0, failures: [] };
+  const dayCounts = units.map((unit) => listDays(options.from, options.to, getUnitTimeZone(unit)).length);
+  const total = dayCounts.reduce((sum, count) => sum + count, 0);
+  let completed = 0;
+
+  for (let index = 0; index < units.length; index++) {
+    const unit = units[index];
+    const unitStart = completed;
+    try {
+      const plans = await planUnitDays(unit, options.from, options.to, options.mode);
+      for (const plan of plans) {
+        const { inserted, deleted } = await backfillDay(unit, plan, options.mode, jobRunId);
+        result.recordsInserted += inserted;
+        result.recordsDeleted = (result.recordsDeleted ?? 0) + deleted;
+        completed++;
+        await reportProgress({ ...result, completed, total });
+      }
+
+      // Incremental rollups cannot take deletions back, so replaced days are summarized again
+      if (options.mode === "replace") {
+        await rebuildRollups({
+          serialNumbers: [unit.serialNumber],
+          from: plans[0].start,
+          to: new Date(plans[plans.length - 1].end.getTime() - 1),
+        });
+      }
+      result.unitsProcessed++;
+    } catch (error: any) {
+      logger.error("Could not backfill unit", { serialNumber: unit.serialNumber, error });
+      result.failures.push({ serialNumber: unit.serialNumber, message: error.message });
+      completed = unitStart + dayCounts[index];
+      await reportProgress({ ...result, completed, total });
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Generate records for a date range, either as a dry run or as a background job
+ * A dry run answers right away with what would be inserted and deleted per unit. A real run
+ * answers 202 with its job run; follow it at GET /api/admin/jobs/:id (progress, heartbeatAt, status).
+ *
+ * POST /api/admin/backfills
+ * Body: { from, to, serialNumbers?, mode?: "fill-gaps" | "skip-existing" | "replace", dryRun?: false }
+ */
+export const createBackfill = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = CreateBackfillDto.safeParse(req.body ?? {});
+    if (!result.success) {
+      throw new ValidationError(formatIssues(result.error));
+    }
+
+    const { dryRun, ...options } = result.data;
+    const timeZone = getDefaultTimeZone();
+    if (getZonedDate(options.to, timeZone) > getZonedDate(new Date(), timeZone)) {
+      throw new ValidationError("to must not be after today");
+    }
+    if (listDays(options.from, options.to, timeZone).length > MAX_RANGE_DAYS) {
+      throw new ValidationError(`The range may cover at most ${MAX_RANGE_DAYS} days`);
+    }
+
+    if (dryRun) {
+      res.status(200).json({ dryRun: true, ...(await planBackfill(options)) });
+      return;
+    }
+
+    const units = await resolveUnits(options.serialNumbers);
+    const jobRun = await JobRunner.start(
+      {
+        type: "backfill",
+        targetDate: getZonedDate(options.from, timeZone),
+        trigger: "manual",
+        leaseKey: BACKFILL_LEASE_KEY,
+        parameters: { ...options, serialNumbers: units.map((unit) => unit.serialNumber) },
+      },
+      (reportProgress, jobRunId) => runBackfill(units, options, jobRunId, reportProgress)
+    );
+    if (!jobRun) {
+      throw new ConflictError("Another backfill is already running");
+    }
+    res.status(202).location(`/api/admin/jobs/${jobRun._id}`).json(jobRun);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import { assessDataQuality, QualityRecord } from "./data-quality";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_START = Date.UTC(2025, 11, 1);
+
+// Colombo; its night runs from about 13:00 to 00:30 UTC
+const location = { latitude: 6.93, longitude: 79.85, tilt: 10, azimuth: 180 };
+const options = {
+  from: new Date(DAY_START),
+  to: new Date(DAY_START + 24 * HOUR_MS),
+  now: new Date(DAY_START + 48 * HOUR_MS),
+  capacity: 5000,
+  location,
+};
+
+// A clean day of 2-hour readings from midnight UTC, daylight only between 02:00 and 12:00
+const day = (): QualityRecord[] =>
+  Array.from({ length: 12 }, (_, index) => ({
+    timestamp: new Date(DAY_START + index * 2 * HOUR_MS),
+    energyGenerated: index >= 1 && index <= 5 ? 3000 : 0,
+    intervalHours: 2,
+    peakPower: index >= 1 && index <= 5 ? 1800 : 0,
+    efficiency: 18,
+    temperature: 30,
+  }));
+
+const at = (hour: number) => new Date(DAY_START + hour * HOUR_MS);
+
+describe("assessDataQuality", () => {
+  it("scores a complete, clean day as complete with no issues", () => {
+    const report = assessDataQuality("SU-0001", day(), options);
+
+    expect(report).toMatchObject({
+      intervalHours: 2,
+      expectedIntervals: 12,
+      presentIntervals: 12,
+      completeness: 1,
+      missing: { count: 0, ranges: [] },
+      duplicates: [],
+      invalidValues: [],
+      nightOutput: [],
+      issueCount: 0,
+    });
+  });
+
+  it("merges consecutive missing intervals into ranges", () => {
+    const records = day().filter((_, index) => ![3, 4, 9].includes(index));
+
+    const report = assessDataQuality("SU-0001", records, options);
+
+    expect(report.completeness).toBe(9 / 12);
+    expect(report.missing).toEqual({
+      count: 3,
+      ranges: [
+        { from: at(6), to: at(10), intervals: 2 },
+        { from: at(18), to: at(20), intervals: 1 },
+      ],
+    });
+    expect(report.issueCount).toBe(3);
+  });
+
+  it("reports readings that share an interval as duplicates", () => {
+    const records = day();
+    records.splice(3, 0, { ...records[2], timestamp: at(5) });
+
+    const report = assessDataQuality("SU-0001", records, options);
+
+    expect(report.presentIntervals).toBe(12);
+    expect(report.duplicates).toEqual([{ intervalStart: at(4), timestamps: [at(4), at(5)] }]);
+  });
+
+  it("flags values the unit cannot produce or measure", () => {
+    const records = day();
+    records[2] = { ...records[2], energyGenerated: 11000, peakPower: 6500 };
+    records[3] = { ...records[3], energyGenerated: -5, efficiency: 120 };
+    records[4] = { ...records[4], temperature: -60 };
+
+    const report = assessDataQuality("SU-0001", records, options);
+
+    expect(report.invalidValues.map(({ timestamp, field, reason }) => [timestamp, field, reason])).toEqual([
+      [at(4), "energyGenerated", "more than the capacity can produce in the interval"],
+      [at(4), "peakPower", "above the unit's capacity"],
+      [at(6), "energyGenerated", "negative"],
+      [at(6), "efficiency", "outside 0-100%"],
+      [at(8), "temperature", "outside -50 to 100 °C"],
+    ]);
+  });
+
+  it("reports output at night above sensor noise", () => {
+    const records = day();
+    records[8] = { ...records[8], energyGenerated: 400 };
+    records[9] = { ...records[9], energyGenerated: 20 };
+
+    const report = assessDataQuality("SU-0001", records, options);
+
+    expect(report.nightOutput).toEqual([{ timestamp: at(16), energyGenerated: 400 }]);
+  });
+
+  it("only expects intervals that have ended", () => {
+    const records = day().slice(0, 4);
+
+    const report = assessDataQuality("SU-0001", records, { ...options, now: at(7) });
+
+    expect(report).toMatchObject({ expectedIntervals: 3, presentIntervals: 3, completeness: 1 });
+  });
+
+  it("follows the most common interval length", () => {
+    const records = Array.from({ length: 24 }, (_, hour) => ({ timestamp: at(hour), energyGenerated: 0, intervalHours: 1 }));
+
+    const report = assessDataQuality("SU-0001", records, options);
+
+    expect(report).toMatchObject({ intervalHours: 1, expectedIntervals: 24, completeness: 1 });
+  });
+
+  it("expects intervals from midnight in the unit's time zone when there are no records", () => {
+    const report = assessDataQuality("SU-0001", [], { ...options, timeZone: "Asia/Colombo" });
+
+    expect(report.completeness).toBe(0);
+    expect(report.missing.ranges).toEqual([{ from: new Date(DAY_START + 0.5 * HOUR_MS), to: new Date(DAY_START + 22.5 * HOUR_MS), intervals: 11 }]);
+  });
+});
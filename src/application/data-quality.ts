@@ -0,0 +1,329 @@
+import { NextFunction, Request, Response } from "express";
+import { GetDataQualityQueryDto } from "../domain/dtos/data-quality";
+import { NotFoundError, ValidationError } from "../domain/errors/errors";
+import { getUnitTimeZone, startOfZonedDay } from "../domain/time-zone";
+import { DataGenerationScheduler } from "../infrastructure/data-generation-scheduler";
+import { EnergyGenerationRecord } from "../infrastructure/entities/EnergyGenerationRecord";
+import { getClearSkyIrradiation } from "../infrastructure/generation/solar-position";
+import { findActiveSolarUnit } from "../infrastructure/solar-units/solar-unit-provider";
+import { publishEvent } from "../infrastructure/webhooks/event-publisher";
+import { formatIssues, insertNewReadings } from "./energy-generation-record";
+import { DAY_MS, getSiteLocation, RollupUnit, SiteLocation } from "./energy-rollups";
+import { logger } from "../infrastructure/logging/logger";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Range used when from/to are omitted, and the longest range one report may cover
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+
+// Headroom over the nameplate before energy or power counts as impossible
+const ENERGY_MARGIN = 1.05;
+const PEAK_POWER_MARGIN = 1.25;
+
+// Night output below this share of the interval's rated energy is treated as sensor noise
+const NIGHT_OUTPUT_TOLERANCE = 0.005;
+
+export type QualityRecord = {
+  timestamp: Date;
+  energyGenerated: number;
+  intervalHours?: number | null;
+  peakPower?: number | null;
+  efficiency?: number | null;
+  temperature?: number | null;
+};
+
+export type DataQualityReport = {
+  serialNumber: string;
+  from: Date;
+  to: Date;
+  intervalHours: number;
+  expectedIntervals: number;
+  presentIntervals: number;
+  completeness: number | null;
+  missing: { count: number; ranges: { from: Date; to: Date; intervals: number }[] };
+  duplicates: { intervalStart: Date; timestamps: Date[] }[];
+  invalidValues: { timestamp: Date; field: string; value: number; reason: string }[];
+  nightOutput: { timestamp: Date; energyGenerated: number }[];
+  issueCount: number;
+  backfill: { method: "POST"; path: string; intervals: number } | null;
+};
+
+// The interval length most records use (imports may carry 1 h or 15 min data)
+const getGridHours = (records: QualityRecord[]) => {
+  const counts = new Map<number, number>();
+  records.forEach((record) => {
+    const hours = record.intervalHours ?? 2;
+    counts.set(hours, (counts.get(hours) ?? 0) + 1);
+  });
+  let gridHours = 2;
+  let best = 0;
+  Array.from(counts).forEach(([hours, count]) => {
+    if (count > best) {
+      gridHours = hours;
+      best = count;
+    }
+  });
+  return gridHours;
+};
+
+const checkValues = (record: QualityRecord, capacity?: number) => {
+  const issues: DataQualityReport["invalidValues"] = [];
+  const add = (field: string, value: number, reason: string) =>
+    issues.push({ timestamp: record.timestamp, field, value, reason });
+  const intervalHours = record.intervalHours ?? 2;
+
+  if (record.energyGenerated < 0) {
+    add("energyGenerated", record.energyGenerated, "negative");
+  } else if (capacity && record.energyGenerated > capacity * intervalHours * ENERGY_MARGIN) {
+    add("energyGenerated", record.energyGenerated, "more than the capacity can produce in the interval");
+  }
+  if (record.peakPower != null) {
+    if (record.peakPower < 0) {
+      add("peakPower", record.peakPower, "negative");
+    } else if (capacity && record.peakPower > capacity * PEAK_POWER_MARGIN) {
+      add("peakPower", record.peakPower, "above the unit's capacity");
+    }
+  }
+  if (record.efficiency != null && (record.efficiency < 0 || record.efficiency > 100)) {
+    add("efficiency", record.efficiency, "outside 0-100%");
+  }
+  if (record.temperature != null && (record.temperature < -50 || record.temperature > 100)) {
+    add("temperature", record.temperature, "outside -50 to 100 °C");
+  }
+  if (intervalHours <= 0) {
+    add("intervalHours", intervalHours, "not positive");
+  }
+  return issues;
+};
+
+/**
+ * Check a unit's records (sorted by timestamp) against its expected interval grid
+ * The grid uses the most common intervalHours and the phase of the first record (midnight in the
+ * unit's time zone when there are none). Intervals count as expected once they have ended. Records sharing an interval
+ * are reported as duplicates; night means the sun is below the horizon for the whole interval.
+ */
+export const assessDataQuality = (
+  serialNumber: string,
+  records: QualityRecord[],
+  options: { from: Date; to: Date; now?: Date; capacity?: number; location: SiteLocation; timeZone?: string }
+): Omit<DataQualityReport, "backfill"> => {
+  const { from, to, capacity, location } = options;
+  const now = options.now ?? new Date();
+  const intervalHours = getGridHours(records);
+  const step = intervalHours * HOUR_MS;
+  const phase = records.length > 0 ? records[0].timestamp : startOfZonedDay(from, options.timeZone ?? "UTC");
+  const offset = ((phase.getTime() % step) + step) % step;
+
+  const slotOf = (time: number) => Math.floor((time - offset) / step);
+  const firstSlot = Math.ceil((from.getTime() - offset) / step);
+  // Last interval that has ended by the end of the range
+  const lastSlot = Math.floor((Math.min(to.getTime(), now.getTime()) - offset) / step) - 1;
+  const slotStart = (slot: number) => new Date(slot * step + offset);
+
+  const recordsBySlot = new Map<number, QualityRecord[]>();
+  const invalidValues: DataQualityReport["invalidValues"] = [];
+  const nightOutput: DataQualityReport["nightOutput"] = [];
+
+  records.forEach((record) => {
+    const slot = slotOf(record.timestamp.getTime());
+    const slotRecords = recordsBySlot.get(slot);
+    if (slotRecords) {
+      slotRecords.push(record);
+    } else {
+      recordsBySlot.set(slot, [record]);
+    }
+    invalidValues.push(...checkValues(record, capacity));
+
+    const recordHours = record.intervalHours ?? 2;
+    const irradiation = getClearSkyIrradiation(
+      record.timestamp,
+      recordHours,
+      location.latitude,
+      location.longitude,
+      location.tilt,
+      location.azimuth
+    );
+    const noise = capacity ? capacity * recordHours * NIGHT_OUTPUT_TOLERANCE : 0;
+    if (irradiation === 0 && record.energyGenerated > noise) {
+      nightOutput.push({ timestamp: record.timestamp, energyGenerated: record.energyGenerated });
+    }
+  });
+
+  const duplicates = Array.from(recordsBySlot)
+    .filter(([, slotRecords]) => slotRecords.length > 1)
+    .map(([slot, slotRecords]) => ({
+      intervalStart: slotStart(slot),
+      timestamps: slotRecords.map((record) => record.timestamp),
+    }));
+
+  const ranges: DataQualityReport["missing"]["ranges"] = [];
+  let missingCount = 0;
+  for (let slot = firstSlot; slot <= lastSlot; slot++) {
+    if (recordsBySlot.has(slot)) {
+      continue;
+    }
+    missingCount++;
+    const previous = ranges[ranges.length - 1];
+    if (previous && previous.to.getTime() === slotStart(slot).getTime()) {
+      previous.to = slotStart(slot + 1);
+      previous.intervals++;
+    } else {
+      ranges.push({ from: slotStart(slot), to: slotStart(slot + 1), intervals: 1 });
+    }
+  }
+
+  const expectedIntervals = Math.max(0, lastSlot - firstSlot + 1);
+  const presentIntervals = expectedIntervals - missingCount;
+  return {
+    serialNumber,
+    from,
+    to,
+    intervalHours,
+    expectedIntervals,
+    presentIntervals,
+    completeness: expectedIntervals > 0 ? presentIntervals / expectedIntervals : null,
+    missing: { count: missingCount, ranges },
+    duplicates,
+    invalidValues,
+    nightOutput,
+    issueCount: missingCount + duplicates.length + invalidValues.length + nightOutput.length,
+  };
+};
+
+const parseRange = (query: unknown) => {
+  const result = GetDataQualityQueryDto.safeParse(query);
+  if (!result.success) {
+    throw new ValidationError(formatIssues(result.error));
+  }
+  const to = result.data.to ?? new Date();
+  const from = result.data.from ?? new Date(to.getTime() - DEFAULT_RANGE_DAYS * DAY_MS);
+  if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+    throw new ValidationError(`The range may cover at most ${MAX_RANGE_DAYS} days`);
+  }
+  return { from, to };
+};
+
+const lookUpUnit = async (serialNumber: string): Promise<RollupUnit | undefined> => {
+  try {
+    return await findActiveSolarUnit(serialNumber);
+  } catch (error: any) {
+    logger.warn("Could not look up unit", { serialNumber, error });
+    return undefined;
+  }
+};
+
+/**
+ * Build the data-quality report of one unit
+ * Intervals before the unit's installation date (or its first record, when the unit is unknown)
+ * are not expected.
+ */
+export const getDataQualityReport = async (serialNumber: string, from: Date, to: Date): Promise<DataQualityReport> => {
+  const unit = await lookUpUnit(serialNumber);
+  const installedAt = unit?.installationDate ? new Date(unit.installationDate) : null;
+  const firstRecord = installedAt
+    ? null
+    : await EnergyGenerationRecord.findOne({ serialNumber }).sort({ timestamp: 1 }).select("timestamp").lean();
+  if (!unit && !firstRecord) {
+    throw new NotFoundError("Solar unit not found");
+  }
+  const start = [from, installedAt, firstRecord?.timestamp]
+    .filter((date): date is Date => !!date && !isNaN(date.getTime()))
+    .reduce((latest, date) => (date > latest ? date : latest));
+
+  const records = await EnergyGenerationRecord.find({ serialNumber, timestamp: { $gte: start, $lte: to } })
+    .sort({ timestamp: 1 })
+    .select("timestamp energyGenerated intervalHours peakPower efficiency temperature")
+    .lean();
+
+  const report = assessDataQuality(serialNumber, records as QualityRecord[], {
+    from: start,
+    to,
+    capacity: unit?.capacity || undefined,
+    location: getSiteLocation(unit ?? {}),
+    timeZone: getUnitTimeZone(unit ?? {}),
+  });
+
+  const query = new URLSearchParams({ from: start.toISOString(), to: to.toISOString() });
+  return {
+    ...report,
+    from,
+    backfill:
+      report.missing.count > 0 && unit
+        ? {
+            method: "POST",
+            path: `/api/admin/data-quality/${encodeURIComponent(serialNumber)}/backfill?${query}`,
+            intervals: report.missing.count,
+          }
+        : null,
+  };
+};
+
+/**
+ * GET /api/data-quality/:serialNumber?from=&to=
+ */
+export const getDataQuality = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { serialNumber } = req.params;
+    const { from, to } = parseRange(req.query);
+
+    const report = await getDataQualityReport(serialNumber, from, to);
+    res.status(200).json(report);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Generate records for exactly the intervals the data-quality report lists as missing
+ * Existing records are never touched. This is the target of the report's backfill link.
+ *
+ * POST /api/admin/data-quality/:serialNumber/backfill?from=&to=
+ */
+export const backfillDataQualityGaps = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { serialNumber } = req.params;
+    const { from, to } = parseRange(req.query);
+
+    const unit = await findActiveSolarUnit(serialNumber);
+    if (!unit) {
+      throw new NotFoundError("Solar unit not found");
+    }
+
+    const report = await getDataQualityReport(serialNumber, from, to);
+    const step = report.intervalHours * HOUR_MS;
+    const timestamps = report.missing.ranges.flatMap((range) => {
+      const starts: Date[] = [];
+      for (let time = range.from.getTime(); time < range.to.getTime(); time += step) {
+        starts.push(new Date(time));
+      }
+      return starts;
+    });
+
+    const readings = await DataGenerationScheduler.generateReadings(unit, timestamps, report.intervalHours);
+    const upsertedIds = readings.length > 0 ? await insertNewReadings(readings, "backfill") : {};
+    const insertedIds = Object.values(upsertedIds);
+    if (insertedIds.length > 0) {
+      const inserted = await EnergyGenerationRecord.find({ _id: { $in: insertedIds } }).sort({ timestamp: 1 }).lean();
+      await publishEvent("records.created", { source: "backfill", serialNumber, records: inserted });
+    }
+
+    res.status(200).json({
+      serialNumber,
+      from,
+      to,
+      missingIntervals: timestamps.length,
+      inserted: insertedIds.length,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
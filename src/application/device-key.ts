@@ -0,0 +1,74 @@
+import { createHash, randomBytes } from "crypto";
+import { NextFunction, Request, Response } from "express";
+import { CreateDeviceKeyDto } from "../domain/dtos/energy-generation-record";
+import { NotFoundError, ValidationError } from "../domain/errors/errors";
+import { DeviceKey } from "../infrastructure/entities/DeviceKey";
+import { formatIssues } from "./energy-generation-record";
+
+export const hashDeviceKey = (key: string) => createHash("sha256").update(key).digest("hex");
+
+/**
+ * Issue a new device key. The plain key is only returned in this response.
+ */
+export const createDeviceKey = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = CreateDeviceKeyDto.safeParse(req.body);
+    if (!result.success) {
+      throw new ValidationError(formatIssues(result.error));
+    }
+
+    const key = `dk_${randomBytes(24).toString("hex")}`;
+    const deviceKey = await DeviceKey.create({
+      ...result.data,
+      keyHash: hashDeviceKey(key),
+    });
+
+    res.status(201).json({
+      _id: deviceKey._id,
+      serialNumber: deviceKey.serialNumber,
+      name: deviceKey.name,
+      createdAt: deviceKey.createdAt,
+      key,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getDeviceKeys = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const filter = typeof req.query.serialNumber === "string" ? { serialNumber: req.query.serialNumber } : {};
+    const deviceKeys = await DeviceKey.find(filter).select("-keyHash").sort({ createdAt: -1 });
+    res.status(200).json(deviceKeys);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const revokeDeviceKey = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const deviceKey = await DeviceKey.findById(req.params.id).select("-keyHash");
+    if (!deviceKey) {
+      throw new NotFoundError("Device key not found");
+    }
+    if (!deviceKey.revokedAt) {
+      deviceKey.revokedAt = new Date();
+      await deviceKey.save();
+    }
+    res.status(200).json(deviceKey);
+  } catch (error) {
+    next(error);
+  }
+};
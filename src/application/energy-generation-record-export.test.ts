@@ -0,0 +1,136 @@
+import express from "express";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { NotFoundError } from "../domain/errors/errors";
+import { globalErrorHandler } from "../api/middlewares/global-error-handling-middleware";
+import { EnergyGenerationRecord } from "../infrastructure/entities/EnergyGenerationRecord";
+import { listen } from "../test/listen";
+import { escapeCsv, exportEnergyGenerationRecordsBySerialNumber } from "./energy-generation-record-export";
+
+vi.mock("./solar-unit", () => ({
+  assertKnownSolarUnit: async (serialNumber: string) => {
+    if (serialNumber !== "SU-0001") {
+      throw new NotFoundError("Solar unit not found");
+    }
+  },
+}));
+
+vi.mock("./energy-rollups", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./energy-rollups")>()),
+  resolveUnitTimeZone: async () => "Asia/Colombo",
+}));
+
+const records = [
+  {
+    serialNumber: "SU-0001",
+    timestamp: new Date("2025-12-01T00:00:00Z"),
+    energyGenerated: 0,
+    intervalHours: 2,
+    temperature: 24.5,
+  },
+  {
+    serialNumber: "SU-0001",
+    timestamp: new Date("2025-12-01T06:00:00Z"),
+    energyGenerated: 3120.5,
+    intervalHours: 2,
+    peakPower: 1710,
+    efficiency: 18.2,
+    temperature: 41,
+  },
+];
+
+const app = express();
+app.get("/solar-unit/:serialNumber/export", exportEnergyGenerationRecordsBySerialNumber);
+app.use(globalErrorHandler);
+
+let server: Awaited<ReturnType<typeof listen>>;
+let filter: unknown;
+
+const get = async (path: string) => {
+  const response = await fetch(`${server.url}${path}`);
+  return { status: response.status, headers: response.headers, text: await response.text() };
+};
+
+beforeAll(async () => {
+  server = await listen(app);
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+beforeEach(() => {
+  vi.spyOn(EnergyGenerationRecord, "find").mockImplementation(((match: unknown) => {
+    filter = match;
+    let index = 0;
+    const cursor = { next: async () => records[index++] ?? null, close: async () => undefined };
+    return { sort: () => ({ lean: () => ({ cursor: () => cursor }) }) };
+  }) as any);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("exportEnergyGenerationRecordsBySerialNumber", () => {
+  it("streams CSV with a header row, in the unit's time zone by default", async () => {
+    const response = await get("/solar-unit/SU-0001/export");
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe("text/csv; charset=utf-8");
+    expect(response.headers.get("content-disposition")).toBe('attachment; filename="SU-0001.csv"');
+    expect(response.text).toBe(
+      [
+        "timestamp,serialNumber,energyGenerated,intervalHours,peakPower,efficiency,temperature",
+        "2025-12-01T05:30:00+05:30,SU-0001,0,2,,,24.5",
+        "2025-12-01T11:30:00+05:30,SU-0001,3120.5,2,1710,18.2,41",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("streams NDJSON in the requested time zone and names the file after the range", async () => {
+    const response = await get("/solar-unit/SU-0001/export?format=ndjson&tz=UTC&from=2025-12-01&to=2025-12-02");
+
+    expect(response.headers.get("content-disposition")).toBe(
+      'attachment; filename="SU-0001_2025-12-01_2025-12-02.ndjson"'
+    );
+    expect(filter).toEqual({
+      serialNumber: "SU-0001",
+      timestamp: { $gte: new Date("2025-12-01T00:00:00Z"), $lte: new Date("2025-12-02T00:00:00Z") },
+    });
+    const lines = response.text.trim().split("\n").map((line) => JSON.parse(line));
+    expect(lines.map((line) => line.timestamp)).toEqual(["2025-12-01T00:00:00Z", "2025-12-01T06:00:00Z"]);
+  });
+
+  it("streams a JSON array", async () => {
+    const response = await get("/solar-unit/SU-0001/export?format=json");
+
+    expect(JSON.parse(response.text)).toHaveLength(2);
+  });
+
+  it.each([
+    ["an unknown format", "/solar-unit/SU-0001/export?format=xml", 400],
+    ["an invalid time zone", "/solar-unit/SU-0001/export?tz=Mars/Olympus", 400],
+    ["from after to", "/solar-unit/SU-0001/export?from=2025-12-02&to=2025-12-01", 400],
+    ["an unknown unit", "/solar-unit/SU-9999/export", 404],
+  ])("answers %s before streaming anything", async (_, path, status) => {
+    const response = await get(path);
+
+    expect(response.status).toBe(status);
+    expect(response.headers.get("content-type")).toContain("application/json");
+  });
+});
+
+describe("escapeCsv", () => {
+  it.each([
+    [undefined, ""],
+    [null, ""],
+    [12.5, "12.5"],
+    ["plain", "plain"],
+    ['say "hi"', '"say ""hi"""'],
+    ["a,b", '"a,b"'],
+    ["two\nlines", '"two\nlines"'],
+  ])("writes %j as %j", (value, expected) => {
+    expect(escapeCsv(value)).toBe(expected);
+  });
+});
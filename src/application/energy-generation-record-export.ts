@@ -0,0 +1,192 @@
+import { NextFunction, Request, Response } from "express";
+import { ExportEnergyGenerationRecordsQueryDto } from "../domain/dtos/energy-generation-record";
+import { ValidationError } from "../domain/errors/errors";
+import { formatInTimeZone } from "../domain/time-zone";
+import { EnergyGenerationRecord } from "../infrastructure/entities/EnergyGenerationRecord";
+import { buildGroupedPipeline, buildMatchStage, formatIssues } from "./energy-generation-record";
+import { getRollupBuckets, resolveUnitTimeZone } from "./energy-rollups";
+import { assertKnownSolarUnit } from "./solar-unit";
+import { logger } from "../infrastructure/logging/logger";
+
+type ExportFormat = "csv" | "ndjson" | "json";
+type Row = Record<string, unknown>;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  ndjson: "application/x-ndjson; charset=utf-8",
+  json: "application/json; charset=utf-8",
+};
+
+const RECORD_COLUMNS = [
+  "timestamp",
+  "serialNumber",
+  "energyGenerated",
+  "intervalHours",
+  "peakPower",
+  "efficiency",
+  "temperature",
+];
+
+const BUCKET_COLUMNS = [
+  "period",
+  "periodStart",
+  "totalEnergy",
+  "recordCount",
+  "coverage",
+  "peakTimestamp",
+  "peakEnergy",
+  "averageTemperature",
+  "averageEfficiency",
+];
+
+export const escapeCsv = (value: unknown) => {
+  if (value === undefined || value === null) {
+    return "";
+  }
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Write a chunk and, if the socket buffer is full, wait for it to drain (or for the client to leave)
+ */
+export const writeChunk = async (res: Response, chunk: string) => {
+  if (res.write(chunk) || res.destroyed) {
+    return;
+  }
+  await new Promise<void>((resolve) => {
+    const done = () => {
+      res.off("drain", done);
+      res.off("close", done);
+      resolve();
+    };
+    res.on("drain", done);
+    res.on("close", done);
+  });
+};
+
+const toRecordRow = (record: any, timeZone: string): Row => ({
+  timestamp: formatInTimeZone(record.timestamp, timeZone),
+  serialNumber: record.serialNumber,
+  energyGenerated: record.energyGenerated,
+  intervalHours: record.intervalHours,
+  peakPower: record.peakPower,
+  efficiency: record.efficiency,
+  temperature: record.temperature,
+});
+
+const toBucketRow = (bucket: any, timeZone: string): Row => ({
+  period: bucket._id,
+  periodStart: formatInTimeZone(bucket.periodStart, timeZone),
+  totalEnergy: bucket.totalEnergy,
+  recordCount: bucket.recordCount,
+  coverage: bucket.coverage,
+  peakTimestamp: bucket.peak ? formatInTimeZone(bucket.peak.timestamp, timeZone) : null,
+  peakEnergy: bucket.peak?.energyGenerated,
+  averageTemperature: bucket.averageTemperature,
+  averageEfficiency: bucket.averageEfficiency,
+});
+
+// Lets rows that are already in memory go through the same loop as a Mongo cursor
+const arrayCursor = <T>(items: T[]) => {
+  let index = 0;
+  return {
+    next: async () => items[index++] ?? null,
+    close: async () => undefined,
+  };
+};
+
+const buildFileName = (serialNumber: string, format: ExportFormat, from?: Date, to?: Date, groupBy?: string) => {
+  const parts = [serialNumber.replace(/[^\w.-]/g, "_")];
+  if (groupBy) parts.push(groupBy);
+  if (from) parts.push(from.toISOString().slice(0, 10));
+  if (to) parts.push(to.toISOString().slice(0, 10));
+  return `${parts.join("_")}.${format}`;
+};
+
+/**
+ * Stream a unit's records (or grouped buckets) as CSV, NDJSON or a JSON array
+ * Rows are read from a Mongo cursor and written with backpressure, so memory use stays flat
+ * regardless of the range. Timestamps are formatted, and days bucketed, in the requested IANA
+ * time zone (the unit's own by default).
+ *
+ * GET /api/energy-generation-records/solar-unit/:serialNumber/export?format=&from=&to=&groupBy=&tz=
+ */
+export const exportEnergyGenerationRecordsBySerialNumber = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  let cursor: { next(): Promise<any>; close(): Promise<unknown> } | null = null;
+
+  try {
+    const { serialNumber } = req.params;
+    const result = ExportEnergyGenerationRecordsQueryDto.safeParse(req.query);
+    if (!result.success) {
+      throw new ValidationError(formatIssues(result.error));
+    }
+    await assertKnownSolarUnit(serialNumber);
+
+    const { format, groupBy, from, to } = result.data;
+    const tz = result.data.tz ?? (await resolveUnitTimeZone(serialNumber));
+    const match = buildMatchStage(serialNumber, from, to);
+    const columns = groupBy ? BUCKET_COLUMNS : RECORD_COLUMNS;
+    const toRow = (document: any) => (groupBy ? toBucketRow(document, tz) : toRecordRow(document, tz));
+
+    const rollupBuckets = groupBy ? await getRollupBuckets(serialNumber, groupBy, from, to, undefined, tz) : null;
+    const activeCursor = rollupBuckets
+      ? arrayCursor(rollupBuckets)
+      : groupBy
+      ? EnergyGenerationRecord.aggregate(buildGroupedPipeline(match, groupBy, undefined, tz)).allowDiskUse(true).cursor()
+      : EnergyGenerationRecord.find(match).sort({ timestamp: 1 }).lean().cursor();
+    cursor = activeCursor;
+
+    let clientGone = false;
+    res.on("close", () => {
+      clientGone = true;
+      activeCursor.close().catch(() => undefined);
+    });
+
+    res.status(200);
+    res.setHeader("Content-Type", CONTENT_TYPES[format]);
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${buildFileName(serialNumber, format, from, to, groupBy)}"`
+    );
+
+    const write = (chunk: string) => writeChunk(res, chunk);
+
+    if (format === "csv") {
+      await write(`${columns.join(",")}\n`);
+    } else if (format === "json") {
+      await write("[");
+    }
+
+    let index = 0;
+    for (let document = await activeCursor.next(); document && !clientGone; document = await activeCursor.next()) {
+      const row = toRow(document);
+      if (format === "csv") {
+        await write(`${columns.map((column) => escapeCsv(row[column])).join(",")}\n`);
+      } else if (format === "ndjson") {
+        await write(`${JSON.stringify(row)}\n`);
+      } else {
+        await write(`${index > 0 ? "," : ""}${JSON.stringify(row)}`);
+      }
+      index++;
+    }
+
+    if (format === "json") {
+      await write("]");
+    }
+    res.end();
+  } catch (error) {
+    await cursor?.close().catch(() => undefined);
+    // Once streaming has started the status is sent; all we can do is cut the response short
+    if (res.headersSent) {
+      logger.error("Export failed after streaming began", { error });
+      res.destroy(error as Error);
+      return;
+    }
+    next(error);
+  }
+};
@@ -0,0 +1,131 @@
+import { Request, Response } from "express";
+import mongoose, { mongo } from "mongoose";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { EnergyGenerationRecord } from "../infrastructure/entities/EnergyGenerationRecord";
+import { formatIssues, getAllEnergyGenerationRecordsBySerialNumber, insertNewReadings } from "./energy-generation-record";
+import { applyRecordsToRollups, getRollupBuckets } from "./energy-rollups";
+
+vi.mock("./maintenance-schedule", () => ({
+  tagMaintenance: async <T>(readings: T[]) => readings,
+}));
+
+vi.mock("./energy-rollups", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./energy-rollups")>()),
+  applyRecordsToRollups: vi.fn(),
+  getRollupBuckets: vi.fn(),
+  resolveUnitTimeZone: async () => "Asia/Colombo",
+}));
+
+vi.mock("./solar-unit", () => ({
+  assertKnownSolarUnit: async () => undefined,
+}));
+
+const readings = [0, 1, 2].map((index) => ({
+  serialNumber: "SU-0001",
+  timestamp: new Date(Date.UTC(2025, 11, 1, index * 2)),
+  intervalHours: 2,
+  energyGenerated: 500,
+  expectedEnergy: 550,
+}));
+
+const bulkWriteError = (codes: number[], upsertedIds: Record<number, unknown>) =>
+  new mongo.MongoBulkWriteError(
+    {
+      message: "Bulk write failed",
+      code: codes[0],
+      writeErrors: codes.map((code, index) => ({ code, index, errmsg: `error ${code}` }) as unknown as mongo.WriteError),
+    },
+    { upsertedIds } as unknown as mongo.BulkWriteResult
+  );
+
+beforeEach(() => {
+  vi.mocked(applyRecordsToRollups).mockResolvedValue(undefined);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("insertNewReadings", () => {
+  it("inserts only readings that are not stored yet and rolls them up", async () => {
+    const ids = { 0: new mongoose.Types.ObjectId(), 2: new mongoose.Types.ObjectId() };
+    const bulkWrite = vi
+      .spyOn(EnergyGenerationRecord, "bulkWrite")
+      .mockResolvedValue({ upsertedIds: ids } as unknown as mongo.BulkWriteResult & { mongoose: never });
+
+    expect(await insertNewReadings(readings, "generation")).toEqual(ids);
+    expect(bulkWrite.mock.calls[0][0]).toHaveLength(3);
+    expect(bulkWrite.mock.calls[0][1]).toEqual({ ordered: false });
+    expect(applyRecordsToRollups).toHaveBeenCalledWith([readings[0], readings[2]]);
+  });
+
+  it("treats duplicate key errors as readings another request stored first", async () => {
+    const ids = { 1: new mongoose.Types.ObjectId() };
+    vi.spyOn(EnergyGenerationRecord, "bulkWrite").mockRejectedValue(bulkWriteError([11000, 11000], ids));
+
+    expect(await insertNewReadings(readings)).toEqual(ids);
+    expect(applyRecordsToRollups).toHaveBeenCalledWith([readings[1]]);
+  });
+
+  it("rethrows write errors other than duplicates", async () => {
+    vi.spyOn(EnergyGenerationRecord, "bulkWrite").mockRejectedValue(bulkWriteError([11000, 121], {}));
+
+    await expect(insertNewReadings(readings)).rejects.toBeInstanceOf(mongo.MongoBulkWriteError);
+    expect(applyRecordsToRollups).not.toHaveBeenCalled();
+  });
+
+  it("rethrows errors that are not bulk write errors", async () => {
+    vi.spyOn(EnergyGenerationRecord, "bulkWrite").mockRejectedValue(new Error("connection reset"));
+
+    await expect(insertNewReadings(readings)).rejects.toThrow("connection reset");
+  });
+});
+
+describe("getAllEnergyGenerationRecordsBySerialNumber", () => {
+  const getGrouped = async (query: Record<string, string>) => {
+    const res = { status: vi.fn(), json: vi.fn() };
+    res.status.mockReturnValue(res);
+    const next = vi.fn();
+    await getAllEnergyGenerationRecordsBySerialNumber(
+      { params: { serialNumber: "SU-0001" }, query } as unknown as Request,
+      res as unknown as Response,
+      next
+    );
+    expect(next).not.toHaveBeenCalled();
+    return res.json.mock.calls[0][0];
+  };
+
+  it("answers from the rollups when they can serve the request", async () => {
+    const buckets = [{ _id: "2025-12-01", totalEnergy: 4000 }];
+    vi.mocked(getRollupBuckets).mockResolvedValue(buckets as any);
+    const aggregate = vi.spyOn(EnergyGenerationRecord, "aggregate");
+
+    expect(await getGrouped({ groupBy: "date" })).toBe(buckets);
+    expect(getRollupBuckets).toHaveBeenCalledWith("SU-0001", "date", undefined, undefined, undefined, "Asia/Colombo");
+    expect(aggregate).not.toHaveBeenCalled();
+  });
+
+  it("falls back to the aggregation when the rollups answer null", async () => {
+    const buckets = [{ _id: "2025-12-01T06:00", totalEnergy: 900 }];
+    vi.mocked(getRollupBuckets).mockResolvedValue(null);
+    const aggregate = vi.spyOn(EnergyGenerationRecord, "aggregate").mockResolvedValue(buckets);
+
+    expect(await getGrouped({ groupBy: "hour", tz: "UTC" })).toBe(buckets);
+    expect(getRollupBuckets).toHaveBeenCalledWith("SU-0001", "hour", undefined, undefined, undefined, "UTC");
+    expect(aggregate).toHaveBeenCalledOnce();
+  });
+});
+
+describe("formatIssues", () => {
+  it("prefixes each issue with its path", () => {
+    const result = z
+      .object({ energyGenerated: z.number().min(0, "energyGenerated must not be negative"), note: z.string() })
+      .safeParse({ energyGenerated: -1 });
+
+    expect(result.success).toBe(false);
+    expect(formatIssues(result.error!)).toBe(
+      "energyGenerated: energyGenerated must not be negative; note: Invalid input: expected string, received undefined"
+    );
+  });
+});
@@ -1,8 +1,125 @@
+import { mongo, PipelineStage } from "mongoose";
+import { z } from "zod";
+import {
+  BulkCreateEnergyGenerationRecordsDto,
+  CreateEnergyGenerationRecordDto,
+} from "../domain/dtos/energy-generation-record";
 import { GetAllEnergyGenerationRecordsQueryDto } from "../domain/dtos/solar-unit";
-import { ValidationError } from "../domain/errors/errors";
+import { ConflictError, ForbiddenError, ValidationError } from "../domain/errors/errors";
+import { Principal, RecordSource, SolarUnit } from "../domain/types";
+import { DataGenerationScheduler } from "../infrastructure/data-generation-scheduler";
 import { EnergyGenerationRecord } from "../infrastructure/entities/EnergyGenerationRecord";
+import { logger } from "../infrastructure/logging/logger";
+import { recordsInserted } from "../infrastructure/metrics/metrics";
+import { findActiveSolarUnit } from "../infrastructure/solar-units/solar-unit-provider";
+import { publishEvent } from "../infrastructure/webhooks/event-publisher";
+import { applyRecordsToRollups, getRollupBuckets, resolveUnitTimeZone } from "./energy-rollups";
+import { tagMaintenance } from "./maintenance-schedule";
+import { assertKnownSolarUnit, findHeldBackSolarUnits } from "./solar-unit";
 import { NextFunction, Request, Response } from "express";
 
+export type GroupBy = NonNullable<z.infer<typeof GetAllEnergyGenerationRecordsQueryDto>["groupBy"]>;
+
+// How each groupBy value maps onto $dateTrunc units and bucket labels
+const GROUPINGS: Record<GroupBy, { unit: "hour" | "day" | "week" | "month"; format: string }> = {
+  hour: { unit: "hour", format: "%Y-%m-%dT%H:00" },
+  date: { unit: "day", format: "%Y-%m-%d" },
+  week: { unit: "week", format: "%G-W%V" },
+  month: { unit: "month", format: "%Y-%m" },
+};
+
+export const buildMatchStage = (serialNumber: string, from?: Date, to?: Date) => {
+  const match: Record<string, unknown> = { serialNumber };
+  if (from || to) {
+    match.timestamp = {
+      ...(from && { $gte: from }),
+      ...(to && { $lte: to }),
+    };
+  }
+  return match;
+};
+
+/**
+ * Build an aggregation pipeline that buckets records by hour, day, ISO week or month.
+ * Each bucket reports total energy, the peak interval, the record count, coverage
+ * (share of the bucket's hours that are backed by a record) and average telemetry.
+ * Buckets start at midnight in the given IANA time zone, so DST days have 23 or 25 hours.
+ * $dateTrunc, $dateAdd and $dateDiff need MongoDB 5.0 (see MIN_MONGODB_VERSION).
+ */
+export const buildGroupedPipeline = (
+  match: Record<string, unknown>,
+  groupBy: GroupBy,
+  limit?: number,
+  timezone = "UTC"
+): PipelineStage[] => {
+  const { unit, format } = GROUPINGS[groupBy];
+  const bucketStart = { $dateTrunc: { date: "$timestamp", unit, startOfWeek: "monday", timezone } };
+
+  const pipeline: PipelineStage[] = [
+    { $match: match },
+    // Highest interval first, so $first picks each bucket's peak
+    { $sort: { energyGenerated: -1, timestamp: 1 } },
+    {
+      $group: {
+        _id: bucketStart,
+        totalEnergy: { $sum: "$energyGenerated" },
+        recordCount: { $sum: 1 },
+        coveredHours: { $sum: { $ifNull: ["$intervalHours", 2] } },
+        averageTemperature: { $avg: "$temperature" },
+        averageEfficiency: { $avg: "$efficiency" },
+        peak: {
+          $first: {
+            timestamp: "$timestamp",
+            energyGenerated: "$energyGenerated",
+            peakPower: "$peakPower",
+          },
+        },
+      },
+    },
+    {
+      $project: {
+        _id: { $dateToString: { format, date: "$_id", timezone } },
+        periodStart: "$_id",
+        totalEnergy: 1,
+        recordCount: 1,
+        peak: 1,
+        averageTemperature: 1,
+        averageEfficiency: 1,
+        coverage: {
+          $min: [
+            1,
+            {
+              $divide: [
+                "$coveredHours",
+                {
+                  $dateDiff: {
+                    startDate: "$_id",
+                    endDate: { $dateAdd: { startDate: "$_id", unit, amount: 1, timezone } },
+                    unit: "hour",
+                  },
+                },
+              ],
+            },
+          ],
+        },
+      },
+    },
+  ];
+
+  // With a limit, keep the most recent buckets but still return them oldest first
+  if (limit) {
+    pipeline.push({ $sort: { periodStart: -1 } }, { $limit: limit });
+  }
+  pipeline.push({ $sort: { periodStart: 1 } });
+
+  return pipeline;
+};
+
+/**
+ * A unit's records, or buckets of them with groupBy
+ *
+ * GET /api/energy-generation-records/solar-unit/:serialNumber?groupBy=&limit=&from=&to=&tz=
+ */
 export const getAllEnergyGenerationRecordsBySerialNumber = async (
   req: Request,
   res: Response,
@@ -10,9 +127,281 @@ export const getAllEnergyGenerationRecordsBySerialNumber = async (
 ) => {
   try {
     const { serialNumber } = req.params;
-    const energyGenerationRecords = await EnergyGenerationRecord.find({ serialNumber: serialNumber }).sort({ timestamp: 1 });
+    const result = GetAllEnergyGenerationRecordsQueryDto.safeParse(req.query);
+    if (!result.success) {
+      throw new ValidationError(formatIssues(result.error));
+    }
+    await assertKnownSolarUnit(serialNumber);
+
+    const { groupBy, limit, from, to, tz } = result.data;
+    const match = buildMatchStage(serialNumber, from, to);
+
+    if (groupBy) {
+      // Days follow tz, or the unit's own time zone; buckets over its whole days come from the rollups
+      const timeZone = tz ?? (await resolveUnitTimeZone(serialNumber));
+      const buckets =
+        (await getRollupBuckets(serialNumber, groupBy, from, to, limit, timeZone)) ??
+        (await EnergyGenerationRecord.aggregate(buildGroupedPipeline(match, groupBy, limit, timeZone)));
+      res.status(200).json(buckets);
+      return;
+    }
+
+    if (limit) {
+      const latestRecords = await EnergyGenerationRecord.find(match)
+        .sort({ timestamp: -1 })
+        .limit(limit);
+      res.status(200).json(latestRecords.reverse());
+      return;
+    }
+
+    const energyGenerationRecords = await EnergyGenerationRecord.find(match).sort({ timestamp: 1 });
     res.status(200).json(energyGenerationRecords);
   } catch (error) {
     next(error);
   }
 };
+
+type IngestResult = {
+  index: number;
+  status: "accepted" | "duplicate" | "rejected";
+  reason?: string;
+  _id?: unknown;
+};
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+/**
+ * Turn zod issues into a readable reason, e.g. "energyGenerated: energyGenerated must not be negative"
+ */
+export const formatIssues = (error: z.ZodError) =>
+  error.issues
+    .map((issue) => (issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message))
+    .join("; ");
+
+export type Reading = z.infer<typeof CreateEnergyGenerationRecordDto>;
+
+type StoredReading = Reading & { expectedEnergy?: number; inMaintenance?: boolean };
+
+/**
+ * Give readings without an expectedEnergy the generation model's expectation for their unit
+ * Each unit is looked up once per batch; readings of units that cannot be looked up are stored
+ * without one and the performance report fills it in later.
+ */
+const withExpectedEnergy = async (readings: StoredReading[]): Promise<StoredReading[]> => {
+  const serialNumbers = Array.from(
+    new Set(readings.filter((reading) => reading.expectedEnergy === undefined).map((reading) => reading.serialNumber))
+  );
+  const units = new Map<string, SolarUnit | undefined>();
+  for (const serialNumber of serialNumbers) {
+    try {
+      units.set(serialNumber, await findActiveSolarUnit(serialNumber));
+    } catch (error) {
+      logger.warn("Could not compute the expected energy", { serialNumber, error });
+    }
+  }
+
+  const completed: StoredReading[] = [];
+  for (const reading of readings) {
+    const unit = reading.expectedEnergy === undefined ? units.get(reading.serialNumber) : undefined;
+    completed.push(
+      unit
+        ? {
+            ...reading,
+            expectedEnergy: await DataGenerationScheduler.getExpectedEnergy(unit, reading.timestamp, reading.intervalHours),
+          }
+        : reading
+    );
+  }
+  return completed;
+};
+
+/**
+ * Insert the readings that are not stored yet, keyed on (serialNumber, timestamp)
+ * Existing readings are left untouched and new ones get their expected energy and maintenance tag.
+ * Returns the new _id of each inserted reading by its position; source labels the inserted records metric.
+ */
+export const insertNewReadings = async (
+  newReadings: StoredReading[],
+  source: RecordSource = "ingestion"
+): Promise<Record<number, unknown>> => {
+  const readings = await tagMaintenance(await withExpectedEnergy(newReadings));
+  const operations = readings.map((reading) => ({
+    updateOne: {
+      filter: { serialNumber: reading.serialNumber, timestamp: reading.timestamp },
+      update: { $setOnInsert: reading },
+      upsert: true,
+    },
+  }));
+
+  let upsertedIds: Record<number, unknown>;
+  try {
+    const outcome = await EnergyGenerationRecord.bulkWrite(operations, { ordered: false });
+    upsertedIds = outcome.upsertedIds;
+  } catch (error) {
+    // Duplicate key errors only mean another request stored the same reading first
+    if (!(error instanceof mongo.MongoBulkWriteError)) {
+      throw error;
+    }
+    const writeErrors: mongo.WriteError[] = ([] as mongo.WriteError[]).concat(error.writeErrors ?? []);
+    if (writeErrors.some((writeError) => writeError.code !== DUPLICATE_KEY_ERROR)) {
+      throw error;
+    }
+    upsertedIds = error.upsertedIds ?? {};
+  }
+
+  const inserted = readings.filter((_, index) => upsertedIds[index]);
+  for (const reading of inserted) {
+    recordsInserted.inc({ serial_number: reading.serialNumber, source });
+  }
+  await applyRecordsToRollups(inserted);
+  return upsertedIds;
+};
+
+const canSubmitFor = (principal: Principal | undefined, serialNumber: string) =>
+  principal?.type === "device" && principal.serialNumber === serialNumber;
+
+const describeHeldBack = (serialNumber: string, status: string) =>
+  `Solar unit ${serialNumber} is ${status} and does not accept readings`;
+
+/**
+ * Ingest a single reading from a device
+ * Re-posting a reading for the same (serialNumber, timestamp) returns the stored record with 200.
+ * Units the registry holds in another status than ACTIVE get 409.
+ *
+ * POST /api/energy-generation-records
+ */
+export const createEnergyGenerationRecord = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = CreateEnergyGenerationRecordDto.safeParse(req.body);
+    if (!result.success) {
+      throw new ValidationError(formatIssues(result.error));
+    }
+
+    const reading = result.data;
+    if (!canSubmitFor(req.principal, reading.serialNumber)) {
+      throw new ForbiddenError("Device key is not valid for this serial number");
+    }
+    const status = (await findHeldBackSolarUnits([reading.serialNumber])).get(reading.serialNumber);
+    if (status) {
+      throw new ConflictError(describeHeldBack(reading.serialNumber, status));
+    }
+
+    const key = { serialNumber: reading.serialNumber, timestamp: reading.timestamp };
+    const [stored] = await tagMaintenance(await withExpectedEnergy([reading]));
+    let created = false;
+    try {
+      const outcome = await EnergyGenerationRecord.updateOne(key, { $setOnInsert: stored }, { upsert: true });
+      created = outcome.upsertedCount > 0;
+    } catch (error) {
+      // A concurrent request inserted the same reading first
+      if (!(error instanceof mongo.MongoServerError) || error.code !== DUPLICATE_KEY_ERROR) {
+        throw error;
+      }
+    }
+
+    const record = await EnergyGenerationRecord.findOne(key);
+    if (created) {
+      recordsInserted.inc({ serial_number: reading.serialNumber, source: "ingestion" });
+      await applyRecordsToRollups([stored]);
+    }
+    if (created && record) {
+      await publishEvent("records.created", {
+        source: "ingestion",
+        serialNumber: reading.serialNumber,
+        records: [record.toObject()],
+      });
+    }
+    res.status(created ? 201 : 200).json(record);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Ingest a batch of readings from a device
+ * Every item is validated on its own; the response reports which were accepted,
+ * which were already stored and which were rejected and why.
+ *
+ * POST /api/energy-generation-records/bulk
+ * Body: { records: [...] } (up to 1000)
+ */
+export const createEnergyGenerationRecordsBulk = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = BulkCreateEnergyGenerationRecordsDto.safeParse(req.body);
+    if (!result.success) {
+      throw new ValidationError(formatIssues(result.error));
+    }
+
+    const results: IngestResult[] = [];
+    let readings: { index: number; reading: Reading }[] = [];
+    const seen = new Set<string>();
+
+    result.data.records.forEach((item, index) => {
+      const parsed = CreateEnergyGenerationRecordDto.safeParse(item);
+      if (!parsed.success) {
+        results[index] = { index, status: "rejected", reason: formatIssues(parsed.error) };
+        return;
+      }
+      if (!canSubmitFor(req.principal, parsed.data.serialNumber)) {
+        results[index] = { index, status: "rejected", reason: "Device key is not valid for this serial number" };
+        return;
+      }
+      const key = `${parsed.data.serialNumber}|${parsed.data.timestamp.toISOString()}`;
+      if (seen.has(key)) {
+        results[index] = { index, status: "duplicate", reason: "Repeated earlier in this batch" };
+        return;
+      }
+      seen.add(key);
+      readings.push({ index, reading: parsed.data });
+    });
+
+    const heldBack = await findHeldBackSolarUnits(Array.from(new Set(readings.map(({ reading }) => reading.serialNumber))));
+    if (heldBack.size > 0) {
+      readings = readings.filter(({ index, reading }) => {
+        const status = heldBack.get(reading.serialNumber);
+        if (status) {
+          results[index] = { index, status: "rejected", reason: describeHeldBack(reading.serialNumber, status) };
+        }
+        return !status;
+      });
+    }
+
+    if (readings.length > 0) {
+      const upsertedIds = await insertNewReadings(readings.map(({ reading }) => reading));
+
+      readings.forEach(({ index }, operationIndex) => {
+        const _id = upsertedIds[operationIndex];
+        results[index] = _id
+          ? { index, status: "accepted", _id }
+          : { index, status: "duplicate", reason: "Reading already stored" };
+      });
+
+      const acceptedIds = results.filter((item) => item.status === "accepted").map((item) => item._id);
+      if (acceptedIds.length > 0) {
+        const accepted = await EnergyGenerationRecord.find({ _id: { $in: acceptedIds } }).sort({ timestamp: 1 }).lean();
+        await publishEvent("records.created", {
+          source: "ingestion",
+          serialNumber: accepted[0].serialNumber,
+          records: accepted,
+        });
+      }
+    }
+
+    res.status(200).json({
+      accepted: results.filter((item) => item.status === "accepted").length,
+      duplicates: results.filter((item) => item.status === "duplicate").length,
+      rejected: results.filter((item) => item.status === "rejected").length,
+      results,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
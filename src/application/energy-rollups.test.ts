@@ -0,0 +1,192 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { SolarUnit } from "../domain/types";
+import { DailyEnergySummary } from "../infrastructure/entities/DailyEnergySummary";
+import { EnergyGenerationRecord } from "../infrastructure/entities/EnergyGenerationRecord";
+import { MonthlyEnergySummary } from "../infrastructure/entities/MonthlyEnergySummary";
+import { setSolarUnitProvider } from "../infrastructure/solar-units/solar-unit-provider";
+import {
+  applyRecordsToRollups,
+  getDailySummaries,
+  getMonthlySummaries,
+  getRollupBuckets,
+  getSiteLocation,
+  summarizeRecords,
+} from "./energy-rollups";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Midnight in Colombo (UTC+05:30)
+const day = (date: string) => new Date(new Date(`${date}T00:00:00Z`).getTime() - 5.5 * HOUR_MS);
+
+const unit = {
+  serialNumber: "SU-0001",
+  installationDate: "2024-01-15",
+  capacity: 5000,
+  status: "ACTIVE",
+  timezone: "Asia/Colombo",
+  latitude: 6.93,
+  longitude: 79.85,
+} as SolarUnit;
+
+// Two readings a day from 1 to 3 December
+const records = ["2025-12-01", "2025-12-02", "2025-12-03"].flatMap((date) =>
+  [4, 6].map((hour) => ({
+    serialNumber: "SU-0001",
+    timestamp: new Date(day(date).getTime() + hour * HOUR_MS),
+    energyGenerated: 1000,
+    intervalHours: 2,
+  }))
+);
+
+let storedDays: Record<string, unknown>[];
+let savedDays: Date[];
+let savedMonths: Date[];
+
+beforeEach(() => {
+  // It is 10:00 on 3 December in Colombo
+  vi.useFakeTimers({ toFake: ["Date"], now: new Date("2025-12-03T04:30:00Z") });
+  setSolarUnitProvider({ name: "test", getActiveSolarUnits: async () => [unit] });
+  storedDays = [];
+  savedDays = [];
+  savedMonths = [];
+
+  vi.spyOn(EnergyGenerationRecord, "find").mockImplementation(((filter: { timestamp: { $gte: Date; $lt: Date } }) => ({
+    select: () => ({
+      lean: async () =>
+        records.filter((record) => record.timestamp >= filter.timestamp.$gte && record.timestamp < filter.timestamp.$lt),
+    }),
+  })) as any);
+  vi.spyOn(EnergyGenerationRecord, "findOne").mockImplementation(((_: unknown) => ({
+    sort: (order: { timestamp: 1 | -1 }) => ({
+      select: () => ({ lean: async () => (order.timestamp === 1 ? records[0] : records[records.length - 1]) }),
+    }),
+  })) as any);
+  vi.spyOn(DailyEnergySummary, "find").mockReturnValue({ lean: async () => storedDays } as any);
+  vi.spyOn(DailyEnergySummary, "bulkWrite").mockImplementation((async (operations: any[]) => {
+    savedDays.push(...operations.map((operation) => operation.replaceOne.filter.date));
+    return {};
+  }) as any);
+  vi.spyOn(DailyEnergySummary, "updateOne").mockResolvedValue({ matchedCount: 0 } as any);
+  vi.spyOn(MonthlyEnergySummary, "find").mockReturnValue({ lean: async () => [] } as any);
+  vi.spyOn(MonthlyEnergySummary, "replaceOne").mockImplementation(((filter: { month: Date }) => {
+    savedMonths.push(filter.month);
+    return Promise.resolve({});
+  }) as any);
+  vi.spyOn(MonthlyEnergySummary, "updateOne").mockResolvedValue({ matchedCount: 0 } as any);
+});
+
+afterEach(() => {
+  setSolarUnitProvider(null);
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("getDailySummaries", () => {
+  it("stores only the days that have ended in the unit's time zone", async () => {
+    const summaries = await getDailySummaries(unit, day("2025-12-01"), day("2025-12-04"));
+
+    expect(summaries.map((summary) => [summary.date, summary.energy])).toEqual([
+      [day("2025-12-01"), 2000],
+      [day("2025-12-02"), 2000],
+      [day("2025-12-03"), 2000],
+      [day("2025-12-04"), 0],
+    ]);
+    expect(savedDays).toEqual([day("2025-12-01"), day("2025-12-02")]);
+  });
+
+  it("computes today from the raw records even when a summary of it is stored", async () => {
+    storedDays = [
+      { serialNumber: "SU-0001", date: day("2025-12-02"), energy: 1500, recordCount: 1 },
+      { serialNumber: "SU-0001", date: day("2025-12-03"), energy: 1000, recordCount: 1 },
+    ];
+
+    const summaries = await getDailySummaries(unit, day("2025-12-02"), day("2025-12-03"));
+
+    expect(summaries.map((summary) => summary.energy)).toEqual([1500, 2000]);
+    expect(savedDays).toEqual([]);
+  });
+});
+
+describe("getMonthlySummaries", () => {
+  it("builds the current month without storing it", async () => {
+    const [december] = await getMonthlySummaries(unit, day("2025-12-01"), day("2025-12-01"));
+
+    expect(december).toMatchObject({ month: day("2025-12-01"), energy: 6000, recordCount: 6 });
+    expect(savedMonths).toEqual([]);
+  });
+});
+
+describe("getRollupBuckets", () => {
+  it("serves today's bucket without storing it", async () => {
+    const buckets = await getRollupBuckets("SU-0001", "date", day("2025-12-02"), new Date(day("2025-12-04").getTime() - 1));
+
+    expect(buckets?.map((bucket) => [bucket._id, bucket.totalEnergy])).toEqual([
+      ["2025-12-02", 2000],
+      ["2025-12-03", 2000],
+    ]);
+    expect(savedDays).toEqual([day("2025-12-02")]);
+  });
+});
+
+describe("getRollupBuckets fast path", () => {
+  const endOf = (date: string) => new Date(day(date).getTime() + 24 * HOUR_MS - 1);
+
+  it.each([
+    ["hourly buckets", "hour" as const, day("2025-12-01"), endOf("2025-12-02"), undefined],
+    ["another time zone", "date" as const, day("2025-12-01"), endOf("2025-12-02"), "UTC"],
+    ["a range starting inside a day", "date" as const, new Date(day("2025-12-01").getTime() + HOUR_MS), endOf("2025-12-02"), undefined],
+    ["a range ending inside a day", "week" as const, day("2025-12-01"), day("2025-12-02"), undefined],
+  ])("leaves %s to the aggregation", async (_, groupBy, from, to, timeZone) => {
+    expect(await getRollupBuckets("SU-0001", groupBy, from, to, undefined, timeZone)).toBeNull();
+    expect(DailyEnergySummary.find).not.toHaveBeenCalled();
+  });
+
+  it("answers whole days in the unit's own time zone from the summaries", async () => {
+    const buckets = await getRollupBuckets("SU-0001", "week", day("2025-12-01"), endOf("2025-12-02"), undefined, "Asia/Colombo");
+
+    expect(buckets).toEqual([
+      expect.objectContaining({ _id: "2025-W49", periodStart: day("2025-12-01"), totalEnergy: 4000, recordCount: 4 }),
+    ]);
+  });
+
+  it("answers a unit without records with no buckets", async () => {
+    vi.mocked(EnergyGenerationRecord.findOne).mockImplementation((() => ({
+      sort: () => ({ select: () => ({ lean: async () => null }) }),
+    })) as any);
+
+    expect(await getRollupBuckets("SU-0001", "month")).toEqual([]);
+  });
+});
+
+describe("applyRecordsToRollups", () => {
+  it("leaves today's summary to be computed when read", async () => {
+    await applyRecordsToRollups(records.slice(-2));
+
+    expect(DailyEnergySummary.updateOne).toHaveBeenCalledOnce();
+    expect(savedDays).toEqual([]);
+    expect(savedMonths).toEqual([]);
+  });
+
+  it("summarizes an ended day that had no summary yet", async () => {
+    await applyRecordsToRollups(records.slice(0, 2));
+
+    expect(savedDays).toEqual([day("2025-12-01")]);
+  });
+});
+
+describe("summarizeRecords", () => {
+  it("counts maintenance intervals as maintenance hours, not against uptime or the reference", () => {
+    // 10:00 and 12:00 in Colombo
+    const [operating, inMaintenance] = [10, 12].map((hour) => ({
+      ...records[0],
+      timestamp: new Date(day("2025-12-01").getTime() + hour * HOUR_MS),
+    }));
+
+    const normal = summarizeRecords([operating, inMaintenance], getSiteLocation(unit));
+    const withWindow = summarizeRecords([operating, { ...inMaintenance, energyGenerated: 0, inMaintenance: true }], getSiteLocation(unit));
+
+    expect(normal).toMatchObject({ daylightIntervals: 2, productiveIntervals: 2, maintenanceHours: 0 });
+    expect(withWindow).toMatchObject({ energy: 1000, recordCount: 2, daylightIntervals: 1, productiveIntervals: 1, maintenanceHours: 2 });
+    expect(withWindow.referenceIrradiation).toBeLessThan(normal.referenceIrradiation);
+  });
+});
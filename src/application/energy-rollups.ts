@@ -0,0 +1,643 @@
+import {
+  addZonedDays,
+  addZonedMonths,
+  formatZonedDate,
+  getUnitTimeZone,
+  getZonedDate,
+  startOfZonedDay,
+  startOfZonedMonth,
+  startOfZonedWeek,
+} from "../domain/time-zone";
+import { SolarUnit } from "../domain/types";
+import { DailyEnergySummary } from "../infrastructure/entities/DailyEnergySummary";
+import { EnergyGenerationRecord } from "../infrastructure/entities/EnergyGenerationRecord";
+import { MonthlyEnergySummary } from "../infrastructure/entities/MonthlyEnergySummary";
+import { SolarUnit as SolarUnitModel } from "../infrastructure/entities/SolarUnit";
+import { getDefaultLocation } from "../infrastructure/generation/create-generation-model";
+import { getClearSkyIrradiation, getDefaultOrientation } from "../infrastructure/generation/solar-position";
+import { findActiveSolarUnit } from "../infrastructure/solar-units/solar-unit-provider";
+import { GroupBy } from "./energy-generation-record";
+import { logger } from "../infrastructure/logging/logger";
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Mean clear-sky irradiance (W/m²) from which an interval counts as daylight for uptime
+const DAYLIGHT_IRRADIANCE = 250;
+
+// Relative difference in energy the consistency check tolerates (floating point sums)
+const ENERGY_TOLERANCE = 1e-6;
+
+export type RollupUnit = Partial<SolarUnit> & { serialNumber: string };
+
+export type RollupTotals = {
+  energy: number;
+  recordCount: number;
+  coveredHours: number;
+  daylightIntervals: number;
+  productiveIntervals: number;
+  referenceIrradiation: number;
+  temperatureSum: number;
+  temperatureCount: number;
+  efficiencySum: number;
+  efficiencyCount: number;
+  maintenanceHours: number;
+  peakPower?: number;
+  peak?: { timestamp: Date; energyGenerated: number; peakPower?: number };
+};
+
+export type DailySummary = RollupTotals & { serialNumber: string; date: Date };
+
+export type MonthlySummary = RollupTotals & { serialNumber: string; month: Date };
+
+export type SiteLocation = {
+  latitude: number;
+  longitude: number;
+  tilt: number;
+  azimuth: number;
+};
+
+export type RollupRecord = {
+  serialNumber: string;
+  timestamp: Date;
+  energyGenerated: number;
+  intervalHours?: number | null;
+  peakPower?: number | null;
+  efficiency?: number | null;
+  temperature?: number | null;
+  inMaintenance?: boolean | null;
+};
+
+export type RollupMismatch = {
+  serialNumber: string;
+  granularity: "day" | "month";
+  period: Date;
+  stored: { energy: number; recordCount: number };
+  actual: { energy: number; recordCount: number };
+};
+
+const ADDITIVE_FIELDS = [
+  "energy",
+  "recordCount",
+  "coveredHours",
+  "daylightIntervals",
+  "productiveIntervals",
+  "referenceIrradiation",
+  "temperatureSum",
+  "temperatureCount",
+  "efficiencySum",
+  "efficiencyCount",
+  "maintenanceHours",
+] as const;
+
+const RECORD_FIELDS = "serialNumber timestamp energyGenerated intervalHours peakPower efficiency temperature inMaintenance";
+
+// Days and months begin at midnight in the unit's time zone; summaries are keyed by that instant
+const listDays = (from: Date, to: Date, timeZone: string) => {
+  const days: Date[] = [];
+  for (let day = startOfZonedDay(from, timeZone); day <= to; day = addZonedDays(day, 1, timeZone)) {
+    days.push(day);
+  }
+  return days;
+};
+
+const listMonths = (from: Date, to: Date, timeZone: string) => {
+  const months: Date[] = [];
+  for (let month = startOfZonedMonth(from, timeZone); month <= to; month = addZonedMonths(month, 1, timeZone)) {
+    months.push(month);
+  }
+  return months;
+};
+
+const endOfMonth = (month: Date, timeZone: string) => new Date(addZonedMonths(month, 1, timeZone).getTime() - 1);
+
+// Summaries are only stored for days and months that have ended in the unit's time zone; the current
+// (or a future) one can still receive records, so it is computed from the raw records on every read
+const hasDayEnded = (day: Date, timeZone: string) => addZonedDays(day, 1, timeZone).getTime() <= Date.now();
+const hasMonthEnded = (month: Date, timeZone: string) => addZonedMonths(month, 1, timeZone).getTime() <= Date.now();
+
+/**
+ * Where a unit's panels are and which way they face; units without a location use
+ * GENERATION_DEFAULT_LATITUDE / GENERATION_DEFAULT_LONGITUDE like the generation models, or 0,0 when unset
+ */
+export const getSiteLocation = (unit: Partial<SolarUnit>): SiteLocation => {
+  const defaultLocation = getDefaultLocation() ?? { latitude: 0, longitude: 0 };
+  const latitude = unit.latitude ?? defaultLocation.latitude;
+  const longitude = unit.longitude ?? defaultLocation.longitude;
+  const orientation = getDefaultOrientation(latitude);
+  return {
+    latitude,
+    longitude,
+    tilt: unit.tilt ?? orientation.tilt,
+    azimuth: unit.azimuth ?? orientation.azimuth,
+  };
+};
+
+// The registry keeps units the provider leaves out (MAINTENANCE, INACTIVE), whatever their status
+const findRegisteredUnit = async (serialNumber: string): Promise<RollupUnit | undefined> => {
+  const unit = await SolarUnitModel.findOne({ serialNumber }).lean();
+  return unit
+    ? {
+        serialNumber,
+        capacity: unit.capacity ?? undefined,
+        timezone: unit.timezone ?? undefined,
+        latitude: unit.latitude ?? undefined,
+        longitude: unit.longitude ?? undefined,
+        tilt: unit.tilt ?? undefined,
+        azimuth: unit.azimuth ?? undefined,
+      }
+    : undefined;
+};
+
+// A unit's days must not move when its status changes, so units the provider does not list as active
+// are looked up in the registry; only unknown units fall back to the default location and time zone
+const resolveRollupUnit = async (serialNumber: string): Promise<RollupUnit> => {
+  try {
+    const unit = await findActiveSolarUnit(serialNumber);
+    if (unit) {
+      return unit;
+    }
+  } catch (error: any) {
+    logger.warn("Could not look up unit for rollups", { serialNumber, error });
+  }
+  try {
+    return (await findRegisteredUnit(serialNumber)) ?? { serialNumber };
+  } catch (error: any) {
+    logger.warn("Could not look up unit in the registry for rollups", { serialNumber, error });
+    return { serialNumber };
+  }
+};
+
+/**
+ * Time zone a unit's days are summarized in (its own, or DEFAULT_TIMEZONE)
+ */
+export const resolveUnitTimeZone = async (serialNumber: string) => getUnitTimeZone(await resolveRollupUnit(serialNumber));
+
+export const emptyTotals = (): RollupTotals => ({
+  energy: 0,
+  recordCount: 0,
+  coveredHours: 0,
+  daylightIntervals: 0,
+  productiveIntervals: 0,
+  referenceIrradiation: 0,
+  temperatureSum: 0,
+  temperatureCount: 0,
+  efficiencySum: 0,
+  efficiencyCount: 0,
+  maintenanceHours: 0,
+});
+
+export const mergeTotals = (a: RollupTotals, b: RollupTotals): RollupTotals => {
+  const merged: RollupTotals = { ...emptyTotals(), peakPower: a.peakPower, peak: a.peak };
+  ADDITIVE_FIELDS.forEach((field) => {
+    merged[field] = (a[field] ?? 0) + (b[field] ?? 0);
+  });
+  if (b.peakPower != null) {
+    merged.peakPower = Math.max(a.peakPower ?? 0, b.peakPower);
+  }
+  if (b.peak && (!a.peak || b.peak.energyGenerated > a.peak.energyGenerated)) {
+    merged.peak = b.peak;
+  }
+  return merged;
+};
+
+const summarizeRecord = (record: RollupRecord, location: SiteLocation): RollupTotals => {
+  const intervalHours = record.intervalHours ?? 2;
+  const irradiation = getClearSkyIrradiation(
+    record.timestamp,
+    intervalHours,
+    location.latitude,
+    location.longitude,
+    location.tilt,
+    location.azimuth
+  );
+  const daylight = irradiation / intervalHours >= DAYLIGHT_IRRADIANCE;
+  // Intervals in a maintenance window count towards the energy but not towards uptime or the reference
+  const operating = !record.inMaintenance;
+
+  return {
+    energy: record.energyGenerated,
+    recordCount: 1,
+    coveredHours: intervalHours,
+    daylightIntervals: operating && daylight ? 1 : 0,
+    productiveIntervals: operating && daylight && record.energyGenerated > 0 ? 1 : 0,
+    referenceIrradiation: operating ? irradiation : 0,
+    temperatureSum: record.temperature ?? 0,
+    temperatureCount: record.temperature != null ? 1 : 0,
+    efficiencySum: record.efficiency ?? 0,
+    efficiencyCount: record.efficiency != null ? 1 : 0,
+    maintenanceHours: operating ? 0 : intervalHours,
+    peakPower: record.peakPower ?? undefined,
+    peak: {
+      timestamp: record.timestamp,
+      energyGenerated: record.energyGenerated,
+      peakPower: record.peakPower ?? undefined,
+    },
+  };
+};
+
+export const summarizeRecords = (records: RollupRecord[], location: SiteLocation) =>
+  records.reduce((totals, record) => mergeTotals(totals, summarizeRecord(record, location)), emptyTotals());
+
+const groupByKey = <T>(items: T[], keyOf: (item: T) => number | string) => {
+  const groups = new Map<number | string, T[]>();
+  items.forEach((item) => {
+    const key = keyOf(item);
+    const group = groups.get(key);
+    if (group) {
+      group.push(item);
+    } else {
+      groups.set(key, [item]);
+    }
+  });
+  return groups;
+};
+
+// Summarize the given days from the raw records (a day without records gets an empty summary)
+const computeDailySummaries = async (unit: RollupUnit, days: Date[]): Promise<DailySummary[]> => {
+  if (days.length === 0) {
+    return [];
+  }
+  const timeZone = getUnitTimeZone(unit);
+  const records = await EnergyGenerationRecord.find({
+    serialNumber: unit.serialNumber,
+    timestamp: { $gte: days[0], $lt: addZonedDays(days[days.length - 1], 1, timeZone) },
+  })
+    .select(RECORD_FIELDS)
+    .lean();
+
+  const recordsByDay = groupByKey(records as RollupRecord[], (record) =>
+    startOfZonedDay(record.timestamp, timeZone).getTime()
+  );
+  const location = getSiteLocation(unit);
+  return days.map((date) => ({
+    serialNumber: unit.serialNumber,
+    date,
+    ...summarizeRecords(recordsByDay.get(date.getTime()) ?? [], location),
+  }));
+};
+
+const saveDailySummaries = async (summaries: DailySummary[]) => {
+  if (summaries.length === 0) {
+    return;
+  }
+  await DailyEnergySummary.bulkWrite(
+    summaries.map((summary) => ({
+      replaceOne: {
+        filter: { serialNumber: summary.serialNumber, date: summary.date },
+        replacement: { ...summary, updatedAt: new Date() },
+        upsert: true,
+      },
+    })),
+    { ordered: false }
+  );
+};
+
+const saveMonthlySummary = async (summary: MonthlySummary) => {
+  await MonthlyEnergySummary.replaceOne(
+    { serialNumber: summary.serialNumber, month: summary.month },
+    { ...summary, updatedAt: new Date() },
+    { upsert: true }
+  );
+};
+
+/**
+ * Daily summaries for every day (in the unit's time zone) touched by [from, to], oldest first
+ * Ended days that have not been summarized yet are computed from the raw records and stored;
+ * today and later days are always computed and never stored.
+ */
+export const getDailySummaries = async (unit: RollupUnit, from: Date, to: Date): Promise<DailySummary[]> => {
+  const timeZone = getUnitTimeZone(unit);
+  const days = listDays(from, to, timeZone);
+  if (days.length === 0) {
+    return [];
+  }
+
+  const stored = await DailyEnergySummary.find({
+    serialNumber: unit.serialNumber,
+    date: { $gte: days[0], $lte: days[days.length - 1] },
+  }).lean();
+  const summaries = new Map<number, DailySummary>();
+  stored
+    .filter((summary) => hasDayEnded(summary.date, timeZone))
+    .forEach((summary) => summaries.set(summary.date.getTime(), { ...emptyTotals(), ...summary } as DailySummary));
+
+  const missing = days.filter((day) => !summaries.has(day.getTime()));
+  const computed = await computeDailySummaries(unit, missing);
+  await saveDailySummaries(computed.filter((summary) => hasDayEnded(summary.date, timeZone)));
+  computed.forEach((summary) => summaries.set(summary.date.getTime(), summary));
+
+  return days.map((day) => summaries.get(day.getTime()) as DailySummary);
+};
+
+/**
+ * Monthly summaries for every month (in the unit's time zone) touched by [from, to], oldest first
+ * Ended months that have not been summarized yet are built from their daily summaries and stored;
+ * the current month is always built and never stored.
+ */
+export const getMonthlySummaries = async (unit: RollupUnit, from: Date, to: Date): Promise<MonthlySummary[]> => {
+  const timeZone = getUnitTimeZone(unit);
+  const months = listMonths(from, to, timeZone);
+  if (months.length === 0) {
+    return [];
+  }
+
+  const stored = await MonthlyEnergySummary.find({
+    serialNumber: unit.serialNumber,
+    month: { $gte: months[0], $lte: months[months.length - 1] },
+  }).lean();
+  const summaries = new Map<number, MonthlySummary>();
+  stored
+    .filter((summary) => hasMonthEnded(summary.month, timeZone))
+    .forEach((summary) => summaries.set(summary.month.getTime(), { ...emptyTotals(), ...summary } as MonthlySummary));
+
+  for (const month of months.filter((candidate) => !summaries.has(candidate.getTime()))) {
+    const days = await getDailySummaries(unit, month, endOfMonth(month, timeZone));
+    const summary = { serialNumber: unit.serialNumber, month, ...days.reduce(mergeTotals, emptyTotals()) };
+    if (hasMonthEnded(month, timeZone)) {
+      await saveMonthlySummary(summary);
+    }
+    summaries.set(month.getTime(), summary);
+  }
+
+  return months.map((month) => summaries.get(month.getTime()) as MonthlySummary);
+};
+
+// Add a batch's totals to an existing summary document in one atomic update
+const toIncrementalUpdate = (totals: RollupTotals) => [
+  {
+    $set: {
+      ...Object.fromEntries(ADDITIVE_FIELDS.map((field) => [field, { $add: [{ $ifNull: [`$${field}`, 0] }, totals[field]] }])),
+      ...(totals.peakPower !== undefined && { peakPower: { $max: ["$peakPower", totals.peakPower] } }),
+      ...(totals.peak && {
+        peak: {
+          $cond: [
+            { $gt: [totals.peak.energyGenerated, { $ifNull: ["$peak.energyGenerated", -1] }] },
+            { $literal: totals.peak },
+            "$peak",
+          ],
+        },
+      }),
+      updatedAt: "$$NOW",
+    },
+  },
+];
+
+/**
+ * Fold newly inserted records into the daily and monthly summaries
+ * Call this after every insert (scheduler, ingestion, imports, seeds). Existing summaries are
+ * incremented; an ended day or month without one is computed from the raw records instead, which already
+ * include the new ones, and one that has not ended is left to be computed when read. Failures are logged,
+ * not thrown: the records are stored either way, and check:rollups / rebuild:rollups find and repair any drift.
+ */
+export const applyRecordsToRollups = async (records: RollupRecord[]) => {
+  try {
+    const recordsBySerialNumber = groupByKey(records, (record) => record.serialNumber);
+    for (const [serialNumber, unitRecords] of Array.from(recordsBySerialNumber)) {
+      const unit = await resolveRollupUnit(String(serialNumber));
+      const location = getSiteLocation(unit);
+      const timeZone = getUnitTimeZone(unit);
+      const monthTotals = new Map<number, RollupTotals>();
+
+      const recordsByDay = groupByKey(unitRecords, (record) => startOfZonedDay(record.timestamp, timeZone).getTime());
+      for (const [day, dayRecords] of Array.from(recordsByDay)) {
+        const date = new Date(day);
+        const totals = summarizeRecords(dayRecords, location);
+        const outcome = await DailyEnergySummary.updateOne(
+          { serialNumber: unit.serialNumber, date },
+          toIncrementalUpdate(totals)
+        );
+        if (outcome.matchedCount === 0 && hasDayEnded(date, timeZone)) {
+          await saveDailySummaries(await computeDailySummaries(unit, [date]));
+        }
+
+        const month = startOfZonedMonth(date, timeZone).getTime();
+        monthTotals.set(month, mergeTotals(monthTotals.get(month) ?? emptyTotals(), totals));
+      }
+
+      for (const [month, totals] of Array.from(monthTotals)) {
+        const monthStart = new Date(month);
+        const outcome = await MonthlyEnergySummary.updateOne(
+          { serialNumber: unit.serialNumber, month: monthStart },
+          toIncrementalUpdate(totals)
+        );
+        if (outcome.matchedCount === 0 && hasMonthEnded(monthStart, timeZone)) {
+          await getMonthlySummaries(unit, monthStart, monthStart);
+        }
+      }
+    }
+  } catch (error) {
+    logger.error("Failed to update energy rollups", { error });
+  }
+};
+
+// Whole months covering [from, to] for one unit, defaulting to the unit's first and last record
+const resolveMonths = async (serialNumber: string, timeZone: string, from?: Date, to?: Date) => {
+  const [first, last] = await Promise.all([
+    from ? null : EnergyGenerationRecord.findOne({ serialNumber }).sort({ timestamp: 1 }).select("timestamp").lean(),
+    to ? null : EnergyGenerationRecord.findOne({ serialNumber }).sort({ timestamp: -1 }).select("timestamp").lean(),
+  ]);
+  const start = from ?? first?.timestamp;
+  const end = to ?? last?.timestamp;
+  return start && end ? listMonths(start, end, timeZone) : [];
+};
+
+const sameTotals = (stored: RollupTotals, actual: RollupTotals) =>
+  stored.recordCount === actual.recordCount &&
+  Math.abs(stored.energy - actual.energy) <= ENERGY_TOLERANCE * Math.max(1, Math.abs(actual.energy));
+
+/**
+ * Recompute the daily and monthly summaries of the given units from the raw records
+ * Works a month at a time; days outside [from, to] keep their summaries but still count towards their month.
+ * Summaries left over from another time zone (the unit's zone changed) are dropped, and so are
+ * summaries of days and months that have not ended yet.
+ */
+export const rebuildRollups = async (options: { serialNumbers: string[]; from?: Date; to?: Date }) => {
+  const results = [];
+  for (const serialNumber of options.serialNumbers) {
+    const unit = await resolveRollupUnit(serialNumber);
+    const timeZone = getUnitTimeZone(unit);
+    const months = await resolveMonths(serialNumber, timeZone, options.from, options.to);
+    let days = 0;
+
+    for (const month of months) {
+      const allDays = listDays(month, endOfMonth(month, timeZone), timeZone);
+      const monthDays = allDays.filter(
+        (day) =>
+          (!options.from || day >= startOfZonedDay(options.from, timeZone)) && (!options.to || day <= options.to)
+      );
+      const endedDays = allDays.filter((day) => hasDayEnded(day, timeZone));
+      await DailyEnergySummary.deleteMany({
+        serialNumber,
+        date: { $gte: month, $lt: addZonedMonths(month, 1, timeZone), $nin: endedDays },
+      });
+      await saveDailySummaries(await computeDailySummaries(unit, monthDays.filter((day) => hasDayEnded(day, timeZone))));
+      days += monthDays.length;
+
+      if (hasMonthEnded(month, timeZone)) {
+        const summaries = await getDailySummaries(unit, month, endOfMonth(month, timeZone));
+        await saveMonthlySummary({ serialNumber, month, ...summaries.reduce(mergeTotals, emptyTotals()) });
+      } else {
+        await MonthlyEnergySummary.deleteOne({ serialNumber, month });
+      }
+    }
+
+    results.push({ serialNumber, days, months: months.length });
+  }
+  return results;
+};
+
+/**
+ * Compare stored summaries against the raw records over whole months
+ * Days or months that were never summarized are not reported; they are computed when first read.
+ */
+export const checkRollups = async (options: { serialNumbers: string[]; from?: Date; to?: Date }) => {
+  const mismatches: RollupMismatch[] = [];
+  const toCounts = (totals: RollupTotals) => ({ energy: totals.energy, recordCount: totals.recordCount });
+
+  for (const serialNumber of options.serialNumbers) {
+    const unit = await resolveRollupUnit(serialNumber);
+    const timeZone = getUnitTimeZone(unit);
+    const months = await resolveMonths(serialNumber, timeZone, options.from, options.to);
+
+    for (const month of months) {
+      const actualDays = await computeDailySummaries(unit, listDays(month, endOfMonth(month, timeZone), timeZone));
+      const storedDays = await DailyEnergySummary.find({
+        serialNumber,
+        date: { $gte: month, $lt: addZonedMonths(month, 1, timeZone) },
+      }).lean();
+      const storedByDay = new Map(storedDays.map((summary) => [summary.date.getTime(), summary]));
+
+      actualDays.forEach((actual) => {
+        const stored = storedByDay.get(actual.date.getTime());
+        if (stored && !sameTotals({ ...emptyTotals(), ...stored } as RollupTotals, actual)) {
+          mismatches.push({
+            serialNumber,
+            granularity: "day",
+            period: actual.date,
+            stored: { energy: stored.energy ?? 0, recordCount: stored.recordCount ?? 0 },
+            actual: toCounts(actual),
+          });
+        }
+      });
+
+      const actualMonth = actualDays.reduce(mergeTotals, emptyTotals());
+      const storedMonth = await MonthlyEnergySummary.findOne({ serialNumber, month }).lean();
+      if (storedMonth && !sameTotals({ ...emptyTotals(), ...storedMonth } as RollupTotals, actualMonth)) {
+        mismatches.push({
+          serialNumber,
+          granularity: "month",
+          period: month,
+          stored: { energy: storedMonth.energy ?? 0, recordCount: storedMonth.recordCount ?? 0 },
+          actual: toCounts(actualMonth),
+        });
+      }
+    }
+  }
+  return mismatches;
+};
+
+const isoWeekLabel = (monday: Date, timeZone: string) => {
+  const thursday = new Date(getZonedDate(monday, timeZone).getTime() + 3 * DAY_MS);
+  const year = thursday.getUTCFullYear();
+  const week = Math.floor((thursday.getTime() - Date.UTC(year, 0, 1)) / (7 * DAY_MS)) + 1;
+  return `${year}-W${String(week).padStart(2, "0")}`;
+};
+
+// Periods a day-based bucket can belong to, labelled like the $dateToString formats in GROUPINGS
+const startOfPeriod = (groupBy: GroupBy, date: Date, timeZone: string) =>
+  groupBy === "week"
+    ? startOfZonedWeek(date, timeZone)
+    : groupBy === "month"
+      ? startOfZonedMonth(date, timeZone)
+      : date;
+
+const nextPeriod = (groupBy: GroupBy, periodStart: Date, timeZone: string) =>
+  groupBy === "week"
+    ? addZonedDays(periodStart, 7, timeZone)
+    : groupBy === "month"
+      ? addZonedMonths(periodStart, 1, timeZone)
+      : addZonedDays(periodStart, 1, timeZone);
+
+const formatPeriod = (groupBy: GroupBy, periodStart: Date, timeZone: string) =>
+  groupBy === "week"
+    ? isoWeekLabel(periodStart, timeZone)
+    : formatZonedDate(periodStart, timeZone).slice(0, groupBy === "month" ? 7 : 10);
+
+const isStartOfDay = (date: Date, timeZone: string) => startOfZonedDay(date, timeZone).getTime() === date.getTime();
+const isEndOfDay = (date: Date, timeZone: string) => isStartOfDay(new Date(date.getTime() + 1), timeZone);
+
+/**
+ * Grouped buckets in the shape of buildGroupedPipeline, served from the summaries
+ * Returns null when the request cannot be answered from them: hourly grouping, days in a time zone
+ * other than the unit's, or a range that starts or ends inside a day.
+ */
+export const getRollupBuckets = async (
+  serialNumber: string,
+  groupBy: GroupBy,
+  from?: Date,
+  to?: Date,
+  limit?: number,
+  timeZone?: string
+) => {
+  if (groupBy === "hour") {
+    return null;
+  }
+  const unit = await resolveRollupUnit(serialNumber);
+  const unitTimeZone = getUnitTimeZone(unit);
+  if (
+    (timeZone && timeZone !== unitTimeZone) ||
+    (from && !isStartOfDay(from, unitTimeZone)) ||
+    (to && !isEndOfDay(to, unitTimeZone))
+  ) {
+    return null;
+  }
+
+  const months = await resolveMonths(serialNumber, unitTimeZone, from, to);
+  if (months.length === 0) {
+    return [];
+  }
+  const start = from ?? months[0];
+  const end = to ?? endOfMonth(months[months.length - 1], unitTimeZone);
+
+  let periods: { label: string; periodStart: Date; hours: number; totals: RollupTotals }[];
+  const wholeMonths =
+    start.getTime() === startOfZonedMonth(start, unitTimeZone).getTime() &&
+    end.getTime() === endOfMonth(startOfZonedMonth(end, unitTimeZone), unitTimeZone).getTime();
+  if (groupBy === "month" && wholeMonths) {
+    const summaries = await getMonthlySummaries(unit, start, end);
+    periods = summaries.map((summary) => ({
+      label: formatPeriod("month", summary.month, unitTimeZone),
+      periodStart: summary.month,
+      hours: (nextPeriod("month", summary.month, unitTimeZone).getTime() - summary.month.getTime()) / (60 * 60 * 1000),
+      totals: summary,
+    }));
+  } else {
+    const summaries = await getDailySummaries(unit, start, end);
+    const groups = groupByKey(summaries, (summary) => startOfPeriod(groupBy, summary.date, unitTimeZone).getTime());
+    periods = Array.from(groups).map(([key, days]) => {
+      const periodStart = new Date(key);
+      return {
+        label: formatPeriod(groupBy, periodStart, unitTimeZone),
+        periodStart,
+        hours: (nextPeriod(groupBy, periodStart, unitTimeZone).getTime() - periodStart.getTime()) / (60 * 60 * 1000),
+        totals: days.reduce(mergeTotals, emptyTotals()),
+      };
+    });
+  }
+
+  const buckets = periods
+    .filter((period) => period.totals.recordCount > 0)
+    .map(({ label, periodStart, hours, totals }) => ({
+      _id: label,
+      periodStart,
+      totalEnergy: totals.energy,
+      recordCount: totals.recordCount,
+      peak: totals.peak,
+      averageTemperature: totals.temperatureCount > 0 ? totals.temperatureSum / totals.temperatureCount : null,
+      averageEfficiency: totals.efficiencyCount > 0 ? totals.efficiencySum / totals.efficiencyCount : null,
+      coverage: Math.min(1, totals.coveredHours / hours),
+    }));
+
+  // With a limit, keep the most recent buckets but still return them oldest first
+  return limit ? buckets.slice(-limit) : buckets;
+};
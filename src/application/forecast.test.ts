@@ -0,0 +1,174 @@
+import { Request, Response } from "express";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { NotFoundError, ValidationError } from "../domain/errors/errors";
+import { SolarUnit } from "../domain/types";
+import { EnergyGenerationRecord } from "../infrastructure/entities/EnergyGenerationRecord";
+import { getClearSkyIrradiation } from "../infrastructure/generation/solar-position";
+import { setSolarUnitProvider } from "../infrastructure/solar-units/solar-unit-provider";
+import { backtestForecast, forecastInterval, ForecastRecord, getForecast, trainForecastModel } from "./forecast";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const location = { latitude: 6.93, longitude: 79.85, tilt: 10, azimuth: 180 };
+const options = { timeZone: "Asia/Colombo", location };
+
+// Midnight on 1 December in Colombo
+const DEC_1 = Date.UTC(2025, 10, 30, 18, 30);
+
+const irradiation = (timestamp: Date) => getClearSkyIrradiation(timestamp, 2, location.latitude, location.longitude, location.tilt, location.azimuth);
+
+// 2-hour readings over whole days, producing `factor` Wh per Wh/m² of clear-sky irradiation
+const history = (from: number, days: number, factor: (day: number) => number = () => 2): ForecastRecord[] =>
+  Array.from({ length: days * 12 }, (_, index) => {
+    const timestamp = new Date(from + index * 2 * HOUR_MS);
+    return { timestamp, energyGenerated: factor(Math.floor(index / 12)) * irradiation(timestamp), intervalHours: 2 };
+  });
+
+// 10:00 in Colombo, some days after 1 December
+const morning = (day: number) => new Date(DEC_1 + day * DAY_MS + 10 * HOUR_MS);
+
+describe("trainForecastModel", () => {
+  it("forecasts each time of day from its output per unit of clear-sky irradiation", () => {
+    const model = trainForecastModel(history(DEC_1, 14), options);
+
+    expect(model.trainingDays).toBe(14);
+    expect(model.slots.size).toBe(12);
+    // Three weeks later the sun is lower, so the same slot is expected to produce less
+    const later = forecastInterval(model, morning(35), 21, 1.2816)!;
+    expect(later.expected).toBeCloseTo(2 * irradiation(morning(35)), 6);
+    expect(later.expected).not.toBeCloseTo(2 * irradiation(morning(14)), 0);
+    expect(later.lower).toBeCloseTo(later.expected, 6);
+    expect(later.upper).toBeCloseTo(later.expected, 6);
+  });
+
+  it("follows recent days more closely and widens the band further ahead", () => {
+    // Two weeks at 2 Wh per Wh/m², then a cloudy last day at 1
+    const model = trainForecastModel(history(DEC_1, 15, (day) => (day === 14 ? 1 : 2)), options);
+
+    const tomorrow = forecastInterval(model, morning(15), 1, 1.2816)!;
+    const nextWeek = forecastInterval(model, morning(21), 7, 1.2816)!;
+
+    expect(tomorrow.expected).toBeCloseTo(1.7 * irradiation(morning(15)), 6);
+    expect(tomorrow.lower).toBeLessThan(tomorrow.expected);
+    expect(nextWeek.upper - nextWeek.lower).toBeGreaterThan(tomorrow.upper - tomorrow.lower);
+  });
+
+  it("expects nothing at night and never more than the capacity can produce", () => {
+    const model = trainForecastModel(history(DEC_1, 7, () => 10), { ...options, capacity: 500 });
+
+    expect(forecastInterval(model, new Date(DEC_1 + 7 * DAY_MS + 22 * HOUR_MS), 1, 1.2816)).toMatchObject({ expected: 0 });
+    expect(forecastInterval(model, morning(7), 1, 1.2816)).toMatchObject({ expected: 1000, upper: 1000 });
+  });
+
+  it("has no forecast for a time of day without history", () => {
+    const model = trainForecastModel(history(DEC_1, 7), options);
+
+    expect(forecastInterval(model, new Date(morning(7).getTime() + HOUR_MS), 1, 1.2816)).toBeNull();
+  });
+});
+
+describe("backtestForecast", () => {
+  it("reports MAPE over daylight intervals and per day against held-out records", () => {
+    const trainingEnd = new Date(DEC_1 + 14 * DAY_MS);
+    const model = trainForecastModel(history(DEC_1, 14), options);
+    // The held-out week produced 25% more than forecast
+    const actuals = history(trainingEnd.getTime(), 7, () => 2.5);
+
+    const result = backtestForecast(model, trainingEnd, actuals, 1.2816);
+
+    expect(result.intervalsCompared).toBe(84);
+    expect(result.mape).toBeCloseTo(0.2, 6);
+    expect(result.dailyMape).toBeCloseTo(0.2, 6);
+    expect(result.bandCoverage).toBeLessThan(1);
+    expect(result.days).toHaveLength(7);
+    expect(result.days[0]).toMatchObject({ date: "2025-12-15" });
+  });
+
+  it("finds no error when the held-out days match the training days", () => {
+    const trainingEnd = new Date(DEC_1 + 14 * DAY_MS);
+    const model = trainForecastModel(history(DEC_1, 14), options);
+
+    const result = backtestForecast(model, trainingEnd, history(trainingEnd.getTime(), 3), 1.2816);
+
+    expect(result.mape).toBeCloseTo(0, 6);
+    expect(result.bandCoverage).toBe(1);
+  });
+});
+
+describe("getForecast", () => {
+  const unit = {
+    serialNumber: "SU-0001",
+    installationDate: "2024-01-15",
+    capacity: 5000,
+    status: "ACTIVE",
+    timezone: "Asia/Colombo",
+    ...location,
+  } as SolarUnit;
+
+  let records: ForecastRecord[];
+
+  const get = async (serialNumber: string, query: Record<string, string> = {}) => {
+    const res = { status: vi.fn(), json: vi.fn() };
+    res.status.mockReturnValue(res);
+    const next = vi.fn();
+    await getForecast({ params: { serialNumber }, query } as unknown as Request, res as unknown as Response, next);
+    return { status: res.status.mock.calls[0]?.[0], body: res.json.mock.calls[0]?.[0], error: next.mock.calls[0]?.[0] };
+  };
+
+  beforeEach(() => {
+    // 00:00 on 15 December in Colombo
+    vi.useFakeTimers({ toFake: ["Date"], now: new Date(DEC_1 + 14 * DAY_MS) });
+    setSolarUnitProvider({ name: "test", getActiveSolarUnits: async () => [unit] });
+    records = history(DEC_1, 14);
+
+    vi.spyOn(EnergyGenerationRecord, "find").mockImplementation(((filter: { timestamp: { $gte: Date; $lt: Date } }) => ({
+      sort: () => ({
+        select: () => ({
+          lean: async () =>
+            records.filter((record) => record.timestamp >= filter.timestamp.$gte && record.timestamp < filter.timestamp.$lt),
+        }),
+      }),
+    })) as any);
+    vi.spyOn(EnergyGenerationRecord, "exists").mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    setSolarUnitProvider(null);
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("forecasts every interval of the horizon and sums them per day", async () => {
+    const response = await get("SU-0001", { horizon: "2d" });
+
+    expect(response.status).toBe(200);
+    expect(response.body.intervals).toHaveLength(24);
+    expect(response.body.daily.map((day: { date: string; intervals: number }) => [day.date, day.intervals])).toEqual([
+      ["2025-12-15", 12],
+      ["2025-12-16", 12],
+    ]);
+    expect(response.body.model).toMatchObject({ trainingDays: 14, alpha: 0.3 });
+  });
+
+  it("holds out the last days when backtesting", async () => {
+    const response = await get("SU-0001", { backtest: "true", holdout: "4", history: "10" });
+
+    expect(response.body.model).toMatchObject({ trainingDays: 10, trainingTo: new Date(DEC_1 + 10 * DAY_MS) });
+    expect(response.body.backtest).toMatchObject({ intervalsCompared: 48, testTo: new Date(DEC_1 + 14 * DAY_MS) });
+    expect(response.body.backtest.mape).toBeCloseTo(0, 6);
+  });
+
+  it("refuses to forecast from fewer than three days of history", async () => {
+    records = history(DEC_1 + 12 * DAY_MS, 2);
+
+    const response = await get("SU-0001");
+
+    expect(response.error).toBeInstanceOf(ValidationError);
+    expect(response.error.message).toBe("Not enough history to forecast: 2 day(s) with records, at least 3 needed");
+  });
+
+  it("answers a unit that is neither active nor has records with 404", async () => {
+    expect((await get("SU-9999")).error).toBeInstanceOf(NotFoundError);
+  });
+});
@@ -0,0 +1,406 @@
+import { NextFunction, Request, Response } from "express";
+import { GetForecastQueryDto } from "../domain/dtos/forecast";
+import { NotFoundError, ValidationError } from "../domain/errors/errors";
+import {
+  addZonedDays,
+  formatZonedDate,
+  getUnitTimeZone,
+  getZonedDate,
+  getZonedParts,
+  startOfZonedDay,
+  zonedTimeToUtc,
+} from "../domain/time-zone";
+import { EnergyGenerationRecord } from "../infrastructure/entities/EnergyGenerationRecord";
+import { getClearSkyIrradiation } from "../infrastructure/generation/solar-position";
+import { findActiveSolarUnit } from "../infrastructure/solar-units/solar-unit-provider";
+import { formatIssues } from "./energy-generation-record";
+import { getSiteLocation, RollupUnit, SiteLocation } from "./energy-rollups";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Smoothing factor of the per-slot exponential smoothing (higher follows recent days more closely)
+const ALPHA = 0.3;
+
+// Mean clear-sky irradiance (W/m²) below which a slot is treated as night and forecast from its raw output
+const NIGHT_IRRADIANCE = 20;
+
+const MIN_TRAINING_DAYS = 3;
+
+// Two-sided normal quantiles for the supported confidence levels
+const Z_SCORES: Record<number, number> = { 0.8: 1.2816, 0.9: 1.6449, 0.95: 1.96 };
+
+const MODEL_NAME = "clear-sky seasonal baseline with exponential smoothing per time of day";
+
+export type ForecastRecord = {
+  timestamp: Date;
+  energyGenerated: number;
+  intervalHours?: number | null;
+};
+
+type Smoother = { level: number; squaredErrors: number; errorCount: number };
+
+type Slot = {
+  minuteOfDay: number;
+  intervalHours: number;
+  // Output per unit of clear-sky irradiation in daylight, raw output at night
+  daylight: Smoother | null;
+  night: Smoother | null;
+};
+
+export type ForecastModel = {
+  timeZone: string;
+  location: SiteLocation;
+  capacity?: number;
+  slots: Map<number, Slot>;
+  trainingDays: number;
+  // Pooled error for slots with too few observations of their own
+  pooledDaylightSd: number;
+  pooledNightSd: number;
+};
+
+export type ForecastInterval = {
+  timestamp: Date;
+  intervalHours: number;
+  expected: number;
+  lower: number;
+  upper: number;
+};
+
+const clearSkyIrradiation = (timestamp: Date, intervalHours: number, location: SiteLocation) =>
+  getClearSkyIrradiation(timestamp, intervalHours, location.latitude, location.longitude, location.tilt, location.azimuth);
+
+const minuteOfDay = (timestamp: Date, timeZone: string) => {
+  const parts = getZonedParts(timestamp, timeZone);
+  return parts.hour * 60 + parts.minute;
+};
+
+const smooth = (smoother: Smoother | null, value: number): Smoother => {
+  if (!smoother) {
+    return { level: value, squaredErrors: 0, errorCount: 0 };
+  }
+  const error = value - smoother.level;
+  return {
+    level: smoother.level + ALPHA * error,
+    squaredErrors: smoother.squaredErrors + error * error,
+    errorCount: smoother.errorCount + 1,
+  };
+};
+
+// Root mean square of the one-step-ahead errors
+const errorSd = (smoother: Smoother | null) =>
+  smoother && smoother.errorCount >= 2 ? Math.sqrt(smoother.squaredErrors / smoother.errorCount) : null;
+
+const pooledSd = (smoothers: (Smoother | null)[]) => {
+  const fitted = smoothers.filter((smoother): smoother is Smoother => !!smoother && smoother.errorCount > 0);
+  const count = fitted.reduce((sum, smoother) => sum + smoother.errorCount, 0);
+  return count > 0 ? Math.sqrt(fitted.reduce((sum, smoother) => sum + smoother.squaredErrors, 0) / count) : 0;
+};
+
+/**
+ * Fit the forecast model to a unit's history (sorted by timestamp)
+ * Every time of day (slot) is smoothed on its own. In daylight the smoothed quantity is output per unit
+ * of clear-sky irradiation, so the seasonal change in day length and sun height comes from the
+ * clear-sky model while the smoothing tracks weather and soiling.
+ */
+export const trainForecastModel = (
+  records: ForecastRecord[],
+  options: { timeZone: string; location: SiteLocation; capacity?: number }
+): ForecastModel => {
+  const slots = new Map<number, Slot>();
+  const days = new Set<string>();
+
+  records.forEach((record) => {
+    const intervalHours = record.intervalHours ?? 2;
+    const key = minuteOfDay(record.timestamp, options.timeZone);
+    days.add(formatZonedDate(record.timestamp, options.timeZone));
+
+    let slot = slots.get(key);
+    if (!slot) {
+      slot = { minuteOfDay: key, intervalHours, daylight: null, night: null };
+      slots.set(key, slot);
+    }
+    const irradiation = clearSkyIrradiation(record.timestamp, intervalHours, options.location);
+    if (irradiation / intervalHours >= NIGHT_IRRADIANCE) {
+      slot.daylight = smooth(slot.daylight, record.energyGenerated / irradiation);
+    } else {
+      slot.night = smooth(slot.night, record.energyGenerated);
+    }
+  });
+
+  const allSlots = Array.from(slots.values());
+  return {
+    ...options,
+    slots,
+    trainingDays: days.size,
+    pooledDaylightSd: pooledSd(allSlots.map((slot) => slot.daylight)),
+    pooledNightSd: pooledSd(allSlots.map((slot) => slot.night)),
+  };
+};
+
+type Prediction = {
+  timestamp: Date;
+  intervalHours: number;
+  expected: number;
+  sd: number;
+};
+
+/**
+ * Expected output of one interval and the standard deviation of its error
+ * daysAhead widens the error the way exponential smoothing errors accumulate: var * (1 + (h - 1) * alpha²).
+ * Returns null for a time of day the unit has no history for.
+ */
+const predictInterval = (model: ForecastModel, timestamp: Date, daysAhead: number): Prediction | null => {
+  const slot = model.slots.get(minuteOfDay(timestamp, model.timeZone));
+  if (!slot) {
+    return null;
+  }
+
+  const intervalHours = slot.intervalHours;
+  const irradiation = clearSkyIrradiation(timestamp, intervalHours, model.location);
+  let expected: number;
+  let sd: number;
+  if (irradiation / intervalHours < NIGHT_IRRADIANCE) {
+    expected = slot.night?.level ?? 0;
+    sd = errorSd(slot.night) ?? model.pooledNightSd;
+  } else if (slot.daylight) {
+    expected = slot.daylight.level * irradiation;
+    sd = (errorSd(slot.daylight) ?? model.pooledDaylightSd) * irradiation;
+  } else {
+    // A slot that was dark throughout training but is lit now (days getting longer) borrows the mean of the lit slots
+    const levels = Array.from(model.slots.values()).flatMap((candidate) => (candidate.daylight ? [candidate.daylight.level] : []));
+    expected = (levels.length > 0 ? levels.reduce((sum, level) => sum + level, 0) / levels.length : 0) * irradiation;
+    sd = model.pooledDaylightSd * irradiation;
+  }
+
+  const ceiling = model.capacity ? model.capacity * intervalHours : Infinity;
+  return {
+    timestamp,
+    intervalHours,
+    expected: Math.min(Math.max(0, expected), ceiling),
+    sd: sd * Math.sqrt(1 + Math.max(0, daysAhead - 1) * ALPHA * ALPHA),
+  };
+};
+
+const toBand = (expected: number, sd: number, z: number, ceiling = Infinity) => ({
+  lower: Math.max(0, expected - z * sd),
+  upper: Math.min(ceiling, expected + z * sd),
+});
+
+/**
+ * Expected output of one interval with a confidence band at the given z-score
+ */
+export const forecastInterval = (
+  model: ForecastModel,
+  timestamp: Date,
+  daysAhead: number,
+  z: number
+): ForecastInterval | null => {
+  const prediction = predictInterval(model, timestamp, daysAhead);
+  if (!prediction) {
+    return null;
+  }
+  const ceiling = model.capacity ? model.capacity * prediction.intervalHours : Infinity;
+  return {
+    timestamp,
+    intervalHours: prediction.intervalHours,
+    expected: prediction.expected,
+    ...toBand(prediction.expected, prediction.sd, z, ceiling),
+  };
+};
+
+// Interval starts of the unit's usual times of day within [start, end)
+const listIntervalStarts = (model: ForecastModel, start: Date, end: Date) => {
+  const minutes = Array.from(model.slots.keys()).sort((a, b) => a - b);
+  const timestamps: Date[] = [];
+  for (let day = getZonedDate(start, model.timeZone); ; day = new Date(day.getTime() + 24 * HOUR_MS)) {
+    const dayStarts = minutes.map((minute) =>
+      zonedTimeToUtc(day.getUTCFullYear(), day.getUTCMonth() + 1, day.getUTCDate(), Math.floor(minute / 60), minute % 60, model.timeZone)
+    );
+    if (dayStarts.length === 0 || dayStarts[0] >= end) {
+      return timestamps;
+    }
+    timestamps.push(...dayStarts.filter((timestamp) => timestamp >= start && timestamp < end));
+  }
+};
+
+// Whole days between the end of training and the day of the timestamp (1 = the first day after training)
+const daysAfter = (trainingEnd: Date, timestamp: Date, timeZone: string) =>
+  Math.round((getZonedDate(timestamp, timeZone).getTime() - getZonedDate(trainingEnd, timeZone).getTime()) / (24 * HOUR_MS)) + 1;
+
+/**
+ * Sum intervals into days; the daily band assumes the intervals' errors are independent
+ */
+const toDailyForecast = (predictions: Prediction[], timeZone: string, z: number, capacity?: number) => {
+  const days = new Map<string, { expected: number; variance: number; hours: number; intervals: number }>();
+  predictions.forEach((prediction) => {
+    const key = formatZonedDate(prediction.timestamp, timeZone);
+    const day = days.get(key) ?? { expected: 0, variance: 0, hours: 0, intervals: 0 };
+    day.expected += prediction.expected;
+    day.variance += prediction.sd * prediction.sd;
+    day.hours += prediction.intervalHours;
+    day.intervals++;
+    days.set(key, day);
+  });
+  return Array.from(days).map(([date, day]) => ({
+    date,
+    expected: day.expected,
+    ...toBand(day.expected, Math.sqrt(day.variance), z, capacity ? capacity * day.hours : Infinity),
+    intervals: day.intervals,
+  }));
+};
+
+const percentageError = (actual: number, expected: number) => Math.abs(actual - expected) / actual;
+
+const mean = (values: number[]) => (values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null);
+
+/**
+ * Compare a model's forecasts with held-out records
+ * MAPE only covers daylight intervals with output (it is undefined for zero actuals); dailyMape compares day totals.
+ */
+export const backtestForecast = (model: ForecastModel, trainingEnd: Date, actuals: ForecastRecord[], z: number) => {
+  const compared: { actual: ForecastRecord; forecast: ForecastInterval }[] = [];
+  actuals.forEach((actual) => {
+    const forecast = forecastInterval(model, actual.timestamp, daysAfter(trainingEnd, actual.timestamp, model.timeZone), z);
+    if (forecast) {
+      compared.push({ actual, forecast });
+    }
+  });
+
+  const daily = new Map<string, { actual: number; expected: number }>();
+  compared.forEach(({ actual, forecast }) => {
+    const key = formatZonedDate(actual.timestamp, model.timeZone);
+    const day = daily.get(key) ?? { actual: 0, expected: 0 };
+    day.actual += actual.energyGenerated;
+    day.expected += forecast.expected;
+    daily.set(key, day);
+  });
+
+  const daylight = compared.filter(
+    ({ actual, forecast }) =>
+      actual.energyGenerated > 0 &&
+      clearSkyIrradiation(actual.timestamp, forecast.intervalHours, model.location) / forecast.intervalHours >= NIGHT_IRRADIANCE
+  );
+  const days = Array.from(daily).map(([date, day]) => ({
+    date,
+    actual: day.actual,
+    expected: day.expected,
+    percentageError: day.actual > 0 ? percentageError(day.actual, day.expected) : null,
+  }));
+
+  return {
+    intervalsCompared: compared.length,
+    mape: mean(daylight.map(({ actual, forecast }) => percentageError(actual.energyGenerated, forecast.expected))),
+    dailyMape: mean(days.filter((day) => day.percentageError !== null).map((day) => day.percentageError as number)),
+    bandCoverage:
+      compared.length > 0
+        ? compared.filter(
+            ({ actual, forecast }) =>
+              actual.energyGenerated >= forecast.lower && actual.energyGenerated <= forecast.upper
+          ).length / compared.length
+        : null,
+    days,
+  };
+};
+
+// Planned downtime says nothing about what the unit will produce
+const loadRecords = async (serialNumber: string, from: Date, to: Date) =>
+  (await EnergyGenerationRecord.find({ serialNumber, timestamp: { $gte: from, $lt: to }, inMaintenance: { $ne: true } })
+    .sort({ timestamp: 1 })
+    .select("timestamp energyGenerated intervalHours")
+    .lean()) as ForecastRecord[];
+
+const lookUpUnit = async (serialNumber: string): Promise<RollupUnit> => {
+  const unit = await findActiveSolarUnit(serialNumber);
+  if (unit) {
+    return unit;
+  }
+  // Units that are no longer active can still be forecast from their history, at the default location
+  if (!(await EnergyGenerationRecord.exists({ serialNumber }))) {
+    throw new NotFoundError("Solar unit not found");
+  }
+  return { serialNumber };
+};
+
+const train = async (unit: RollupUnit, trainingFrom: Date, trainingTo: Date) => {
+  const timeZone = getUnitTimeZone(unit);
+  const records = await loadRecords(unit.serialNumber, trainingFrom, trainingTo);
+  const model = trainForecastModel(records, {
+    timeZone,
+    location: getSiteLocation(unit),
+    capacity: unit.capacity || undefined,
+  });
+  if (model.trainingDays < MIN_TRAINING_DAYS) {
+    throw new ValidationError(
+      `Not enough history to forecast: ${model.trainingDays} day(s) with records, at least ${MIN_TRAINING_DAYS} needed`
+    );
+  }
+  return model;
+};
+
+/**
+ * Expected output per interval and per day over the horizon, with confidence bands
+ * Trained in-process on the last `history` whole days (in the unit's time zone). With backtest=true the
+ * last `holdout` days are held out instead and the response reports MAPE against them.
+ *
+ * GET /api/forecasts/:serialNumber?horizon=7d&history=28&confidence=0.8
+ * GET /api/forecasts/:serialNumber?backtest=true&holdout=7&history=28
+ */
+export const getForecast = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { serialNumber } = req.params;
+    const result = GetForecastQueryDto.safeParse(req.query);
+    if (!result.success) {
+      throw new ValidationError(formatIssues(result.error));
+    }
+
+    const { horizon, history, confidence, backtest, holdout } = result.data;
+    const z = Z_SCORES[confidence];
+    const unit = await lookUpUnit(serialNumber);
+    const timeZone = getUnitTimeZone(unit);
+    const now = new Date();
+    const today = startOfZonedDay(now, timeZone);
+
+    if (backtest) {
+      const testFrom = addZonedDays(today, -holdout, timeZone);
+      const trainingFrom = addZonedDays(testFrom, -history, timeZone);
+      const model = await train(unit, trainingFrom, testFrom);
+      const actuals = await loadRecords(serialNumber, testFrom, today);
+
+      res.status(200).json({
+        serialNumber,
+        timezone: timeZone,
+        model: { name: MODEL_NAME, alpha: ALPHA, trainingFrom, trainingTo: testFrom, trainingDays: model.trainingDays },
+        backtest: { testFrom, testTo: today, confidence, ...backtestForecast(model, testFrom, actuals, z) },
+      });
+      return;
+    }
+
+    // Today counts as history up to now
+    const trainingFrom = addZonedDays(today, -history, timeZone);
+    const model = await train(unit, trainingFrom, now);
+    const end = new Date(now.getTime() + horizon * HOUR_MS);
+    const predictions = listIntervalStarts(model, now, end)
+      .map((timestamp) => predictInterval(model, timestamp, daysAfter(today, timestamp, timeZone)))
+      .filter((prediction): prediction is Prediction => !!prediction);
+
+    res.status(200).json({
+      serialNumber,
+      timezone: timeZone,
+      from: now,
+      to: end,
+      confidence,
+      model: { name: MODEL_NAME, alpha: ALPHA, trainingFrom, trainingTo: now, trainingDays: model.trainingDays },
+      daily: toDailyForecast(predictions, timeZone, z, model.capacity),
+      intervals: predictions.map(({ sd, ...prediction }) => {
+        const ceiling = model.capacity ? model.capacity * prediction.intervalHours : Infinity;
+        return { ...prediction, ...toBand(prediction.expected, sd, z, ceiling) };
+      }),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,134 @@
+import axios from "axios";
+import { NextFunction, Request, Response } from "express";
+import mongoose from "mongoose";
+import { getDefaultTimeZone, getZonedDate } from "../domain/time-zone";
+import { DataGenerationScheduler } from "../infrastructure/data-generation-scheduler";
+import { JobRun } from "../infrastructure/entities/JobRun";
+import { getCoreBackendUrl } from "../infrastructure/solar-units/solar-unit-provider";
+
+type CheckStatus = "up" | "down" | "skipped";
+
+type CheckResult = { status: CheckStatus; latencyMs: number } & Record<string, unknown>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How long a single check may take before it counts as down (HEALTH_CHECK_TIMEOUT_MS)
+const getCheckTimeoutMs = () => Number(process.env.HEALTH_CHECK_TIMEOUT_MS) || 2000;
+
+/**
+ * Time a check; it is up unless it says otherwise, and down when it throws or times out
+ */
+const runCheck = async (check: () => Promise<Record<string, unknown>>): Promise<CheckResult> => {
+  const started = Date.now();
+  const timeoutMs = getCheckTimeoutMs();
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    const details = await Promise.race([
+      check(),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+      }),
+    ]);
+    return { status: "up", ...details, latencyMs: Date.now() - started };
+  } catch (error: any) {
+    return { status: "down", error: error?.message ?? String(error), latencyMs: Date.now() - started };
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+const assertConnected = () => {
+  const { readyState, db } = mongoose.connection;
+  if (readyState !== mongoose.ConnectionStates.connected || !db) {
+    throw new Error(`Database is ${mongoose.ConnectionStates[readyState]}`);
+  }
+  return db;
+};
+
+const checkDatabase = async () => {
+  await assertConnected().admin().ping();
+  return {};
+};
+
+const checkScheduler = async () => {
+  const state = DataGenerationScheduler.getState();
+  return { ...state, ...(!state.running && { status: "down" }) };
+};
+
+// The midnight run generates the new day, so a last successful day older than yesterday means one was missed
+const checkLastGeneration = async () => {
+  assertConnected();
+  const lastRun = await JobRun.findOne({ type: "daily-generation", status: "succeeded" })
+    .sort({ targetDate: -1 })
+    .select("targetDate finishedAt trigger")
+    .lean();
+  if (!lastRun) {
+    return { status: "down", lastSuccessfulRun: null };
+  }
+
+  const yesterday = getZonedDate(new Date(), getDefaultTimeZone()).getTime() - DAY_MS;
+  return {
+    ...(lastRun.targetDate.getTime() < yesterday && { status: "down" }),
+    lastSuccessfulRun: {
+      id: String(lastRun._id),
+      targetDate: lastRun.targetDate.toISOString().slice(0, 10),
+      finishedAt: lastRun.finishedAt,
+      trigger: lastRun.trigger,
+    },
+  };
+};
+
+// Any answer below 500 means the core backend is up and routing requests
+const checkCoreBackend = async () => {
+  const url = getCoreBackendUrl();
+  if (!url) {
+    return { status: "skipped", reason: "core-backend is not a configured solar unit provider" };
+  }
+  const response = await axios.head(`${url}/api/solar-units/test`, {
+    timeout: getCheckTimeoutMs(),
+    validateStatus: () => true,
+  });
+  if (response.status >= 500) {
+    throw new Error(`Core backend answered ${response.status}`);
+  }
+  return { url, httpStatus: response.status };
+};
+
+/**
+ * The process is up and answering HTTP; says nothing about its dependencies
+ *
+ * GET /health/live
+ */
+export const getLiveness = (req: Request, res: Response) => {
+  res.status(200).json({ status: "ok", uptimeSeconds: Math.round(process.uptime()) });
+};
+
+/**
+ * Each dependency with its status and latency
+ * Only the database decides readiness (503 without it); the scheduler, the last successful generation
+ * run and the core backend are reported for diagnosis, since requests are served without them.
+ *
+ * GET /health/ready
+ */
+export const getReadiness = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const [database, scheduler, lastGeneration, coreBackend] = await Promise.all([
+      runCheck(checkDatabase),
+      runCheck(checkScheduler),
+      runCheck(checkLastGeneration),
+      runCheck(checkCoreBackend),
+    ]);
+    const ready = database.status === "up";
+    res.status(ready ? 200 : 503).json({
+      status: ready ? "ready" : "unavailable",
+      checkedAt: new Date(),
+      checks: { database, scheduler, lastGeneration, coreBackend },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
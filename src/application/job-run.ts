@@ -0,0 +1,51 @@
+import { NextFunction, Request, Response } from "express";
+import mongoose from "mongoose";
+import { GetJobRunsQueryDto } from "../domain/dtos/job-run";
+import { NotFoundError, ValidationError } from "../domain/errors/errors";
+import { JobRun } from "../infrastructure/entities/JobRun";
+import { formatIssues } from "./energy-generation-record";
+
+export const getJobRuns = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = GetJobRunsQueryDto.safeParse(req.query);
+    if (!result.success) {
+      throw new ValidationError(formatIssues(result.error));
+    }
+
+    const { type, status, limit } = result.data;
+    const jobRuns = await JobRun.find({
+      ...(type && { type }),
+      ...(status && { status }),
+    })
+      .sort({ startedAt: -1 })
+      .limit(limit);
+    res.status(200).json(jobRuns);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getJobRunById = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+    if (!mongoose.isValidObjectId(id)) {
+      throw new ValidationError("Invalid job run id");
+    }
+
+    const jobRun = await JobRun.findById(id);
+    if (!jobRun) {
+      throw new NotFoundError("Job run not found");
+    }
+    res.status(200).json(jobRun);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,157 @@
+import mongoose from "mongoose";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { SolarUnit } from "../domain/types";
+import { DataGenerationScheduler } from "../infrastructure/data-generation-scheduler";
+import { EnergyGenerationRecord } from "../infrastructure/entities/EnergyGenerationRecord";
+import { MaintenanceWindow } from "../infrastructure/entities/MaintenanceWindow";
+import { createGenerationModel } from "../infrastructure/generation/create-generation-model";
+import { rebuildRollups } from "./energy-rollups";
+import { findMaintenancePeriods, isInMaintenance, tagMaintenance, tagStoredRecords } from "./maintenance-schedule";
+
+vi.mock("./energy-rollups", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./energy-rollups")>()),
+  rebuildRollups: vi.fn(),
+}));
+
+const at = (hour: number) => new Date(Date.UTC(2025, 11, 1, hour));
+
+type StoredWindow = { serialNumber?: string; startsAt: Date; endsAt: Date; cancelledAt?: Date };
+
+let windows: StoredWindow[];
+
+beforeEach(() => {
+  windows = [];
+  // Applies the unit and overlap conditions of the query
+  vi.spyOn(MaintenanceWindow, "find").mockImplementation(((filter: any) => ({
+    select: () => ({
+      lean: async () =>
+        windows.filter(
+          (window) =>
+            (!window.serialNumber || window.serialNumber === filter.$or[0].serialNumber) &&
+            window.startsAt < filter.startsAt.$lt &&
+            window.endsAt > filter.endsAt.$gt
+        ),
+    }),
+  })) as any);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.mocked(rebuildRollups).mockReset();
+});
+
+describe("findMaintenancePeriods", () => {
+  it("includes fleet-wide windows, ends cancelled ones early and drops those cancelled before they began", async () => {
+    windows = [
+      { serialNumber: "SU-0001", startsAt: at(8), endsAt: at(12) },
+      { startsAt: at(14), endsAt: at(16) },
+      { serialNumber: "SU-0001", startsAt: at(18), endsAt: at(22), cancelledAt: at(19) },
+      { serialNumber: "SU-0001", startsAt: at(20), endsAt: at(23), cancelledAt: at(6) },
+      { serialNumber: "SU-0002", startsAt: at(8), endsAt: at(12) },
+    ];
+
+    expect(await findMaintenancePeriods("SU-0001", at(0), at(24))).toEqual([
+      { startsAt: at(8), endsAt: at(12) },
+      { startsAt: at(14), endsAt: at(16) },
+      { startsAt: at(18), endsAt: at(19) },
+    ]);
+  });
+});
+
+describe("isInMaintenance", () => {
+  const periods = [{ startsAt: at(9), endsAt: at(11) }];
+
+  it.each([
+    [6, false],
+    [7, false],
+    [8, true],
+    [10, true],
+    [11, false],
+  ])("tags the 2-hour interval from %i:00: %s", (hour, expected) => {
+    expect(isInMaintenance(periods, at(hour), 2)).toBe(expected);
+  });
+});
+
+describe("tagMaintenance", () => {
+  it("tags only the readings of units with a window over their interval", async () => {
+    windows = [{ serialNumber: "SU-0001", startsAt: at(9), endsAt: at(11) }];
+    const readings: { serialNumber: string; timestamp: Date; intervalHours: number; inMaintenance?: boolean }[] = [
+      { serialNumber: "SU-0001", timestamp: at(6), intervalHours: 2 },
+      { serialNumber: "SU-0001", timestamp: at(8), intervalHours: 2 },
+      { serialNumber: "SU-0002", timestamp: at(8), intervalHours: 2 },
+    ];
+
+    const tagged = await tagMaintenance(readings);
+
+    expect(tagged.map((reading) => reading.inMaintenance)).toEqual([undefined, true, undefined]);
+    expect(MaintenanceWindow.find).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("tagStoredRecords", () => {
+  const records = [
+    { _id: new mongoose.Types.ObjectId(), serialNumber: "SU-0001", timestamp: at(4), intervalHours: 2 },
+    // Starts before the window but runs into it
+    { _id: new mongoose.Types.ObjectId(), serialNumber: "SU-0002", timestamp: at(0), intervalHours: 12 },
+    { _id: new mongoose.Types.ObjectId(), serialNumber: "SU-0001", timestamp: at(10), intervalHours: 2 },
+  ];
+
+  beforeEach(() => {
+    vi.spyOn(EnergyGenerationRecord, "find").mockReturnValue({ select: () => ({ lean: async () => records }) } as any);
+    vi.spyOn(EnergyGenerationRecord, "updateMany").mockResolvedValue({} as any);
+  });
+
+  it("tags the stored records a new window overlaps and rebuilds their rollups", async () => {
+    const tagged = await tagStoredRecords({ startsAt: at(9), endsAt: at(11) });
+
+    expect(tagged).toBe(2);
+    expect(EnergyGenerationRecord.updateMany).toHaveBeenCalledWith(
+      { _id: { $in: [records[1]._id, records[2]._id] } },
+      { $set: { inMaintenance: true } }
+    );
+    expect(rebuildRollups).toHaveBeenCalledWith({
+      serialNumbers: ["SU-0002", "SU-0001"],
+      from: new Date(at(9).getTime() - 24 * 60 * 60 * 1000),
+      to: at(11),
+    });
+  });
+
+  it("writes nothing when no stored record falls in the window", async () => {
+    expect(await tagStoredRecords({ serialNumber: "SU-0001", startsAt: at(20), endsAt: at(21) })).toBe(0);
+    expect(EnergyGenerationRecord.updateMany).not.toHaveBeenCalled();
+    expect(rebuildRollups).not.toHaveBeenCalled();
+  });
+});
+
+describe("DataGenerationScheduler.generateReadings in a maintenance window", () => {
+  const unit = {
+    serialNumber: "SU-0001",
+    installationDate: "2024-01-15",
+    capacity: 5000,
+    status: "ACTIVE",
+    timezone: "UTC",
+  } as SolarUnit;
+
+  beforeEach(() => {
+    DataGenerationScheduler.setGenerationModel(createGenerationModel({ model: "simple", seed: "maintenance-test" }));
+  });
+
+  afterEach(() => {
+    DataGenerationScheduler.setGenerationModel(null);
+  });
+
+  it("produces zero output in the window, tagged, and keeps what the unit would have produced", async () => {
+    windows = [{ startsAt: at(11), endsAt: at(13) }];
+
+    const readings = await DataGenerationScheduler.generateReadings(unit, [at(8), at(10), at(12), at(14)]);
+
+    expect(readings.map((reading) => [reading.energyGenerated > 0, reading.inMaintenance])).toEqual([
+      [true, undefined],
+      [false, true],
+      [false, true],
+      [true, undefined],
+    ]);
+    expect(readings[1]).toMatchObject({ peakPower: 0, efficiency: 0 });
+    expect(readings[1].expectedEnergy).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,105 @@
+import { EnergyGenerationRecord } from "../infrastructure/entities/EnergyGenerationRecord";
+import { MaintenanceWindow } from "../infrastructure/entities/MaintenanceWindow";
+import { rebuildRollups } from "./energy-rollups";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Longest interval a record may cover (intervalHours max), to find records starting before a window
+const MAX_INTERVAL_MS = 24 * HOUR_MS;
+
+export type MaintenancePeriod = {
+  startsAt: Date;
+  endsAt: Date;
+};
+
+type TaggableReading = {
+  serialNumber: string;
+  timestamp: Date;
+  intervalHours?: number | null;
+  inMaintenance?: boolean;
+};
+
+/**
+ * When a window stops applying: its end, or its cancellation if that came first
+ */
+export const getEffectiveEnd = (window: { endsAt: Date; cancelledAt?: Date | null }) =>
+  window.cancelledAt && window.cancelledAt < window.endsAt ? window.cancelledAt : window.endsAt;
+
+/**
+ * Periods a unit is in maintenance within [from, to): its own windows and those of every unit
+ * Windows cancelled before they began are left out.
+ */
+export const findMaintenancePeriods = async (serialNumber: string, from: Date, to: Date) => {
+  const windows = await MaintenanceWindow.find({
+    $or: [{ serialNumber }, { serialNumber: { $exists: false } }],
+    startsAt: { $lt: to },
+    endsAt: { $gt: from },
+  })
+    .select("startsAt endsAt cancelledAt")
+    .lean();
+  return windows
+    .map((window): MaintenancePeriod => ({ startsAt: window.startsAt, endsAt: getEffectiveEnd(window) }))
+    .filter((period) => period.startsAt < period.endsAt && period.endsAt > from);
+};
+
+/**
+ * Whether an interval overlaps any of the periods
+ */
+export const isInMaintenance = (periods: MaintenancePeriod[], timestamp: Date, intervalHours = 2) => {
+  const start = timestamp.getTime();
+  const end = start + intervalHours * HOUR_MS;
+  return periods.some((period) => period.startsAt.getTime() < end && period.endsAt.getTime() > start);
+};
+
+/**
+ * Mark readings whose interval overlaps a maintenance window of their unit with inMaintenance
+ */
+export const tagMaintenance = async <T extends TaggableReading>(readings: T[]): Promise<T[]> => {
+  const serialNumbers = Array.from(new Set(readings.map((reading) => reading.serialNumber)));
+  const periodsBySerialNumber = new Map<string, MaintenancePeriod[]>();
+  for (const serialNumber of serialNumbers) {
+    const unitReadings = readings.filter((reading) => reading.serialNumber === serialNumber);
+    const from = Math.min(...unitReadings.map((reading) => reading.timestamp.getTime()));
+    const to = Math.max(
+      ...unitReadings.map((reading) => reading.timestamp.getTime() + (reading.intervalHours ?? 2) * HOUR_MS)
+    );
+    periodsBySerialNumber.set(serialNumber, await findMaintenancePeriods(serialNumber, new Date(from), new Date(to)));
+  }
+
+  return readings.map((reading) =>
+    isInMaintenance(periodsBySerialNumber.get(reading.serialNumber) ?? [], reading.timestamp, reading.intervalHours ?? 2)
+      ? { ...reading, inMaintenance: true }
+      : reading
+  );
+};
+
+/**
+ * Tag the records already stored within a new window and recompute the rollups of the days they fall on
+ * Returns how many records were tagged.
+ */
+export const tagStoredRecords = async (window: { serialNumber?: string | null; startsAt: Date; endsAt: Date }) => {
+  const records = await EnergyGenerationRecord.find({
+    ...(window.serialNumber && { serialNumber: window.serialNumber }),
+    timestamp: { $gte: new Date(window.startsAt.getTime() - MAX_INTERVAL_MS), $lt: window.endsAt },
+    inMaintenance: { $ne: true },
+  })
+    .select("serialNumber timestamp intervalHours")
+    .lean();
+  const overlapping = records.filter((record) =>
+    isInMaintenance([window], record.timestamp as Date, record.intervalHours ?? 2)
+  );
+  if (overlapping.length === 0) {
+    return 0;
+  }
+
+  await EnergyGenerationRecord.updateMany(
+    { _id: { $in: overlapping.map((record) => record._id) } },
+    { $set: { inMaintenance: true } }
+  );
+  await rebuildRollups({
+    serialNumbers: Array.from(new Set(overlapping.map((record) => record.serialNumber))),
+    from: new Date(window.startsAt.getTime() - MAX_INTERVAL_MS),
+    to: window.endsAt,
+  });
+  return overlapping.length;
+};
@@ -0,0 +1,122 @@
+import { NextFunction, Request, Response } from "express";
+import mongoose from "mongoose";
+import { CreateMaintenanceWindowDto, GetMaintenanceWindowsQueryDto } from "../domain/dtos/maintenance-window";
+import { ConflictError, NotFoundError, ValidationError } from "../domain/errors/errors";
+import { MaintenanceWindow } from "../infrastructure/entities/MaintenanceWindow";
+import { describePrincipal } from "./alert";
+import { formatIssues } from "./energy-generation-record";
+import { getEffectiveEnd, tagStoredRecords } from "./maintenance-schedule";
+import { assertKnownSolarUnit } from "./solar-unit";
+
+const assertObjectId = (id: string, label: string) => {
+  if (!mongoose.isValidObjectId(id)) {
+    throw new ValidationError(`Invalid ${label} id`);
+  }
+};
+
+// scheduled, in-progress, completed, or cancelled when it was called off before it began
+const toView = (window: InstanceType<typeof MaintenanceWindow>, now = new Date()) => {
+  const endsAt = getEffectiveEnd(window);
+  const status =
+    endsAt <= window.startsAt
+      ? "cancelled"
+      : now < window.startsAt
+      ? "scheduled"
+      : now < endsAt
+      ? "in-progress"
+      : "completed";
+  return { ...window.toObject(), status, effectiveEndsAt: endsAt };
+};
+
+/**
+ * Schedule downtime for one unit, or for every unit when serialNumber is left out
+ * Records already stored within the window are tagged inMaintenance and their rollups recomputed.
+ *
+ * POST /api/admin/maintenance-windows
+ */
+export const createMaintenanceWindow = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = CreateMaintenanceWindowDto.safeParse(req.body ?? {});
+    if (!result.success) {
+      throw new ValidationError(formatIssues(result.error));
+    }
+    if (result.data.serialNumber) {
+      await assertKnownSolarUnit(result.data.serialNumber);
+    }
+
+    const window = await MaintenanceWindow.create({ ...result.data, createdBy: describePrincipal(req.principal) });
+    const recordsTagged = await tagStoredRecords(result.data);
+    res.status(201).json({ ...toView(window), recordsTagged });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Windows overlapping [from, to], latest first; a unit's list includes the windows of every unit
+ *
+ * GET /api/admin/maintenance-windows?serialNumber=&from=&to=&includeCancelled=
+ */
+export const getMaintenanceWindows = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = GetMaintenanceWindowsQueryDto.safeParse(req.query);
+    if (!result.success) {
+      throw new ValidationError(formatIssues(result.error));
+    }
+
+    const { serialNumber, from, to, includeCancelled } = result.data;
+    const windows = await MaintenanceWindow.find({
+      ...(serialNumber && { $or: [{ serialNumber }, { serialNumber: { $exists: false } }] }),
+      ...(from && { endsAt: { $gt: from } }),
+      ...(to && { startsAt: { $lt: to } }),
+    }).sort({ startsAt: -1 });
+
+    const now = new Date();
+    const views = windows.map((window) => toView(window, now));
+    res.status(200).json(includeCancelled ? views : views.filter((view) => view.status !== "cancelled"));
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Call off a window: before it begins it never applies, while in progress it ends now
+ * Records already stored as in maintenance keep their tag.
+ *
+ * POST /api/admin/maintenance-windows/:id/cancel
+ */
+export const cancelMaintenanceWindow = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    assertObjectId(req.params.id, "maintenance window");
+    const now = new Date();
+    const window = await MaintenanceWindow.findOneAndUpdate(
+      { _id: req.params.id, cancelledAt: { $exists: false }, endsAt: { $gt: now } },
+      { $set: { cancelledAt: now, cancelledBy: describePrincipal(req.principal) } },
+      { new: true }
+    );
+    if (!window) {
+      const existing = await MaintenanceWindow.findById(req.params.id);
+      if (!existing) {
+        throw new NotFoundError("Maintenance window not found");
+      }
+      throw new ConflictError(
+        existing.cancelledAt ? "Maintenance window is already cancelled" : "Maintenance window has already ended"
+      );
+    }
+    res.status(200).json(toView(window, now));
+  } catch (error) {
+    next(error);
+  }
+};
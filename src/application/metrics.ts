@@ -0,0 +1,204 @@
+import { NextFunction, Request, Response } from "express";
+import { GetMetricsQueryDto } from "../domain/dtos/metrics";
+import { NotFoundError, ValidationError } from "../domain/errors/errors";
+import { addZonedDays, getUnitTimeZone } from "../domain/time-zone";
+import { SolarUnit } from "../domain/types";
+import { EnergyGenerationRecord } from "../infrastructure/entities/EnergyGenerationRecord";
+import { getSolarUnitProvider } from "../infrastructure/solar-units/solar-unit-provider";
+import { DAY_MS, DailySummary, getDailySummaries } from "./energy-rollups";
+import { formatIssues } from "./energy-generation-record";
+
+// Range used when from/to are omitted, and the longest range a request may cover
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+
+type MetricsUnit = Partial<SolarUnit> & { serialNumber: string };
+
+/**
+ * Sums the KPIs are derived from. Capacity-based terms only include units with a known capacity.
+ */
+type Totals = {
+  energy: number;
+  ratedEnergy: number;
+  capacity: number;
+  capacityHours: number;
+  referenceEnergy: number;
+  recordCount: number;
+  daylightIntervals: number;
+  productiveIntervals: number;
+  maintenanceHours: number;
+};
+
+const emptyTotals = (): Totals => ({
+  energy: 0,
+  ratedEnergy: 0,
+  capacity: 0,
+  capacityHours: 0,
+  referenceEnergy: 0,
+  recordCount: 0,
+  daylightIntervals: 0,
+  productiveIntervals: 0,
+  maintenanceHours: 0,
+});
+
+const toTotals = (summaries: DailySummary[], unit: MetricsUnit): Totals => {
+  const totals = emptyTotals();
+  const capacity = unit.capacity ?? 0;
+  const rated = capacity > 0;
+  const timeZone = getUnitTimeZone(unit);
+  summaries.forEach((summary) => {
+    totals.energy += summary.energy;
+    totals.recordCount += summary.recordCount;
+    totals.daylightIntervals += summary.daylightIntervals;
+    totals.productiveIntervals += summary.productiveIntervals;
+    totals.maintenanceHours += summary.maintenanceHours;
+    if (rated) {
+      totals.ratedEnergy += summary.energy;
+      // Days last 23 or 25 hours across DST changes, and today only counts the hours that have passed;
+      // hours in maintenance windows are not available to produce
+      const dayEnd = Math.min(Date.now(), addZonedDays(summary.date, 1, timeZone).getTime());
+      const hours = Math.max(0, dayEnd - summary.date.getTime()) / (60 * 60 * 1000);
+      totals.capacityHours += capacity * Math.max(0, hours - summary.maintenanceHours);
+      totals.referenceEnergy += (capacity * summary.referenceIrradiation) / 1000;
+    }
+  });
+  totals.capacity = rated ? capacity : 0;
+  return totals;
+};
+
+const addTotals = (a: Totals, b: Totals): Totals => ({
+  energy: a.energy + b.energy,
+  ratedEnergy: a.ratedEnergy + b.ratedEnergy,
+  capacity: a.capacity + b.capacity,
+  capacityHours: a.capacityHours + b.capacityHours,
+  referenceEnergy: a.referenceEnergy + b.referenceEnergy,
+  recordCount: a.recordCount + b.recordCount,
+  daylightIntervals: a.daylightIntervals + b.daylightIntervals,
+  productiveIntervals: a.productiveIntervals + b.productiveIntervals,
+  maintenanceHours: a.maintenanceHours + b.maintenanceHours,
+});
+
+/**
+ * - totalYield: kWh
+ * - specificYield: kWh per kWp of capacity
+ * - capacityFactor: energy against running at full capacity around the clock (0-1)
+ * - performanceRatio: energy against what the capacity yields under clear-sky irradiation
+ *   over the recorded intervals (0-1; weather losses count against it)
+ * - uptime: share of daylight intervals with non-zero output (0-1)
+ * - maintenanceHours: hours in maintenance windows, which capacityFactor, performanceRatio and uptime leave out
+ * Capacity-based KPIs are null when the capacity is unknown.
+ */
+const toKpis = (totals: Totals) => ({
+  totalYield: totals.energy / 1000,
+  specificYield: totals.capacity > 0 ? totals.ratedEnergy / totals.capacity : null,
+  capacityFactor: totals.capacityHours > 0 ? totals.ratedEnergy / totals.capacityHours : null,
+  performanceRatio: totals.referenceEnergy > 0 ? totals.ratedEnergy / totals.referenceEnergy : null,
+  uptime: totals.daylightIntervals > 0 ? totals.productiveIntervals / totals.daylightIntervals : null,
+  maintenanceHours: totals.maintenanceHours,
+  recordCount: totals.recordCount,
+});
+
+const parseRange = (query: unknown) => {
+  const result = GetMetricsQueryDto.safeParse(query);
+  if (!result.success) {
+    throw new ValidationError(formatIssues(result.error));
+  }
+
+  const to = result.data.to ?? new Date();
+  const from = result.data.from ?? new Date(to.getTime() - (DEFAULT_RANGE_DAYS - 1) * DAY_MS);
+  if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+    throw new ValidationError(`The range may cover at most ${MAX_RANGE_DAYS} days`);
+  }
+  return { from, to, top: result.data.top };
+};
+
+const getUnitTotals = async (unit: MetricsUnit, from: Date, to: Date) => {
+  const summaries = await getDailySummaries(unit, from, to);
+  return { summaries, totals: toTotals(summaries, unit) };
+};
+
+/**
+ * KPIs of one unit over whole days in its time zone, with a per-day breakdown
+ *
+ * GET /api/metrics/solar-unit/:serialNumber?from=&to=
+ */
+export const getSolarUnitMetrics = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { serialNumber } = req.params;
+    const { from, to } = parseRange(req.query);
+
+    const units = await getSolarUnitProvider().getActiveSolarUnits();
+    let unit: MetricsUnit | undefined = units.find((candidate) => candidate.serialNumber === serialNumber);
+    if (!unit) {
+      // Units that are no longer active still have history, just no known capacity
+      if (!(await EnergyGenerationRecord.exists({ serialNumber }))) {
+        throw new NotFoundError("Solar unit not found");
+      }
+      unit = { serialNumber };
+    }
+
+    const { summaries, totals } = await getUnitTotals(unit, from, to);
+    res.status(200).json({
+      serialNumber,
+      from,
+      to,
+      capacity: unit.capacity ?? null,
+      timezone: getUnitTimeZone(unit),
+      ...toKpis(totals),
+      days: summaries.map((summary) => ({
+        date: summary.date,
+        ...toKpis(toTotals([summary], unit)),
+        peakPower: summary.peakPower ?? null,
+      })),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Fleet-wide KPIs over the active units, each unit's KPIs and a best/worst ranking by specific yield
+ *
+ * GET /api/metrics/fleet?from=&to=&top=
+ */
+export const getFleetMetrics = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { from, to, top } = parseRange(req.query);
+    const units = await getSolarUnitProvider().getActiveSolarUnits();
+
+    let fleetTotals = emptyTotals();
+    const unitMetrics = [];
+    for (const unit of units) {
+      const { totals } = await getUnitTotals(unit, from, to);
+      fleetTotals = addTotals(fleetTotals, totals);
+      unitMetrics.push({ serialNumber: unit.serialNumber, name: unit.name, capacity: unit.capacity, ...toKpis(totals) });
+    }
+
+    const ranked = unitMetrics
+      .filter((metrics) => metrics.specificYield !== null)
+      .sort((a, b) => (b.specificYield as number) - (a.specificYield as number));
+
+    res.status(200).json({
+      from,
+      to,
+      unitCount: units.length,
+      capacity: fleetTotals.capacity,
+      ...toKpis(fleetTotals),
+      ranking: {
+        best: ranked.slice(0, top),
+        worst: ranked.slice(-top).reverse(),
+      },
+      units: unitMetrics,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
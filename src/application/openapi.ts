@@ -0,0 +1,152 @@
+import { z } from "zod";
+import {
+  apiSchemas,
+  GetAnomaliesV1QueryDto,
+  GetRecordsV1QueryDto,
+  GetSolarUnitsV1QueryDto,
+} from "../domain/dtos/v1";
+
+type Operation = {
+  path: string;
+  operationId: string;
+  summary: string;
+  query?: z.ZodObject;
+  response: string;
+};
+
+// Every route of /api/v1 besides the document itself; keep in step with src/api/v1.ts
+const OPERATIONS: Operation[] = [
+  {
+    path: "/solar-units",
+    operationId: "listSolarUnits",
+    summary: "Units registered with the data API",
+    query: GetSolarUnitsV1QueryDto,
+    response: "SolarUnitList",
+  },
+  {
+    path: "/solar-units/{serialNumber}",
+    operationId: "getSolarUnit",
+    summary: "One unit, from the registry or the configured unit provider",
+    response: "SolarUnitResponse",
+  },
+  {
+    path: "/solar-units/{serialNumber}/records",
+    operationId: "listEnergyGenerationRecords",
+    summary: "A unit's records, a page at a time ordered by timestamp",
+    query: GetRecordsV1QueryDto,
+    response: "EnergyGenerationRecordPage",
+  },
+  {
+    path: "/solar-units/{serialNumber}/anomalies",
+    operationId: "listAnomalies",
+    summary: "A unit's anomalies, a page at a time ordered by window start",
+    query: GetAnomaliesV1QueryDto,
+    response: "AnomalyPage",
+  },
+];
+
+const ERROR_RESPONSES = {
+  "400": "Invalid parameters or cursor",
+  "401": "Missing or invalid credentials",
+  "404": "Unknown solar unit or route",
+};
+
+const schemaRef = (id: string) => ({ $ref: `#/components/schemas/${id}` });
+
+// Query dates are accepted in any form Date parses, ISO 8601 being the one documented
+const toQueryParameters = (query: z.ZodObject) => {
+  const schema = z.toJSONSchema(query, {
+    target: "openapi-3.0",
+    io: "input",
+    unrepresentable: "any",
+    override: (ctx) => {
+      if (ctx.zodSchema._zod.def.type === "date") {
+        ctx.jsonSchema.type = "string";
+        ctx.jsonSchema.format = "date-time";
+      }
+    },
+  });
+  const required: string[] = (schema.required as string[] | undefined) ?? [];
+  return Object.entries(schema.properties ?? {}).map(([name, property]) => ({
+    name,
+    in: "query",
+    required: required.includes(name),
+    schema: property,
+  }));
+};
+
+// Schemas are keyed by their registry id; the $id zod adds has no place in OpenAPI components
+const toComponentSchemas = () => {
+  const { schemas } = z.toJSONSchema(apiSchemas, {
+    target: "openapi-3.0",
+    uri: (id) => `#/components/schemas/${id}`,
+  });
+  return Object.fromEntries(Object.entries(schemas).map(([id, { $id, ...schema }]) => [id, schema]));
+};
+
+const pathParameters = (path: string) =>
+  (path.match(/{[^}]+}/g) ?? []).map((match) => ({
+    name: match.slice(1, -1),
+    in: "path",
+    required: true,
+    schema: { type: "string" },
+  }));
+
+let document: Record<string, unknown> | null = null;
+
+/**
+ * OpenAPI 3 description of /api/v1, generated from the zod schemas in domain/dtos/v1 on first use
+ */
+export const getOpenApiDocument = () => {
+  if (!document) {
+    const errorResponses = Object.fromEntries(
+      Object.entries(ERROR_RESPONSES).map(([status, description]) => [
+        status,
+        { description, content: { "application/json": { schema: schemaRef("ErrorResponse") } } },
+      ])
+    );
+
+    document = {
+      openapi: "3.0.3",
+      info: {
+        title: "Solar energy data API",
+        version: "1.0.0",
+        description:
+          "Versioned API of the data backend. Lists are paged with opaque cursors: pass page.nextCursor as " +
+          "cursor, with the same order, until it is null. Errors always come as ErrorResponse.",
+      },
+      servers: [{ url: "/api/v1" }],
+      security: [{ apiKey: [] }, { bearerAuth: [] }],
+      paths: Object.fromEntries(
+        OPERATIONS.map((operation) => [
+          operation.path,
+          {
+            get: {
+              operationId: operation.operationId,
+              summary: operation.summary,
+              parameters: [
+                ...pathParameters(operation.path),
+                ...(operation.query ? toQueryParameters(operation.query) : []),
+              ],
+              responses: {
+                "200": {
+                  description: "OK",
+                  content: { "application/json": { schema: schemaRef(operation.response) } },
+                },
+                ...errorResponses,
+              },
+            },
+          },
+        ])
+      ),
+      components: {
+        schemas: toComponentSchemas(),
+        securitySchemes: {
+          apiKey: { type: "apiKey", in: "header", name: "x-api-key" },
+          bearerAuth: { type: "http", scheme: "bearer" },
+        },
+      },
+    };
+  }
+  return document;
+};
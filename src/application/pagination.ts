@@ -0,0 +1,91 @@
+import mongoose from "mongoose";
+import { ValidationError } from "../domain/errors/errors";
+
+export type PageOrder = "asc" | "desc";
+
+export type PageOptions = {
+  limit: number;
+  cursor?: string;
+  order: PageOrder;
+};
+
+// Position after the last item of a page: its sort value, its _id when the value is not unique, and the order
+type Cursor = { t: string; id?: string; o: PageOrder };
+
+export const encodeCursor = (cursor: Cursor) => Buffer.from(JSON.stringify(cursor)).toString("base64url");
+
+export const decodeCursor = (value: string, order: PageOrder): Cursor => {
+  let cursor: Cursor;
+  try {
+    cursor = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+  } catch {
+    throw new ValidationError("Invalid cursor");
+  }
+  if (
+    typeof cursor?.t !== "string" ||
+    isNaN(Date.parse(cursor.t)) ||
+    (cursor.id !== undefined && !mongoose.isValidObjectId(cursor.id))
+  ) {
+    throw new ValidationError("Invalid cursor");
+  }
+  if (cursor.o !== order) {
+    throw new ValidationError("cursor was issued for another order");
+  }
+  return cursor;
+};
+
+/**
+ * One page of documents ordered by a date field, plus the cursor of the next page
+ * When the field is unique within the filter (a unit's record timestamps) it alone keys the cursor;
+ * otherwise _id breaks ties. Fetches one document more than the limit to know whether more follow.
+ */
+export const findPage = async (
+  model: mongoose.Model<any>,
+  filter: Record<string, unknown>,
+  field: string,
+  options: PageOptions,
+  unique = false
+) => {
+  const direction = options.order === "asc" ? 1 : -1;
+  const beyond = options.order === "asc" ? "$gt" : "$lt";
+  const after = options.cursor ? decodeCursor(options.cursor, options.order) : null;
+
+  let position: Record<string, unknown> = {};
+  if (after) {
+    const value = new Date(after.t);
+    position =
+      unique || !after.id
+        ? { [field]: { [beyond]: value } }
+        : {
+            $or: [
+              { [field]: { [beyond]: value } },
+              { [field]: value, _id: { [beyond]: new mongoose.Types.ObjectId(after.id) } },
+            ],
+          };
+  }
+
+  const documents: any[] = await model
+    .find({ $and: [filter, position] })
+    .sort({ [field]: direction, ...(!unique && { _id: direction }) })
+    .limit(options.limit + 1)
+    .lean();
+
+  const hasMore = documents.length > options.limit;
+  const items = documents.slice(0, options.limit);
+  const last = items[items.length - 1];
+  return {
+    items,
+    page: {
+      limit: options.limit,
+      hasMore,
+      nextCursor:
+        hasMore && last
+          ? encodeCursor({
+              t: (last[field] as Date).toISOString(),
+              ...(!unique && { id: String(last._id) }),
+              o: options.order,
+            })
+          : null,
+    },
+  };
+};
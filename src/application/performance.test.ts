@@ -0,0 +1,181 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { NotFoundError, ValidationError } from "../domain/errors/errors";
+import { SolarUnit } from "../domain/types";
+import { DataGenerationScheduler } from "../infrastructure/data-generation-scheduler";
+import { EnergyGenerationRecord } from "../infrastructure/entities/EnergyGenerationRecord";
+import { createGenerationModel } from "../infrastructure/generation/create-generation-model";
+import { setSolarUnitProvider } from "../infrastructure/solar-units/solar-unit-provider";
+import { comparePerformance, getPerformance, PerformanceRecord } from "./performance";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DEC_1 = Date.UTC(2025, 11, 1);
+
+const options = { timeZone: "UTC", capacity: 5000, threshold: 0.8, minDays: 3 };
+
+const at = (day: number, hour: number) => new Date(DEC_1 + (day * 24 + hour) * HOUR_MS);
+
+// One 2-hour reading at 10:00 on each day, producing `share` of the expected 2000 Wh
+const days = (...shares: number[]): PerformanceRecord[] =>
+  shares.map((share, day) => ({ timestamp: at(day, 10), energyGenerated: 2000 * share, intervalHours: 2, expectedEnergy: 2000 }));
+
+describe("comparePerformance", () => {
+  it("gives every interval the ratio of actual to expected energy", () => {
+    const result = comparePerformance(
+      [
+        { timestamp: at(0, 8), energyGenerated: 900, intervalHours: 2, expectedEnergy: 1000 },
+        { timestamp: at(0, 10), energyGenerated: 2100, intervalHours: 2, expectedEnergy: 2000 },
+      ],
+      options
+    );
+
+    expect(result.intervals.map((interval) => interval.performanceIndex)).toEqual([0.9, 1.05]);
+    expect(result).toMatchObject({ actualEnergy: 3000, expectedEnergy: 3000, performanceIndex: 1 });
+  });
+
+  it("does not judge dark intervals, maintenance or records without an expected value", () => {
+    const result = comparePerformance(
+      [
+        // Less than 2% of what the capacity could produce in the interval
+        { timestamp: at(0, 6), energyGenerated: 0, intervalHours: 2, expectedEnergy: 150 },
+        { timestamp: at(0, 8), energyGenerated: 0, intervalHours: 2, expectedEnergy: 1000, inMaintenance: true },
+        { timestamp: at(0, 10), energyGenerated: 500, intervalHours: 2 },
+        { timestamp: at(0, 12), energyGenerated: 3000, intervalHours: 2, expectedEnergy: 3000 },
+      ],
+      options
+    );
+
+    expect(result.intervals.map((interval) => interval.performanceIndex)).toEqual([null, null, null, 1]);
+    expect(result.days).toEqual([
+      {
+        date: "2025-12-01",
+        actualEnergy: 3000,
+        expectedEnergy: 3000,
+        performanceIndex: 1,
+        maintenanceHours: 2,
+        underperforming: false,
+      },
+    ]);
+  });
+
+  it("reports runs of at least minDays consecutive days below the threshold", () => {
+    const result = comparePerformance(days(0.5, 0.6, 0.7, 1, 0.5, 0.5, 0.9), options);
+
+    expect(result.days.map((day) => day.underperforming)).toEqual([true, true, true, false, true, true, false]);
+    expect(result.underperforming).toBe(true);
+    expect(result.underperformance).toEqual([
+      {
+        from: "2025-12-01",
+        to: "2025-12-03",
+        days: 3,
+        actualEnergy: 3600,
+        expectedEnergy: 6000,
+        performanceIndex: 0.6,
+        shortfall: 2400,
+      },
+    ]);
+  });
+
+  it("does not count days without records as part of a run", () => {
+    const records = days(0.5, 0.5, 0.5);
+    records[2] = { ...records[2], timestamp: at(3, 10) };
+
+    expect(comparePerformance(records, options).underperforming).toBe(false);
+  });
+
+  it("splits days in the unit's time zone", () => {
+    // 10:00 and 12:00 UTC on 1 December are 23:00 on the 1st and 01:00 on the 2nd in Auckland
+    const records = [at(0, 10), at(0, 12)].map((timestamp) => ({ ...days(1)[0], timestamp }));
+
+    const result = comparePerformance(records, { ...options, timeZone: "Pacific/Auckland" });
+
+    expect(result.days.map((day) => day.date)).toEqual(["2025-12-01", "2025-12-02"]);
+  });
+});
+
+describe("getPerformance", () => {
+  const unit = {
+    serialNumber: "SU-0001",
+    installationDate: "2024-01-15",
+    capacity: 5000,
+    status: "ACTIVE",
+    timezone: "UTC",
+  } as SolarUnit;
+
+  let records: PerformanceRecord[];
+
+  const get = async (serialNumber: string, query: Record<string, string> = {}) => {
+    const res = { status: vi.fn(), json: vi.fn() };
+    res.status.mockReturnValue(res);
+    const next = vi.fn();
+    await getPerformance({ params: { serialNumber }, query } as unknown as Request, res as unknown as Response, next);
+    return { body: res.json.mock.calls[0]?.[0], error: next.mock.calls[0]?.[0] };
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"], now: at(3, 0) });
+    DataGenerationScheduler.setGenerationModel(createGenerationModel({ model: "simple", seed: "performance-test" }));
+    setSolarUnitProvider({ name: "test", getActiveSolarUnits: async () => [unit] });
+    records = [
+      { _id: new mongoose.Types.ObjectId(), timestamp: at(0, 12), energyGenerated: 3000, intervalHours: 2, expectedEnergy: 4000 },
+      { _id: new mongoose.Types.ObjectId(), timestamp: at(1, 12), energyGenerated: 3000, intervalHours: 2 },
+    ];
+
+    vi.spyOn(EnergyGenerationRecord, "find").mockReturnValue({
+      sort: () => ({ select: () => ({ lean: async () => records }) }),
+    } as any);
+    vi.spyOn(EnergyGenerationRecord, "bulkWrite").mockResolvedValue({} as any);
+    vi.spyOn(EnergyGenerationRecord, "exists").mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    DataGenerationScheduler.setGenerationModel(null);
+    setSolarUnitProvider(null);
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("compares against stored expected values and stores the ones that are missing", async () => {
+    const response = await get("SU-0001");
+
+    // The simple model expects 75% of the capacity over the two hours from noon
+    expect(response.body.intervals.map((interval: { expected: number }) => interval.expected)).toEqual([4000, 3750]);
+    expect(EnergyGenerationRecord.bulkWrite).toHaveBeenCalledWith(
+      [
+        {
+          updateOne: {
+            filter: { _id: records[1]._id, expectedEnergy: { $exists: false } },
+            update: { $set: { expectedEnergy: 3750 } },
+          },
+        },
+      ],
+      { ordered: false }
+    );
+    expect(response.body).toMatchObject({ from: at(-27, 0), to: at(3, 0), capacity: 5000, threshold: 0.8, minDays: 3 });
+  });
+
+  it("leaves the records of an inactive unit without expected values unjudged", async () => {
+    vi.mocked(EnergyGenerationRecord.exists).mockResolvedValue({ _id: new mongoose.Types.ObjectId() });
+
+    const response = await get("SU-0009");
+
+    expect(EnergyGenerationRecord.bulkWrite).not.toHaveBeenCalled();
+    expect(response.body.intervals.map((interval: { performanceIndex: number | null }) => interval.performanceIndex)).toEqual([
+      0.75,
+      null,
+    ]);
+    expect(response.body.capacity).toBeNull();
+  });
+
+  it("answers a unit that is neither active nor has records with 404", async () => {
+    expect((await get("SU-9999")).error).toBeInstanceOf(NotFoundError);
+  });
+
+  it("refuses a range longer than a year", async () => {
+    const response = await get("SU-0001", { from: "2024-01-01", to: "2025-12-01" });
+
+    expect(response.error).toBeInstanceOf(ValidationError);
+    expect(response.error.message).toBe("The range may cover at most 366 days");
+  });
+});
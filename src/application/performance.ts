@@ -0,0 +1,217 @@
+import { NextFunction, Request, Response } from "express";
+import { GetPerformanceQueryDto } from "../domain/dtos/performance";
+import { NotFoundError, ValidationError } from "../domain/errors/errors";
+import { formatZonedDate, getUnitTimeZone } from "../domain/time-zone";
+import { SolarUnit } from "../domain/types";
+import { DataGenerationScheduler } from "../infrastructure/data-generation-scheduler";
+import { EnergyGenerationRecord } from "../infrastructure/entities/EnergyGenerationRecord";
+import { findActiveSolarUnit } from "../infrastructure/solar-units/solar-unit-provider";
+import { formatIssues } from "./energy-generation-record";
+import { DAY_MS } from "./energy-rollups";
+
+// Range used when from/to are omitted, and the longest range a request may cover
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+
+// Intervals expected to yield less than this share of the capacity are too dark to judge
+const MIN_EXPECTED_SHARE = 0.02;
+
+export type PerformanceRecord = {
+  _id?: unknown;
+  timestamp: Date;
+  energyGenerated: number;
+  intervalHours?: number | null;
+  expectedEnergy?: number | null;
+  inMaintenance?: boolean | null;
+};
+
+type Comparison = {
+  actualEnergy: number;
+  expectedEnergy: number;
+  performanceIndex: number | null;
+};
+
+/**
+ * Actual against expected energy over the intervals that can be judged
+ */
+const compare = (intervals: { actual: number; expected: number | null; judged: boolean }[]): Comparison => {
+  const judged = intervals.filter((interval) => interval.judged);
+  const actualEnergy = judged.reduce((sum, interval) => sum + interval.actual, 0);
+  const expectedEnergy = judged.reduce((sum, interval) => sum + (interval.expected ?? 0), 0);
+  return { actualEnergy, expectedEnergy, performanceIndex: expectedEnergy > 0 ? actualEnergy / expectedEnergy : null };
+};
+
+/**
+ * Compare a unit's records (sorted by timestamp) with their expected energy
+ * Every interval gets a performance index (actual / expected) unless too little output was expected to judge it
+ * or it fell in a maintenance window; days report their maintenance hours.
+ * Days below the threshold are underperforming; runs of at least minDays consecutive such days are
+ * reported as sustained underperformance.
+ */
+export const comparePerformance = (
+  records: PerformanceRecord[],
+  options: { timeZone: string; capacity?: number; threshold: number; minDays: number }
+) => {
+  const { timeZone, capacity, threshold, minDays } = options;
+
+  const intervals = records.map((record) => {
+    const intervalHours = record.intervalHours ?? 2;
+    const expected = record.expectedEnergy ?? null;
+    const inMaintenance = !!record.inMaintenance;
+    const judged =
+      !inMaintenance && expected !== null && expected > (capacity ? capacity * intervalHours * MIN_EXPECTED_SHARE : 0);
+    return {
+      timestamp: record.timestamp,
+      intervalHours,
+      actual: record.energyGenerated,
+      expected,
+      judged,
+      inMaintenance,
+      performanceIndex: judged ? record.energyGenerated / (expected as number) : null,
+    };
+  });
+
+  const intervalsByDay = new Map<string, typeof intervals>();
+  intervals.forEach((interval) => {
+    const key = formatZonedDate(interval.timestamp, timeZone);
+    const dayIntervals = intervalsByDay.get(key);
+    if (dayIntervals) {
+      dayIntervals.push(interval);
+    } else {
+      intervalsByDay.set(key, [interval]);
+    }
+  });
+  const days = Array.from(intervalsByDay).map(([date, dayIntervals]) => {
+    const comparison = compare(dayIntervals);
+    return {
+      date,
+      ...comparison,
+      maintenanceHours: dayIntervals
+        .filter((interval) => interval.inMaintenance)
+        .reduce((sum, interval) => sum + interval.intervalHours, 0),
+      underperforming: comparison.performanceIndex !== null && comparison.performanceIndex < threshold,
+    };
+  });
+
+  // Consecutive calendar days below the threshold
+  const runs: (typeof days)[] = [];
+  days.forEach((day, index) => {
+    const previous = days[index - 1];
+    if (!day.underperforming) {
+      return;
+    }
+    if (previous?.underperforming && Date.parse(day.date) - Date.parse(previous.date) === DAY_MS) {
+      runs[runs.length - 1].push(day);
+    } else {
+      runs.push([day]);
+    }
+  });
+  const underperformance = runs
+    .filter((run) => run.length >= minDays)
+    .map((run) => {
+      const actualEnergy = run.reduce((sum, day) => sum + day.actualEnergy, 0);
+      const expectedEnergy = run.reduce((sum, day) => sum + day.expectedEnergy, 0);
+      return {
+        from: run[0].date,
+        to: run[run.length - 1].date,
+        days: run.length,
+        actualEnergy,
+        expectedEnergy,
+        performanceIndex: actualEnergy / expectedEnergy,
+        shortfall: expectedEnergy - actualEnergy,
+      };
+    });
+
+  return {
+    ...compare(intervals),
+    underperforming: underperformance.length > 0,
+    underperformance,
+    days,
+    intervals: intervals.map(({ judged, ...interval }) => interval),
+  };
+};
+
+/**
+ * Store the expected energy of records from before it was recorded, so later reports compare against the same values
+ */
+const fillExpectedEnergy = async (unit: SolarUnit, records: PerformanceRecord[]) => {
+  const missing = records.filter((record) => record.expectedEnergy == null);
+  if (missing.length === 0) {
+    return;
+  }
+
+  const operations = [];
+  for (const record of missing) {
+    record.expectedEnergy = await DataGenerationScheduler.getExpectedEnergy(
+      unit,
+      record.timestamp,
+      record.intervalHours ?? 2
+    );
+    operations.push({
+      updateOne: {
+        filter: { _id: record._id, expectedEnergy: { $exists: false } },
+        update: { $set: { expectedEnergy: record.expectedEnergy } },
+      },
+    });
+  }
+  await EnergyGenerationRecord.bulkWrite(operations, { ordered: false });
+};
+
+const parseQuery = (query: unknown) => {
+  const result = GetPerformanceQueryDto.safeParse(query);
+  if (!result.success) {
+    throw new ValidationError(formatIssues(result.error));
+  }
+
+  const to = result.data.to ?? new Date();
+  const from = result.data.from ?? new Date(to.getTime() - DEFAULT_RANGE_DAYS * DAY_MS);
+  if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+    throw new ValidationError(`The range may cover at most ${MAX_RANGE_DAYS} days`);
+  }
+  return { ...result.data, from, to };
+};
+
+/**
+ * Expected against actual energy of one unit, per interval and per day in its time zone,
+ * with the periods of sustained underperformance
+ * Records of units that are no longer active are only compared where an expected value was stored.
+ *
+ * GET /api/performance/:serialNumber?from=&to=&threshold=0.8&minDays=3
+ */
+export const getPerformance = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { serialNumber } = req.params;
+    const { from, to, threshold, minDays } = parseQuery(req.query);
+
+    const unit = await findActiveSolarUnit(serialNumber);
+    if (!unit && !(await EnergyGenerationRecord.exists({ serialNumber }))) {
+      throw new NotFoundError("Solar unit not found");
+    }
+
+    const records = (await EnergyGenerationRecord.find({ serialNumber, timestamp: { $gte: from, $lte: to } })
+      .sort({ timestamp: 1 })
+      .select("timestamp energyGenerated intervalHours expectedEnergy inMaintenance")
+      .lean()) as PerformanceRecord[];
+    if (unit) {
+      await fillExpectedEnergy(unit, records);
+    }
+
+    const timeZone = getUnitTimeZone(unit ?? {});
+    res.status(200).json({
+      serialNumber,
+      from,
+      to,
+      timezone: timeZone,
+      capacity: unit?.capacity ?? null,
+      threshold,
+      minDays,
+      ...comparePerformance(records, { timeZone, capacity: unit?.capacity || undefined, threshold, minDays }),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,12 @@
+import { Request, Response } from "express";
+import { renderMetrics } from "../infrastructure/metrics/metrics-registry";
+
+/**
+ * Service metrics in the Prometheus text format: HTTP latency, generation runs, inserted records
+ * and MongoDB errors, counted since the process started
+ *
+ * GET /metrics
+ */
+export const getPrometheusMetrics = (req: Request, res: Response) => {
+  res.status(200).type("text/plain; version=0.0.4; charset=utf-8").send(renderMetrics());
+};
@@ -0,0 +1,179 @@
+import mongoose from "mongoose";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ColumnMappingDto } from "../domain/dtos/import";
+import { EnergyGenerationRecord } from "../infrastructure/entities/EnergyGenerationRecord";
+import { ImportJob } from "../infrastructure/entities/ImportJob";
+import { ImportRowError } from "../infrastructure/entities/ImportRowError";
+import { insertNewReadings, Reading } from "./energy-generation-record";
+import { importRecords, ImportOptions, parseCsvLine, toErrorReportLine } from "./record-import";
+
+vi.mock("./energy-generation-record", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./energy-generation-record")>()),
+  insertNewReadings: vi.fn(),
+}));
+
+vi.mock("../infrastructure/webhooks/event-publisher", () => ({
+  publishEvent: async () => undefined,
+}));
+
+const importId = new mongoose.Types.ObjectId();
+
+// Readings already stored before the import, by serialNumber|timestamp
+let existing: Set<string>;
+let inserted: Reading[];
+let rowErrors: { line: number; reason: string; raw: string }[];
+let finalCounts: Record<string, unknown>;
+
+const lines = async function* (text: string) {
+  yield* text.split("\n");
+};
+
+const run = (text: string, options: Partial<ImportOptions> = {}) =>
+  importRecords(lines(text), { format: "csv", source: "api", batchSize: 500, ...options });
+
+beforeEach(() => {
+  existing = new Set(["SU-0001|2025-12-01T02:00:00.000Z"]);
+  inserted = [];
+  rowErrors = [];
+  finalCounts = {};
+
+  vi.spyOn(ImportJob, "create").mockResolvedValue({ _id: importId } as any);
+  vi.spyOn(ImportJob, "updateOne").mockImplementation(((_: unknown, update: { $set: Record<string, unknown> }) => {
+    finalCounts = update.$set;
+    return Promise.resolve({});
+  }) as any);
+  vi.spyOn(ImportJob, "findById").mockImplementation((() => Promise.resolve(finalCounts)) as any);
+  vi.spyOn(ImportRowError, "insertMany").mockImplementation(((errors: typeof rowErrors) => {
+    rowErrors.push(...errors);
+    return Promise.resolve(errors);
+  }) as any);
+  vi.spyOn(EnergyGenerationRecord, "find").mockReturnValue({ sort: () => ({ lean: async () => [] }) } as any);
+  vi.mocked(insertNewReadings).mockImplementation(async (readings) => {
+    const upsertedIds: Record<number, unknown> = {};
+    readings.forEach((reading, index) => {
+      if (!existing.has(`${reading.serialNumber}|${reading.timestamp.toISOString()}`)) {
+        inserted.push(reading);
+        upsertedIds[index] = new mongoose.Types.ObjectId();
+      }
+    });
+    return upsertedIds;
+  });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.mocked(insertNewReadings).mockReset();
+});
+
+describe("importRecords", () => {
+  it("reads record fields from the mapped columns", async () => {
+    const mapping = ColumnMappingDto.parse("timestamp=Time,energyGenerated=Yield (Wh),temperature=Module °C");
+
+    await run(
+      [
+        "Time,Yield (Wh),Module °C,Comment",
+        "2025-12-01T04:00:00Z, 812.5 ,38.2,sunny",
+        '2025-12-01T06:00:00Z,1204,,"cloudy, then sunny"',
+      ].join("\n"),
+      { mapping, serialNumber: "SU-0001" }
+    );
+
+    expect(inserted).toEqual([
+      {
+        serialNumber: "SU-0001",
+        timestamp: new Date("2025-12-01T04:00:00Z"),
+        energyGenerated: 812.5,
+        intervalHours: 2,
+        temperature: 38.2,
+      },
+      {
+        serialNumber: "SU-0001",
+        timestamp: new Date("2025-12-01T06:00:00Z"),
+        energyGenerated: 1204,
+        intervalHours: 2,
+      },
+    ]);
+    expect(finalCounts).toMatchObject({ status: "completed", totalRows: 2, accepted: 2, duplicates: 0, rejected: 0 });
+  });
+
+  it("records every rejected row with its line number and reason, and counts duplicates", async () => {
+    await run(
+      [
+        "serialNumber,timestamp,energyGenerated",
+        "SU-0001,2025-12-01T00:00:00Z,0",
+        "SU-0001,2025-12-01T02:00:00Z,150",
+        "SU-0001,not-a-date,100",
+        "",
+        "SU-0001,2025-12-01T04:00:00Z,-20",
+        "SU-0001,2025-12-01T06:00:00Z",
+        "SU-0001,2025-12-01T00:00:00Z,0",
+      ].join("\n")
+    );
+
+    expect(rowErrors.map(({ line }) => line)).toEqual([4, 6, 7]);
+    expect(rowErrors[0].reason).toMatch(/^timestamp: /);
+    expect(rowErrors.slice(1).map(({ line, reason }) => [line, reason])).toEqual([
+      [6, "energyGenerated: energyGenerated must not be negative"],
+      [7, "Expected 3 columns but found 2"],
+    ]);
+    expect(rowErrors[0].raw).toBe("SU-0001,not-a-date,100");
+    expect(finalCounts).toMatchObject({ status: "completed", totalRows: 6, accepted: 1, duplicates: 2, rejected: 3 });
+  });
+
+  it("refuses a CSV whose header lacks the mapped columns", async () => {
+    const mapping = { energyGenerated: "Yield" };
+
+    await expect(run("serialNumber,timestamp,Energy\nSU-0001,2025-12-01T00:00:00Z,5", { mapping })).rejects.toThrow(
+      "Columns not found in the CSV header: Yield"
+    );
+    expect(finalCounts).toMatchObject({ status: "failed", errorMessage: "Columns not found in the CSV header: Yield" });
+  });
+
+  it("rejects NDJSON lines that are not JSON objects", async () => {
+    await run(
+      [
+        '{"serialNumber":"SU-0002","timestamp":"2025-12-01T00:00:00Z","energyGenerated":"75"}',
+        "{not json",
+        "[1,2]",
+      ].join("\n"),
+      { format: "ndjson" }
+    );
+
+    expect(inserted).toHaveLength(1);
+    expect(inserted[0].energyGenerated).toBe(75);
+    expect(rowErrors.map(({ line, reason }) => [line, reason])).toEqual([
+      [2, "Line is not valid JSON"],
+      [3, "Line is not a JSON object"],
+    ]);
+  });
+
+  it("writes in batches of batchSize", async () => {
+    const rows = Array.from({ length: 5 }, (_, index) => `SU-0003,2025-12-0${index + 1}T00:00:00Z,10`);
+
+    await run(["serialNumber,timestamp,energyGenerated", ...rows].join("\n"), { batchSize: 2 });
+
+    expect(vi.mocked(insertNewReadings).mock.calls.map(([readings]) => readings.length)).toEqual([2, 2, 1]);
+  });
+});
+
+describe("ColumnMappingDto", () => {
+  it.each([
+    ["timestamp=Time, energyGenerated=Yield (Wh)", { timestamp: "Time", energyGenerated: "Yield (Wh)" }],
+    ['{"serialNumber":"Inverter"}', { serialNumber: "Inverter" }],
+  ])("reads %s", (text, mapping) => {
+    expect(ColumnMappingDto.parse(text)).toEqual(mapping);
+  });
+
+  it.each(["timestamp=", "watts=Power", "{oops"])("rejects %s", (text) => {
+    expect(ColumnMappingDto.safeParse(text).success).toBe(false);
+  });
+});
+
+describe("error report", () => {
+  it("splits quoted CSV values and writes rejected rows back as CSV", () => {
+    expect(parseCsvLine('SU-0001,"12,5","say ""hi"""')).toEqual(["SU-0001", "12,5", 'say "hi"']);
+    expect(toErrorReportLine({ line: 7, reason: "energyGenerated: must not be negative", raw: 'SU-0001,"x",-1' })).toBe(
+      '7,energyGenerated: must not be negative,"SU-0001,""x"",-1"\n'
+    );
+  });
+});
@@ -0,0 +1,362 @@
+import { NextFunction, Request, Response } from "express";
+import mongoose from "mongoose";
+import { createInterface } from "readline";
+import { z } from "zod";
+import { CreateEnergyGenerationRecordDto } from "../domain/dtos/energy-generation-record";
+import { ColumnMappingDto, CreateImportQueryDto, GetImportsQueryDto, RECORD_FIELDS } from "../domain/dtos/import";
+import { NotFoundError, ValidationError } from "../domain/errors/errors";
+import { ImportFormat, ImportSource } from "../domain/types";
+import { EnergyGenerationRecord } from "../infrastructure/entities/EnergyGenerationRecord";
+import { ImportJob } from "../infrastructure/entities/ImportJob";
+import { ImportRowError } from "../infrastructure/entities/ImportRowError";
+import { publishEvent } from "../infrastructure/webhooks/event-publisher";
+import { formatIssues, insertNewReadings, Reading } from "./energy-generation-record";
+import { escapeCsv, writeChunk } from "./energy-generation-record-export";
+import { logger } from "../infrastructure/logging/logger";
+
+export type ColumnMapping = z.infer<typeof ColumnMappingDto>;
+
+export type ImportOptions = {
+  format: ImportFormat;
+  source: ImportSource;
+  batchSize: number;
+  mapping?: ColumnMapping;
+  serialNumber?: string;
+  fileName?: string;
+};
+
+type RecordField = (typeof RECORD_FIELDS)[number];
+
+const NUMERIC_FIELDS: RecordField[] = ["energyGenerated", "intervalHours", "peakPower", "efficiency", "temperature"];
+
+// Long rows are cut down in the error report
+const MAX_RAW_LENGTH = 1000;
+
+const CONTENT_TYPE_FORMATS: Record<string, ImportFormat> = {
+  "text/csv": "csv",
+  "application/x-ndjson": "ndjson",
+  "application/jsonl": "ndjson",
+};
+
+export const IMPORT_ERROR_REPORT_COLUMNS = ["line", "reason", "raw"];
+
+export const toErrorReportLine = (rowError: { line: number; reason: string; raw?: string | null }) =>
+  `${[rowError.line, rowError.reason, rowError.raw].map(escapeCsv).join(",")}\n`;
+
+/**
+ * Split one CSV line into values. Quoted values may contain commas and "" escapes,
+ * but not line breaks.
+ */
+export const parseCsvLine = (line: string) => {
+  const values: string[] = [];
+  let current = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      values.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  values.push(current);
+
+  return values;
+};
+
+const columnFor = (field: RecordField, mapping: ColumnMapping) => mapping[field] ?? field;
+
+// CSV values are text, so numeric fields are converted before validation ("" counts as missing)
+const toCandidate = (values: Record<string, unknown>, mapping: ColumnMapping, serialNumber?: string) => {
+  const candidate: Record<string, unknown> = {};
+  RECORD_FIELDS.forEach((field) => {
+    const value = values[columnFor(field, mapping)];
+    if (value === undefined || value === null || value === "") {
+      return;
+    }
+    candidate[field] = NUMERIC_FIELDS.includes(field) && typeof value === "string" ? Number(value.trim()) : value;
+  });
+  if (candidate.serialNumber === undefined && serialNumber) {
+    candidate.serialNumber = serialNumber;
+  }
+  return candidate;
+};
+
+const checkHeader = (header: string[], mapping: ColumnMapping, serialNumber?: string) => {
+  const required: RecordField[] = serialNumber ? ["timestamp", "energyGenerated"] : ["serialNumber", "timestamp", "energyGenerated"];
+  const missing = required.map((field) => columnFor(field, mapping)).filter((column) => !header.includes(column));
+  const unknown = Object.values(mapping).filter((column) => column && !header.includes(column));
+
+  const columns = Array.from(new Set([...missing, ...unknown]));
+  if (columns.length > 0) {
+    throw new ValidationError(`Columns not found in the CSV header: ${columns.join(", ")}`);
+  }
+};
+
+/**
+ * Import readings line by line from a CSV (with a header row) or NDJSON source
+ * Every row is validated against the record schema. Valid rows are inserted in batches and
+ * readings that already exist for (serialNumber, timestamp) are counted as duplicates and left as they are;
+ * nothing is ever updated or deleted. Rejected rows are stored for the error report.
+ */
+export const importRecords = async (lines: AsyncIterable<string>, options: ImportOptions) => {
+  const { format, source, batchSize, mapping = {}, serialNumber, fileName } = options;
+  const importJob = await ImportJob.create({
+    fileName,
+    format,
+    source,
+    mapping,
+    defaultSerialNumber: serialNumber,
+  });
+
+  const counts = { totalRows: 0, accepted: 0, duplicates: 0, rejected: 0 };
+  let batch: { line: number; reading: Reading }[] = [];
+  let batchKeys = new Set<string>();
+  let rowErrors: { importId: unknown; line: number; reason: string; raw: string }[] = [];
+
+  const reject = (line: number, reason: string, raw: string) => {
+    counts.rejected++;
+    rowErrors.push({ importId: importJob._id, line, reason, raw: raw.slice(0, MAX_RAW_LENGTH) });
+  };
+
+  const flush = async () => {
+    if (batch.length > 0) {
+      const upsertedIds = await insertNewReadings(batch.map(({ reading }) => reading), "import");
+      const insertedIds = Object.values(upsertedIds);
+      counts.accepted += insertedIds.length;
+      counts.duplicates += batch.length - insertedIds.length;
+
+      if (insertedIds.length > 0) {
+        const inserted = await EnergyGenerationRecord.find({ _id: { $in: insertedIds } }).sort({ timestamp: 1 }).lean();
+        const serialNumbers = Array.from(new Set(inserted.map((record) => record.serialNumber)));
+        for (const unitSerialNumber of serialNumbers) {
+          await publishEvent("records.created", {
+            source: "import",
+            importId: importJob._id,
+            serialNumber: unitSerialNumber,
+            records: inserted.filter((record) => record.serialNumber === unitSerialNumber),
+          });
+        }
+      }
+    }
+    if (rowErrors.length > 0) {
+      await ImportRowError.insertMany(rowErrors);
+    }
+    batch = [];
+    batchKeys = new Set<string>();
+    rowErrors = [];
+    await ImportJob.updateOne({ _id: importJob._id }, { $set: counts });
+  };
+
+  try {
+    let header: string[] | null = null;
+    let lineNumber = 0;
+
+    for await (const rawLine of lines) {
+      lineNumber++;
+      const line = lineNumber === 1 ? rawLine.replace(/^\uFEFF/, "") : rawLine;
+      if (line.trim().length === 0) {
+        continue;
+      }
+
+      if (format === "csv" && !header) {
+        header = parseCsvLine(line).map((column) => column.trim());
+        checkHeader(header, mapping, serialNumber);
+        continue;
+      }
+
+      counts.totalRows++;
+      let values: Record<string, unknown>;
+      if (header) {
+        const cells = parseCsvLine(line);
+        if (cells.length !== header.length) {
+          reject(lineNumber, `Expected ${header.length} columns but found ${cells.length}`, line);
+          continue;
+        }
+        const columns = header;
+        values = Object.fromEntries(cells.map((cell, index) => [columns[index], cell.trim()]));
+      } else {
+        try {
+          values = JSON.parse(line);
+        } catch {
+          reject(lineNumber, "Line is not valid JSON", line);
+          continue;
+        }
+        if (!values || typeof values !== "object" || Array.isArray(values)) {
+          reject(lineNumber, "Line is not a JSON object", line);
+          continue;
+        }
+      }
+
+      const parsed = CreateEnergyGenerationRecordDto.safeParse(toCandidate(values, mapping, serialNumber));
+      if (!parsed.success) {
+        reject(lineNumber, formatIssues(parsed.error), line);
+        continue;
+      }
+
+      // Repeats across batches are caught by the database; within a batch they are caught here
+      const key = `${parsed.data.serialNumber}|${parsed.data.timestamp.toISOString()}`;
+      if (batchKeys.has(key)) {
+        counts.duplicates++;
+        continue;
+      }
+      batchKeys.add(key);
+      batch.push({ line: lineNumber, reading: parsed.data });
+
+      if (batch.length >= batchSize) {
+        await flush();
+      }
+    }
+
+    if (format === "csv" && !header) {
+      throw new ValidationError("The file is empty; a CSV import needs a header row");
+    }
+
+    await flush();
+    await ImportJob.updateOne(
+      { _id: importJob._id },
+      { $set: { ...counts, status: "completed", finishedAt: new Date() } }
+    );
+  } catch (error: any) {
+    // Batches written before the failure stay in place; the import can simply be run again
+    await ImportJob.updateOne(
+      { _id: importJob._id },
+      { $set: { ...counts, status: "failed", finishedAt: new Date(), errorMessage: error?.message || String(error) } }
+    );
+    throw error;
+  }
+
+  return ImportJob.findById(importJob._id);
+};
+
+export const getImportFormat = (contentType?: string): ImportFormat | undefined =>
+  contentType ? CONTENT_TYPE_FORMATS[contentType.split(";")[0].trim().toLowerCase()] : undefined;
+
+/**
+ * Import historical readings from the raw request body
+ * Send the file as text/csv or application/x-ndjson; the body is streamed, not buffered.
+ *
+ * POST /api/admin/imports?format=&mapping=&serialNumber=&fileName=&batchSize=
+ */
+export const createImport = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = CreateImportQueryDto.safeParse(req.query);
+    if (!result.success) {
+      throw new ValidationError(formatIssues(result.error));
+    }
+
+    const format = result.data.format ?? getImportFormat(req.headers["content-type"]);
+    if (!format) {
+      throw new ValidationError("Send the file as text/csv or application/x-ndjson, or pass format");
+    }
+    // The JSON body parser has already consumed the stream
+    if (req.readableEnded) {
+      throw new ValidationError("Send the file as the raw request body, not as JSON");
+    }
+
+    const importJob = await importRecords(createInterface({ input: req, crlfDelay: Infinity }), {
+      ...result.data,
+      format,
+      source: "api",
+    });
+    res.status(201).json(importJob);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getImports = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = GetImportsQueryDto.safeParse(req.query);
+    if (!result.success) {
+      throw new ValidationError(formatIssues(result.error));
+    }
+
+    const { status, limit } = result.data;
+    const importJobs = await ImportJob.find(status ? { status } : {})
+      .sort({ startedAt: -1 })
+      .limit(limit);
+    res.status(200).json(importJobs);
+  } catch (error) {
+    next(error);
+  }
+};
+
+const findImportJob = async (id: string) => {
+  if (!mongoose.isValidObjectId(id)) {
+    throw new ValidationError("Invalid import id");
+  }
+  const importJob = await ImportJob.findById(id);
+  if (!importJob) {
+    throw new NotFoundError("Import not found");
+  }
+  return importJob;
+};
+
+export const getImportById = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const importJob = await findImportJob(req.params.id);
+    res.status(200).json(importJob);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Download the rejected rows of an import as CSV (line, reason, raw)
+ *
+ * GET /api/admin/imports/:id/errors
+ */
+export const getImportErrorReport = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const importJob = await findImportJob(req.params.id);
+
+    res.status(200);
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename="import-${importJob._id}-errors.csv"`);
+    await writeChunk(res, `${IMPORT_ERROR_REPORT_COLUMNS.join(",")}\n`);
+
+    const cursor = ImportRowError.find({ importId: importJob._id }).sort({ line: 1 }).lean().cursor();
+    for (let rowError = await cursor.next(); rowError && !res.destroyed; rowError = await cursor.next()) {
+      await writeChunk(res, toErrorReportLine(rowError));
+    }
+    await cursor.close();
+    res.end();
+  } catch (error) {
+    if (res.headersSent) {
+      logger.error("Import error report failed after streaming began", { error });
+      res.destroy(error as Error);
+      return;
+    }
+    next(error);
+  }
+};
@@ -0,0 +1,289 @@
+import { NextFunction, Request, Response } from "express";
+import {
+  ChangeSolarUnitStatusDto,
+  CreateSolarUnitDto,
+  GetSolarUnitsQueryDto,
+  UpdateSolarUnitDto,
+} from "../domain/dtos/solar-unit";
+import { ConflictError, NotFoundError, ValidationError } from "../domain/errors/errors";
+import { SolarUnitStatus } from "../domain/types";
+import { Alert } from "../infrastructure/entities/Alert";
+import { EnergyGenerationRecord } from "../infrastructure/entities/EnergyGenerationRecord";
+import { SolarUnit } from "../infrastructure/entities/SolarUnit";
+import { logger } from "../infrastructure/logging/logger";
+import { clearSolarUnitCache, findActiveSolarUnit } from "../infrastructure/solar-units/solar-unit-provider";
+import { describePrincipal } from "./alert";
+import { formatIssues } from "./energy-generation-record";
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+const DETAIL_FIELDS = ["name", "latitude", "longitude", "tilt", "azimuth", "timezone"] as const;
+
+type SolarUnitDocument = InstanceType<typeof SolarUnit>;
+
+/**
+ * Registered units that are not ACTIVE, by serial number, among the given ones
+ * Units the registry does not hold are not listed.
+ */
+export const findHeldBackSolarUnits = async (serialNumbers: string[]) => {
+  const units = await SolarUnit.find({ serialNumber: { $in: serialNumbers }, status: { $ne: "ACTIVE" } })
+    .select("serialNumber status")
+    .lean();
+  return new Map(units.map((unit) => [unit.serialNumber, unit.status as SolarUnitStatus]));
+};
+
+// How long a read waits on the unit provider before treating the unit as unknown (SOLAR_UNIT_LOOKUP_TIMEOUT_MS)
+const getLookupTimeoutMs = () => Number(process.env.SOLAR_UNIT_LOOKUP_TIMEOUT_MS) || 2000;
+
+/**
+ * Active unit from the unit provider, or undefined when the provider fails or does not answer in time
+ * Keeps reads of unknown units from waiting out the provider's retries; they answer 404 instead.
+ */
+export const lookUpActiveSolarUnit = async (serialNumber: string) => {
+  const timeoutMs = getLookupTimeoutMs();
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    return await Promise.race([
+      findActiveSolarUnit(serialNumber),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+      }),
+    ]);
+  } catch (error: any) {
+    logger.warn("Solar unit provider lookup failed, treating the unit as unknown", {
+      serialNumber,
+      reason: error?.message ?? String(error),
+    });
+    return undefined;
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * Fail with 404 for a serial number nothing knows: not the registry, the stored records or the unit provider
+ */
+export const assertKnownSolarUnit = async (serialNumber: string) => {
+  if (await SolarUnit.exists({ serialNumber })) {
+    return;
+  }
+  if (await EnergyGenerationRecord.exists({ serialNumber })) {
+    return;
+  }
+  if (await lookUpActiveSolarUnit(serialNumber)) {
+    return;
+  }
+  throw new NotFoundError("Solar unit not found");
+};
+
+const findSolarUnit = async (serialNumber: string) => {
+  const unit = await SolarUnit.findOne({ serialNumber });
+  if (!unit) {
+    throw new NotFoundError("Solar unit not found");
+  }
+  return unit;
+};
+
+/**
+ * Move a unit to a new status and record the change in its history
+ * Moving an ACTIVE or MAINTENANCE unit to INACTIVE decommissions it: its status is final from then on
+ * and its active alerts are resolved. A unit registered as INACTIVE was never commissioned and may still start.
+ * Returns false when the unit already has the status.
+ */
+const changeStatus = async (
+  unit: SolarUnitDocument,
+  status: SolarUnitStatus,
+  changedBy: string,
+  reason?: string,
+  now = new Date()
+) => {
+  if (unit.status === status) {
+    return false;
+  }
+  if (unit.decommissionedAt) {
+    throw new ConflictError(
+      `Solar unit ${unit.serialNumber} was decommissioned on ${unit.decommissionedAt.toISOString()}; its status cannot change`
+    );
+  }
+
+  unit.statusHistory.push({ status, previousStatus: unit.status, changedAt: now, changedBy, reason });
+  unit.status = status;
+  if (status === "INACTIVE") {
+    unit.decommissionedAt = now;
+    await Alert.updateMany(
+      { serialNumber: unit.serialNumber, status: { $ne: "resolved" } },
+      { $set: { status: "resolved", resolvedAt: now, resolvedBy: changedBy }, $unset: { dedupKey: 1 } }
+    );
+  }
+  return true;
+};
+
+/**
+ * GET /api/solar-units?status=
+ */
+export const getSolarUnits = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = GetSolarUnitsQueryDto.safeParse(req.query);
+    if (!result.success) {
+      throw new ValidationError(formatIssues(result.error));
+    }
+
+    const { status } = result.data;
+    const units = await SolarUnit.find({ ...(status && { status }) }).sort({ serialNumber: 1 });
+    res.status(200).json(units);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Register a unit; its initial status opens the status history
+ *
+ * POST /api/solar-units
+ */
+export const createSolarUnit = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = CreateSolarUnitDto.safeParse(req.body ?? {});
+    if (!result.success) {
+      throw new ValidationError(formatIssues(result.error));
+    }
+
+    const now = new Date();
+    let unit;
+    try {
+      unit = await SolarUnit.create({
+        ...result.data,
+        installationDate: new Date(result.data.installationDate),
+        statusHistory: [{ status: result.data.status, changedAt: now, changedBy: describePrincipal(req.principal) }],
+        createdAt: now,
+        updatedAt: now,
+      });
+    } catch (error: any) {
+      if (error?.code === DUPLICATE_KEY_ERROR) {
+        throw new ConflictError(`Solar unit ${result.data.serialNumber} is already registered`);
+      }
+      throw error;
+    }
+    clearSolarUnitCache();
+    res.status(201).json(unit);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getSolarUnitBySerialNumber = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    res.status(200).json(await findSolarUnit(req.params.serialNumber));
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Replace a unit's details; optional details left out are cleared
+ * A status change is recorded as if made through the status endpoint, without a reason.
+ *
+ * PUT /api/solar-units/:serialNumber
+ */
+export const updateSolarUnit = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = UpdateSolarUnitDto.safeParse(req.body ?? {});
+    if (!result.success) {
+      throw new ValidationError(formatIssues(result.error));
+    }
+    if (result.data.serialNumber !== req.params.serialNumber) {
+      throw new ValidationError("serialNumber cannot be changed");
+    }
+
+    const unit = await findSolarUnit(req.params.serialNumber);
+    const now = new Date();
+    await changeStatus(unit, result.data.status, describePrincipal(req.principal), undefined, now);
+    unit.installationDate = new Date(result.data.installationDate);
+    unit.capacity = result.data.capacity;
+    unit.userId = result.data.userId;
+    for (const field of DETAIL_FIELDS) {
+      unit.set(field, result.data[field]);
+    }
+    unit.updatedAt = now;
+    await unit.save();
+
+    clearSolarUnitCache();
+    res.status(200).json(unit);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Change a unit's status, e.g. into MAINTENANCE and back to ACTIVE
+ * Units not ACTIVE get no generated records and their devices' readings are refused.
+ * INACTIVE decommissions the unit for good.
+ *
+ * POST /api/solar-units/:serialNumber/status
+ * Body: { status, reason? }
+ */
+export const changeSolarUnitStatus = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = ChangeSolarUnitStatusDto.safeParse(req.body ?? {});
+    if (!result.success) {
+      throw new ValidationError(formatIssues(result.error));
+    }
+
+    const unit = await findSolarUnit(req.params.serialNumber);
+    const { status, reason } = result.data;
+    if (await changeStatus(unit, status, describePrincipal(req.principal), reason)) {
+      unit.updatedAt = new Date();
+      await unit.save();
+      clearSolarUnitCache();
+    }
+    res.status(200).json(unit);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Remove a unit registered by mistake
+ * A unit with records keeps its registry entry; decommission it (status INACTIVE) instead.
+ *
+ * DELETE /api/solar-units/:serialNumber
+ */
+export const deleteSolarUnit = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { serialNumber } = req.params;
+    await findSolarUnit(serialNumber);
+    if (await EnergyGenerationRecord.exists({ serialNumber })) {
+      throw new ConflictError(`Solar unit ${serialNumber} has records; decommission it (status INACTIVE) instead`);
+    }
+
+    await SolarUnit.deleteOne({ serialNumber });
+    clearSolarUnitCache();
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,120 @@
+import { NextFunction, Request, Response } from "express";
+import { UnauthorizedError } from "../domain/errors/errors";
+import { signStreamToken } from "../infrastructure/auth/stream-tokens";
+import { getLiveEventSource } from "../infrastructure/live-events/live-events";
+import { LiveEvent, LiveEventFilter } from "../infrastructure/live-events/live-event-source";
+import { logger } from "../infrastructure/logging/logger";
+
+// Comment lines keep proxies from closing an idle stream
+const HEARTBEAT_MS = 25 * 1000;
+// How long browsers wait before reconnecting
+const RETRY_MS = 5 * 1000;
+// Long enough to open the stream; a reconnect after that fetches a new token
+const STREAM_TOKEN_TTL_SECONDS = 60;
+
+const formatEvent = (event: LiveEvent) => `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`;
+
+// EventSource sends the header; the query parameter is for clients that cannot set headers
+const getLastEventId = (req: Request) => {
+  const lastEventId = req.header("last-event-id") ?? req.query.lastEventId;
+  return typeof lastEventId === "string" && lastEventId.length > 0 ? lastEventId : undefined;
+};
+
+/**
+ * Hold the response open as an event stream until the client disconnects
+ */
+const openStream = async (req: Request, res: Response, filter: LiveEventFilter) => {
+  const source = await getLiveEventSource();
+
+  res.status(200).set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.flushHeaders();
+  res.write(`retry: ${RETRY_MS}\n\n`);
+
+  let closed = false;
+  const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), HEARTBEAT_MS);
+  const unsubscribe = await source.subscribe(filter, getLastEventId(req), {
+    onEvent: (event) => res.write(formatEvent(event)),
+    onResync: (reason) => res.write(`event: resync\ndata: ${JSON.stringify({ reason })}\n\n`),
+    onError: (error) => {
+      logger.error("Live stream failed", { error });
+      // The client reconnects with its Last-Event-ID
+      res.end();
+    },
+  });
+
+  const close = () => {
+    if (!closed) {
+      closed = true;
+      clearInterval(heartbeat);
+      unsubscribe();
+    }
+  };
+  res.on("close", close);
+  // The client may already be gone while subscribing
+  if (res.destroyed) {
+    close();
+  }
+};
+
+/**
+ * New records and anomalies of one unit, and generation run completions, as Server-Sent Events
+ * Events: records.created, anomaly.detected, generation.completed, and resync when a reconnect
+ * cannot resume from its Last-Event-ID (reload the data, then keep listening).
+ *
+ * GET /api/stream/solar-unit/:serialNumber
+ */
+export const streamSolarUnitEvents = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    await openStream(req, res, { serialNumber: req.params.serialNumber });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * The same events for every unit
+ *
+ * GET /api/stream/fleet
+ */
+export const streamFleetEvents = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    await openStream(req, res, {});
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Short-lived token for opening a stream with ?access_token=, for clients such as a browser EventSource
+ * that cannot send the Authorization or x-api-key header
+ * Once it has expired the client fetches a new one and reopens the stream with ?lastEventId= to resume.
+ *
+ * POST /api/stream/token
+ */
+export const createStreamToken = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.principal) {
+      throw new UnauthorizedError("Unauthorized");
+    }
+    res.status(201).json(signStreamToken(req.principal, STREAM_TOKEN_TTL_SECONDS));
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,209 @@
+import { NextFunction, Request, Response } from "express";
+import { z } from "zod";
+import {
+  AnomalyPageDto,
+  AnomalyV1Dto,
+  EnergyGenerationRecordPageDto,
+  EnergyGenerationRecordV1Dto,
+  GetAnomaliesV1QueryDto,
+  GetRecordsV1QueryDto,
+  GetSolarUnitsV1QueryDto,
+  SolarUnitListResponseDto,
+  SolarUnitResponseDto,
+  SolarUnitV1Dto,
+} from "../domain/dtos/v1";
+import { NotFoundError, ValidationError } from "../domain/errors/errors";
+import { AnomalySeverity, AnomalyType, SolarUnitStatus } from "../domain/types";
+import { Anomaly } from "../infrastructure/entities/Anomaly";
+import { EnergyGenerationRecord } from "../infrastructure/entities/EnergyGenerationRecord";
+import { SolarUnit } from "../infrastructure/entities/SolarUnit";
+import { formatIssues } from "./energy-generation-record";
+import { getOpenApiDocument } from "./openapi";
+import { findPage } from "./pagination";
+import { assertKnownSolarUnit, lookUpActiveSolarUnit } from "./solar-unit";
+
+type UnitSource = {
+  serialNumber: string;
+  name?: string | null;
+  installationDate: Date | string;
+  capacity: number;
+  status?: SolarUnitStatus | null;
+  timezone?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  decommissionedAt?: Date | null;
+};
+
+const toSolarUnitV1 = (unit: UnitSource): z.infer<typeof SolarUnitV1Dto> => ({
+  serialNumber: unit.serialNumber,
+  name: unit.name ?? null,
+  installationDate: new Date(unit.installationDate).toISOString(),
+  capacity: unit.capacity,
+  status: unit.status ?? "ACTIVE",
+  timezone: unit.timezone ?? null,
+  latitude: unit.latitude ?? null,
+  longitude: unit.longitude ?? null,
+  decommissionedAt: unit.decommissionedAt?.toISOString() ?? null,
+});
+
+type RecordSource = {
+  _id: unknown;
+  serialNumber: string;
+  timestamp: Date;
+  intervalHours?: number | null;
+  energyGenerated: number;
+  expectedEnergy?: number | null;
+  peakPower?: number | null;
+  efficiency?: number | null;
+  temperature?: number | null;
+  inMaintenance?: boolean | null;
+};
+
+type AnomalySource = {
+  _id: unknown;
+  serialNumber: string;
+  type: AnomalyType;
+  severity: AnomalySeverity;
+  windowStart: Date;
+  windowEnd: Date;
+  description?: string | null;
+  evidence?: Record<string, unknown> | null;
+  detectedAt: Date;
+};
+
+const toRecordV1 = (record: RecordSource): z.infer<typeof EnergyGenerationRecordV1Dto> => ({
+  id: String(record._id),
+  serialNumber: record.serialNumber,
+  timestamp: record.timestamp.toISOString(),
+  intervalHours: record.intervalHours ?? 2,
+  energyGenerated: record.energyGenerated,
+  expectedEnergy: record.expectedEnergy ?? null,
+  peakPower: record.peakPower ?? null,
+  efficiency: record.efficiency ?? null,
+  temperature: record.temperature ?? null,
+  inMaintenance: !!record.inMaintenance,
+});
+
+const toAnomalyV1 = (anomaly: AnomalySource): z.infer<typeof AnomalyV1Dto> => ({
+  id: String(anomaly._id),
+  serialNumber: anomaly.serialNumber,
+  type: anomaly.type,
+  severity: anomaly.severity,
+  windowStart: anomaly.windowStart.toISOString(),
+  windowEnd: anomaly.windowEnd.toISOString(),
+  description: anomaly.description ?? null,
+  evidence: anomaly.evidence ?? {},
+  detectedAt: anomaly.detectedAt.toISOString(),
+});
+
+const parse = <T extends z.ZodType>(schema: T, value: unknown): z.infer<T> => {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    throw new ValidationError(formatIssues(result.error));
+  }
+  return result.data;
+};
+
+const toTimeRange = (from?: Date, to?: Date) =>
+  from || to ? { ...(from && { $gte: from }), ...(to && { $lte: to }) } : undefined;
+
+/**
+ * GET /api/v1/openapi.json
+ */
+export const getOpenApi = (req: Request, res: Response) => {
+  res.status(200).json(getOpenApiDocument());
+};
+
+/**
+ * GET /api/v1/solar-units?status=
+ */
+export const listSolarUnitsV1 = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { status } = parse(GetSolarUnitsV1QueryDto, req.query);
+    const units = await SolarUnit.find({ ...(status && { status }) }).sort({ serialNumber: 1 }).lean();
+    const body: z.infer<typeof SolarUnitListResponseDto> = { data: units.map(toSolarUnitV1) };
+    res.status(200).json(body);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /api/v1/solar-units/:serialNumber
+ */
+export const getSolarUnitV1 = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { serialNumber } = req.params;
+    const unit = (await SolarUnit.findOne({ serialNumber }).lean()) ?? (await lookUpActiveSolarUnit(serialNumber));
+    if (!unit) {
+      throw new NotFoundError("Solar unit not found");
+    }
+    const body: z.infer<typeof SolarUnitResponseDto> = { data: toSolarUnitV1(unit) };
+    res.status(200).json(body);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /api/v1/solar-units/:serialNumber/records?limit=&cursor=&order=&from=&to=
+ */
+export const listEnergyGenerationRecordsV1 = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { serialNumber } = req.params;
+    const { from, to, ...options } = parse(GetRecordsV1QueryDto, req.query);
+    await assertKnownSolarUnit(serialNumber);
+
+    const timestamp = toTimeRange(from, to);
+    const { items, page } = await findPage(
+      EnergyGenerationRecord,
+      { serialNumber, ...(timestamp && { timestamp }) },
+      "timestamp",
+      options,
+      true
+    );
+    const body: z.infer<typeof EnergyGenerationRecordPageDto> = { data: items.map(toRecordV1), page };
+    res.status(200).json(body);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /api/v1/solar-units/:serialNumber/anomalies?limit=&cursor=&order=&from=&to=&type=&severity=
+ */
+export const listAnomaliesV1 = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { serialNumber } = req.params;
+    const { from, to, type, severity, ...options } = parse(GetAnomaliesV1QueryDto, req.query);
+    await assertKnownSolarUnit(serialNumber);
+
+    const windowStart = toTimeRange(from, to);
+    const { items, page } = await findPage(
+      Anomaly,
+      { serialNumber, ...(type && { type }), ...(severity && { severity }), ...(windowStart && { windowStart }) },
+      "windowStart",
+      options
+    );
+    const body: z.infer<typeof AnomalyPageDto> = { data: items.map(toAnomalyV1), page };
+    res.status(200).json(body);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,149 @@
+import { randomBytes } from "crypto";
+import { NextFunction, Request, Response } from "express";
+import mongoose from "mongoose";
+import {
+  CreateWebhookSubscriptionDto,
+  GetWebhookDeliveriesQueryDto,
+  UpdateWebhookSubscriptionDto,
+} from "../domain/dtos/webhook";
+import { NotFoundError, ValidationError } from "../domain/errors/errors";
+import { WebhookDelivery } from "../infrastructure/entities/WebhookDelivery";
+import { WebhookSubscription } from "../infrastructure/entities/WebhookSubscription";
+import { formatIssues } from "./energy-generation-record";
+
+const assertObjectId = (id: string, label: string) => {
+  if (!mongoose.isValidObjectId(id)) {
+    throw new ValidationError(`Invalid ${label} id`);
+  }
+};
+
+/**
+ * Register a subscriber. The signing secret is generated unless provided,
+ * and is only returned in this response.
+ */
+export const createWebhookSubscription = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = CreateWebhookSubscriptionDto.safeParse(req.body);
+    if (!result.success) {
+      throw new ValidationError(formatIssues(result.error));
+    }
+
+    const secret = result.data.secret ?? `whsec_${randomBytes(24).toString("hex")}`;
+    const subscription = await WebhookSubscription.create({ ...result.data, secret });
+    res.status(201).json({ ...subscription.toObject(), secret });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getWebhookSubscriptions = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const subscriptions = await WebhookSubscription.find().select("-secret").sort({ createdAt: -1 });
+    res.status(200).json(subscriptions);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateWebhookSubscription = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    assertObjectId(req.params.id, "subscription");
+    const result = UpdateWebhookSubscriptionDto.safeParse(req.body);
+    if (!result.success) {
+      throw new ValidationError(formatIssues(result.error));
+    }
+
+    const subscription = await WebhookSubscription.findByIdAndUpdate(req.params.id, result.data, { new: true })
+      .select("-secret");
+    if (!subscription) {
+      throw new NotFoundError("Webhook subscription not found");
+    }
+    res.status(200).json(subscription);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const deleteWebhookSubscription = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    assertObjectId(req.params.id, "subscription");
+    const subscription = await WebhookSubscription.findByIdAndDelete(req.params.id);
+    if (!subscription) {
+      throw new NotFoundError("Webhook subscription not found");
+    }
+    // Queued deliveries for the subscription are moved to the dead-letter view by the dispatcher
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Delivery log; ?status=dead is the dead-letter view
+ */
+export const getWebhookDeliveries = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = GetWebhookDeliveriesQueryDto.safeParse(req.query);
+    if (!result.success) {
+      throw new ValidationError(formatIssues(result.error));
+    }
+
+    const { status, subscriptionId, limit } = result.data;
+    if (subscriptionId) {
+      assertObjectId(subscriptionId, "subscription");
+    }
+    const deliveries = await WebhookDelivery.find({
+      ...(status && { status }),
+      ...(subscriptionId && { subscriptionId }),
+    })
+      .sort({ createdAt: -1 })
+      .limit(limit);
+    res.status(200).json(deliveries);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Requeue a dead delivery for another round of attempts
+ */
+export const retryWebhookDelivery = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    assertObjectId(req.params.id, "delivery");
+    const delivery = await WebhookDelivery.findOneAndUpdate(
+      { _id: req.params.id, status: "dead" },
+      { $set: { status: "pending", attempts: 0, nextAttemptAt: new Date() }, $unset: { lastError: 1 } },
+      { new: true }
+    );
+    if (!delivery) {
+      throw new NotFoundError("Dead webhook delivery not found");
+    }
+    res.status(200).json(delivery);
+  } catch (error) {
+    next(error);
+  }
+};
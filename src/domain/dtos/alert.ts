@@ -0,0 +1,63 @@
+import { z } from "zod";
+import { ALERT_SEVERITIES, ALERT_STATUSES } from "../types";
+
+export const AlertConditionDto = z.discriminatedUnion("type", [
+  // Output of zero for longer than `hours` of daylight, up to now
+  z.object({
+    type: z.literal("zero-generation"),
+    hours: z.number().positive().max(72).default(4),
+  }),
+  // Yesterday's yield below `ratio` times the median of the `baselineDays` days before it
+  z.object({
+    type: z.literal("low-daily-yield"),
+    ratio: z.number().gt(0).lt(1).default(0.5),
+    baselineDays: z.number().int().min(3).max(60).default(14),
+  }),
+  // No record received in the last `hours`
+  z.object({
+    type: z.literal("no-data"),
+    hours: z.number().positive().max(24 * 30).default(24),
+  }),
+]);
+
+export const NotificationChannelDto = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("console") }),
+  z.object({
+    type: z.literal("webhook"),
+    url: z.url({ protocol: /^https?$/ }),
+    secret: z.string().min(16).optional(),
+  }),
+  z.object({
+    type: z.literal("email"),
+    to: z.array(z.email()).min(1),
+  }),
+]);
+
+export const CreateAlertRuleDto = z.object({
+  name: z.string().trim().min(1),
+  description: z.string().optional(),
+  serialNumber: z.string().trim().min(1).optional(),
+  condition: AlertConditionDto,
+  severity: z.enum(ALERT_SEVERITIES).default("warning"),
+  channels: z.array(NotificationChannelDto).min(1).default([{ type: "console" }]),
+  cooldownMinutes: z.number().int().min(0).max(7 * 24 * 60).default(60),
+  enabled: z.boolean().default(true),
+});
+
+export const UpdateAlertRuleDto = z.object({
+  name: z.string().trim().min(1).optional(),
+  description: z.string().optional(),
+  serialNumber: z.string().trim().min(1).nullable().optional(),
+  condition: AlertConditionDto.optional(),
+  severity: z.enum(ALERT_SEVERITIES).optional(),
+  channels: z.array(NotificationChannelDto).min(1).optional(),
+  cooldownMinutes: z.number().int().min(0).max(7 * 24 * 60).optional(),
+  enabled: z.boolean().optional(),
+});
+
+export const GetAlertsQueryDto = z.object({
+  status: z.enum(ALERT_STATUSES).optional(),
+  serialNumber: z.string().min(1).optional(),
+  ruleId: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
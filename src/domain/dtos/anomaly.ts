@@ -0,0 +1,26 @@
+import { z } from "zod";
+import { ANOMALY_SEVERITIES, ANOMALY_TYPES } from "../types";
+
+export const GetAnomaliesQueryDto = z
+  .object({
+    serialNumber: z.string().min(1).optional(),
+    type: z.enum(ANOMALY_TYPES).optional(),
+    severity: z.enum(ANOMALY_SEVERITIES).optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: "from must be before to",
+    path: ["from"],
+  });
+
+export const DetectAnomaliesDto = z
+  .object({
+    serialNumber: z.string().min(1).optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+  })
+  .refine((body) => !body.from || !body.to || body.from <= body.to, {
+    message: "from must be before to",
+    path: ["from"],
+  });
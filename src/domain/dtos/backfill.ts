@@ -0,0 +1,19 @@
+import { z } from "zod";
+import { BACKFILL_MODES } from "../types";
+
+export const CreateBackfillDto = z
+  .object({
+    from: z.coerce.date(),
+    to: z.coerce.date(),
+    serialNumbers: z.array(z.string().trim().min(1)).min(1).optional(),
+    mode: z.enum(BACKFILL_MODES).default("fill-gaps"),
+    dryRun: z.boolean().default(false),
+  })
+  .refine((body) => body.from <= body.to, {
+    message: "from must be before to",
+    path: ["from"],
+  });
+
+export const GenerateHistoricalDataDto = z.object({
+  days: z.coerce.number().int().min(1).max(366).default(7),
+});
@@ -0,0 +1,11 @@
+import { z } from "zod";
+
+export const GetDataQualityQueryDto = z
+  .object({
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: "from must be before to",
+    path: ["from"],
+  });
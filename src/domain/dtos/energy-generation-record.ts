@@ -0,0 +1,45 @@
+import { z } from "zod";
+import { isValidTimeZone } from "../time-zone";
+
+// Readings may not be timestamped more than this far ahead of the server clock
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+export const CreateEnergyGenerationRecordDto = z.object({
+  serialNumber: z.string().trim().min(1),
+  timestamp: z.coerce
+    .date()
+    .refine((timestamp) => timestamp.getTime() <= Date.now() + MAX_CLOCK_SKEW_MS, {
+      message: "timestamp is in the future",
+    }),
+  energyGenerated: z.number().min(0, "energyGenerated must not be negative"),
+  intervalHours: z
+    .number()
+    .min(0.1, "intervalHours must be at least 0.1")
+    .max(24, "intervalHours must be at most 24")
+    .default(2),
+  peakPower: z.number().min(0, "peakPower must not be negative").optional(),
+  efficiency: z.number().min(0).max(100, "efficiency is a percentage (0-100)").optional(),
+  temperature: z.number().min(-50).max(100, "temperature must be between -50 and 100 °C").optional(),
+});
+
+export const BulkCreateEnergyGenerationRecordsDto = z.object({
+  records: z.array(z.unknown()).min(1).max(1000),
+});
+
+export const CreateDeviceKeyDto = z.object({
+  serialNumber: z.string().trim().min(1),
+  name: z.string().trim().min(1).optional(),
+});
+
+export const ExportEnergyGenerationRecordsQueryDto = z
+  .object({
+    format: z.enum(["csv", "ndjson", "json"]).default("csv"),
+    groupBy: z.enum(["hour", "date", "week", "month"]).optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    tz: z.string().refine(isValidTimeZone, { message: "tz must be an IANA time zone" }).optional(),
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: "from must be before to",
+    path: ["from"],
+  });
@@ -0,0 +1,17 @@
+import { z } from "zod";
+
+// Longest forecast horizon, in hours
+const MAX_HORIZON_HOURS = 14 * 24;
+
+export const GetForecastQueryDto = z.object({
+  horizon: z
+    .string()
+    .regex(/^\d+[hd]$/, "horizon must look like 24h or 7d")
+    .default("7d")
+    .transform((horizon) => Number(horizon.slice(0, -1)) * (horizon.endsWith("d") ? 24 : 1))
+    .pipe(z.number().int().min(1, "horizon must be at least 1h").max(MAX_HORIZON_HOURS, "horizon may be at most 14d")),
+  history: z.coerce.number().int().min(3).max(365).default(28),
+  confidence: z.enum(["0.8", "0.9", "0.95"]).default("0.8").transform(Number),
+  backtest: z.stringbool().default(false),
+  holdout: z.coerce.number().int().min(1).max(30).default(7),
+});
@@ -0,0 +1,54 @@
+import { z } from "zod";
+import { IMPORT_FORMATS, IMPORT_STATUSES } from "../types";
+
+export const RECORD_FIELDS = [
+  "serialNumber",
+  "timestamp",
+  "energyGenerated",
+  "intervalHours",
+  "peakPower",
+  "efficiency",
+  "temperature",
+] as const;
+
+/**
+ * Which source column feeds each record field, written as "field=column" pairs
+ * (e.g. "timestamp=Time,energyGenerated=Yield (Wh)") or as a JSON object.
+ * Fields that are not mapped are read from a column with the field's own name.
+ */
+export const ColumnMappingDto = z
+  .string()
+  .transform((text, ctx) => {
+    if (text.trim().startsWith("{")) {
+      try {
+        return JSON.parse(text) as unknown;
+      } catch {
+        ctx.addIssue({ code: "custom", message: "mapping is not valid JSON" });
+        return z.NEVER;
+      }
+    }
+    const pairs = text
+      .split(",")
+      .filter((pair) => pair.trim().length > 0)
+      .map((pair) => {
+        const separator = pair.indexOf("=");
+        return separator === -1
+          ? [pair.trim(), ""]
+          : [pair.slice(0, separator).trim(), pair.slice(separator + 1).trim()];
+      });
+    return Object.fromEntries(pairs) as unknown;
+  })
+  .pipe(z.partialRecord(z.enum(RECORD_FIELDS), z.string().min(1, "mapping needs a column for every field")));
+
+export const CreateImportQueryDto = z.object({
+  format: z.enum(IMPORT_FORMATS).optional(),
+  mapping: ColumnMappingDto.optional(),
+  serialNumber: z.string().trim().min(1).optional(),
+  fileName: z.string().trim().min(1).optional(),
+  batchSize: z.coerce.number().int().min(1).max(5000).default(500),
+});
+
+export const GetImportsQueryDto = z.object({
+  status: z.enum(IMPORT_STATUSES).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
@@ -0,0 +1,8 @@
+import { z } from "zod";
+import { JOB_STATUSES, JOB_TYPES } from "../types";
+
+export const GetJobRunsQueryDto = z.object({
+  type: z.enum(JOB_TYPES).optional(),
+  status: z.enum(JOB_STATUSES).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
@@ -0,0 +1,25 @@
+import { z } from "zod";
+
+export const CreateMaintenanceWindowDto = z
+  .object({
+    serialNumber: z.string().trim().min(1).optional(),
+    reason: z.string().trim().min(1).max(500),
+    startsAt: z.coerce.date(),
+    endsAt: z.coerce.date(),
+  })
+  .refine((window) => window.startsAt < window.endsAt, {
+    message: "startsAt must be before endsAt",
+    path: ["startsAt"],
+  });
+
+export const GetMaintenanceWindowsQueryDto = z
+  .object({
+    serialNumber: z.string().min(1).optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    includeCancelled: z.stringbool().default(false),
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: "from must be before to",
+    path: ["from"],
+  });
@@ -0,0 +1,12 @@
+import { z } from "zod";
+
+export const GetMetricsQueryDto = z
+  .object({
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    top: z.coerce.number().int().min(1).max(50).default(5),
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: "from must be before to",
+    path: ["from"],
+  });
@@ -0,0 +1,13 @@
+import { z } from "zod";
+
+export const GetPerformanceQueryDto = z
+  .object({
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    threshold: z.coerce.number().gt(0).max(1).default(0.8),
+    minDays: z.coerce.number().int().min(1).max(31).default(3),
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: "from must be before to",
+    path: ["from"],
+  });
@@ -0,0 +1,12 @@
+import { z } from "zod";
+
+export const RollupRangeDto = z
+  .object({
+    serialNumber: z.string().trim().min(1).optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+  })
+  .refine((range) => !range.from || !range.to || range.from <= range.to, {
+    message: "from must be before to",
+    path: ["from"],
+  });
@@ -1,21 +1,67 @@
 import { z } from "zod";
+import { isValidTimeZone } from "../time-zone";
+import { SOLAR_UNIT_STATUSES } from "../types";
+
+// Optional identity and siting details the generation models use
+const SolarUnitDetailsDto = z.object({
+  name: z.string().optional(),
+  latitude: z.number().min(-90).max(90).optional(),
+  longitude: z.number().min(-180).max(180).optional(),
+  tilt: z.number().min(0).max(90).optional(),
+  azimuth: z.number().min(0).max(360).optional(),
+  timezone: z.string().refine(isValidTimeZone, { message: "timezone must be an IANA time zone" }).optional(),
+});
+
+const InstallationDateDto = z
+  .string()
+  .min(1)
+  .refine((value) => !Number.isNaN(Date.parse(value)), { message: "installationDate must be a date" });
 
 export const CreateSolarUnitDto = z.object({
   serialNumber: z.string().min(1),
-  installationDate: z.string().min(1),
+  installationDate: InstallationDateDto,
   capacity: z.number(),
-  status: z.enum(["ACTIVE", "INACTIVE", "MAINTENANCE"]),
+  status: z.enum(SOLAR_UNIT_STATUSES),
+  ...SolarUnitDetailsDto.shape,
 });
 
 export const UpdateSolarUnitDto = z.object({
   serialNumber: z.string().min(1),
-  installationDate: z.string().min(1),
+  installationDate: InstallationDateDto,
   capacity: z.number(),
-  status: z.enum(["ACTIVE", "INACTIVE", "MAINTENANCE"]),
+  status: z.enum(SOLAR_UNIT_STATUSES),
   userId: z.string().min(1),
+  ...SolarUnitDetailsDto.shape,
+});
+
+/**
+ * A solar unit as the data API sees it: the CreateSolarUnitDto fields, which include the
+ * optional identity and siting details the generation models use
+ * timezone (IANA, e.g. "Asia/Colombo") sets where the unit's days begin; DEFAULT_TIMEZONE otherwise.
+ */
+export const SolarUnitDto = CreateSolarUnitDto.extend({
+  _id: z.coerce.string().optional(),
+  userId: z.string().optional(),
+});
+
+export const ChangeSolarUnitStatusDto = z.object({
+  status: z.enum(SOLAR_UNIT_STATUSES),
+  reason: z.string().trim().min(1).max(500).optional(),
+});
+
+export const GetSolarUnitsQueryDto = z.object({
+  status: z.enum(SOLAR_UNIT_STATUSES).optional(),
 });
 
-export const GetAllEnergyGenerationRecordsQueryDto = z.object({
-  groupBy: z.enum(["date"]).optional(),
-  limit: z.string().min(1),
-});
\ No newline at end of file
+export const GetAllEnergyGenerationRecordsQueryDto = z
+  .object({
+    groupBy: z.enum(["hour", "date", "week", "month"]).optional(),
+    limit: z.coerce.number().int().min(1).optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    tz: z.string().refine(isValidTimeZone, { message: "tz must be an IANA time zone" }).optional(),
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: "from must be before to",
+    path: ["from"],
+  });
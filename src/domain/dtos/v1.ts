@@ -0,0 +1,129 @@
+import { z } from "zod";
+import { ANOMALY_SEVERITIES, ANOMALY_TYPES, SOLAR_UNIT_STATUSES } from "../types";
+
+/**
+ * Schemas of the versioned API (/api/v1): its query parameters and the exact shape of its responses
+ * The OpenAPI document is generated from them, so a change here is a change of the public contract.
+ * Responses carry dates as ISO 8601 strings.
+ */
+export const apiSchemas = z.registry<{ id: string; description?: string }>();
+
+export const API_ERROR_CODES = [
+  "VALIDATION_ERROR",
+  "UNAUTHORIZED",
+  "FORBIDDEN",
+  "NOT_FOUND",
+  "CONFLICT",
+  "INTERNAL_ERROR",
+] as const;
+
+export const ErrorResponseDto = z
+  .object({
+    error: z.object({
+      code: z.enum(API_ERROR_CODES),
+      message: z.string(),
+      status: z.number().int(),
+    }),
+  })
+  .register(apiSchemas, { id: "ErrorResponse", description: "Every error, whatever the endpoint" });
+
+export const PageInfoDto = z
+  .object({
+    limit: z.number().int(),
+    hasMore: z.boolean(),
+    nextCursor: z.string().nullable().describe("Pass as cursor to get the next page; null on the last page"),
+  })
+  .register(apiSchemas, { id: "PageInfo" });
+
+export const SolarUnitV1Dto = z
+  .object({
+    serialNumber: z.string(),
+    name: z.string().nullable(),
+    installationDate: z.iso.datetime(),
+    capacity: z.number().describe("W"),
+    status: z.enum(SOLAR_UNIT_STATUSES),
+    timezone: z.string().nullable(),
+    latitude: z.number().nullable(),
+    longitude: z.number().nullable(),
+    decommissionedAt: z.iso.datetime().nullable(),
+  })
+  .register(apiSchemas, { id: "SolarUnit" });
+
+export const EnergyGenerationRecordV1Dto = z
+  .object({
+    id: z.string(),
+    serialNumber: z.string(),
+    timestamp: z.iso.datetime().describe("Start of the interval"),
+    intervalHours: z.number(),
+    energyGenerated: z.number().describe("Wh over the interval"),
+    expectedEnergy: z.number().nullable().describe("Wh a healthy unit should have produced"),
+    peakPower: z.number().nullable().describe("W"),
+    efficiency: z.number().nullable().describe("%"),
+    temperature: z.number().nullable().describe("°C"),
+    inMaintenance: z.boolean(),
+  })
+  .register(apiSchemas, { id: "EnergyGenerationRecord" });
+
+export const AnomalyV1Dto = z
+  .object({
+    id: z.string(),
+    serialNumber: z.string(),
+    type: z.enum(ANOMALY_TYPES),
+    severity: z.enum(ANOMALY_SEVERITIES),
+    windowStart: z.iso.datetime(),
+    windowEnd: z.iso.datetime(),
+    description: z.string().nullable(),
+    evidence: z.record(z.string(), z.unknown()),
+    detectedAt: z.iso.datetime(),
+  })
+  .register(apiSchemas, { id: "Anomaly" });
+
+const pageOf = <T extends z.ZodType>(item: T, id: string) =>
+  z.object({ data: z.array(item), page: PageInfoDto }).register(apiSchemas, { id });
+
+const listOf = <T extends z.ZodType>(item: T, id: string) =>
+  z.object({ data: z.array(item) }).register(apiSchemas, { id });
+
+const oneOf = <T extends z.ZodType>(item: T, id: string) => z.object({ data: item }).register(apiSchemas, { id });
+
+export const SolarUnitListResponseDto = listOf(SolarUnitV1Dto, "SolarUnitList");
+export const SolarUnitResponseDto = oneOf(SolarUnitV1Dto, "SolarUnitResponse");
+export const EnergyGenerationRecordPageDto = pageOf(EnergyGenerationRecordV1Dto, "EnergyGenerationRecordPage");
+export const AnomalyPageDto = pageOf(AnomalyV1Dto, "AnomalyPage");
+
+export const GetSolarUnitsV1QueryDto = z.object({
+  status: z.enum(SOLAR_UNIT_STATUSES).optional(),
+});
+
+/**
+ * Time-ordered pages: cursor continues after the last item of the previous page in the same order
+ * from and to bound the timestamp (records) or window start (anomalies), both inclusive.
+ */
+const CursorPageQueryDto = z.object({
+  limit: z.coerce.number().int().min(1).max(1000).default(100),
+  cursor: z.string().min(1).optional(),
+  order: z.enum(["asc", "desc"]).default("asc"),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+const fromBeforeTo = (query: { from?: Date; to?: Date }) => !query.from || !query.to || query.from <= query.to;
+
+export const GetRecordsV1QueryDto = CursorPageQueryDto.refine(fromBeforeTo, {
+  message: "from must be before to",
+  path: ["from"],
+});
+
+export const GetAnomaliesV1QueryDto = CursorPageQueryDto.extend({
+  type: z.enum(ANOMALY_TYPES).optional(),
+  severity: z.enum(ANOMALY_SEVERITIES).optional(),
+}).refine(fromBeforeTo, { message: "from must be before to", path: ["from"] });
+
+// Response schemas by registry id, for checking responses against the $refs of the document
+export const API_RESPONSE_SCHEMAS: Record<string, z.ZodType> = {
+  ErrorResponse: ErrorResponseDto,
+  SolarUnitList: SolarUnitListResponseDto,
+  SolarUnitResponse: SolarUnitResponseDto,
+  EnergyGenerationRecordPage: EnergyGenerationRecordPageDto,
+  AnomalyPage: AnomalyPageDto,
+};
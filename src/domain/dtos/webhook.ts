@@ -0,0 +1,22 @@
+import { z } from "zod";
+import { WEBHOOK_DELIVERY_STATUSES, WEBHOOK_EVENT_TYPES } from "../types";
+
+export const CreateWebhookSubscriptionDto = z.object({
+  url: z.url({ protocol: /^https?$/ }),
+  events: z.array(z.enum(WEBHOOK_EVENT_TYPES)).min(1),
+  secret: z.string().min(16).optional(),
+  description: z.string().optional(),
+});
+
+export const UpdateWebhookSubscriptionDto = z.object({
+  url: z.url({ protocol: /^https?$/ }).optional(),
+  events: z.array(z.enum(WEBHOOK_EVENT_TYPES)).min(1).optional(),
+  description: z.string().optional(),
+  active: z.boolean().optional(),
+});
+
+export const GetWebhookDeliveriesQueryDto = z.object({
+  status: z.enum(WEBHOOK_DELIVERY_STATUSES).optional(),
+  subscriptionId: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
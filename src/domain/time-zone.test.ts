@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import {
+  addZonedDays,
+  formatInTimeZone,
+  formatZonedDate,
+  getTimeZoneOffsetMinutes,
+  startOfZonedDay,
+  startOfZonedMonth,
+  startOfZonedWeek,
+  zonedTimeToUtc,
+} from "./time-zone";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const hoursBetween = (from: Date, to: Date) => (to.getTime() - from.getTime()) / HOUR_MS;
+
+describe("zonedTimeToUtc", () => {
+  it("moves a time skipped when clocks go forward on by the gap", () => {
+    // Berlin jumps from 02:00 to 03:00 on 30 March 2025
+    const instant = zonedTimeToUtc(2025, 3, 30, 2, 30, "Europe/Berlin");
+
+    expect(instant).toEqual(new Date("2025-03-30T01:30:00Z"));
+    expect(formatInTimeZone(instant, "Europe/Berlin")).toBe("2025-03-30T03:30:00+02:00");
+  });
+
+  it("resolves a time repeated when clocks go back to its first occurrence", () => {
+    // Berlin goes from 03:00 back to 02:00 on 26 October 2025, so 02:30 happens at 00:30Z and 01:30Z
+    const instant = zonedTimeToUtc(2025, 10, 26, 2, 30, "Europe/Berlin");
+
+    expect(instant).toEqual(new Date("2025-10-26T00:30:00Z"));
+    expect(getTimeZoneOffsetMinutes(instant, "Europe/Berlin")).toBe(120);
+  });
+
+  it("rolls out-of-range fields over", () => {
+    expect(zonedTimeToUtc(2025, 12, 32, 0, 0, "Asia/Colombo")).toEqual(new Date("2025-12-31T18:30:00Z"));
+    expect(zonedTimeToUtc(2025, 13, 1, 0, 0, "UTC")).toEqual(new Date("2026-01-01T00:00:00Z"));
+  });
+});
+
+describe("day boundaries", () => {
+  it("makes the day clocks go forward 23 hours long and the day they go back 25", () => {
+    const spring = startOfZonedDay(new Date("2025-03-30T12:00:00Z"), "Europe/Berlin");
+    const autumn = startOfZonedDay(new Date("2025-10-26T12:00:00Z"), "Europe/Berlin");
+
+    expect(spring).toEqual(new Date("2025-03-29T23:00:00Z"));
+    expect(hoursBetween(spring, addZonedDays(spring, 1, "Europe/Berlin"))).toBe(23);
+    expect(autumn).toEqual(new Date("2025-10-25T22:00:00Z"));
+    expect(hoursBetween(autumn, addZonedDays(autumn, 1, "Europe/Berlin"))).toBe(25);
+  });
+
+  it("starts a day without a midnight at the first time that exists", () => {
+    // Santiago skips from 00:00 to 01:00 on 7 September 2025
+    const start = startOfZonedDay(new Date("2025-09-07T12:00:00Z"), "America/Santiago");
+
+    expect(formatInTimeZone(start, "America/Santiago")).toBe("2025-09-07T01:00:00-03:00");
+    expect(hoursBetween(addZonedDays(start, -1, "America/Santiago"), start)).toBe(24);
+    expect(hoursBetween(start, addZonedDays(start, 1, "America/Santiago"))).toBe(23);
+  });
+
+  it("gives the day before clocks go back at midnight the repeated hour", () => {
+    // Santiago goes from 00:00 on 6 April 2025 back to 23:00 on the 5th
+    const start = startOfZonedDay(new Date("2025-04-05T12:00:00Z"), "America/Santiago");
+    const next = addZonedDays(start, 1, "America/Santiago");
+
+    expect(formatInTimeZone(start, "America/Santiago")).toBe("2025-04-05T00:00:00-03:00");
+    expect(formatInTimeZone(next, "America/Santiago")).toBe("2025-04-06T00:00:00-04:00");
+    expect(hoursBetween(start, next)).toBe(25);
+  });
+
+  it("puts an instant on its calendar date in the zone rather than in UTC", () => {
+    const instant = new Date("2025-12-31T20:00:00Z");
+
+    expect(formatZonedDate(instant, "UTC")).toBe("2025-12-31");
+    expect(formatZonedDate(instant, "Asia/Colombo")).toBe("2026-01-01");
+    expect(startOfZonedMonth(instant, "Asia/Colombo")).toEqual(new Date("2025-12-31T18:30:00Z"));
+  });
+});
+
+describe("startOfZonedWeek", () => {
+  it.each([
+    ["a Monday", "2025-12-01T10:00:00Z"],
+    ["a Wednesday", "2025-12-03T10:00:00Z"],
+    ["a Sunday", "2025-12-07T10:00:00Z"],
+  ])("goes back from %s to Monday", (_, instant) => {
+    expect(startOfZonedWeek(new Date(instant), "UTC")).toEqual(new Date("2025-12-01T00:00:00Z"));
+  });
+
+  it("uses the weekday in the zone when it differs from the weekday in UTC", () => {
+    // 22:00 UTC on Sunday 7 December is already Monday the 8th in Auckland
+    const instant = new Date("2025-12-07T22:00:00Z");
+
+    expect(startOfZonedWeek(instant, "UTC")).toEqual(new Date("2025-12-01T00:00:00Z"));
+    expect(formatInTimeZone(startOfZonedWeek(instant, "Pacific/Auckland"), "Pacific/Auckland")).toBe(
+      "2025-12-08T00:00:00+13:00"
+    );
+  });
+
+  it("is 167 hours long across the week clocks go forward", () => {
+    const start = startOfZonedWeek(new Date("2025-03-30T12:00:00Z"), "Europe/Berlin");
+    const next = startOfZonedWeek(new Date("2025-04-01T12:00:00Z"), "Europe/Berlin");
+
+    expect(formatInTimeZone(start, "Europe/Berlin")).toBe("2025-03-24T00:00:00+01:00");
+    expect(formatInTimeZone(next, "Europe/Berlin")).toBe("2025-03-31T00:00:00+02:00");
+    expect(hoursBetween(start, next)).toBe(167);
+  });
+});
@@ -0,0 +1,165 @@
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * Wall-clock parts of an instant in a time zone
+ */
+export const getZonedParts = (date: Date, timeZone: string) => {
+  const parts: Record<string, number> = {};
+  getFormatter(timeZone)
+    .formatToParts(date)
+    .forEach((part) => {
+      if (part.type !== "literal") {
+        parts[part.type] = Number(part.value);
+      }
+    });
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+};
+
+/**
+ * Offset of the time zone from UTC at the given instant, in minutes (e.g. +330 for Asia/Colombo)
+ */
+export const getTimeZoneOffsetMinutes = (date: Date, timeZone: string) => {
+  const parts = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+};
+
+const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+
+/**
+ * ISO 8601 timestamp in the time zone's local time with its offset, e.g. 2025-12-01T15:30:00+05:30
+ */
+export const formatInTimeZone = (date: Date, timeZone: string) => {
+  const parts = getZonedParts(date, timeZone);
+  const offset = getTimeZoneOffsetMinutes(date, timeZone);
+  const sign = offset < 0 ? "-" : "+";
+  const absolute = Math.abs(offset);
+  const suffix = offset === 0 ? "Z" : `${sign}${pad(Math.floor(absolute / 60))}:${pad(absolute % 60)}`;
+  return `${pad(parts.year, 4)}-${pad(parts.month)}-${pad(parts.day)}T${pad(parts.hour)}:${pad(parts.minute)}:${pad(parts.second)}${suffix}`;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Zone for units without one of their own: DEFAULT_TIMEZONE, or UTC
+ */
+export const getDefaultTimeZone = () => {
+  const timeZone = process.env.DEFAULT_TIMEZONE;
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : "UTC";
+};
+
+export const getUnitTimeZone = (unit: { timezone?: string | null }) =>
+  unit.timezone && isValidTimeZone(unit.timezone) ? unit.timezone : getDefaultTimeZone();
+
+/**
+ * The instant a wall-clock time occurs in a time zone
+ * Out-of-range fields roll over (day 32 is the 1st of the next month). A time repeated when clocks
+ * go back resolves to its first occurrence; a time skipped when clocks go forward moves forward by the gap.
+ */
+export const zonedTimeToUtc = (year: number, month: number, day: number, hour: number, minute: number, timeZone: string) => {
+  const wallClock = new Date(Date.UTC(year, month - 1, day, hour, minute));
+  const target = { year: wallClock.getUTCFullYear(), month: wallClock.getUTCMonth() + 1, day: wallClock.getUTCDate() };
+
+  // Offsets a day either side cover both sides of any transition near the wall-clock time
+  const candidates = [-DAY_MS, DAY_MS].map(
+    (shift) =>
+      wallClock.getTime() - getTimeZoneOffsetMinutes(new Date(wallClock.getTime() + shift), timeZone) * 60000
+  );
+  const matches = candidates.filter((candidate) => {
+    const parts = getZonedParts(new Date(candidate), timeZone);
+    return (
+      parts.year === target.year &&
+      parts.month === target.month &&
+      parts.day === target.day &&
+      parts.hour === wallClock.getUTCHours() &&
+      parts.minute === wallClock.getUTCMinutes()
+    );
+  });
+  return new Date(matches.length > 0 ? Math.min(...matches) : Math.max(...candidates));
+};
+
+/**
+ * Calendar date of an instant in a time zone, as midnight UTC of that date
+ */
+export const getZonedDate = (date: Date, timeZone: string) => {
+  const parts = getZonedParts(date, timeZone);
+  return new Date(Date.UTC(parts.year, parts.month - 1, parts.day));
+};
+
+/**
+ * The instant a calendar date (midnight UTC, see getZonedDate) starts in a time zone, plus whole days
+ */
+export const startOfDateInZone = (calendarDate: Date, timeZone: string, days = 0) =>
+  zonedTimeToUtc(
+    calendarDate.getUTCFullYear(),
+    calendarDate.getUTCMonth() + 1,
+    calendarDate.getUTCDate() + days,
+    0,
+    0,
+    timeZone
+  );
+
+export const startOfZonedDay = (date: Date, timeZone: string) => startOfDateInZone(getZonedDate(date, timeZone), timeZone);
+
+/**
+ * Start of the day the given number of days after the one containing date (23 or 25 hours away across DST changes)
+ */
+export const addZonedDays = (date: Date, days: number, timeZone: string) =>
+  startOfDateInZone(getZonedDate(date, timeZone), timeZone, days);
+
+export const startOfZonedMonth = (date: Date, timeZone: string) => {
+  const parts = getZonedParts(date, timeZone);
+  return zonedTimeToUtc(parts.year, parts.month, 1, 0, 0, timeZone);
+};
+
+export const addZonedMonths = (date: Date, months: number, timeZone: string) => {
+  const parts = getZonedParts(date, timeZone);
+  return zonedTimeToUtc(parts.year, parts.month + months, 1, 0, 0, timeZone);
+};
+
+/**
+ * Start of the ISO week (Monday) containing date
+ */
+export const startOfZonedWeek = (date: Date, timeZone: string) => {
+  const calendarDate = getZonedDate(date, timeZone);
+  return startOfDateInZone(calendarDate, timeZone, -((calendarDate.getUTCDay() + 6) % 7));
+};
+
+/**
+ * Calendar date of an instant in a time zone, e.g. 2025-12-01
+ */
+export const formatZonedDate = (date: Date, timeZone: string) => getZonedDate(date, timeZone).toISOString().slice(0, 10);
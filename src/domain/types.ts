@@ -1,5 +1,118 @@
+import { z } from "zod";
+import { SolarUnitDto } from "./dtos/solar-unit";
+
 export type Role = "admin" | "staff";
 
 export type UserPublicMetadata = {
     role?: Role;
-}
\ No newline at end of file
+}
+
+export const ANOMALY_TYPES = [
+    "ZERO_GENERATION",
+    "SUDDEN_DROP",
+    "CAPACITY_FACTOR",
+    "IRREGULAR_PATTERN",
+    "IRREGULAR_PATTERN_NIGHT",
+] as const;
+
+export type AnomalyType = (typeof ANOMALY_TYPES)[number];
+
+export const ANOMALY_SEVERITIES = ["LOW", "MEDIUM", "HIGH"] as const;
+
+export type AnomalySeverity = (typeof ANOMALY_SEVERITIES)[number];
+
+export type AuthenticatedUser = {
+    userId: string;
+    role?: Role;
+};
+
+/**
+ * What a service key may do beyond reading: "generation" triggers data generation, "registry" writes
+ * the solar unit registry
+ */
+export const SERVICE_SCOPES = ["generation", "registry"] as const;
+
+export type ServiceScope = (typeof SERVICE_SCOPES)[number];
+
+/**
+ * Who is calling the API: a signed-in user, another service holding an API key,
+ * or a device posting readings for its own solar unit
+ */
+export type Principal =
+    | ({ type: "user" } & AuthenticatedUser)
+    | { type: "service"; name: string; scopes: ServiceScope[] }
+    | { type: "device"; serialNumber: string };
+
+export const JOB_TYPES = ["daily-generation", "backfill"] as const;
+
+export type JobType = (typeof JOB_TYPES)[number];
+
+// Only ACTIVE units generate or accept records; INACTIVE once decommissioned
+export const SOLAR_UNIT_STATUSES = ["ACTIVE", "INACTIVE", "MAINTENANCE"] as const;
+
+export type SolarUnitStatus = (typeof SOLAR_UNIT_STATUSES)[number];
+
+export const JOB_STATUSES = ["running", "succeeded", "failed"] as const;
+
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+export const JOB_TRIGGERS = ["schedule", "catch-up", "manual"] as const;
+
+export type JobTrigger = (typeof JOB_TRIGGERS)[number];
+
+export const BACKFILL_MODES = ["fill-gaps", "skip-existing", "replace"] as const;
+
+export type BackfillMode = (typeof BACKFILL_MODES)[number];
+
+export type SolarUnit = z.infer<typeof SolarUnitDto>;
+
+export const WEBHOOK_EVENT_TYPES = [
+  "records.created",
+  "records.deleted",
+  "generation.completed",
+  "anomaly.detected",
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+export const WEBHOOK_DELIVERY_STATUSES = ["pending", "delivering", "delivered", "dead"] as const;
+
+export type WebhookDeliveryStatus = (typeof WEBHOOK_DELIVERY_STATUSES)[number];
+
+export const IMPORT_FORMATS = ["csv", "ndjson"] as const;
+
+export type ImportFormat = (typeof IMPORT_FORMATS)[number];
+
+export const IMPORT_STATUSES = ["running", "completed", "failed"] as const;
+
+export type ImportStatus = (typeof IMPORT_STATUSES)[number];
+
+export const IMPORT_SOURCES = ["api", "cli"] as const;
+
+export type ImportSource = (typeof IMPORT_SOURCES)[number];
+
+// Where stored records come from (records.created events, inserted records metric)
+export const RECORD_SOURCES = ["generation", "ingestion", "backfill", "import"] as const;
+
+export type RecordSource = (typeof RECORD_SOURCES)[number];
+
+export const ALERT_CONDITION_TYPES = ["zero-generation", "low-daily-yield", "no-data"] as const;
+
+export type AlertConditionType = (typeof ALERT_CONDITION_TYPES)[number];
+
+export const ALERT_SEVERITIES = ["info", "warning", "critical"] as const;
+
+export type AlertSeverity = (typeof ALERT_SEVERITIES)[number];
+
+export const ALERT_STATUSES = ["open", "acknowledged", "resolved"] as const;
+
+export type AlertStatus = (typeof ALERT_STATUSES)[number];
+
+export const NOTIFICATION_CHANNEL_TYPES = ["webhook", "email", "console"] as const;
+
+export type NotificationChannelType = (typeof NOTIFICATION_CHANNEL_TYPES)[number];
+
+// Events pushed to live streams (a subset of the webhook events)
+export const LIVE_EVENT_TYPES = ["records.created", "generation.completed", "anomaly.detected"] as const;
+
+export type LiveEventType = (typeof LIVE_EVENT_TYPES)[number];
@@ -1,4 +1,22 @@
 /// <reference types="@clerk/express" />
 
-export {};
+import { Principal, Role } from "./domain/types";
+
+declare global {
+  interface UserPublicMetadata {
+    role?: Role;
+  }
+
+  interface CustomJwtSessionClaims {
+    metadata?: UserPublicMetadata;
+  }
 
+  namespace Express {
+    interface Request {
+      principal?: Principal;
+      requestId?: string;
+    }
+  }
+}
+
+export {};
@@ -0,0 +1,49 @@
+import { evaluateAlertRules } from '../application/alert-evaluation';
+import { logger } from './logging/logger';
+
+/**
+ * Evaluates the alert rules on a fixed interval (ALERT_EVALUATION_INTERVAL_MS, default 5 minutes)
+ * Several instances may evaluate at once; alerts are deduplicated, so a unit still gets one alert per rule.
+ */
+export class AlertEvaluator {
+  private static timer: NodeJS.Timeout | null = null;
+  private static evaluating = false;
+
+  static start(intervalMs = Number(process.env.ALERT_EVALUATION_INTERVAL_MS) || 5 * 60 * 1000) {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      this.evaluate().catch((error: any) => {
+        logger.error('Alert rule evaluation failed', { error });
+      });
+    }, intervalMs);
+    logger.info('Alert evaluator started', { intervalMs });
+  }
+
+  static stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Evaluate once, unless the previous round is still running
+   */
+  static async evaluate() {
+    if (this.evaluating) {
+      return null;
+    }
+    this.evaluating = true;
+    try {
+      const summary = await evaluateAlertRules();
+      if (summary.fired > 0 || summary.resolved > 0) {
+        logger.info('Alert rules evaluated', { fired: summary.fired, resolved: summary.resolved });
+      }
+      return summary;
+    } finally {
+      this.evaluating = false;
+    }
+  }
+}
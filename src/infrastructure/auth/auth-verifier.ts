@@ -0,0 +1,50 @@
+import { AuthenticatedUser } from "../../domain/types";
+import { ClerkAuthVerifier } from "./clerk-auth-verifier";
+import { LocalAuthVerifier } from "./local-auth-verifier";
+
+/**
+ * Verifies a bearer token and resolves the user behind it.
+ * Implementations throw UnauthorizedError when the token is not valid.
+ */
+export interface AuthVerifier {
+  verify(token: string): Promise<AuthenticatedUser>;
+}
+
+let verifier: AuthVerifier | null = null;
+
+/**
+ * AUTH_PROVIDER=clerk (default) verifies Clerk session tokens.
+ * AUTH_PROVIDER=local verifies HS256 tokens signed with AUTH_LOCAL_SECRET,
+ * for local development and tests without a Clerk instance.
+ */
+const createAuthVerifier = (): AuthVerifier => {
+  const provider = process.env.AUTH_PROVIDER || "clerk";
+
+  if (provider === "local") {
+    const secret = process.env.AUTH_LOCAL_SECRET;
+    if (!secret) {
+      throw new Error("AUTH_LOCAL_SECRET is not defined");
+    }
+    return new LocalAuthVerifier(secret);
+  }
+
+  if (provider === "clerk") {
+    return new ClerkAuthVerifier();
+  }
+
+  throw new Error(`Unknown AUTH_PROVIDER: ${provider}`);
+};
+
+export const getAuthVerifier = () => {
+  if (!verifier) {
+    verifier = createAuthVerifier();
+  }
+  return verifier;
+};
+
+/**
+ * Replace the verifier, e.g. with a LocalAuthVerifier in tests
+ */
+export const setAuthVerifier = (authVerifier: AuthVerifier | null) => {
+  verifier = authVerifier;
+};
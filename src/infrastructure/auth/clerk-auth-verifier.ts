@@ -0,0 +1,30 @@
+import { clerkClient, verifyToken } from "@clerk/express";
+import { AuthenticatedUser } from "../../domain/types";
+import { UnauthorizedError } from "../../domain/errors/errors";
+import { AuthVerifier } from "./auth-verifier";
+
+/**
+ * Verifies Clerk session tokens
+ * The role comes from the session's metadata claim when the session token is customised
+ * to include it, otherwise from the user's public metadata.
+ */
+export class ClerkAuthVerifier implements AuthVerifier {
+  async verify(token: string): Promise<AuthenticatedUser> {
+    let claims: CustomJwtSessionClaims & { sub?: string };
+    try {
+      claims = await verifyToken(token, {
+        secretKey: process.env.CLERK_SECRET_KEY,
+        jwtKey: process.env.CLERK_JWT_KEY,
+      });
+    } catch (error) {
+      throw new UnauthorizedError("Invalid session token");
+    }
+
+    if (!claims.sub) {
+      throw new UnauthorizedError("Invalid session token");
+    }
+
+    const role = claims.metadata?.role ?? (await clerkClient.users.getUser(claims.sub)).publicMetadata.role;
+    return { userId: claims.sub, role };
+  }
+}
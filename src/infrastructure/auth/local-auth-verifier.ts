@@ -0,0 +1,66 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { AuthenticatedUser, Role } from "../../domain/types";
+import { UnauthorizedError } from "../../domain/errors/errors";
+import { AuthVerifier } from "./auth-verifier";
+
+const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url");
+
+/**
+ * Local token issuer and verifier (HS256 JWTs signed with a shared secret)
+ * Stands in for Clerk in local development and tests.
+ */
+export class LocalAuthVerifier implements AuthVerifier {
+  constructor(private readonly secret: string, private readonly issuer = "local") {}
+
+  /**
+   * Issue a token for a user, valid for ttlSeconds
+   */
+  sign(user: AuthenticatedUser, ttlSeconds = 60 * 60) {
+    const now = Math.floor(Date.now() / 1000);
+    const header = encode({ alg: "HS256", typ: "JWT" });
+    const payload = encode({
+      sub: user.userId,
+      iss: this.issuer,
+      iat: now,
+      exp: now + ttlSeconds,
+      metadata: { role: user.role },
+    });
+    return `${header}.${payload}.${this.signature(`${header}.${payload}`)}`;
+  }
+
+  async verify(token: string): Promise<AuthenticatedUser> {
+    const [header, payload, signature] = token.split(".");
+    if (!header || !payload || !signature) {
+      throw new UnauthorizedError("Malformed token");
+    }
+
+    const expected = Buffer.from(this.signature(`${header}.${payload}`));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      throw new UnauthorizedError("Invalid token signature");
+    }
+
+    let claims: { sub?: string; iss?: string; exp?: number; metadata?: { role?: Role } };
+    try {
+      claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+    } catch (error) {
+      throw new UnauthorizedError("Malformed token");
+    }
+
+    if (claims.iss !== this.issuer) {
+      throw new UnauthorizedError("Invalid token issuer");
+    }
+    if (!claims.exp || claims.exp * 1000 < Date.now()) {
+      throw new UnauthorizedError("Token expired");
+    }
+    if (!claims.sub) {
+      throw new UnauthorizedError("Token has no subject");
+    }
+
+    return { userId: claims.sub, role: claims.metadata?.role };
+  }
+
+  private signature(data: string) {
+    return createHmac("sha256", this.secret).update(data).digest("base64url");
+  }
+}
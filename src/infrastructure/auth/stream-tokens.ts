@@ -0,0 +1,49 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { UnauthorizedError } from "../../domain/errors/errors";
+import { Principal } from "../../domain/types";
+
+let processSecret: string | null = null;
+
+/**
+ * STREAM_TOKEN_SECRET, or a secret of this process (tokens then only work against the instance that issued them)
+ */
+const getSecret = () => {
+  if (process.env.STREAM_TOKEN_SECRET) {
+    return process.env.STREAM_TOKEN_SECRET;
+  }
+  if (!processSecret) {
+    processSecret = randomBytes(32).toString("hex");
+  }
+  return processSecret;
+};
+
+const signature = (payload: string) => createHmac("sha256", getSecret()).update(payload).digest("base64url");
+
+/**
+ * Short-lived token that lets a client which cannot set headers (a browser EventSource) open a stream
+ * as the principal it was issued to
+ */
+export const signStreamToken = (principal: Principal, ttlSeconds: number) => {
+  const expiresAt = new Date(Date.now() + ttlSeconds * 1000);
+  const payload = Buffer.from(JSON.stringify({ principal, exp: expiresAt.getTime() })).toString("base64url");
+  return { token: `${payload}.${signature(payload)}`, expiresAt };
+};
+
+export const verifyStreamToken = (token: string): Principal => {
+  const [payload, provided] = token.split(".");
+  if (!payload || !provided) {
+    throw new UnauthorizedError("Malformed stream token");
+  }
+
+  const expected = Buffer.from(signature(payload));
+  const actual = Buffer.from(provided);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw new UnauthorizedError("Invalid stream token");
+  }
+
+  const claims: { principal: Principal; exp: number } = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+  if (claims.exp < Date.now()) {
+    throw new UnauthorizedError("Stream token expired");
+  }
+  return claims.principal;
+};
@@ -0,0 +1,128 @@
+import 'dotenv/config';
+import axios from 'axios';
+import { API_RESPONSE_SCHEMAS } from '../domain/dtos/v1';
+import { parseArgs } from './cli-args';
+
+type Check = { name: string; problems: string[] };
+
+const describeIssues = (schemaId: string, body: unknown) => {
+  const schema = API_RESPONSE_SCHEMAS[schemaId];
+  if (!schema) {
+    return [`no schema ${schemaId} to check against`];
+  }
+  const result = schema.safeParse(body);
+  return result.success
+    ? []
+    : result.error.issues.map((issue) => `${schemaId}.${issue.path.join('.')}: ${issue.message}`);
+};
+
+const refId = (ref: string) => ref.replace('#/components/schemas/', '');
+
+/**
+ * Check a running data API against its own OpenAPI document (/api/v1/openapi.json)
+ * Calls every documented route for one unit and validates the 200 bodies against the schemas the document
+ * was generated from; walks the record and anomaly pages checking their order and that no item repeats;
+ * and checks that errors (unknown unit, bad cursor, unknown route) come as ErrorResponse.
+ * Authenticates with the first key of SERVICE_API_KEYS. Exits with code 1 when anything does not match.
+ *
+ * Usage: npm run check:contract -- SERIAL_NUMBER [--base-url http://localhost:8000] [--limit 50] [--pages 3]
+ */
+async function checkContract() {
+  const { positional, options } = parseArgs(process.argv.slice(2));
+  const serialNumber = positional[0];
+  if (!serialNumber) {
+    console.error('❌ Usage: npm run check:contract -- SERIAL_NUMBER [--base-url URL] [--limit 50] [--pages 3]');
+    process.exitCode = 1;
+    return;
+  }
+  const baseUrl = `${options.baseUrl || `http://localhost:${process.env.PORT || 8000}`}/api/v1`;
+  const limit = Number(options.limit) || 50;
+  const pages = Number(options.pages) || 3;
+  const apiKey = (process.env.SERVICE_API_KEYS || '').split(',')[0]?.split(':').slice(1).join(':');
+
+  const client = axios.create({
+    baseURL: baseUrl,
+    timeout: 30000,
+    headers: apiKey ? { 'x-api-key': apiKey } : {},
+    validateStatus: () => true,
+  });
+  const checks: Check[] = [];
+
+  try {
+    const { data: document } = await client.get('/openapi.json');
+    const paths: Record<string, any> = document?.paths ?? {};
+    checks.push({ name: 'GET /openapi.json', problems: Object.keys(paths).length > 0 ? [] : ['document has no paths'] });
+
+    for (const [path, item] of Object.entries(paths)) {
+      const url = path.replace('{serialNumber}', encodeURIComponent(serialNumber));
+      const schemaId = refId(item.get.responses['200'].content['application/json'].schema.$ref);
+      const response = await client.get(url, { params: path.includes('{') ? { limit } : {} });
+      checks.push({
+        name: `GET ${url}`,
+        problems: response.status === 200 ? describeIssues(schemaId, response.data) : [`status ${response.status}`],
+      });
+    }
+
+    for (const [path, field] of [['records', 'timestamp'], ['anomalies', 'windowStart']]) {
+      const url = `/solar-units/${encodeURIComponent(serialNumber)}/${path}`;
+      const problems: string[] = [];
+      const seen = new Set<string>();
+      let previous = -Infinity;
+      let cursor: string | null | undefined;
+      for (let page = 0; page < pages && cursor !== null; page++) {
+        const response = await client.get(url, { params: { limit, ...(cursor && { cursor }) } });
+        if (response.status !== 200) {
+          problems.push(`page ${page + 1}: status ${response.status}`);
+          break;
+        }
+        for (const item of response.data.data) {
+          const time = Date.parse(item[field]);
+          if (seen.has(item.id)) {
+            problems.push(`page ${page + 1}: ${item.id} repeated`);
+          }
+          if (time < previous) {
+            problems.push(`page ${page + 1}: ${item.id} out of order`);
+          }
+          seen.add(item.id);
+          previous = time;
+        }
+        cursor = response.data.page.nextCursor;
+      }
+      checks.push({ name: `Paging ${url} (${seen.size} items)`, problems });
+    }
+
+    const errorCases: [string, string, number][] = [
+      ['unknown unit', '/solar-units/__no-such-unit__/records', 404],
+      ['invalid cursor', `/solar-units/${encodeURIComponent(serialNumber)}/records?cursor=not-a-cursor`, 400],
+      ['invalid limit', `/solar-units/${encodeURIComponent(serialNumber)}/records?limit=0`, 400],
+      ['unknown route', '/no-such-route', 404],
+    ];
+    for (const [name, url, status] of errorCases) {
+      const response = await client.get(url);
+      checks.push({
+        name: `Error: ${name}`,
+        problems: [
+          ...(response.status === status ? [] : [`status ${response.status}, expected ${status}`]),
+          ...describeIssues('ErrorResponse', response.data),
+        ],
+      });
+    }
+  } catch (error: any) {
+    console.error(`❌ Could not reach ${baseUrl}:`, error.message);
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log(`🔍 Checked ${baseUrl} against its OpenAPI document`);
+  checks.forEach((check) => {
+    console.log(`   ${check.problems.length === 0 ? '✅' : '❌'} ${check.name}`);
+    check.problems.forEach((problem) => console.log(`      ${problem}`));
+  });
+  const failed = checks.filter((check) => check.problems.length > 0).length;
+  console.log(failed > 0 ? `\n⚠️  ${failed} check(s) failed` : '\n✅ Responses match the contract');
+  if (failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+checkContract();
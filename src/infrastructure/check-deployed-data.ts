@@ -1,5 +1,6 @@
 import 'dotenv/config';
 import axios from 'axios';
+import { formatZonedDate, getUnitTimeZone } from '../domain/time-zone';
 
 /**
  * Script to manually trigger today's data generation on deployed backend
@@ -18,10 +19,17 @@ async function triggerTodayDataGeneration() {
     // First, check if backend is alive
     console.log('1️⃣ Checking if backend is alive...');
     try {
-      const healthCheck = await axios.get(`${DEPLOYED_DATA_BACKEND}/api/energy-generation-records`, {
+      await axios.get(`${DEPLOYED_DATA_BACKEND}/health/live`, {
         timeout: 10000
       });
       console.log('   ✅ Backend is responding');
+      const readiness = await axios.get(`${DEPLOYED_DATA_BACKEND}/health/ready`, {
+        timeout: 10000,
+        validateStatus: () => true
+      });
+      for (const [name, check] of Object.entries<any>(readiness.data?.checks ?? {})) {
+        console.log(`   ${check.status === 'down' ? '❌' : '✅'} ${name}: ${check.status} (${check.latencyMs}ms)`);
+      }
     } catch (error: any) {
       console.log('   ⚠️  Backend might be sleeping (Render free tier)');
       console.log('   ⏳ Waking up backend... (this may take 50+ seconds)');
@@ -87,19 +95,20 @@ async function triggerTodayDataGeneration() {
           console.log(`   ${index + 1}. ${date}: ${energy.toFixed(2)} kWh`);
         });
         
-        // Check if today's data exists
-        const today = new Date().toISOString().split('T')[0];
+        // Check if today's data exists (days begin at midnight in the unit's time zone)
+        const timeZone = getUnitTimeZone(firstUnit);
+        const today = formatZonedDate(new Date(), timeZone);
         const todayData = dataResponse.data.find((r: any) => (r.date || r._id) === today);
         
         console.log('');
         if (todayData) {
           console.log(`✅ Today's data (${today}) EXISTS: ${todayData.totalEnergy.toFixed(2)} kWh`);
         } else {
-          console.log(`❌ Today's data (${today}) NOT FOUND`);
+          console.log(`❌ Today's data (${today}, ${timeZone}) NOT FOUND`);
           console.log('   Possible reasons:');
           console.log('   - Scheduler hasn\'t run yet today (runs at 00:00)');
           console.log('   - Backend was sleeping when scheduler should have run');
-          console.log('   - Time zone mismatch');
+          console.log('   - The unit\'s timezone (or DEFAULT_TIMEZONE) does not match where it is installed');
         }
       } catch (error: any) {
         console.log(`   ❌ Could not fetch data: ${error.message}`);
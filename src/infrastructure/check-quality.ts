@@ -0,0 +1,81 @@
+import 'dotenv/config';
+import mongoose from 'mongoose';
+import { getDataQualityReport } from '../application/data-quality';
+import { formatIssues } from '../application/energy-generation-record';
+import { GetDataQualityQueryDto } from '../domain/dtos/data-quality';
+import { parseArgs } from './cli-args';
+import { connectDB } from './db';
+import { EnergyGenerationRecord } from './entities/EnergyGenerationRecord';
+import { getSolarUnitProvider } from './solar-units/solar-unit-provider';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Data-quality report (missing intervals, duplicates, impossible values, night output) per unit
+ * Without a serial number every unit with records or listed by the provider is checked.
+ * Exits with code 1 when any unit has issues.
+ *
+ * Usage: npm run check:quality [-- SERIAL_NUMBER] [--from 2025-08-01 --to 2025-08-31] [--json]
+ */
+async function checkQuality() {
+  const { positional, options } = parseArgs(process.argv.slice(2));
+  const { json, ...range } = options;
+  const result = GetDataQualityQueryDto.safeParse(range);
+  if (!result.success) {
+    console.error('❌ Invalid options:', formatIssues(result.error));
+    process.exitCode = 1;
+    return;
+  }
+  const to = result.data.to ?? new Date();
+  const from = result.data.from ?? new Date(to.getTime() - 30 * DAY_MS);
+
+  try {
+    await connectDB();
+
+    let serialNumbers: string[] = positional[0] ? [positional[0]] : await EnergyGenerationRecord.distinct('serialNumber');
+    if (!positional[0]) {
+      try {
+        const units = await getSolarUnitProvider().getActiveSolarUnits();
+        serialNumbers = Array.from(new Set([...serialNumbers, ...units.map((unit) => unit.serialNumber)]));
+      } catch (error: any) {
+        console.warn('⚠️  Could not load solar units, checking units with records only:', error.message);
+      }
+    }
+
+    const reports = [];
+    for (const serialNumber of serialNumbers) {
+      reports.push(await getDataQualityReport(serialNumber, from, to));
+    }
+
+    if (json) {
+      console.log(JSON.stringify(reports, null, 2));
+    } else {
+      console.log(`🔍 Data quality ${from.toISOString()} → ${to.toISOString()}`);
+      reports.forEach((report) => {
+        const completeness = report.completeness === null ? 'n/a' : `${(report.completeness * 100).toFixed(1)}%`;
+        console.log(`\n📟 ${report.serialNumber} (${report.intervalHours} h intervals, ${completeness} complete)`);
+        console.log(`   Missing intervals: ${report.missing.count} in ${report.missing.ranges.length} gaps`);
+        report.missing.ranges.slice(0, 10).forEach((gap) => {
+          console.log(`      ${gap.from.toISOString()} → ${gap.to.toISOString()} (${gap.intervals})`);
+        });
+        console.log(`   Duplicate intervals: ${report.duplicates.length}`);
+        console.log(`   Invalid values: ${report.invalidValues.length}`);
+        console.log(`   Night output: ${report.nightOutput.length}`);
+        if (report.backfill) {
+          console.log(`   Fix gaps: ${report.backfill.method} ${report.backfill.path}`);
+        }
+      });
+    }
+
+    if (reports.some((report) => report.issueCount > 0)) {
+      process.exitCode = 1;
+    }
+  } catch (error: any) {
+    console.error('❌ Data quality check failed:', error.message);
+    process.exitCode = 1;
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+checkQuality();
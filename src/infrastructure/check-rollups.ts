@@ -0,0 +1,59 @@
+import 'dotenv/config';
+import mongoose from 'mongoose';
+import { formatIssues } from '../application/energy-generation-record';
+import { checkRollups } from '../application/energy-rollups';
+import { RollupRangeDto } from '../domain/dtos/rollup';
+import { parseArgs } from './cli-args';
+import { connectDB } from './db';
+import { EnergyGenerationRecord } from './entities/EnergyGenerationRecord';
+
+/**
+ * Report days and months where the stored summaries disagree with the raw records
+ * Exits with code 1 when there are mismatches; fix them with npm run rebuild:rollups.
+ *
+ * Usage: npm run check:rollups [-- --serial-number SU-1 --from 2025-08-01 --to 2025-08-31 --json]
+ */
+async function check() {
+  const { json, ...options } = parseArgs(process.argv.slice(2)).options;
+  const result = RollupRangeDto.safeParse(options);
+  if (!result.success) {
+    console.error('❌ Invalid options:', formatIssues(result.error));
+    process.exitCode = 1;
+    return;
+  }
+  const { serialNumber, from, to } = result.data;
+
+  try {
+    await connectDB();
+
+    const serialNumbers: string[] = serialNumber
+      ? [serialNumber]
+      : await EnergyGenerationRecord.distinct('serialNumber');
+    const mismatches = await checkRollups({ serialNumbers, from, to });
+
+    if (json) {
+      console.log(JSON.stringify(mismatches, null, 2));
+    } else {
+      console.log(`🔍 Checked rollups for ${serialNumbers.length} unit(s)`);
+      mismatches.forEach((mismatch) => {
+        console.log(
+          `   ${mismatch.serialNumber} ${mismatch.granularity} ${mismatch.period.toISOString().slice(0, 10)}: ` +
+            `stored ${mismatch.stored.recordCount} records / ${mismatch.stored.energy} Wh, ` +
+            `raw ${mismatch.actual.recordCount} records / ${mismatch.actual.energy} Wh`
+        );
+      });
+      console.log(mismatches.length > 0 ? `\n⚠️  ${mismatches.length} mismatches found` : '\n✅ Rollups match the raw records');
+    }
+
+    if (mismatches.length > 0) {
+      process.exitCode = 1;
+    }
+  } catch (error: any) {
+    console.error('❌ Rollup check failed:', error.message);
+    process.exitCode = 1;
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+check();
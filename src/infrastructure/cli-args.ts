@@ -0,0 +1,23 @@
+/**
+ * Split command line arguments into positional values and --options
+ * "--serial-number SU-1" becomes { serialNumber: "SU-1" }; a flag without a value becomes "true".
+ */
+export const parseArgs = (args: string[]) => {
+  const positional: string[] = [];
+  const options: Record<string, string> = {};
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith('--')) {
+      const name = args[i].slice(2).replace(/-([a-z])/g, (_, letter: string) => letter.toUpperCase());
+      const value = args[i + 1];
+      if (value === undefined || value.startsWith('--')) {
+        options[name] = 'true';
+      } else {
+        options[name] = value;
+        i++;
+      }
+    } else {
+      positional.push(args[i]);
+    }
+  }
+  return { positional, options };
+};
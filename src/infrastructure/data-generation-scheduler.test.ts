@@ -0,0 +1,160 @@
+import mongoose from 'mongoose';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SolarUnit } from '../domain/types';
+import { insertNewReadings } from '../application/energy-generation-record';
+import { DataGenerationScheduler } from './data-generation-scheduler';
+import { EnergyGenerationRecord } from './entities/EnergyGenerationRecord';
+import { JobLease } from './entities/JobLease';
+import { JobRun } from './entities/JobRun';
+import { createGenerationModel } from './generation/create-generation-model';
+import { setSolarUnitProvider } from './solar-units/solar-unit-provider';
+import { publishEvent } from './webhooks/event-publisher';
+
+vi.mock('../application/energy-generation-record', () => ({
+  insertNewReadings: vi.fn(),
+}));
+
+vi.mock('../application/maintenance-schedule', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../application/maintenance-schedule')>()),
+  findMaintenancePeriods: async () => [],
+}));
+
+vi.mock('./webhooks/event-publisher', () => ({
+  publishEvent: vi.fn(),
+}));
+
+const DATE = new Date('2025-12-01T00:00:00Z');
+
+const units = ['SU-0001', 'SU-0002', 'SU-0003'].map((serialNumber) => ({
+  serialNumber,
+  installationDate: '2024-01-15',
+  capacity: 5000,
+  status: 'ACTIVE',
+  timezone: 'UTC',
+})) as SolarUnit[];
+
+// Units whose day is already stored
+let stored: string[];
+
+beforeEach(() => {
+  stored = [];
+  DataGenerationScheduler.setGenerationModel(createGenerationModel({ model: 'simple', seed: 'scheduler-test' }));
+  setSolarUnitProvider({ name: 'test', getActiveSolarUnits: async () => units });
+  vi.spyOn(EnergyGenerationRecord, 'countDocuments').mockImplementation(((filter: { serialNumber: string }) =>
+    Promise.resolve(stored.includes(filter.serialNumber) ? 12 : 0)) as any);
+  vi.spyOn(EnergyGenerationRecord, 'find').mockReturnValue({
+    sort: () => ({ lean: async () => [{ serialNumber: 'SU-0001' }] }),
+  } as any);
+  // The second reading of each day was stored by another writer in the meantime
+  vi.mocked(insertNewReadings).mockImplementation(async (readings) =>
+    Object.fromEntries(readings.map((_, index) => [index, new mongoose.Types.ObjectId()]).filter(([index]) => index !== 1))
+  );
+  vi.mocked(publishEvent).mockResolvedValue(undefined);
+});
+
+afterEach(() => {
+  DataGenerationScheduler.setGenerationModel(null);
+  setSolarUnitProvider(null);
+  vi.restoreAllMocks();
+  vi.mocked(insertNewReadings).mockReset();
+  vi.mocked(publishEvent).mockReset();
+});
+
+describe('DataGenerationScheduler.generateDailyData', () => {
+  it('writes each day through insertNewReadings and counts only the readings it inserted', async () => {
+    const result = await DataGenerationScheduler.generateDailyData(DATE);
+
+    expect(result).toEqual({ unitsProcessed: 3, recordsInserted: 33, failures: [] });
+    expect(insertNewReadings).toHaveBeenCalledTimes(3);
+    const [readings, source] = vi.mocked(insertNewReadings).mock.calls[0];
+    expect(source).toBe('generation');
+    expect(readings).toHaveLength(12);
+    expect(readings[0]).toMatchObject({ serialNumber: 'SU-0001', timestamp: DATE, intervalHours: 2 });
+  });
+
+  it('skips a stored day before generating anything', async () => {
+    stored = ['SU-0002'];
+    const generateReadings = vi.spyOn(DataGenerationScheduler, 'generateReadings');
+
+    const result = await DataGenerationScheduler.generateDailyData(DATE);
+
+    expect(result).toEqual({ unitsProcessed: 3, recordsInserted: 22, failures: [] });
+    expect(generateReadings.mock.calls.map(([unit]) => unit.serialNumber)).toEqual(['SU-0001', 'SU-0003']);
+  });
+
+  it('does not draw from the seeded generator for a stored day', async () => {
+    stored = ['SU-0002'];
+    await DataGenerationScheduler.generateDailyData(DATE);
+    const withStoredDay = vi.mocked(insertNewReadings).mock.calls[1][0];
+
+    vi.mocked(insertNewReadings).mockClear();
+    DataGenerationScheduler.setGenerationModel(createGenerationModel({ model: 'simple', seed: 'scheduler-test' }));
+    setSolarUnitProvider({ name: 'test', getActiveSolarUnits: async () => [units[0], units[2]] });
+    await DataGenerationScheduler.generateDailyData(DATE);
+
+    expect(vi.mocked(insertNewReadings).mock.calls[1][0]).toEqual(withStoredDay);
+  });
+
+  it('reports progress after every unit, including failed ones', async () => {
+    vi.mocked(insertNewReadings).mockRejectedValueOnce(new Error('write failed'));
+    const reportProgress = vi.fn().mockResolvedValue(undefined);
+
+    await DataGenerationScheduler.generateDailyData(DATE, reportProgress);
+
+    expect(reportProgress.mock.calls.map(([progress]) => progress)).toEqual([
+      { unitsProcessed: 0, recordsInserted: 0, failures: [{ serialNumber: 'SU-0001', message: 'write failed' }], completed: 1, total: 3 },
+      { unitsProcessed: 1, recordsInserted: 11, failures: [{ serialNumber: 'SU-0001', message: 'write failed' }], completed: 2, total: 3 },
+      { unitsProcessed: 2, recordsInserted: 22, failures: [{ serialNumber: 'SU-0001', message: 'write failed' }], completed: 3, total: 3 },
+    ]);
+  });
+
+  it('publishes the records it inserted', async () => {
+    await DataGenerationScheduler.generateDailyData(DATE);
+
+    expect(publishEvent).toHaveBeenCalledWith('records.created', {
+      source: 'generation',
+      serialNumber: 'SU-0001',
+      records: [{ serialNumber: 'SU-0001' }],
+    });
+  });
+});
+
+describe('DataGenerationScheduler.generateReadings', () => {
+  it("stores the model's expected energy with each reading", async () => {
+    const noon = new Date('2025-12-01T12:00:00Z');
+
+    const [reading] = await DataGenerationScheduler.generateReadings(units[0], [noon]);
+
+    // 75% of the capacity over two hours, whatever the random variation of the reading itself
+    expect(reading.expectedEnergy).toBe(3750);
+    expect(reading.energyGenerated).not.toBe(3750);
+    expect(await DataGenerationScheduler.getExpectedEnergy(units[0], noon, 1)).toBe(1875);
+  });
+});
+
+describe('DataGenerationScheduler.runDailyGeneration', () => {
+  it('renews the lease and records progress after every unit', async () => {
+    const acquireLease = vi.spyOn(JobLease, 'findOneAndUpdate').mockResolvedValue(null);
+    vi.spyOn(JobLease, 'deleteOne').mockResolvedValue({ acknowledged: true, deletedCount: 1 });
+    const progress: unknown[] = [];
+    vi.spyOn(JobRun, 'create').mockImplementation((async (values: Record<string, unknown>) => {
+      const jobRun = new JobRun(values);
+      vi.spyOn(jobRun, 'save').mockImplementation(async () => {
+        progress.push(jobRun.toObject().progress);
+        return jobRun;
+      });
+      return jobRun;
+    }) as any);
+
+    const jobRun = await DataGenerationScheduler.runDailyGeneration(DATE, 'manual');
+
+    expect(jobRun).toMatchObject({ status: 'succeeded', unitsProcessed: 3, recordsInserted: 33 });
+    // Taken once when the run starts, renewed after each unit
+    expect(acquireLease).toHaveBeenCalledTimes(4);
+    expect(progress.slice(0, 3)).toEqual([
+      { completed: 1, total: 3 },
+      { completed: 2, total: 3 },
+      { completed: 3, total: 3 },
+    ]);
+  });
+});
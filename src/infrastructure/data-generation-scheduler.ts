@@ -1,38 +1,91 @@
+import { randomUUID } from 'crypto';
 import * as cron from 'node-cron';
-import axios from 'axios';
 import { EnergyGenerationRecord } from './entities/EnergyGenerationRecord';
+import { GenerationModel, GenerationSite } from './generation/generation-model';
+import { createGenerationModel } from './generation/create-generation-model';
+import { JobRun } from './entities/JobRun';
+import { JobResult, JobRunner, ReportProgress } from './job-runner';
+import { logger, runWithLogContext } from './logging/logger';
+import { generationRunDuration, generationRuns } from './metrics/metrics';
+import { getSolarUnitProvider } from './solar-units/solar-unit-provider';
+import { publishEvent } from './webhooks/event-publisher';
+import { JobTrigger, SolarUnit } from '../domain/types';
+import { insertNewReadings } from '../application/energy-generation-record';
+import { findMaintenancePeriods, isInMaintenance } from '../application/maintenance-schedule';
+import { getDefaultTimeZone, getUnitTimeZone, getZonedDate, startOfDateInZone, zonedTimeToUtc } from '../domain/time-zone';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Every day at midnight (00:00)
+const SCHEDULE = '0 0 * * *';
+
+// Generation days are calendar dates (midnight UTC); each unit's day runs from midnight to midnight
+// in its own time zone, and "today" is the date in the scheduler's zone (DEFAULT_TIMEZONE)
+const today = () => getZonedDate(new Date(), getDefaultTimeZone());
+
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * DAY_MS);
+
+// Job runs recorded before days were calendar dates hold a local midnight
+const toCalendarDate = (date: Date) => getZonedDate(date, 'UTC');
 
 /**
  * Daily Energy Data Generation Scheduler
- * Runs every day at midnight (00:00) to generate energy records for all active solar units
- * Generates data in data backend and syncs to core backend
+ * Runs every day at midnight (00:00 in DEFAULT_TIMEZONE) to generate energy records for all active solar units
+ * Generates data in data backend and syncs to core backend through webhook events
+ * Every run is recorded as a JobRun; on startup, days missed while the host was asleep are caught up
  */
 export class DataGenerationScheduler {
   private static job: cron.ScheduledTask | null = null;
-  private static coreBackendUrl = process.env.CORE_BACKEND_URL || 'http://localhost:8002';
+  private static model: GenerationModel | null = null;
+
+  /**
+   * Generation model used for new records (GENERATION_MODEL, see createGenerationModel)
+   */
+  static getGenerationModel() {
+    if (!this.model) {
+      this.model = createGenerationModel();
+    }
+    return this.model;
+  }
+
+  /**
+   * Override the configured generation model, e.g. with a seeded one in tests
+   */
+  static setGenerationModel(model: GenerationModel | null) {
+    this.model = model;
+  }
 
   /**
    * Start the scheduler
    */
   static start() {
     if (this.job) {
-      console.log('⚠️  Data generation scheduler already running');
+      logger.warn('Data generation scheduler already running');
       return;
     }
 
-    // Run every day at midnight (00:00)
-    this.job = cron.schedule('0 0 * * *', async () => {
-      console.log('📊 Running daily energy data generation...');
+    // Each run gets its own request id to trace it through logs and calls
+    this.job = cron.schedule(SCHEDULE, () => runWithLogContext({ requestId: randomUUID() }, async () => {
+      logger.info('Running daily energy data generation');
       try {
-        await this.generateDailyData();
-        console.log('✅ Daily energy data generation completed');
+        await this.runDailyGeneration(today(), 'schedule');
+        logger.info('Daily energy data generation completed');
       } catch (error: any) {
-        console.error('❌ Daily energy data generation failed:', error.message);
+        logger.error('Daily energy data generation failed', { error });
       }
+    }), { timezone: getDefaultTimeZone() });
+
+    logger.info('Data generation scheduler started', { schedule: SCHEDULE, timezone: getDefaultTimeZone() });
+
+    runWithLogContext({ requestId: randomUUID() }, () => this.catchUpMissedDays()).catch((error: any) => {
+      logger.error('Catch-up of missed days failed', { error });
     });
+  }
 
-    console.log('📅 Starting daily data generation scheduler...');
-    console.log('✅ Data generation scheduler started (runs daily at 00:00)');
+  /**
+   * Whether the daily job is scheduled in this process, with its cron expression and time zone
+   */
+  static getState() {
+    return { running: this.job !== null, schedule: SCHEDULE, timezone: getDefaultTimeZone() };
   }
 
   /**
@@ -42,181 +95,282 @@ export class DataGenerationScheduler {
     if (this.job) {
       this.job.stop();
       this.job = null;
-      console.log('🛑 Data generation scheduler stopped');
+      logger.info('Data generation scheduler stopped');
     }
   }
 
   /**
-   * Generate energy records for all active solar units for today
+   * Generate one day of records as a tracked job run
+   * Returns null when another instance is already generating that day
    */
-  static async generateDailyData() {
-    try {
-      // Get all active solar units from core backend (using test endpoint - no auth required)
-      const response = await axios.get(`${this.coreBackendUrl}/api/solar-units/test`, {
-        params: { status: 'ACTIVE' }
+  static async runDailyGeneration(date: Date, trigger: JobTrigger) {
+    return this.runGenerationJob(date, trigger, (reportProgress) => this.generateDailyData(date, reportProgress));
+  }
+
+  /**
+   * Run a generation task as a job and announce its outcome (generation.completed)
+   */
+  private static async runGenerationJob(
+    date: Date,
+    trigger: JobTrigger,
+    task: (reportProgress: ReportProgress) => Promise<JobResult>
+  ) {
+    const jobRun = await JobRunner.run({ type: 'daily-generation', targetDate: date, trigger }, task);
+    generationRuns.inc({ trigger, status: jobRun?.status ?? 'skipped' });
+    if (jobRun?.finishedAt) {
+      generationRunDuration.observe(
+        { trigger, status: jobRun.status },
+        (jobRun.finishedAt.getTime() - jobRun.startedAt.getTime()) / 1000
+      );
+    }
+    if (jobRun) {
+      await publishEvent('generation.completed', {
+        jobRunId: String(jobRun._id),
+        targetDate: jobRun.targetDate,
+        trigger: jobRun.trigger,
+        status: jobRun.status,
+        unitsProcessed: jobRun.unitsProcessed,
+        recordsInserted: jobRun.recordsInserted,
+        failures: jobRun.failures,
       });
-      
-      const solarUnits = response.data;
-      console.log(`   Found ${solarUnits.length} active solar units`);
+    }
+    return jobRun;
+  }
 
-      if (solarUnits.length === 0) {
-        console.log('   No active solar units found');
-        return;
+  /**
+   * Generate every day since the last successful run that has no successful run of its own
+   * Looks back at most CATCH_UP_MAX_DAYS days (default 30)
+   */
+  static async catchUpMissedDays() {
+    const failedStale = await JobRunner.failStaleRuns();
+    if (failedStale > 0) {
+      logger.warn('Marked interrupted job runs as failed', { count: failedStale });
+    }
+
+    const lastDay = today();
+    const maxDays = Number(process.env.CATCH_UP_MAX_DAYS) || 30;
+    const earliest = addDays(lastDay, -(maxDays - 1));
+
+    const lastSuccess = await JobRun.findOne({ type: 'daily-generation', status: 'succeeded' })
+      .sort({ targetDate: -1 });
+    let date = lastSuccess ? addDays(toCalendarDate(lastSuccess.targetDate), 1) : lastDay;
+    if (date < earliest) {
+      date = earliest;
+    }
+
+    const succeeded = await JobRun.find({
+      type: 'daily-generation',
+      status: 'succeeded',
+      targetDate: { $gte: date },
+    }).distinct('targetDate');
+    const succeededDays = succeeded.map((targetDate: Date) => toCalendarDate(targetDate).getTime());
+
+    const missedDays: Date[] = [];
+    for (; date <= lastDay; date = addDays(date, 1)) {
+      if (!succeededDays.includes(date.getTime())) {
+        missedDays.push(date);
       }
+    }
+
+    if (missedDays.length === 0) {
+      logger.info('No missed generation days');
+      return [];
+    }
 
-      const today = new Date();
-      today.setHours(0, 0, 0, 0); // Start of today
-
-      // Generate records for each solar unit
-      for (const unit of solarUnits) {
-        try {
-          await this.generateRecordsForUnit(unit, today);
-        } catch (error: any) {
-          const displayName = unit?.name || unit?.serialNumber || unit?._id;
-          console.error(`   Error generating data for unit ${displayName}:`, error.message);
-        }
+    logger.info('Catching up missed generation days', { count: missedDays.length });
+    const jobRuns = [];
+    for (const day of missedDays) {
+      logger.info('Generating data for missed day', { date: day.toISOString().slice(0, 10) });
+      jobRuns.push(await this.runDailyGeneration(day, 'catch-up'));
+    }
+    return jobRuns;
+  }
+
+  /**
+   * Generate energy records for all active solar units for a day (today by default)
+   * Progress is reported after every unit, which also renews the job's lease
+   */
+  static async generateDailyData(date: Date = today(), reportProgress?: ReportProgress): Promise<JobResult> {
+    try {
+      // Get all active solar units from the configured source (SOLAR_UNIT_PROVIDER)
+      const solarUnits = await getSolarUnitProvider().getActiveSolarUnits();
+      logger.info('Found active solar units', { count: solarUnits.length });
+
+      if (solarUnits.length === 0) {
+        return { unitsProcessed: 0, recordsInserted: 0, failures: [] };
       }
 
-      console.log('   Data generation completed for all units');
+      const result = await this.generateForUnits(solarUnits, date, reportProgress);
+      logger.info('Data generation completed for all units', { date: date.toISOString().slice(0, 10) });
+      return result;
     } catch (error: any) {
-      console.error('   Error in generateDailyData:', error.message);
+      logger.error('Daily data generation failed', { date: date.toISOString().slice(0, 10), error });
       throw error;
     }
   }
 
   /**
-   * Generate energy records for a specific solar unit for a given day
-   * Creates 12 records (one every 2 hours)
+   * Generate a day of records for each unit, collecting per-unit failures and reporting progress after each
    */
-  private static async generateRecordsForUnit(unit: any, date: Date) {
-    const capacity = unit.capacity || 5000; // Default 5kW if not set
-    const serialNumber = unit.serialNumber;
-    const records = [];
+  private static async generateForUnits(
+    solarUnits: SolarUnit[],
+    date: Date,
+    reportProgress?: ReportProgress
+  ): Promise<JobResult> {
+    const result: JobResult = { unitsProcessed: 0, recordsInserted: 0, failures: [] };
 
-    // Generate 12 records (every 2 hours: 00:00, 02:00, 04:00, ..., 22:00)
-    for (let hour = 0; hour < 24; hour += 2) {
-      const timestamp = new Date(date);
-      timestamp.setHours(hour, 0, 0, 0);
+    for (let index = 0; index < solarUnits.length; index++) {
+      const unit = solarUnits[index];
+      try {
+        result.recordsInserted += await this.generateRecordsForUnit(unit, date);
+        result.unitsProcessed++;
+      } catch (error: any) {
+        logger.error('Could not generate data for unit', { serialNumber: unit.serialNumber, error });
+        result.failures.push({ serialNumber: unit.serialNumber, message: error.message });
+      }
+      await reportProgress?.({ ...result, completed: index + 1, total: solarUnits.length });
+    }
 
-      // Calculate realistic energy generation based on time of day
-      const energyGenerated = this.calculateEnergyGeneration(hour, capacity);
+    return result;
+  }
 
-      records.push({
-        serialNumber,
-        solarUnitId: unit._id,
-        timestamp,
-        energyGenerated,
-        peakPower: energyGenerated > 0 ? energyGenerated * 1.2 : 0, // Peak is ~20% higher
-        efficiency: energyGenerated > 0 ? 85 + Math.random() * 10 : 0, // 85-95% during generation
-        temperature: 25 + Math.random() * 15, // 25-40°C
-      });
-    }
+  /**
+   * Generate energy records for a specific solar unit for a given day (in the unit's time zone)
+   * Creates 12 records (one every 2 hours) and returns how many were inserted
+   * A day that already has records is skipped before anything is generated; readings another
+   * writer stores in the meantime are left alone.
+   */
+  private static async generateRecordsForUnit(unit: SolarUnit, date: Date): Promise<number> {
+    const serialNumber = unit.serialNumber;
+    const timeZone = getUnitTimeZone(unit);
 
     // Check if records for this date already exist
     const existingCount = await EnergyGenerationRecord.countDocuments({
       serialNumber,
       timestamp: {
-        $gte: date,
-        $lt: new Date(date.getTime() + 24 * 60 * 60 * 1000),
+        $gte: startOfDateInZone(date, timeZone),
+        $lt: startOfDateInZone(date, timeZone, 1),
       },
     });
 
     if (existingCount > 0) {
-      const displayName = unit?.name || unit?.serialNumber || unit?._id;
-      const dateStr = date.toDateString();
-      console.log(`   ⏭️  Skipping unit ${displayName} - data already exists for ${dateStr}`);
-      return;
+      logger.info('Skipping unit, data already exists', { serialNumber, date: date.toISOString().slice(0, 10) });
+      return 0;
     }
 
-    // Insert all records
-    await EnergyGenerationRecord.insertMany(records);
-    const displayName = unit?.name || unit?.serialNumber || unit?._id;
-    console.log(`   ✅ Generated ${records.length} records for unit: ${displayName}`);
+    const records = await this.generateReadings(unit, this.getIntervalStarts(date, timeZone), 2);
+    const insertedIds = Object.values(await insertNewReadings(records, 'generation'));
+    if (insertedIds.length > 0) {
+      const inserted = await EnergyGenerationRecord.find({ _id: { $in: insertedIds } }).sort({ timestamp: 1 }).lean();
+      await publishEvent('records.created', { source: 'generation', serialNumber, records: inserted });
+    }
+    logger.info('Generated records for unit', { serialNumber, records: insertedIds.length });
+    return insertedIds.length;
   }
 
   /**
-   * Calculate realistic energy generation based on hour of day
-   * Simulates solar generation pattern (0 at night, peak at noon)
+   * Start of each generated interval of a calendar date: 12 records, every 2 hours
+   * (00:00, 02:00, ..., 22:00 wall-clock time in the zone; an hour skipped by DST moves forward)
    */
-  private static calculateEnergyGeneration(hour: number, capacity: number): number {
-    // No generation at night (10 PM - 6 AM)
-    if (hour >= 22 || hour < 6) {
-      return 0;
+  static getIntervalStarts(date: Date, timeZone: string) {
+    const timestamps = [];
+    for (let hour = 0; hour < 24; hour += 2) {
+      timestamps.push(
+        zonedTimeToUtc(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate(), hour, 0, timeZone)
+      );
     }
+    return timestamps;
+  }
 
-    // Morning ramp up (6 AM - 12 PM)
-    if (hour >= 6 && hour < 12) {
-      const factor = (hour - 6) / 6; // 0 to 1
-      const baseGeneration = capacity * 0.7 * factor; // Up to 70% of capacity
-      const variation = Math.random() * 0.2 - 0.1; // ±10% variation
-      return Math.max(0, baseGeneration * (1 + variation));
+  /**
+   * Generate (without storing) one record per interval start for a unit
+   * Intervals overlapping a maintenance window get zero output and are tagged inMaintenance
+   */
+  static async generateReadings(unit: SolarUnit, timestamps: Date[], intervalHours: number = 2) {
+    if (timestamps.length === 0) {
+      return [];
     }
+    const site = this.toGenerationSite(unit);
+    const model = this.getGenerationModel();
+    const records = [];
 
-    // Peak hours (12 PM - 2 PM)
-    if (hour >= 12 && hour < 14) {
-      const baseGeneration = capacity * 0.75; // 75% of capacity at peak
-      const variation = Math.random() * 0.15 - 0.075; // ±7.5% variation
-      return baseGeneration * (1 + variation);
-    }
+    const times = timestamps.map((timestamp) => timestamp.getTime());
+    const maintenance = await findMaintenancePeriods(
+      unit.serialNumber,
+      new Date(Math.min(...times)),
+      new Date(Math.max(...times) + intervalHours * 60 * 60 * 1000)
+    );
 
-    // Afternoon decline (2 PM - 8 PM)
-    if (hour >= 14 && hour < 20) {
-      const factor = 1 - (hour - 14) / 6; // 1 to 0
-      const baseGeneration = capacity * 0.7 * factor;
-      const variation = Math.random() * 0.2 - 0.1; // ±10% variation
-      return Math.max(0, baseGeneration * (1 + variation));
+    for (const timestamp of timestamps) {
+      const reading = await model.generateInterval(site, timestamp, intervalHours);
+      const inMaintenance = isInMaintenance(maintenance, timestamp, intervalHours);
+      records.push({
+        serialNumber: unit.serialNumber,
+        solarUnitId: unit._id,
+        timestamp,
+        intervalHours,
+        ...reading,
+        ...(inMaintenance && { energyGenerated: 0, peakPower: 0, efficiency: 0, inMaintenance }),
+        expectedEnergy: await model.expectedEnergy(site, timestamp, intervalHours),
+      });
     }
+    return records;
+  }
 
-    // Evening decline (8 PM - 10 PM)
-    if (hour >= 20 && hour < 22) {
-      const baseGeneration = capacity * 0.1 * Math.random();
-      return Math.max(0, baseGeneration);
-    }
+  /**
+   * Energy (Wh) the unit should deliver in an interval according to the generation model
+   */
+  static async getExpectedEnergy(unit: SolarUnit, timestamp: Date, intervalHours: number = 2) {
+    return this.getGenerationModel().expectedEnergy(this.toGenerationSite(unit), timestamp, intervalHours);
+  }
 
-    return 0;
+  private static toGenerationSite(unit: SolarUnit): GenerationSite {
+    return {
+      serialNumber: unit.serialNumber,
+      capacity: unit.capacity || 5000, // Default 5kW if not set
+      latitude: unit.latitude,
+      longitude: unit.longitude,
+      tilt: unit.tilt,
+      azimuth: unit.azimuth,
+      timezone: getUnitTimeZone(unit),
+    };
   }
 
   /**
    * Manual trigger for testing - generate data for today
    */
   static async generateTodayData() {
-    console.log('🔄 Manually generating today\'s data...');
-    await this.generateDailyData();
+    logger.info('Manually generating today\'s data');
+    const jobRun = await this.runDailyGeneration(today(), 'manual');
+    if (jobRun?.status === 'failed') {
+      throw new Error(jobRun.failures.map((failure) => failure.message).join('; '));
+    }
+    return jobRun;
   }
 
   /**
    * Generate historical data for past N days (for testing/backfill)
    */
   static async generateHistoricalData(days: number = 7) {
-    console.log(`📚 Generating historical data for past ${days} days...`);
+    logger.info('Generating historical data', { days });
     
     try {
-      const response = await axios.get(`${this.coreBackendUrl}/api/solar-units/test`, {
-        params: { status: 'ACTIVE' }
-      });
-      
-      const solarUnits = response.data;
-      console.log(`   Found ${solarUnits.length} active solar units`);
+      const solarUnits = await getSolarUnitProvider().getActiveSolarUnits();
+      logger.info('Found active solar units', { count: solarUnits.length });
 
       for (let i = 0; i < days; i++) {
-        const date = new Date();
-        date.setDate(date.getDate() - i);
-        date.setHours(0, 0, 0, 0);
-
-        console.log(`   Generating data for ${date.toDateString()}`);
-
-        for (const unit of solarUnits) {
-          try {
-            await this.generateRecordsForUnit(unit, date);
-          } catch (error: any) {
-            console.error(`   Error generating data for unit ${unit._id}:`, error.message);
-          }
-        }
+        const date = addDays(today(), -i);
+
+        logger.info('Generating data for day', { date: date.toISOString().slice(0, 10) });
+
+        await this.runGenerationJob(date, 'manual', (reportProgress) =>
+          this.generateForUnits(solarUnits, date, reportProgress)
+        );
       }
 
-      console.log('✅ Historical data generation completed');
+      logger.info('Historical data generation completed');
     } catch (error: any) {
-      console.error('❌ Error generating historical data:', error.message);
+      logger.error('Historical data generation failed', { error });
       throw error;
     }
   }
@@ -1,15 +1,87 @@
 import mongoose from "mongoose";
+import { logger } from "./logging/logger";
+import { mongoOperationErrors } from "./metrics/metrics";
 
-export const connectDB = async () => {
-  try {
-    console.log("Connecting to MongoDB");
-    const MONGODB_URL = process.env.MONGODB_URL;
-    if (!MONGODB_URL) {
-      throw new Error("MONGODB_URL is not defined");
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const getRetryDelayMs = (attempt: number) =>
+  Math.min(
+    Number(process.env.DB_RETRY_MAX_DELAY_MS) || 30 * 1000,
+    (Number(process.env.DB_RETRY_DELAY_MS) || 1000) * Math.pow(2, attempt - 1)
+  );
+
+/**
+ * Oldest MongoDB server the aggregations support ($dateTrunc, $dateAdd and $dateDiff)
+ */
+export const MIN_MONGODB_VERSION = [5, 0];
+
+const isSupportedVersion = (version: string) => {
+  const [major = 0, minor = 0] = version.split(".").map(Number);
+  const [minMajor, minMinor] = MIN_MONGODB_VERSION;
+  return major > minMajor || (major === minMajor && minor >= minMinor);
+};
+
+// An older server would accept the connection and fail later on the first grouped query
+const assertSupportedServer = async () => {
+  const { version } = await mongoose.connection.db!.admin().serverInfo();
+  if (!isSupportedVersion(version)) {
+    await mongoose.disconnect();
+    throw new Error(`MongoDB ${version} is not supported; ${MIN_MONGODB_VERSION.join(".")} or later is required`);
+  }
+};
+
+let watching = false;
+
+// Command monitoring lets failed operations be counted, whichever model or query issued them;
+// connection drops are only worth logging once a connection was made
+const watchConnection = () => {
+  if (watching) {
+    return;
+  }
+  watching = true;
+  mongoose.connection.getClient().on("commandFailed", (event) => {
+    mongoOperationErrors.inc({ command: event.commandName });
+    logger.warn("MongoDB command failed", { command: event.commandName, reason: event.failure.message });
+  });
+  mongoose.connection.on("disconnected", () => logger.warn("Disconnected from MongoDB"));
+  mongoose.connection.on("reconnected", () => logger.info("Reconnected to MongoDB"));
+};
+
+/**
+ * Connect to MONGODB_URL, retrying with exponential backoff (DB_RETRY_DELAY_MS, default 1s, doubling
+ * up to DB_RETRY_MAX_DELAY_MS, default 30s)
+ * Throws once maxAttempts (DB_CONNECT_ATTEMPTS, default 3) have failed; pass Infinity to keep trying.
+ * Once connected, mongoose itself reconnects after the connection drops.
+ * Servers older than MIN_MONGODB_VERSION are refused straight away.
+ */
+export const connectDB = async (maxAttempts = Number(process.env.DB_CONNECT_ATTEMPTS) || 3) => {
+  const MONGODB_URL = process.env.MONGODB_URL;
+  if (!MONGODB_URL) {
+    throw new Error("MONGODB_URL is not defined");
+  }
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      logger.info("Connecting to MongoDB", { attempt });
+      await mongoose.connect(MONGODB_URL, { monitorCommands: true });
+      break;
+    } catch (error) {
+      if (attempt >= maxAttempts) {
+        logger.error("Could not connect to MongoDB", { attempts: attempt, error });
+        throw error;
+      }
+      const delayMs = getRetryDelayMs(attempt);
+      logger.warn("Could not connect to MongoDB, retrying", { attempt, delayMs, error });
+      await sleep(delayMs);
     }
-    await mongoose.connect(MONGODB_URL);
-    console.log("Connected to MongoDB");
-  } catch (error) {
-    console.log("Error while connecting to MongoDB", error);
   }
+
+  await assertSupportedServer();
+  watchConnection();
+  logger.info("Connected to MongoDB");
 };
+
+// Failed connection attempts are emitted as "error" too, and logged where they are retried
+mongoose.connection.on("error", () => {
+  mongoOperationErrors.inc({ command: "connection" });
+});
@@ -0,0 +1,41 @@
+import 'dotenv/config';
+import mongoose from 'mongoose';
+import { runAnomalyDetection } from '../application/anomaly-detection';
+import { connectDB } from './db';
+import { EnergyGenerationRecord } from './entities/EnergyGenerationRecord';
+
+/**
+ * Run anomaly detection over stored records and save the results
+ * Usage: npm run detect:anomalies [-- SERIAL_NUMBER]
+ */
+async function detectAnomalies() {
+  const serialNumberArg = process.argv[2];
+
+  try {
+    console.log('🔍 Connecting to database...');
+    await connectDB();
+
+    const serialNumbers: string[] = serialNumberArg
+      ? [serialNumberArg]
+      : await EnergyGenerationRecord.distinct('serialNumber');
+
+    for (const serialNumber of serialNumbers) {
+      const anomalies = await runAnomalyDetection(serialNumber);
+      console.log(`\n📟 ${serialNumber}: ${anomalies.length} anomalies`);
+      anomalies.forEach((anomaly) => {
+        console.log(
+          `   [${anomaly.severity}] ${anomaly.type} ${anomaly.windowStart.toISOString()} → ${anomaly.windowEnd.toISOString()} - ${anomaly.description}`
+        );
+      });
+    }
+
+    console.log('\n✅ Anomaly detection completed');
+  } catch (error: any) {
+    console.error('❌ Anomaly detection failed:', error.message);
+    process.exitCode = 1;
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+detectAnomalies();
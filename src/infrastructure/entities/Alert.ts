@@ -0,0 +1,95 @@
+import mongoose from "mongoose";
+import { ALERT_SEVERITIES, ALERT_STATUSES, NOTIFICATION_CHANNEL_TYPES } from "../../domain/types";
+
+/**
+ * An alert raised by a rule for one unit
+ * While it is open or acknowledged it holds the dedupKey "<ruleId>:<serialNumber>", so the rule firing
+ * again updates it instead of raising another one. Resolving clears the key.
+ */
+const alertSchema = new mongoose.Schema({
+  ruleId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "AlertRule",
+    required: true,
+  },
+  ruleName: {
+    type: String,
+  },
+  serialNumber: {
+    type: String,
+    required: true,
+  },
+  dedupKey: {
+    type: String,
+  },
+  status: {
+    type: String,
+    enum: ALERT_STATUSES,
+    default: "open",
+  },
+  severity: {
+    type: String,
+    enum: ALERT_SEVERITIES,
+    required: true,
+  },
+  message: {
+    type: String,
+    required: true,
+  },
+  evidence: {
+    type: mongoose.Schema.Types.Mixed,
+    default: {},
+  },
+  firstTriggeredAt: {
+    type: Date,
+    default: Date.now,
+  },
+  lastTriggeredAt: {
+    type: Date,
+    default: Date.now,
+  },
+  triggerCount: {
+    type: Number,
+    default: 1,
+  },
+  acknowledgedAt: {
+    type: Date,
+  },
+  acknowledgedBy: {
+    type: String,
+  },
+  resolvedAt: {
+    type: Date,
+  },
+  resolvedBy: {
+    type: String,
+  },
+  notifications: [
+    {
+      _id: false,
+      channel: {
+        type: String,
+        enum: NOTIFICATION_CHANNEL_TYPES,
+        required: true,
+      },
+      status: {
+        type: String,
+        enum: ["sent", "failed"],
+        required: true,
+      },
+      error: {
+        type: String,
+      },
+      sentAt: {
+        type: Date,
+        default: Date.now,
+      },
+    },
+  ],
+});
+
+alertSchema.index({ dedupKey: 1 }, { unique: true, sparse: true });
+alertSchema.index({ status: 1, lastTriggeredAt: -1 });
+alertSchema.index({ ruleId: 1, serialNumber: 1, resolvedAt: -1 });
+
+export const Alert = mongoose.model("Alert", alertSchema);
@@ -0,0 +1,81 @@
+import mongoose from "mongoose";
+import { ALERT_CONDITION_TYPES, ALERT_SEVERITIES, NOTIFICATION_CHANNEL_TYPES } from "../../domain/types";
+
+/**
+ * A condition checked against every active unit (or one unit when serialNumber is set)
+ * condition.hours applies to zero-generation and no-data, ratio and baselineDays to low-daily-yield.
+ * After an alert of the rule is resolved, the same unit does not alert again for cooldownMinutes.
+ */
+const alertRuleSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: true,
+  },
+  description: {
+    type: String,
+  },
+  serialNumber: {
+    type: String,
+  },
+  condition: {
+    type: {
+      type: String,
+      enum: ALERT_CONDITION_TYPES,
+      required: true,
+    },
+    hours: {
+      type: Number,
+    },
+    ratio: {
+      type: Number,
+    },
+    baselineDays: {
+      type: Number,
+    },
+  },
+  severity: {
+    type: String,
+    enum: ALERT_SEVERITIES,
+    default: "warning",
+  },
+  channels: [
+    {
+      _id: false,
+      type: {
+        type: String,
+        enum: NOTIFICATION_CHANNEL_TYPES,
+        required: true,
+      },
+      url: {
+        type: String,
+      },
+      secret: {
+        type: String,
+      },
+      to: {
+        type: [String],
+        default: undefined,
+      },
+    },
+  ],
+  cooldownMinutes: {
+    type: Number,
+    default: 60,
+    min: 0,
+  },
+  enabled: {
+    type: Boolean,
+    default: true,
+  },
+  lastEvaluatedAt: {
+    type: Date,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+alertRuleSchema.index({ enabled: 1 });
+
+export const AlertRule = mongoose.model("AlertRule", alertRuleSchema);
@@ -0,0 +1,48 @@
+import mongoose from "mongoose";
+import { ANOMALY_SEVERITIES, ANOMALY_TYPES } from "../../domain/types";
+
+/**
+ * An anomaly found in a solar unit's generation series.
+ * The window covers the affected intervals; evidence holds the numbers the detector used.
+ */
+const anomalySchema = new mongoose.Schema({
+  serialNumber: {
+    type: String,
+    required: true,
+  },
+  type: {
+    type: String,
+    enum: ANOMALY_TYPES,
+    required: true,
+  },
+  severity: {
+    type: String,
+    enum: ANOMALY_SEVERITIES,
+    required: true,
+  },
+  windowStart: {
+    type: Date,
+    required: true,
+  },
+  windowEnd: {
+    type: Date,
+    required: true,
+  },
+  description: {
+    type: String,
+  },
+  evidence: {
+    type: mongoose.Schema.Types.Mixed,
+    default: {},
+  },
+  detectedAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+// Re-running detection updates an anomaly instead of duplicating it
+anomalySchema.index({ serialNumber: 1, type: 1, windowStart: 1 }, { unique: true });
+anomalySchema.index({ serialNumber: 1, windowStart: 1, windowEnd: 1 });
+
+export const Anomaly = mongoose.model("Anomaly", anomalySchema);
@@ -0,0 +1,81 @@
+import mongoose from "mongoose";
+
+/**
+ * Per-unit totals for one day in the unit's time zone (date is the instant it begins, so a DST day
+ * covers 23 or 25 hours), maintained from EnergyGenerationRecord as records are inserted
+ * Energy is in Wh and referenceIrradiation (clear-sky irradiation on the panel over the
+ * recorded intervals) in Wh/m². Temperature and efficiency are kept as sums and counts so they can be averaged.
+ * maintenanceHours covers intervals in maintenance windows, which are left out of the daylight intervals and the reference.
+ * Only days that have ended are stored; the current day, and a day without a document, are computed from the raw records when read.
+ */
+const dailyEnergySummarySchema = new mongoose.Schema({
+  serialNumber: {
+    type: String,
+    required: true,
+  },
+  date: {
+    type: Date,
+    required: true,
+  },
+  energy: {
+    type: Number,
+    default: 0,
+  },
+  recordCount: {
+    type: Number,
+    default: 0,
+  },
+  coveredHours: {
+    type: Number,
+    default: 0,
+  },
+  peakPower: {
+    type: Number,
+  },
+  peak: {
+    _id: false,
+    timestamp: Date,
+    energyGenerated: Number,
+    peakPower: Number,
+  },
+  daylightIntervals: {
+    type: Number,
+    default: 0,
+  },
+  productiveIntervals: {
+    type: Number,
+    default: 0,
+  },
+  referenceIrradiation: {
+    type: Number,
+    default: 0,
+  },
+  temperatureSum: {
+    type: Number,
+    default: 0,
+  },
+  temperatureCount: {
+    type: Number,
+    default: 0,
+  },
+  efficiencySum: {
+    type: Number,
+    default: 0,
+  },
+  efficiencyCount: {
+    type: Number,
+    default: 0,
+  },
+  maintenanceHours: {
+    type: Number,
+    default: 0,
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+dailyEnergySummarySchema.index({ serialNumber: 1, date: 1 }, { unique: true });
+
+export const DailyEnergySummary = mongoose.model("DailyEnergySummary", dailyEnergySummarySchema);
@@ -0,0 +1,34 @@
+import mongoose from "mongoose";
+
+/**
+ * API key of a physical device (inverter/logger) allowed to post readings for one solar unit
+ * Only a SHA-256 hash of the key is stored.
+ */
+const deviceKeySchema = new mongoose.Schema({
+  serialNumber: {
+    type: String,
+    required: true,
+  },
+  name: {
+    type: String,
+  },
+  keyHash: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+  lastUsedAt: {
+    type: Date,
+  },
+  revokedAt: {
+    type: Date,
+  },
+});
+
+deviceKeySchema.index({ serialNumber: 1 });
+
+export const DeviceKey = mongoose.model("DeviceKey", deviceKeySchema);
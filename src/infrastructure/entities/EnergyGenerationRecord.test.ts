@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { EnergyGenerationRecord } from "./EnergyGenerationRecord";
+
+const reading = {
+  serialNumber: " SU-0001 ",
+  timestamp: new Date("2025-12-01T06:00:00Z"),
+  energyGenerated: 820,
+};
+
+describe("EnergyGenerationRecord", () => {
+  it("stores the telemetry of a reading", () => {
+    const record = new EnergyGenerationRecord({ ...reading, peakPower: 1450, efficiency: 18.2, temperature: 34.5 });
+
+    expect(record.validateSync()).toBeUndefined();
+    expect(record.toObject()).toMatchObject({
+      serialNumber: "SU-0001",
+      energyGenerated: 820,
+      intervalHours: 2,
+      peakPower: 1450,
+      efficiency: 18.2,
+      temperature: 34.5,
+    });
+  });
+
+  it("leaves telemetry that was not measured empty", () => {
+    const record = new EnergyGenerationRecord(reading);
+
+    expect(record.validateSync()).toBeUndefined();
+    expect(record.peakPower).toBeUndefined();
+    expect(record.efficiency).toBeUndefined();
+    expect(record.temperature).toBeUndefined();
+  });
+
+  it.each([
+    ["energyGenerated", { energyGenerated: -1 }],
+    ["intervalHours", { intervalHours: 0 }],
+    ["intervalHours", { intervalHours: 25 }],
+    ["peakPower", { peakPower: -5 }],
+    ["efficiency", { efficiency: 101 }],
+    ["temperature", { temperature: -60 }],
+  ])("rejects an out of range %s", (field, values) => {
+    const error = new EnergyGenerationRecord({ ...reading, ...values }).validateSync();
+
+    expect(Object.keys(error?.errors ?? {})).toEqual([field]);
+  });
+
+  it("keeps one reading per unit and interval", () => {
+    expect(EnergyGenerationRecord.schema.indexes()).toContainEqual([
+      { serialNumber: 1, timestamp: 1 },
+      expect.objectContaining({ unique: true }),
+    ]);
+  });
+});
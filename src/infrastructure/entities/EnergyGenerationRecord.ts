@@ -1,13 +1,25 @@
 import mongoose from "mongoose";
 
+/**
+ * Telemetry for one generation interval of a solar unit.
+ * Energy is in Wh for the interval, power in W, efficiency in percent and temperature in °C.
+ * expectedEnergy is what a healthy unit should have produced, fixed when the record is stored
+ * so performance comparisons do not shift when the generation model changes.
+ * inMaintenance marks intervals that overlap a maintenance window; KPIs and anomaly detection leave them out.
+ */
 const energyGenerationRecordSchema = new mongoose.Schema({
   serialNumber: {
     type: String,
     required: true,
+    trim: true,
+  },
+  solarUnitId: {
+    type: String,
   },
   energyGenerated: {
     type: Number,
     required: true,
+    min: 0,
   },
   timestamp: {
     type: Date,
@@ -19,8 +31,33 @@ const energyGenerationRecordSchema = new mongoose.Schema({
     min: 0.1,
     max: 24,
   },
+  peakPower: {
+    type: Number,
+    min: 0,
+  },
+  efficiency: {
+    type: Number,
+    min: 0,
+    max: 100,
+  },
+  temperature: {
+    type: Number,
+    min: -50,
+    max: 100,
+  },
+  expectedEnergy: {
+    type: Number,
+    min: 0,
+  },
+  inMaintenance: {
+    type: Boolean,
+  },
 });
 
+// One reading per unit and interval; also serves every per-unit time range query
+energyGenerationRecordSchema.index({ serialNumber: 1, timestamp: 1 }, { unique: true });
+energyGenerationRecordSchema.index({ solarUnitId: 1, timestamp: 1 });
+
 export const EnergyGenerationRecord = mongoose.model(
   "EnergyGenerationRecord",
   energyGenerationRecordSchema
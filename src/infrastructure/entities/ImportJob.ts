@@ -0,0 +1,63 @@
+import mongoose from "mongoose";
+import { IMPORT_FORMATS, IMPORT_SOURCES, IMPORT_STATUSES } from "../../domain/types";
+
+/**
+ * One import of historical readings from a CSV or NDJSON file
+ * Counters are updated after every batch, so a running import shows its progress.
+ */
+const importJobSchema = new mongoose.Schema({
+  fileName: {
+    type: String,
+  },
+  format: {
+    type: String,
+    enum: IMPORT_FORMATS,
+    required: true,
+  },
+  source: {
+    type: String,
+    enum: IMPORT_SOURCES,
+    required: true,
+  },
+  mapping: {
+    type: mongoose.Schema.Types.Mixed,
+  },
+  defaultSerialNumber: {
+    type: String,
+  },
+  status: {
+    type: String,
+    enum: IMPORT_STATUSES,
+    default: "running",
+  },
+  startedAt: {
+    type: Date,
+    default: Date.now,
+  },
+  finishedAt: {
+    type: Date,
+  },
+  totalRows: {
+    type: Number,
+    default: 0,
+  },
+  accepted: {
+    type: Number,
+    default: 0,
+  },
+  duplicates: {
+    type: Number,
+    default: 0,
+  },
+  rejected: {
+    type: Number,
+    default: 0,
+  },
+  errorMessage: {
+    type: String,
+  },
+});
+
+importJobSchema.index({ startedAt: -1 });
+
+export const ImportJob = mongoose.model("ImportJob", importJobSchema);
@@ -0,0 +1,27 @@
+import mongoose from "mongoose";
+
+/**
+ * A row rejected by an import, kept for the downloadable error report
+ */
+const importRowErrorSchema = new mongoose.Schema({
+  importId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "ImportJob",
+    required: true,
+  },
+  line: {
+    type: Number,
+    required: true,
+  },
+  reason: {
+    type: String,
+    required: true,
+  },
+  raw: {
+    type: String,
+  },
+});
+
+importRowErrorSchema.index({ importId: 1, line: 1 });
+
+export const ImportRowError = mongoose.model("ImportRowError", importRowErrorSchema);
@@ -0,0 +1,21 @@
+import mongoose from "mongoose";
+
+/**
+ * Short-lived lock so only one instance runs a given job at a time
+ * _id is the lease key, e.g. "daily-generation:2025-12-01".
+ */
+const jobLeaseSchema = new mongoose.Schema({
+  _id: {
+    type: String,
+  },
+  owner: {
+    type: String,
+    required: true,
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+});
+
+export const JobLease = mongoose.model("JobLease", jobLeaseSchema);
@@ -0,0 +1,77 @@
+import mongoose from "mongoose";
+import { JOB_STATUSES, JOB_TRIGGERS, JOB_TYPES } from "../../domain/types";
+
+/**
+ * One execution of a background job (e.g. generating a day of records or a backfill)
+ * Long jobs report progress; heartbeatAt tells a live run from one whose instance died.
+ */
+const jobRunSchema = new mongoose.Schema({
+  type: {
+    type: String,
+    enum: JOB_TYPES,
+    required: true,
+  },
+  targetDate: {
+    type: Date,
+    required: true,
+  },
+  status: {
+    type: String,
+    enum: JOB_STATUSES,
+    default: "running",
+  },
+  trigger: {
+    type: String,
+    enum: JOB_TRIGGERS,
+    required: true,
+  },
+  instanceId: {
+    type: String,
+    required: true,
+  },
+  parameters: {
+    type: mongoose.Schema.Types.Mixed,
+  },
+  // x-request-id of the API call that started the run, to find its log lines
+  requestId: {
+    type: String,
+  },
+  progress: {
+    completed: { type: Number, default: 0 },
+    total: { type: Number, default: 0 },
+  },
+  heartbeatAt: {
+    type: Date,
+  },
+  startedAt: {
+    type: Date,
+    default: Date.now,
+  },
+  finishedAt: {
+    type: Date,
+  },
+  unitsProcessed: {
+    type: Number,
+    default: 0,
+  },
+  recordsInserted: {
+    type: Number,
+    default: 0,
+  },
+  recordsDeleted: {
+    type: Number,
+    default: 0,
+  },
+  failures: [
+    {
+      _id: false,
+      serialNumber: String,
+      message: String,
+    },
+  ],
+});
+
+jobRunSchema.index({ type: 1, targetDate: -1, status: 1 });
+jobRunSchema.index({ startedAt: -1 });
+
+export const JobRun = mongoose.model("JobRun", jobRunSchema);
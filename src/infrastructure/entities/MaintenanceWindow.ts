@@ -0,0 +1,42 @@
+import mongoose from "mongoose";
+
+/**
+ * Scheduled downtime of one unit (serialNumber set) or of every unit
+ * Records of intervals overlapping [startsAt, endsAt) are generated with zero output and tagged inMaintenance.
+ * Cancelling sets cancelledAt: before startsAt the window never applies, later it ends the window early.
+ */
+const maintenanceWindowSchema = new mongoose.Schema({
+  serialNumber: {
+    type: String,
+  },
+  reason: {
+    type: String,
+    required: true,
+  },
+  startsAt: {
+    type: Date,
+    required: true,
+  },
+  endsAt: {
+    type: Date,
+    required: true,
+  },
+  createdBy: {
+    type: String,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+  cancelledAt: {
+    type: Date,
+  },
+  cancelledBy: {
+    type: String,
+  },
+});
+
+maintenanceWindowSchema.index({ serialNumber: 1, endsAt: 1 });
+maintenanceWindowSchema.index({ startsAt: -1 });
+
+export const MaintenanceWindow = mongoose.model("MaintenanceWindow", maintenanceWindowSchema);
@@ -0,0 +1,77 @@
+import mongoose from "mongoose";
+
+/**
+ * Per-unit totals for one calendar month in the unit's time zone (month is the instant it begins),
+ * with the same fields as DailyEnergySummary
+ */
+const monthlyEnergySummarySchema = new mongoose.Schema({
+  serialNumber: {
+    type: String,
+    required: true,
+  },
+  month: {
+    type: Date,
+    required: true,
+  },
+  energy: {
+    type: Number,
+    default: 0,
+  },
+  recordCount: {
+    type: Number,
+    default: 0,
+  },
+  coveredHours: {
+    type: Number,
+    default: 0,
+  },
+  peakPower: {
+    type: Number,
+  },
+  peak: {
+    _id: false,
+    timestamp: Date,
+    energyGenerated: Number,
+    peakPower: Number,
+  },
+  daylightIntervals: {
+    type: Number,
+    default: 0,
+  },
+  productiveIntervals: {
+    type: Number,
+    default: 0,
+  },
+  referenceIrradiation: {
+    type: Number,
+    default: 0,
+  },
+  temperatureSum: {
+    type: Number,
+    default: 0,
+  },
+  temperatureCount: {
+    type: Number,
+    default: 0,
+  },
+  efficiencySum: {
+    type: Number,
+    default: 0,
+  },
+  efficiencyCount: {
+    type: Number,
+    default: 0,
+  },
+  maintenanceHours: {
+    type: Number,
+    default: 0,
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+monthlyEnergySummarySchema.index({ serialNumber: 1, month: 1 }, { unique: true });
+
+export const MonthlyEnergySummary = mongoose.model("MonthlyEnergySummary", monthlyEnergySummarySchema);
@@ -0,0 +1,112 @@
+import mongoose from "mongoose";
+import { isValidTimeZone } from "../../domain/time-zone";
+import { SOLAR_UNIT_STATUSES } from "../../domain/types";
+
+/**
+ * One status change of a unit; previousStatus is null for the status it was registered with
+ */
+const statusChangeSchema = new mongoose.Schema(
+  {
+    status: {
+      type: String,
+      enum: SOLAR_UNIT_STATUSES,
+      required: true,
+    },
+    previousStatus: {
+      type: String,
+      enum: SOLAR_UNIT_STATUSES,
+    },
+    changedAt: {
+      type: Date,
+      required: true,
+    },
+    changedBy: {
+      type: String,
+    },
+    reason: {
+      type: String,
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Local registry of solar units, for running the data API without the core backend
+ * Capacity is in W; latitude, longitude, tilt and azimuth are in degrees; timezone is an IANA zone name.
+ * Its status also holds back units listed by other providers, e.g. while in MAINTENANCE.
+ * decommissionedAt is set once a unit moves to INACTIVE, after which its status is final.
+ */
+const solarUnitSchema = new mongoose.Schema({
+  serialNumber: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true,
+  },
+  name: {
+    type: String,
+  },
+  installationDate: {
+    type: Date,
+    required: true,
+  },
+  capacity: {
+    type: Number,
+    required: true,
+    min: 0,
+  },
+  status: {
+    type: String,
+    enum: SOLAR_UNIT_STATUSES,
+    default: "ACTIVE",
+  },
+  statusHistory: {
+    type: [statusChangeSchema],
+    default: [],
+  },
+  decommissionedAt: {
+    type: Date,
+  },
+  userId: {
+    type: String,
+  },
+  latitude: {
+    type: Number,
+    min: -90,
+    max: 90,
+  },
+  longitude: {
+    type: Number,
+    min: -180,
+    max: 180,
+  },
+  tilt: {
+    type: Number,
+    min: 0,
+    max: 90,
+  },
+  azimuth: {
+    type: Number,
+    min: 0,
+    max: 360,
+  },
+  timezone: {
+    type: String,
+    validate: {
+      validator: isValidTimeZone,
+      message: "timezone must be an IANA time zone",
+    },
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+solarUnitSchema.index({ status: 1 });
+
+export const SolarUnit = mongoose.model("SolarUnit", solarUnitSchema);
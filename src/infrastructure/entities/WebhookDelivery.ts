@@ -0,0 +1,61 @@
+import mongoose from "mongoose";
+import { WEBHOOK_DELIVERY_STATUSES, WEBHOOK_EVENT_TYPES } from "../../domain/types";
+
+/**
+ * Outbox entry: one event to deliver to one subscription
+ * Retried with exponential backoff until delivered or moved to "dead".
+ */
+const webhookDeliverySchema = new mongoose.Schema({
+  subscriptionId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "WebhookSubscription",
+    required: true,
+  },
+  eventId: {
+    type: String,
+    required: true,
+  },
+  eventType: {
+    type: String,
+    enum: WEBHOOK_EVENT_TYPES,
+    required: true,
+  },
+  payload: {
+    type: mongoose.Schema.Types.Mixed,
+    required: true,
+  },
+  status: {
+    type: String,
+    enum: WEBHOOK_DELIVERY_STATUSES,
+    default: "pending",
+  },
+  attempts: {
+    type: Number,
+    default: 0,
+  },
+  nextAttemptAt: {
+    type: Date,
+    default: Date.now,
+  },
+  lockedUntil: {
+    type: Date,
+  },
+  lastStatusCode: {
+    type: Number,
+  },
+  lastError: {
+    type: String,
+  },
+  deliveredAt: {
+    type: Date,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+webhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+webhookDeliverySchema.index({ subscriptionId: 1, createdAt: -1 });
+
+export const WebhookDelivery = mongoose.model("WebhookDelivery", webhookDeliverySchema);
@@ -0,0 +1,34 @@
+import mongoose from "mongoose";
+import { WEBHOOK_EVENT_TYPES } from "../../domain/types";
+
+/**
+ * An endpoint that receives signed event deliveries
+ * The secret signs each delivery (HMAC-SHA256) so the receiver can verify it.
+ */
+const webhookSubscriptionSchema = new mongoose.Schema({
+  url: {
+    type: String,
+    required: true,
+  },
+  secret: {
+    type: String,
+    required: true,
+  },
+  events: {
+    type: [{ type: String, enum: WEBHOOK_EVENT_TYPES }],
+    required: true,
+  },
+  description: {
+    type: String,
+  },
+  active: {
+    type: Boolean,
+    default: true,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+export const WebhookSubscription = mongoose.model("WebhookSubscription", webhookSubscriptionSchema);
@@ -0,0 +1,129 @@
+import { AnomalyType } from "../../domain/types";
+import { GenerationModel, GenerationSite } from "./generation-model";
+import { Random } from "./random";
+
+export type AnomalySeedRecord = {
+  serialNumber: string;
+  timestamp: Date;
+  intervalHours: number;
+  energyGenerated: number;
+  [field: string]: unknown;
+};
+
+type AnomalyPattern = {
+  type: AnomalyType;
+  date?: string;
+  dateRange?: { start: string; end: string };
+  startHour?: number;
+  endHour?: number;
+  nightOnly?: boolean;
+  apply: (record: AnomalySeedRecord, random: Random) => AnomalySeedRecord;
+};
+
+// Anomaly pattern definitions
+export const ANOMALY_PATTERNS: AnomalyPattern[] = [
+  // Zero Generation - simulate 4-hour outage on Dec 1, 2025
+  {
+    type: "ZERO_GENERATION",
+    date: "2025-12-01",
+    startHour: 10,
+    endHour: 14,
+    apply: (record) => ({ ...record, energyGenerated: 0 }),
+  },
+  // Sudden Drop - 70% reduction on Dec 5, 2025 for 6 hours
+  {
+    type: "SUDDEN_DROP",
+    date: "2025-12-05",
+    startHour: 9,
+    endHour: 15,
+    apply: (record) => ({ ...record, energyGenerated: Math.round(record.energyGenerated * 0.3) }),
+  },
+  // Capacity Factor - consistently low output for a week (Dec 10-16)
+  {
+    type: "CAPACITY_FACTOR",
+    dateRange: { start: "2025-12-10", end: "2025-12-16" },
+    apply: (record) => ({ ...record, energyGenerated: Math.round(record.energyGenerated * 0.4) }),
+  },
+  // Irregular Pattern - random spikes on Dec 8
+  {
+    type: "IRREGULAR_PATTERN",
+    date: "2025-12-08",
+    apply: (record, random) => {
+      const spike = random() > 0.5 ? 2.5 : 0.4; // Random spike or drop
+      return { ...record, energyGenerated: Math.round(record.energyGenerated * spike) };
+    },
+  },
+  // Nighttime generation error on Dec 3
+  {
+    type: "IRREGULAR_PATTERN_NIGHT",
+    date: "2025-12-03",
+    nightOnly: true,
+    apply: (record, random) => ({ ...record, energyGenerated: 50 + random() * 100 }),
+  },
+];
+
+const appliesTo = (pattern: AnomalyPattern, dateString: string, hour: number) => {
+  // Check date-based patterns
+  if (pattern.date && dateString === pattern.date) {
+    if (pattern.startHour !== undefined && pattern.endHour !== undefined) {
+      return hour >= pattern.startHour && hour < pattern.endHour;
+    }
+    if (pattern.nightOnly) {
+      return hour < 6 || hour > 20;
+    }
+    return true;
+  }
+
+  // Check date range patterns
+  return !!pattern.dateRange && dateString >= pattern.dateRange.start && dateString <= pattern.dateRange.end;
+};
+
+// 500 W keeps values on the scale of the original seed data
+const DEFAULT_SITE: GenerationSite = { serialNumber: "SU-TEST-2024", capacity: 500 };
+
+/**
+ * 2-hour readings from Aug 1 to Dec 20, 2025 with ANOMALY_PATTERNS applied (in UTC hours)
+ * The model draws the base readings and random the pattern noise, so both seeded give the same dataset.
+ */
+export const buildAnomalySeedRecords = async (
+  model: GenerationModel,
+  random: Random,
+  site: GenerationSite = DEFAULT_SITE
+) => {
+  const { serialNumber } = site;
+  const records: AnomalySeedRecord[] = [];
+  const startDate = new Date("2025-08-01T08:00:00Z");
+  const endDate = new Date("2025-12-20T08:00:00Z"); // Extended to include anomaly dates
+
+  let currentDate = new Date(startDate);
+  let anomalyRecords = 0;
+
+  while (currentDate <= endDate) {
+    const hour = currentDate.getUTCHours();
+    const dateString = currentDate.toISOString().split("T")[0];
+
+    // Base energy from the configured generation model (GENERATION_MODEL)
+    const reading = await model.generateInterval(site, currentDate, 2);
+
+    let record: AnomalySeedRecord = {
+      serialNumber,
+      timestamp: new Date(currentDate),
+      intervalHours: 2,
+      ...reading,
+    };
+
+    // Apply only the first matching pattern
+    const pattern = ANOMALY_PATTERNS.find((candidate) => appliesTo(candidate, dateString, hour));
+    if (pattern) {
+      record = pattern.apply(record, random);
+      anomalyRecords++;
+    }
+
+    records.push(record);
+
+    // Move to next 2-hour interval
+    currentDate = new Date(currentDate.getTime() + 2 * 60 * 60 * 1000);
+  }
+
+  return { records, anomalyRecords };
+};
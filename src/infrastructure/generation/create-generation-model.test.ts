@@ -0,0 +1,114 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { createGenerationModel, GenerationModelConfig, getDefaultLocation } from "./create-generation-model";
+import { GenerationSite } from "./generation-model";
+
+const site: GenerationSite = {
+  serialNumber: "SU-0001",
+  capacity: 5000,
+  latitude: 6.93,
+  longitude: 79.85,
+  tilt: 10,
+  azimuth: 180,
+  timezone: "Asia/Colombo",
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Three days of 2-hour readings
+const generateReadings = async (config: GenerationModelConfig) => {
+  const model = createGenerationModel(config);
+  const start = Date.UTC(2025, 5, 1);
+  const readings = [];
+  for (let time = start; time < start + 3 * 24 * HOUR_MS; time += 2 * HOUR_MS) {
+    readings.push(await model.generateInterval(site, new Date(time), 2));
+  }
+  return readings;
+};
+
+describe.each<GenerationModelConfig>([
+  { model: "simple" },
+  { model: "physics", weather: "none" },
+  { model: "physics", weather: "synthetic" },
+])("createGenerationModel(%o)", (config) => {
+  it("gives the same readings for the same seed", async () => {
+    const first = await generateReadings({ ...config, seed: "determinism" });
+    const second = await generateReadings({ ...config, seed: "determinism" });
+
+    expect(second).toEqual(first);
+    expect(first.some((reading) => reading.energyGenerated > 0)).toBe(true);
+  });
+
+  it("gives different readings for another seed", async () => {
+    const first = await generateReadings({ ...config, seed: "determinism" });
+    const other = await generateReadings({ ...config, seed: "another-seed" });
+
+    expect(other).not.toEqual(first);
+  });
+});
+
+describe("physics model", () => {
+  // One day of hourly readings for the Colombo site, whose solar noon is around 06:38 UTC in June
+  const hourlyReadings = async (model = createGenerationModel({ model: "physics", weather: "none", seed: "solar-day" })) => {
+    const readings = [];
+    for (let hour = 0; hour < 24; hour++) {
+      readings.push(await model.generateInterval(site, new Date(Date.UTC(2025, 5, 1, hour)), 1));
+    }
+    return readings;
+  };
+
+  it("generates nothing at night", async () => {
+    const readings = await hourlyReadings();
+
+    // 13:00-24:00 UTC is 18:30-05:30 in Colombo
+    for (const reading of readings.slice(13)) {
+      expect(reading).toMatchObject({ energyGenerated: 0, peakPower: 0 });
+    }
+  });
+
+  it("peaks in the hour around solar noon", async () => {
+    const readings = await hourlyReadings();
+    const energies = readings.map((reading) => reading.energyGenerated);
+
+    expect(energies.indexOf(Math.max(...energies))).toBe(6);
+    expect(energies[6]).toBeGreaterThan(0.6 * site.capacity);
+  });
+
+  it("generates units without a location with the simple model when no default is set", async () => {
+    const { latitude, longitude, ...unlocated } = site;
+    const physics = createGenerationModel({ model: "physics", weather: "none", seed: "fallback" });
+    const simple = createGenerationModel({ model: "simple", seed: "fallback" });
+    const start = new Date(Date.UTC(2025, 5, 1, 4));
+
+    expect(await physics.generateInterval(unlocated, start, 2)).toEqual(await simple.generateInterval(unlocated, start, 2));
+    expect(await physics.expectedEnergy(unlocated, start, 2)).toBe(await simple.expectedEnergy(unlocated, start, 2));
+  });
+});
+
+describe("default location", () => {
+  afterEach(() => {
+    delete process.env.GENERATION_DEFAULT_LATITUDE;
+    delete process.env.GENERATION_DEFAULT_LONGITUDE;
+  });
+
+  it("places units without a location there", async () => {
+    process.env.GENERATION_DEFAULT_LATITUDE = String(site.latitude);
+    process.env.GENERATION_DEFAULT_LONGITUDE = String(site.longitude);
+    const { latitude, longitude, ...unlocated } = site;
+    const model = createGenerationModel({ model: "physics", weather: "none" });
+    const start = new Date(Date.UTC(2025, 5, 1, 6));
+
+    expect(getDefaultLocation()).toEqual({ latitude: 6.93, longitude: 79.85 });
+    expect(await model.expectedEnergy(unlocated, start, 1)).toBe(await model.expectedEnergy(site, start, 1));
+  });
+
+  it.each([
+    [{ GENERATION_DEFAULT_LATITUDE: "north", GENERATION_DEFAULT_LONGITUDE: "0" }, "GENERATION_DEFAULT_LATITUDE must be a number"],
+    [{ GENERATION_DEFAULT_LATITUDE: "91", GENERATION_DEFAULT_LONGITUDE: "0" }, "GENERATION_DEFAULT_LATITUDE must be between -90 and 90"],
+    [{ GENERATION_DEFAULT_LATITUDE: "0", GENERATION_DEFAULT_LONGITUDE: "-181" }, "GENERATION_DEFAULT_LONGITUDE must be between -180 and 180"],
+    [{ GENERATION_DEFAULT_LATITUDE: "6.93" }, "must be set together"],
+  ])("refuses %o", (env, message) => {
+    Object.assign(process.env, env);
+
+    expect(() => createGenerationModel({ model: "simple" })).toThrow(message);
+  });
+});
@@ -0,0 +1,79 @@
+import { z } from "zod";
+import { GenerationModel } from "./generation-model";
+import { Coordinates, PhysicsGenerationModel } from "./physics-generation-model";
+import { createRandom } from "./random";
+import { SimpleGenerationModel } from "./simple-generation-model";
+import { SyntheticWeatherProvider } from "./weather-provider";
+
+export type GenerationModelConfig = {
+  model?: string;
+  seed?: string;
+  weather?: string;
+};
+
+const coordinate = (name: string, limit: number) =>
+  z.coerce
+    .number({ error: `${name} must be a number` })
+    .min(-limit, `${name} must be between -${limit} and ${limit}`)
+    .max(limit, `${name} must be between -${limit} and ${limit}`)
+    .optional();
+
+const DefaultLocationEnv = z
+  .object({
+    GENERATION_DEFAULT_LATITUDE: coordinate("GENERATION_DEFAULT_LATITUDE", 90),
+    GENERATION_DEFAULT_LONGITUDE: coordinate("GENERATION_DEFAULT_LONGITUDE", 180),
+  })
+  .refine(
+    (env) => (env.GENERATION_DEFAULT_LATITUDE === undefined) === (env.GENERATION_DEFAULT_LONGITUDE === undefined),
+    "GENERATION_DEFAULT_LATITUDE and GENERATION_DEFAULT_LONGITUDE must be set together"
+  );
+
+/**
+ * Location for units without one (GENERATION_DEFAULT_LATITUDE / GENERATION_DEFAULT_LONGITUDE),
+ * undefined when unset; throws when either is not a valid coordinate
+ */
+export const getDefaultLocation = (): Coordinates | undefined => {
+  const result = DefaultLocationEnv.safeParse({
+    GENERATION_DEFAULT_LATITUDE: process.env.GENERATION_DEFAULT_LATITUDE || undefined,
+    GENERATION_DEFAULT_LONGITUDE: process.env.GENERATION_DEFAULT_LONGITUDE || undefined,
+  });
+  if (!result.success) {
+    throw new Error(`Invalid default location: ${result.error.issues.map((issue) => issue.message).join("; ")}`);
+  }
+  const { GENERATION_DEFAULT_LATITUDE: latitude, GENERATION_DEFAULT_LONGITUDE: longitude } = result.data;
+  return latitude !== undefined && longitude !== undefined ? { latitude, longitude } : undefined;
+};
+
+/**
+ * Build the configured generation model
+ * - GENERATION_MODEL: "simple" (default) or "physics"
+ * - GENERATION_SEED: seed for reproducible datasets (random when unset)
+ * - WEATHER_PROVIDER: "none" (default) or "synthetic", physics model only
+ * - GENERATION_DEFAULT_LATITUDE / GENERATION_DEFAULT_LONGITUDE: location for units without one; when unset,
+ *   the physics model generates such units with the simple model
+ * Throws on an unknown model or provider and on an invalid default location.
+ */
+export const createGenerationModel = (config: GenerationModelConfig = {}): GenerationModel => {
+  const model = config.model ?? process.env.GENERATION_MODEL ?? "simple";
+  const seed = config.seed ?? process.env.GENERATION_SEED;
+  const weather = config.weather ?? process.env.WEATHER_PROVIDER ?? "none";
+  const random = createRandom(seed);
+  const defaultLocation = getDefaultLocation();
+
+  if (model === "simple") {
+    return new SimpleGenerationModel(random);
+  }
+
+  if (model === "physics") {
+    if (weather !== "none" && weather !== "synthetic") {
+      throw new Error(`Unknown WEATHER_PROVIDER: ${weather}`);
+    }
+    return new PhysicsGenerationModel({
+      random,
+      weather: weather === "synthetic" ? new SyntheticWeatherProvider(seed) : undefined,
+      defaultLocation,
+    });
+  }
+
+  throw new Error(`Unknown GENERATION_MODEL: ${model}`);
+};
@@ -0,0 +1,33 @@
+/**
+ * What a generation model needs to know about a solar unit
+ * Capacity is the nameplate DC power in W; tilt and azimuth are in degrees
+ * (azimuth 180 = facing south). timezone is the IANA zone of the unit's wall clock (UTC when absent).
+ */
+export type GenerationSite = {
+  serialNumber: string;
+  capacity: number;
+  latitude?: number;
+  longitude?: number;
+  tilt?: number;
+  azimuth?: number;
+  timezone?: string;
+};
+
+/**
+ * Synthetic telemetry for one interval, in the units of EnergyGenerationRecord
+ */
+export type GeneratedReading = {
+  energyGenerated: number;
+  peakPower: number;
+  efficiency: number;
+  temperature: number;
+};
+
+export interface GenerationModel {
+  readonly name: string;
+  generateInterval(site: GenerationSite, start: Date, intervalHours: number): Promise<GeneratedReading>;
+  /**
+   * Energy (Wh) a healthy unit should deliver in the interval: the model without its random variation
+   */
+  expectedEnergy(site: GenerationSite, start: Date, intervalHours: number): Promise<number>;
+}
@@ -0,0 +1,31 @@
+/**
+ * Source of uniform random numbers in [0, 1)
+ */
+export type Random = () => number;
+
+/**
+ * Seedable RNG (mulberry32) so generated datasets are reproducible
+ * Without a seed it falls back to Math.random.
+ */
+export const createRandom = (seed?: number | string): Random => {
+  if (seed === undefined || seed === "") {
+    return Math.random;
+  }
+
+  let state = typeof seed === "number" ? seed >>> 0 : hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const hashSeed = (seed: string) => {
+  let hash = 2166136261;
+  for (let i = 0; i < seed.length; i++) {
+    hash = Math.imul(hash ^ seed.charCodeAt(i), 16777619);
+  }
+  return hash >>> 0;
+};
@@ -0,0 +1,111 @@
+const DEG = Math.PI / 180;
+
+export type SolarPosition = {
+  elevation: number;
+  azimuth: number;
+};
+
+const dayOfYear = (date: Date) =>
+  Math.floor((date.getTime() - Date.UTC(date.getUTCFullYear(), 0, 1)) / (24 * 60 * 60 * 1000)) + 1;
+
+/**
+ * Approximate sun position (degrees) for a UTC instant and location
+ * Uses the Spencer declination and equation-of-time series, accurate to well under a degree.
+ * Azimuth is measured clockwise from north.
+ */
+export const getSolarPosition = (date: Date, latitude: number, longitude: number): SolarPosition => {
+  const gamma = ((2 * Math.PI) / 365) * (dayOfYear(date) - 1 + (date.getUTCHours() - 12) / 24);
+
+  const declination =
+    0.006918 -
+    0.399912 * Math.cos(gamma) +
+    0.070257 * Math.sin(gamma) -
+    0.006758 * Math.cos(2 * gamma) +
+    0.000907 * Math.sin(2 * gamma) -
+    0.002697 * Math.cos(3 * gamma) +
+    0.00148 * Math.sin(3 * gamma);
+
+  const equationOfTime =
+    229.18 *
+    (0.000075 +
+      0.001868 * Math.cos(gamma) -
+      0.032077 * Math.sin(gamma) -
+      0.014615 * Math.cos(2 * gamma) -
+      0.040849 * Math.sin(2 * gamma));
+
+  const utcMinutes = date.getUTCHours() * 60 + date.getUTCMinutes() + date.getUTCSeconds() / 60;
+  const trueSolarMinutes = utcMinutes + equationOfTime + 4 * longitude;
+  const hourAngle = (trueSolarMinutes / 4 - 180) * DEG;
+
+  const lat = latitude * DEG;
+  const cosZenith =
+    Math.sin(lat) * Math.sin(declination) + Math.cos(lat) * Math.cos(declination) * Math.cos(hourAngle);
+  const zenith = Math.acos(Math.min(1, Math.max(-1, cosZenith)));
+
+  const azimuth =
+    Math.atan2(
+      Math.sin(hourAngle),
+      Math.cos(hourAngle) * Math.sin(lat) - Math.tan(declination) * Math.cos(lat)
+    ) /
+      DEG +
+    180;
+
+  return { elevation: 90 - zenith / DEG, azimuth: azimuth % 360 };
+};
+
+/**
+ * Clear-sky irradiance on a tilted panel (W/m²)
+ * Direct beam from the Meinel air-mass model plus an isotropic diffuse share.
+ */
+export const getPlaneOfArrayIrradiance = (
+  position: SolarPosition,
+  tilt: number,
+  panelAzimuth: number
+) => {
+  if (position.elevation <= 0) {
+    return 0;
+  }
+
+  const elevation = position.elevation * DEG;
+  const airMass = 1 / (Math.sin(elevation) + 0.50572 * Math.pow(position.elevation + 6.07995, -1.6364));
+  const directNormal = 1353 * Math.pow(0.7, Math.pow(airMass, 0.678));
+  const diffuseHorizontal = 0.1 * directNormal;
+
+  const cosIncidence =
+    Math.sin(elevation) * Math.cos(tilt * DEG) +
+    Math.cos(elevation) * Math.sin(tilt * DEG) * Math.cos((position.azimuth - panelAzimuth) * DEG);
+
+  const direct = directNormal * Math.max(0, cosIncidence);
+  const diffuse = diffuseHorizontal * ((1 + Math.cos(tilt * DEG)) / 2);
+  return direct + diffuse;
+};
+
+/**
+ * Panel orientation for units that do not report one
+ * Rule of thumb: tilt at latitude, facing the equator.
+ */
+export const getDefaultOrientation = (latitude: number) => ({
+  tilt: Math.abs(latitude),
+  azimuth: latitude >= 0 ? 180 : 0,
+});
+
+/**
+ * Clear-sky irradiation (Wh/m²) on a tilted panel over an interval, integrated in 15-minute steps
+ */
+export const getClearSkyIrradiation = (
+  start: Date,
+  intervalHours: number,
+  latitude: number,
+  longitude: number,
+  tilt: number,
+  panelAzimuth: number
+) => {
+  const steps = Math.max(1, Math.round(intervalHours * 4));
+  const stepHours = intervalHours / steps;
+  let irradiation = 0;
+  for (let step = 0; step < steps; step++) {
+    const time = new Date(start.getTime() + (step + 0.5) * stepHours * 60 * 60 * 1000);
+    irradiation += getPlaneOfArrayIrradiance(getSolarPosition(time, latitude, longitude), tilt, panelAzimuth) * stepHours;
+  }
+  return irradiation;
+};
@@ -0,0 +1,38 @@
+import { createRandom } from "./random";
+
+/**
+ * Cloud cover as a fraction (0 = clear, 1 = overcast) and ambient temperature in °C
+ */
+export type WeatherConditions = {
+  cloudCover: number;
+  ambientTemperature: number;
+};
+
+export interface WeatherProvider {
+  getConditions(latitude: number, longitude: number, time: Date): Promise<WeatherConditions | null>;
+}
+
+/**
+ * Deterministic synthetic weather: one cloud cover value per location and day,
+ * seasonal and diurnal temperature swings. Same seed, same weather.
+ */
+export class SyntheticWeatherProvider implements WeatherProvider {
+  constructor(private readonly seed = "weather") {}
+
+  async getConditions(latitude: number, longitude: number, time: Date): Promise<WeatherConditions> {
+    const day = time.toISOString().slice(0, 10);
+    const random = createRandom(`${this.seed}|${day}|${latitude.toFixed(2)}|${longitude.toFixed(2)}`);
+    // Skewed towards clear days
+    const cloudCover = Math.pow(random(), 2);
+
+    const dayOfYear = (time.getTime() - Date.UTC(time.getUTCFullYear(), 0, 1)) / (24 * 60 * 60 * 1000);
+    // Warmest around early July in the north, early January in the south
+    const season = Math.cos((2 * Math.PI * (dayOfYear - 185)) / 365) * (latitude >= 0 ? 1 : -1);
+    const meanTemperature = 28 - 0.35 * Math.abs(latitude) + season * 0.3 * Math.abs(latitude);
+    // Solar time of day, warmest mid-afternoon
+    const solarHour = (time.getUTCHours() + time.getUTCMinutes() / 60 + longitude / 15 + 24) % 24;
+    const diurnal = -Math.cos((2 * Math.PI * (solarHour - 3)) / 24) * 5 * (1 - cloudCover * 0.6);
+
+    return { cloudCover, ambientTemperature: meanTemperature + diurnal };
+  }
+}
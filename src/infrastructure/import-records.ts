@@ -0,0 +1,99 @@
+import 'dotenv/config';
+import { createReadStream, createWriteStream } from 'fs';
+import mongoose from 'mongoose';
+import path from 'path';
+import { createInterface } from 'readline';
+import { once } from 'events';
+import {
+  IMPORT_ERROR_REPORT_COLUMNS,
+  importRecords,
+  toErrorReportLine,
+} from '../application/record-import';
+import { formatIssues } from '../application/energy-generation-record';
+import { CreateImportQueryDto } from '../domain/dtos/import';
+import { parseArgs } from './cli-args';
+import { connectDB } from './db';
+import { ImportRowError } from './entities/ImportRowError';
+
+const EXTENSION_FORMATS: Record<string, string> = {
+  '.csv': 'csv',
+  '.ndjson': 'ndjson',
+  '.jsonl': 'ndjson',
+};
+
+/**
+ * Import historical readings from a CSV or NDJSON file
+ * Rejected rows are written to an error report next to the file (or to --errors).
+ *
+ * Usage: npm run import -- FILE [--format csv|ndjson] [--serial-number SU-1]
+ *          [--mapping timestamp=Time,energyGenerated=Yield] [--batch-size 500] [--errors report.csv]
+ */
+async function importFile() {
+  const { positional, options } = parseArgs(process.argv.slice(2));
+  const filePath = positional[0];
+  if (!filePath) {
+    console.error('❌ Usage: npm run import -- FILE [--format csv|ndjson] [--serial-number SU-1] [--mapping field=column,...]');
+    process.exitCode = 1;
+    return;
+  }
+
+  const { errors: errorReportPath, ...importOptions } = options;
+  const result = CreateImportQueryDto.safeParse({
+    format: EXTENSION_FORMATS[path.extname(filePath).toLowerCase()],
+    fileName: path.basename(filePath),
+    ...importOptions,
+  });
+  if (!result.success) {
+    console.error('❌ Invalid options:', formatIssues(result.error));
+    process.exitCode = 1;
+    return;
+  }
+  const format = result.data.format;
+  if (!format) {
+    console.error('❌ Cannot tell the format from the file extension; pass --format csv or --format ndjson');
+    process.exitCode = 1;
+    return;
+  }
+
+  try {
+    console.log('🔌 Connecting to database...');
+    await connectDB();
+
+    console.log(`📥 Importing ${filePath} (${format})...`);
+    const lines = createInterface({ input: createReadStream(filePath), crlfDelay: Infinity });
+    const importJob = await importRecords(lines, { ...result.data, format, source: 'cli' });
+    if (!importJob) {
+      throw new Error('Import record disappeared');
+    }
+
+    console.log(`\n📊 Import ${importJob._id}`);
+    console.log(`   Rows:       ${importJob.totalRows}`);
+    console.log(`   Accepted:   ${importJob.accepted}`);
+    console.log(`   Duplicates: ${importJob.duplicates}`);
+    console.log(`   Rejected:   ${importJob.rejected}`);
+
+    if (importJob.rejected > 0) {
+      const reportPath = errorReportPath || `${filePath}.errors.csv`;
+      const report = createWriteStream(reportPath);
+      report.write(`${IMPORT_ERROR_REPORT_COLUMNS.join(',')}\n`);
+      const cursor = ImportRowError.find({ importId: importJob._id }).sort({ line: 1 }).lean().cursor();
+      for (let rowError = await cursor.next(); rowError; rowError = await cursor.next()) {
+        if (!report.write(toErrorReportLine(rowError))) {
+          await once(report, 'drain');
+        }
+      }
+      report.end();
+      await once(report, 'finish');
+      console.log(`\n📝 Rejected rows written to ${reportPath}`);
+    }
+
+    console.log('\n✅ Import completed');
+  } catch (error: any) {
+    console.error('❌ Import failed:', error.message);
+    process.exitCode = 1;
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+importFile();
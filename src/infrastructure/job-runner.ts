@@ -0,0 +1,186 @@
+import { randomBytes } from 'crypto';
+import { hostname } from 'os';
+import { JobTrigger, JobType } from '../domain/types';
+import { JobLease } from './entities/JobLease';
+import { JobRun } from './entities/JobRun';
+import { getLogContext, logger, runWithLogContext } from './logging/logger';
+
+export type JobFailure = {
+  serialNumber?: string;
+  message: string;
+};
+
+export type JobResult = {
+  unitsProcessed: number;
+  recordsInserted: number;
+  recordsDeleted?: number;
+  failures: JobFailure[];
+};
+
+export type JobProgress = Partial<JobResult> & {
+  completed: number;
+  total: number;
+};
+
+export type ReportProgress = (progress: JobProgress) => Promise<void>;
+
+export type JobTask = (reportProgress: ReportProgress, jobRunId: string) => Promise<JobResult>;
+
+export type JobOptions = {
+  type: JobType;
+  targetDate: Date;
+  trigger: JobTrigger;
+  leaseMs?: number;
+  // Defaults to one lease per (type, day)
+  leaseKey?: string;
+  parameters?: Record<string, unknown>;
+};
+
+const DEFAULT_LEASE_MS = 15 * 60 * 1000;
+const DUPLICATE_KEY_ERROR = 11000;
+
+/**
+ * Runs background jobs with a persisted JobRun history
+ * A Mongo-backed lease per (type, day) keeps two instances from running the same job at once.
+ */
+export class JobRunner {
+  static readonly instanceId = `${hostname()}-${process.pid}-${randomBytes(3).toString('hex')}`;
+
+  /**
+   * Try to take the lease; returns false when another live instance holds it
+   */
+  static async acquireLease(key: string, leaseMs = DEFAULT_LEASE_MS) {
+    const now = new Date();
+    try {
+      await JobLease.findOneAndUpdate(
+        { _id: key, $or: [{ expiresAt: { $lt: now } }, { owner: this.instanceId }] },
+        { $set: { owner: this.instanceId, expiresAt: new Date(now.getTime() + leaseMs) } },
+        { upsert: true }
+      );
+      return true;
+    } catch (error: any) {
+      // The lease exists, is unexpired and belongs to someone else
+      if (error?.code === DUPLICATE_KEY_ERROR) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  static async releaseLease(key: string) {
+    await JobLease.deleteOne({ _id: key, owner: this.instanceId });
+  }
+
+  /**
+   * Run a job under its lease and record the outcome
+   * Returns null when another instance is already running it.
+   */
+  static async run(options: JobOptions, task: JobTask) {
+    const started = await this.begin(options);
+    if (!started) {
+      return null;
+    }
+    return this.execute(started.jobRun, started.leaseKey, options, task);
+  }
+
+  /**
+   * Start a job in the background and return its JobRun as soon as it is recorded
+   * Callers follow the run through its progress, heartbeat and final status.
+   * Returns null when another instance is already running it.
+   */
+  static async start(options: JobOptions, task: JobTask) {
+    const started = await this.begin(options);
+    if (!started) {
+      return null;
+    }
+    this.execute(started.jobRun, started.leaseKey, options, task).catch((error: any) => {
+      logger.error('Could not record the outcome of job run', { jobRunId: String(started.jobRun._id), error });
+    });
+    return started.jobRun;
+  }
+
+  private static async begin(options: JobOptions) {
+    const leaseKey = options.leaseKey ?? `${options.type}:${options.targetDate.toISOString().slice(0, 10)}`;
+    if (!(await this.acquireLease(leaseKey, options.leaseMs))) {
+      logger.info('Job is already running on another instance', { leaseKey });
+      return null;
+    }
+
+    const jobRun = await JobRun.create({
+      type: options.type,
+      targetDate: options.targetDate,
+      trigger: options.trigger,
+      instanceId: this.instanceId,
+      parameters: options.parameters,
+      requestId: getLogContext().requestId,
+      heartbeatAt: new Date(),
+    });
+    return { jobRun, leaseKey };
+  }
+
+  private static async execute(
+    jobRun: InstanceType<typeof JobRun>,
+    leaseKey: string,
+    options: JobOptions,
+    task: JobTask
+  ) {
+    // Every progress report also renews the lease, so long jobs keep it past leaseMs
+    const reportProgress: ReportProgress = async ({ completed, total, ...result }) => {
+      jobRun.set({ ...result, progress: { completed, total }, heartbeatAt: new Date() });
+      await jobRun.save();
+      await this.acquireLease(leaseKey, options.leaseMs);
+    };
+
+    const jobRunId = String(jobRun._id);
+    try {
+      // Lines logged by the task carry its run id, next to the id of the request that started it
+      const result = await runWithLogContext({ jobRunId }, () => task(reportProgress, jobRunId));
+      // A run only fails outright when no unit could be processed
+      const failed = result.failures.length > 0 && result.unitsProcessed === 0;
+      jobRun.set({ ...result, status: failed ? 'failed' : 'succeeded', finishedAt: new Date() });
+    } catch (error: any) {
+      logger.error('Job run failed', { jobRunId, type: options.type, error });
+      jobRun.set({
+        status: 'failed',
+        finishedAt: new Date(),
+        failures: [...jobRun.failures, { message: error?.message || String(error) }],
+      });
+    } finally {
+      await jobRun.save();
+      await this.releaseLease(leaseKey);
+    }
+
+    logger.info('Job run finished', {
+      jobRunId,
+      type: options.type,
+      trigger: options.trigger,
+      status: jobRun.status,
+      unitsProcessed: jobRun.unitsProcessed,
+      recordsInserted: jobRun.recordsInserted,
+      failures: jobRun.failures.length,
+    });
+    return jobRun;
+  }
+
+  /**
+   * Mark runs left in "running" by a crashed or sleeping instance as failed
+   * A run is stale once its last heartbeat (its start, for runs without one) is older than olderThanMs.
+   */
+  static async failStaleRuns(olderThanMs = DEFAULT_LEASE_MS) {
+    const cutoff = new Date(Date.now() - olderThanMs);
+    const result = await JobRun.updateMany(
+      {
+        status: 'running',
+        $or: [
+          { heartbeatAt: { $lt: cutoff } },
+          { heartbeatAt: { $exists: false }, startedAt: { $lt: cutoff } },
+        ],
+      },
+      {
+        $set: { status: 'failed', finishedAt: new Date() },
+        $push: { failures: { message: 'Run was interrupted' } },
+      }
+    );
+    return result.modifiedCount;
+  }
+}
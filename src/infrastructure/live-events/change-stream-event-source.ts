@@ -0,0 +1,104 @@
+import mongoose from "mongoose";
+import { Anomaly } from "../entities/Anomaly";
+import { EnergyGenerationRecord } from "../entities/EnergyGenerationRecord";
+import { JobRun } from "../entities/JobRun";
+import { LiveEvent, LiveEventFilter, LiveEventListener, LiveEventSource } from "./live-event-source";
+
+/**
+ * Live events from a MongoDB change stream over the database (replica sets and sharded clusters only)
+ * Event ids are resume tokens, so a client can resume on any instance for as long as the oplog
+ * still holds its Last-Event-ID. Each subscriber gets its own change stream, filtered on the server.
+ */
+export class ChangeStreamLiveEventSource implements LiveEventSource {
+  readonly name = "change-stream";
+
+  private buildPipeline(filter: LiveEventFilter) {
+    const unit = filter.serialNumber ? { "fullDocument.serialNumber": filter.serialNumber } : {};
+    return [
+      {
+        $match: {
+          $or: [
+            { operationType: "insert", "ns.coll": EnergyGenerationRecord.collection.collectionName, ...unit },
+            { operationType: "insert", "ns.coll": Anomaly.collection.collectionName, ...unit },
+            {
+              operationType: "update",
+              "ns.coll": JobRun.collection.collectionName,
+              "fullDocument.type": "daily-generation",
+              "updateDescription.updatedFields.status": { $in: ["succeeded", "failed"] },
+            },
+          ],
+        },
+      },
+    ];
+  }
+
+  private toEvent(change: any): LiveEvent | null {
+    const id = change._id._data as string;
+    const document = change.fullDocument;
+    if (!document) {
+      return null;
+    }
+    switch (change.ns.coll) {
+      case EnergyGenerationRecord.collection.collectionName:
+        return { id, type: "records.created", data: { serialNumber: document.serialNumber, records: [document] } };
+      case Anomaly.collection.collectionName:
+        return { id, type: "anomaly.detected", data: document };
+      case JobRun.collection.collectionName:
+        return {
+          id,
+          type: "generation.completed",
+          data: {
+            jobRunId: String(document._id),
+            targetDate: document.targetDate,
+            trigger: document.trigger,
+            status: document.status,
+            unitsProcessed: document.unitsProcessed,
+            recordsInserted: document.recordsInserted,
+            failures: document.failures,
+          },
+        };
+      default:
+        return null;
+    }
+  }
+
+  async subscribe(filter: LiveEventFilter, lastEventId: string | undefined, listener: LiveEventListener) {
+    let stream: ReturnType<typeof mongoose.connection.watch> | null = null;
+    let closed = false;
+
+    const open = (resumeAfter?: string) => {
+      let received = false;
+      const current = mongoose.connection.watch(this.buildPipeline(filter), {
+        fullDocument: "updateLookup",
+        ...(resumeAfter && { resumeAfter: { _data: resumeAfter } }),
+      });
+      stream = current;
+      current.on("change", (change) => {
+        received = true;
+        const event = this.toEvent(change);
+        if (event) {
+          listener.onEvent(event);
+        }
+      });
+      current.on("error", (error: Error) => {
+        current.close().catch(() => undefined);
+        if (closed) {
+          return;
+        }
+        // An unknown or expired token fails right away; start from now instead
+        if (resumeAfter && !received) {
+          listener.onResync(`Cannot resume after Last-Event-ID: ${error.message}`);
+          open();
+          return;
+        }
+        listener.onError(error);
+      });
+    };
+
+    open(lastEventId);
+    return () => {
+      closed = true;
+      stream?.close().catch(() => undefined);
+    };
+  }
+}
@@ -0,0 +1,57 @@
+import { randomBytes } from "crypto";
+import { EventEmitter } from "events";
+import { LiveEventType } from "../../domain/types";
+import { LiveEvent, LiveEventFilter, LiveEventListener, LiveEventSource, matchesFilter } from "./live-event-source";
+
+// Events kept for clients that reconnect with Last-Event-ID
+const DEFAULT_BUFFER_SIZE = 1000;
+
+/**
+ * Live events published by this process (see publishEvent), kept in a ring buffer for resuming
+ * Clients only see events of the instance they are connected to; ids start over when it restarts,
+ * so the prefix tells a stale Last-Event-ID apart.
+ */
+export class InProcessLiveEventSource implements LiveEventSource {
+  readonly name = "in-process";
+  private readonly prefix = randomBytes(4).toString("hex");
+  private readonly emitter = new EventEmitter();
+  private readonly buffer: LiveEvent[] = [];
+  private sequence = 0;
+
+  constructor(private readonly bufferSize = DEFAULT_BUFFER_SIZE) {
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(type: LiveEventType, data: Record<string, unknown>) {
+    const event = { id: `${this.prefix}-${++this.sequence}`, type, data };
+    this.buffer.push(event);
+    if (this.buffer.length > this.bufferSize) {
+      this.buffer.shift();
+    }
+    this.emitter.emit("event", event);
+  }
+
+  async subscribe(filter: LiveEventFilter, lastEventId: string | undefined, listener: LiveEventListener) {
+    if (lastEventId) {
+      const index = this.buffer.findIndex((event) => event.id === lastEventId);
+      if (index === -1) {
+        listener.onResync("Last-Event-ID is no longer buffered");
+      } else {
+        this.buffer
+          .slice(index + 1)
+          .filter((event) => matchesFilter(filter, event.type, event.data))
+          .forEach((event) => listener.onEvent(event));
+      }
+    }
+
+    const handle = (event: LiveEvent) => {
+      if (matchesFilter(filter, event.type, event.data)) {
+        listener.onEvent(event);
+      }
+    };
+    this.emitter.on("event", handle);
+    return () => {
+      this.emitter.off("event", handle);
+    };
+  }
+}
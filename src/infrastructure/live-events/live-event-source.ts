@@ -0,0 +1,35 @@
+import { LiveEventType } from "../../domain/types";
+
+/**
+ * One event of a live stream; the id is what a reconnecting client sends back as Last-Event-ID
+ */
+export type LiveEvent = {
+  id: string;
+  type: LiveEventType;
+  data: Record<string, unknown>;
+};
+
+/**
+ * Limits a stream to one unit's records and anomalies; generation runs concern every unit
+ */
+export type LiveEventFilter = {
+  serialNumber?: string;
+};
+
+export type LiveEventListener = {
+  onEvent(event: LiveEvent): void;
+  // The requested Last-Event-ID can no longer be resumed from; the client should reload its data
+  onResync(reason: string): void;
+  onError(error: Error): void;
+};
+
+export interface LiveEventSource {
+  readonly name: string;
+  /**
+   * Deliver events after lastEventId (or from now on) until the returned function is called
+   */
+  subscribe(filter: LiveEventFilter, lastEventId: string | undefined, listener: LiveEventListener): Promise<() => void>;
+}
+
+export const matchesFilter = (filter: LiveEventFilter, type: LiveEventType, data: Record<string, unknown>) =>
+  !filter.serialNumber || type === "generation.completed" || data.serialNumber === filter.serialNumber;
@@ -0,0 +1,65 @@
+import mongoose from "mongoose";
+import { LIVE_EVENT_TYPES, LiveEventType, WebhookEventType } from "../../domain/types";
+import { ChangeStreamLiveEventSource } from "./change-stream-event-source";
+import { InProcessLiveEventSource } from "./in-process-event-source";
+import { LiveEventSource } from "./live-event-source";
+import { logger } from "../logging/logger";
+
+const inProcessSource = new InProcessLiveEventSource(Number(process.env.LIVE_EVENT_BUFFER_SIZE) || undefined);
+let source: LiveEventSource | null = null;
+
+// Change streams need a replica set or a sharded cluster; a standalone server rejects them
+const supportsChangeStreams = async () => {
+  const db = mongoose.connection.db;
+  if (!db) {
+    return false;
+  }
+  const hello = await db.admin().command({ hello: 1 });
+  return Boolean(hello.setName) || hello.msg === "isdbgrid";
+};
+
+const isLiveEventType = (type: WebhookEventType): type is LiveEventType =>
+  (LIVE_EVENT_TYPES as readonly string[]).includes(type);
+
+/**
+ * Hand an event to the in-process source; called for every published event (see publishEvent)
+ */
+export const publishLiveEvent = (type: WebhookEventType, data: Record<string, unknown>) => {
+  if (isLiveEventType(type)) {
+    inProcessSource.publish(type, data);
+  }
+};
+
+/**
+ * LIVE_EVENTS_SOURCE picks where stream events come from: "change-stream", "in-process" or
+ * "auto" (default: change streams when the server supports them, else in-process)
+ */
+export const getLiveEventSource = async (): Promise<LiveEventSource> => {
+  if (source) {
+    return source;
+  }
+
+  const name = process.env.LIVE_EVENTS_SOURCE || "auto";
+  if (name === "change-stream") {
+    source = new ChangeStreamLiveEventSource();
+  } else if (name === "in-process") {
+    source = inProcessSource;
+  } else if (name === "auto") {
+    // Before the database connection is up the choice is not final
+    if (mongoose.connection.readyState !== 1) {
+      return inProcessSource;
+    }
+    source = (await supportsChangeStreams()) ? new ChangeStreamLiveEventSource() : inProcessSource;
+    logger.info("Live streams source selected", { source: source.name });
+  } else {
+    throw new Error(`Unknown LIVE_EVENTS_SOURCE: ${name}`);
+  }
+  return source;
+};
+
+/**
+ * Replace the source, e.g. with a fresh InProcessLiveEventSource in tests
+ */
+export const setLiveEventSource = (liveEventSource: LiveEventSource | null) => {
+  source = liveEventSource;
+};
@@ -0,0 +1,58 @@
+import axios, { AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import { getLogContext, logger } from './logger';
+
+const REQUEST_ID_HEADER = 'x-request-id';
+
+const startedAt = new WeakMap<InternalAxiosRequestConfig, number>();
+
+// Query strings may carry keys or tokens, so only origin and path are logged
+const describeUrl = (config?: InternalAxiosRequestConfig) => {
+  try {
+    const url = new URL(config?.url ?? '', config?.baseURL);
+    return `${url.origin}${url.pathname}`;
+  } catch {
+    return config?.url;
+  }
+};
+
+const elapsedMs = (config?: InternalAxiosRequestConfig) => {
+  const started = config && startedAt.get(config);
+  return started ? Date.now() - started : undefined;
+};
+
+/**
+ * Forward the current request id on outgoing HTTP calls (x-request-id) and log each call's
+ * status and duration; applies to the shared axios instance unless another one is given
+ */
+export const traceOutboundRequests = (instance: AxiosInstance = axios) => {
+  instance.interceptors.request.use((config) => {
+    const { requestId } = getLogContext();
+    if (requestId && !config.headers.has(REQUEST_ID_HEADER)) {
+      config.headers.set(REQUEST_ID_HEADER, requestId);
+    }
+    startedAt.set(config, Date.now());
+    return config;
+  });
+
+  instance.interceptors.response.use(
+    (response) => {
+      logger.debug('Outbound request completed', {
+        method: response.config.method?.toUpperCase(),
+        url: describeUrl(response.config),
+        status: response.status,
+        durationMs: elapsedMs(response.config),
+      });
+      return response;
+    },
+    (error) => {
+      logger.warn('Outbound request failed', {
+        method: error?.config?.method?.toUpperCase(),
+        url: describeUrl(error?.config),
+        status: error?.response?.status,
+        code: error?.code,
+        durationMs: elapsedMs(error?.config),
+      });
+      return Promise.reject(error);
+    }
+  );
+};
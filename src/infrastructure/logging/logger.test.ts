@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getLogContext, logger, runWithLogContext } from './logger';
+
+let stdout: string[];
+let stderr: string[];
+
+const entries = (lines: string[]) => lines.map((line) => JSON.parse(line));
+
+beforeEach(() => {
+  stdout = [];
+  stderr = [];
+  vi.spyOn(process.stdout, 'write').mockImplementation(((line: string) => stdout.push(line)) as any);
+  vi.spyOn(process.stderr, 'write').mockImplementation(((line: string) => stderr.push(line)) as any);
+  vi.useFakeTimers({ toFake: ['Date'], now: new Date('2025-12-01T10:00:00Z') });
+});
+
+afterEach(() => {
+  delete process.env.LOG_LEVEL;
+  delete process.env.LOG_FORMAT;
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('logger', () => {
+  it('writes one JSON object per line with time, level, message and fields', () => {
+    logger.info('Generation finished', { serialNumber: 'SU-0001', records: 12 });
+
+    expect(stdout).toEqual([
+      '{"time":"2025-12-01T10:00:00.000Z","level":"info","msg":"Generation finished","serialNumber":"SU-0001","records":12}\n',
+    ]);
+  });
+
+  it('writes warnings and errors to stderr', () => {
+    logger.warn('Retrying');
+    logger.error('Gave up');
+
+    expect(stdout).toEqual([]);
+    expect(entries(stderr).map((entry) => entry.level)).toEqual(['warn', 'error']);
+  });
+
+  it('expands errors into name, message, code and stack', () => {
+    const error = Object.assign(new TypeError('socket hang up'), { code: 'ECONNRESET' });
+
+    logger.error('Request failed', { error, reason: 'network' });
+
+    const [entry] = entries(stderr);
+    expect(entry.error).toMatchObject({ name: 'TypeError', message: 'socket hang up', code: 'ECONNRESET' });
+    expect(entry.error.stack).toContain('TypeError: socket hang up');
+    expect(entry.reason).toBe('network');
+  });
+
+  it('leaves out levels below LOG_LEVEL', () => {
+    process.env.LOG_LEVEL = 'warn';
+
+    logger.debug('Details');
+    logger.info('Progress');
+    logger.warn('Slow');
+
+    expect(stdout).toEqual([]);
+    expect(entries(stderr).map((entry) => entry.msg)).toEqual(['Slow']);
+  });
+
+  it('hides debug lines by default and falls back to info for an unknown LOG_LEVEL', () => {
+    logger.debug('Details');
+    process.env.LOG_LEVEL = 'verbose';
+    logger.debug('Details');
+    logger.info('Progress');
+
+    expect(entries(stdout).map((entry) => entry.msg)).toEqual(['Progress']);
+  });
+
+  it('writes readable lines with LOG_FORMAT=text', () => {
+    process.env.LOG_FORMAT = 'text';
+
+    logger.info('Server is running', { port: 8000, host: 'localhost' });
+
+    expect(stdout).toEqual(['2025-12-01T10:00:00.000Z INFO  Server is running port=8000 host=localhost\n']);
+  });
+});
+
+describe('runWithLogContext', () => {
+  it('adds the context to every line logged inside it, including after awaits', async () => {
+    await runWithLogContext({ requestId: 'req-1' }, async () => {
+      logger.info('Started');
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      logger.info('Finished');
+    });
+    logger.info('Outside');
+
+    expect(entries(stdout).map(({ msg, requestId }) => [msg, requestId])).toEqual([
+      ['Started', 'req-1'],
+      ['Finished', 'req-1'],
+      ['Outside', undefined],
+    ]);
+  });
+
+  it('merges nested contexts, so a job started by a request keeps its request id', () => {
+    runWithLogContext({ requestId: 'req-1' }, () =>
+      runWithLogContext({ jobRunId: 'job-1' }, () => {
+        expect(getLogContext()).toEqual({ requestId: 'req-1', jobRunId: 'job-1' });
+        logger.info('Job step');
+      })
+    );
+
+    expect(entries(stdout)[0]).toMatchObject({ requestId: 'req-1', jobRunId: 'job-1', msg: 'Job step' });
+    expect(getLogContext()).toEqual({});
+  });
+});
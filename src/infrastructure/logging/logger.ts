@@ -0,0 +1,73 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const;
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Fields attached to every line logged while handling one request or running one job
+ */
+export type LogContext = {
+  requestId?: string;
+  jobRunId?: string;
+};
+
+const contextStorage = new AsyncLocalStorage<LogContext>();
+
+/**
+ * Run fn, and everything it awaits or schedules, with the given context merged into the current one
+ */
+export const runWithLogContext = <T>(context: LogContext, fn: () => T) =>
+  contextStorage.run({ ...contextStorage.getStore(), ...context }, fn);
+
+export const getLogContext = (): LogContext => contextStorage.getStore() ?? {};
+
+// LOG_LEVEL (default info) is the lowest level written
+const minimumLevel = () => {
+  const level = process.env.LOG_LEVEL?.toLowerCase() as LogLevel | undefined;
+  return LOG_LEVELS.indexOf(level && LOG_LEVELS.includes(level) ? level : 'info');
+};
+
+const serializeError = (error: any) => ({
+  name: error?.name,
+  message: error?.message ?? String(error),
+  ...(error?.code !== undefined && { code: error.code }),
+  ...(error?.stack && { stack: error.stack }),
+});
+
+const normalize = (fields: LogFields) =>
+  Object.fromEntries(
+    Object.entries(fields).map(([key, value]) => [key, value instanceof Error ? serializeError(value) : value])
+  );
+
+// LOG_FORMAT=text gives one readable line per entry for local runs; JSON lines otherwise
+const format = (entry: LogFields) => {
+  if (process.env.LOG_FORMAT !== 'text') {
+    return JSON.stringify(entry);
+  }
+  const { time, level, msg, ...fields } = entry;
+  const rest = Object.entries(fields).map(([key, value]) =>
+    `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`
+  );
+  return [time, String(level).toUpperCase().padEnd(5), msg, ...rest].join(' ');
+};
+
+const write = (level: LogLevel, msg: string, fields: LogFields = {}) => {
+  if (LOG_LEVELS.indexOf(level) < minimumLevel()) {
+    return;
+  }
+  const line = format({ time: new Date().toISOString(), level, msg, ...getLogContext(), ...normalize(fields) });
+  (level === 'warn' || level === 'error' ? process.stderr : process.stdout).write(`${line}\n`);
+};
+
+/**
+ * Structured logger: one JSON object per line with time, level, msg, the current request or job
+ * context and the given fields (Errors are expanded into name, message, code and stack)
+ */
+export const logger = {
+  debug: (msg: string, fields?: LogFields) => write('debug', msg, fields),
+  info: (msg: string, fields?: LogFields) => write('info', msg, fields),
+  warn: (msg: string, fields?: LogFields) => write('warn', msg, fields),
+  error: (msg: string, fields?: LogFields) => write('error', msg, fields),
+};
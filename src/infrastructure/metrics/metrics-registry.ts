@@ -0,0 +1,100 @@
+type Labels = Record<string, string | number>;
+
+interface Metric {
+  render(): string[];
+}
+
+const metrics: Metric[] = [];
+
+const escapeLabelValue = (value: string | number) =>
+  String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+const formatLabels = (labels: Labels) => {
+  const pairs = Object.keys(labels)
+    .sort()
+    .map((name) => `${name}="${escapeLabelValue(labels[name])}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+};
+
+const header = (name: string, help: string, type: string) => [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+
+/**
+ * Monotonic count per label set
+ */
+export class Counter implements Metric {
+  private readonly values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(private readonly name: string, private readonly help: string) {
+    metrics.push(this);
+  }
+
+  inc(labels: Labels = {}, amount = 1) {
+    const key = formatLabels(labels);
+    const series = this.values.get(key) ?? { labels, value: 0 };
+    series.value += amount;
+    this.values.set(key, series);
+  }
+
+  render() {
+    const lines = header(this.name, this.help, 'counter');
+    for (const [key, series] of Array.from(this.values.entries())) {
+      lines.push(`${this.name}${key} ${series.value}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * Distribution of observed values over cumulative buckets, per label set
+ */
+export class Histogram implements Metric {
+  private readonly values = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  constructor(private readonly name: string, private readonly help: string, private readonly buckets: number[]) {
+    metrics.push(this);
+  }
+
+  observe(labels: Labels, value: number) {
+    const key = formatLabels(labels);
+    const series = this.values.get(key) ?? { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        series.counts[index]++;
+      }
+    });
+    series.sum += value;
+    series.count++;
+    this.values.set(key, series);
+  }
+
+  render() {
+    const lines = header(this.name, this.help, 'histogram');
+    for (const series of Array.from(this.values.values())) {
+      this.buckets.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...series.labels, le: bound })} ${series.counts[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...series.labels, le: '+Inf' })} ${series.count}`);
+      lines.push(`${this.name}_sum${formatLabels(series.labels)} ${series.sum}`);
+      lines.push(`${this.name}_count${formatLabels(series.labels)} ${series.count}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * Value read when the metrics are scraped
+ */
+export class Gauge implements Metric {
+  constructor(private readonly name: string, private readonly help: string, private readonly collect: () => number) {
+    metrics.push(this);
+  }
+
+  render() {
+    return [...header(this.name, this.help, 'gauge'), `${this.name} ${this.collect()}`];
+  }
+}
+
+/**
+ * Every metric in the Prometheus text exposition format (version 0.0.4)
+ */
+export const renderMetrics = () => `${metrics.flatMap((metric) => metric.render()).join('\n')}\n`;
@@ -0,0 +1,36 @@
+import { Counter, Gauge, Histogram } from './metrics-registry';
+
+// Metrics exposed at /metrics; label values are kept to small, known sets (routes as declared, not URLs)
+
+export const httpRequestDuration = new Histogram(
+  'http_request_duration_seconds',
+  'Time to answer HTTP requests by method, route and status',
+  [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+);
+
+export const generationRuns = new Counter(
+  'generation_runs_total',
+  'Daily generation job runs by trigger and outcome (skipped when another instance held the lease)'
+);
+
+export const generationRunDuration = new Histogram(
+  'generation_run_duration_seconds',
+  'Duration of daily generation job runs by trigger and outcome',
+  [1, 5, 15, 30, 60, 120, 300, 600, 1800]
+);
+
+export const recordsInserted = new Counter(
+  'energy_records_inserted_total',
+  'Energy generation records stored, by solar unit and source (generation, ingestion)'
+);
+
+export const mongoOperationErrors = new Counter(
+  'mongo_operation_errors_total',
+  'MongoDB commands that failed, by command name ("connection" for connection errors)'
+);
+
+const startTime = Date.now() / 1000;
+
+new Gauge('process_start_time_seconds', 'Start time of the process since the Unix epoch in seconds', () => startTime);
+
+new Gauge('process_resident_memory_bytes', 'Resident memory size in bytes', () => process.memoryUsage().rss);
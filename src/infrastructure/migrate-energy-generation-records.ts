@@ -0,0 +1,95 @@
+import 'dotenv/config';
+import mongoose from 'mongoose';
+import { connectDB } from './db';
+import { EnergyGenerationRecord } from './entities/EnergyGenerationRecord';
+
+// Duplicate intervals listed one by one; the rest are only counted
+const MAX_REPORTED_DUPLICATES = 20;
+
+type DuplicateGroup = {
+  _id: { serialNumber: string; timestamp: Date };
+  ids: mongoose.Types.ObjectId[];
+  count: number;
+};
+
+/**
+ * Migrate existing energy generation records to the telemetry schema
+ * - Backfills intervalHours where it is missing
+ * - Reports duplicate (serialNumber, timestamp) readings; with --delete-duplicates it removes them,
+ *   keeping the oldest document
+ * - Builds the compound indexes declared on the schema, once no duplicates are left
+ *
+ * Usage: npm run migrate:records [-- --dry-run] [-- --delete-duplicates]
+ */
+async function migrateEnergyGenerationRecords() {
+  const dryRun = process.argv.includes('--dry-run');
+  const deleteDuplicates = process.argv.includes('--delete-duplicates');
+
+  try {
+    console.log(`🔧 Migrating energy generation records${dryRun ? ' (dry run)' : ''}...`);
+    await connectDB();
+
+    // 1. Backfill intervalHours (older documents relied on the schema default)
+    const missingInterval = { intervalHours: { $exists: false } };
+    const missingIntervalCount = await EnergyGenerationRecord.countDocuments(missingInterval);
+    console.log(`   Records without intervalHours: ${missingIntervalCount}`);
+    if (!dryRun && missingIntervalCount > 0) {
+      await EnergyGenerationRecord.updateMany(missingInterval, { $set: { intervalHours: 2 } });
+    }
+
+    // Peak power, efficiency and temperature were never measured for these documents, so they stay empty
+
+    // 2. Find duplicates, which keep the unique (serialNumber, timestamp) index from being built
+    const duplicates = await EnergyGenerationRecord.aggregate<DuplicateGroup>([
+      {
+        $group: {
+          _id: { serialNumber: '$serialNumber', timestamp: '$timestamp' },
+          ids: { $push: '$_id' },
+          count: { $sum: 1 },
+        },
+      },
+      { $match: { count: { $gt: 1 } } },
+    ]).allowDiskUse(true);
+
+    const duplicateIds = duplicates.flatMap((group) =>
+      [...group.ids].sort((a, b) => String(a).localeCompare(String(b))).slice(1)
+    );
+    console.log(`   Duplicate readings: ${duplicateIds.length} across ${duplicates.length} intervals`);
+    duplicates.slice(0, MAX_REPORTED_DUPLICATES).forEach((group) => {
+      console.log(
+        `     ${group._id.serialNumber} ${group._id.timestamp.toISOString()}: ${group.count} readings (${group.ids.join(', ')})`
+      );
+    });
+    if (duplicates.length > MAX_REPORTED_DUPLICATES) {
+      console.log(`     ... and ${duplicates.length - MAX_REPORTED_DUPLICATES} more intervals`);
+    }
+
+    if (duplicateIds.length > 0 && !deleteDuplicates) {
+      console.log('⚠️  Duplicates were left in place, so the indexes were not built.');
+      console.log('   Review them, then run again with --delete-duplicates to keep the oldest reading of each interval.');
+      if (!dryRun) {
+        process.exitCode = 1;
+      }
+      return;
+    }
+    if (!dryRun && duplicateIds.length > 0) {
+      const { deletedCount } = await EnergyGenerationRecord.deleteMany({ _id: { $in: duplicateIds } });
+      console.log(`   Deleted ${deletedCount} duplicate readings`);
+    }
+
+    // 3. Build indexes
+    if (!dryRun) {
+      await EnergyGenerationRecord.syncIndexes();
+      console.log('   Indexes synchronized');
+    }
+
+    console.log('✅ Migration completed');
+  } catch (error: any) {
+    console.error('❌ Migration failed:', error.message);
+    process.exitCode = 1;
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+migrateEnergyGenerationRecords();
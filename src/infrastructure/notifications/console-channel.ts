@@ -0,0 +1,21 @@
+import { logger } from "../logging/logger";
+import { AlertNotification, NotificationChannel } from "./notification-channel";
+
+// Critical alerts stand out as errors in the log, warnings as warnings
+const SEVERITY_LEVELS = { info: "info", warning: "warn", critical: "error" } as const;
+
+/**
+ * Writes alerts to the server log
+ */
+export class ConsoleNotificationChannel implements NotificationChannel {
+  readonly type = "console";
+
+  async send(notification: AlertNotification) {
+    logger[SEVERITY_LEVELS[notification.severity]](`Alert: ${notification.message}`, {
+      alertId: notification.alertId,
+      rule: notification.ruleName,
+      serialNumber: notification.serialNumber,
+      severity: notification.severity,
+    });
+  }
+}
@@ -0,0 +1,176 @@
+import { once } from "events";
+import { AddressInfo, createServer, Server, Socket } from "net";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { EmailNotificationChannel, getSmtpOptionsFromEnv } from "./email-channel";
+import { AlertNotification } from "./notification-channel";
+import { getNotificationChannel, setNotificationChannel } from "./notification-channels";
+
+type ReceivedMail = { commands: string[]; data: string };
+
+/**
+ * Minimal SMTP server without TLS: accepts AUTH PLAIN and one message per session, and answers
+ * RCPT TO with 550 for addresses in rejectedRecipients
+ */
+const received: ReceivedMail[] = [];
+const rejectedRecipients = new Set<string>();
+
+const handleSession = (socket: Socket) => {
+  const mail: ReceivedMail = { commands: [], data: "" };
+  let buffer = "";
+  let inData = false;
+  const reply = (line: string) => socket.write(`${line}\r\n`);
+
+  socket.setEncoding("utf8");
+  reply("220 localhost ESMTP test");
+  socket.on("data", (chunk: string) => {
+    buffer += chunk;
+    let newline: number;
+    while ((newline = buffer.indexOf("\r\n")) !== -1) {
+      const line = buffer.slice(0, newline);
+      buffer = buffer.slice(newline + 2);
+
+      if (inData) {
+        if (line === ".") {
+          inData = false;
+          received.push(mail);
+          reply("250 Queued");
+        } else {
+          mail.data += `${line}\r\n`;
+        }
+        continue;
+      }
+
+      mail.commands.push(line);
+      const verb = line.split(/[ :]/)[0].toUpperCase();
+      if (verb === "EHLO") {
+        reply("250-localhost");
+        reply("250 AUTH PLAIN");
+      } else if (verb === "STARTTLS") {
+        reply("502 Command not implemented");
+      } else if (verb === "AUTH") {
+        reply("235 Authenticated");
+      } else if (verb === "RCPT") {
+        const address = line.slice(line.indexOf("<") + 1, line.indexOf(">"));
+        reply(rejectedRecipients.has(address) ? "550 No such user" : "250 OK");
+      } else if (verb === "DATA") {
+        inData = true;
+        reply("354 End data with <CR><LF>.<CR><LF>");
+      } else if (verb === "QUIT") {
+        reply("221 Bye");
+        socket.end();
+      } else {
+        reply("250 OK");
+      }
+    }
+  });
+};
+
+let smtpServer: Server;
+
+const notification: AlertNotification = {
+  alertId: "alert_1",
+  ruleId: "rule_1",
+  ruleName: "No output",
+  serialNumber: "SU-0001",
+  severity: "critical",
+  message: "SU-0001 generated nothing for 4 hours\n.hidden line",
+  evidence: { hours: 4 },
+  triggeredAt: new Date("2025-12-01T10:00:00Z"),
+};
+
+beforeAll(async () => {
+  smtpServer = createServer(handleSession);
+  smtpServer.listen(0, "127.0.0.1");
+  await once(smtpServer, "listening");
+  process.env.SMTP_HOST = "127.0.0.1";
+  process.env.SMTP_PORT = String((smtpServer.address() as AddressInfo).port);
+  process.env.SMTP_USER = "alerts";
+  process.env.SMTP_PASS = "secret";
+  process.env.SMTP_FROM = "alerts@example.com";
+  // The stand-in cannot upgrade to TLS
+  process.env.SMTP_ALLOW_INSECURE_AUTH = "true";
+});
+
+afterAll(async () => {
+  for (const name of ["SMTP_HOST", "SMTP_PORT", "SMTP_USER", "SMTP_PASS", "SMTP_FROM", "SMTP_ALLOW_INSECURE_AUTH"]) {
+    delete process.env[name];
+  }
+  await new Promise((resolve) => smtpServer.close(resolve));
+});
+
+beforeEach(() => {
+  received.length = 0;
+  rejectedRecipients.clear();
+  setNotificationChannel("email", null);
+});
+
+afterEach(() => {
+  setNotificationChannel("email", null);
+});
+
+describe("EmailNotificationChannel", () => {
+  it("sends the alert through the SMTP server from the environment", async () => {
+    await getNotificationChannel("email").send(notification, {
+      type: "email",
+      to: ["ops@example.com", "oncall@example.com"],
+    });
+
+    expect(received).toHaveLength(1);
+    const [{ commands, data }] = received;
+    expect(commands).toContain(`AUTH PLAIN ${Buffer.from("\u0000alerts\u0000secret").toString("base64")}`);
+    expect(commands).toContain("MAIL FROM:<alerts@example.com>");
+    expect(commands).toContain("RCPT TO:<ops@example.com>");
+    expect(commands).toContain("RCPT TO:<oncall@example.com>");
+    expect(data).toContain("To: ops@example.com, oncall@example.com\r\n");
+    expect(data).toContain("Subject: [CRITICAL] No output: SU-0001\r\n");
+    expect(data).toContain("SU-0001 generated nothing for 4 hours\r\n");
+    // Dot-stuffed so the line does not end the message
+    expect(data).toContain("\r\n..hidden line\r\n");
+    expect(data).toContain("Alert: alert_1\r\n");
+  });
+
+  it("fails when the server rejects a recipient", async () => {
+    rejectedRecipients.add("gone@example.com");
+    const channel = new EmailNotificationChannel(getSmtpOptionsFromEnv());
+
+    await expect(channel.send(notification, { type: "email", to: ["gone@example.com"] })).rejects.toThrow(
+      "all recipients were rejected: 550 No such user"
+    );
+    expect(received).toHaveLength(0);
+  });
+
+  it("refuses to authenticate over a connection it could not upgrade to TLS", async () => {
+    const channel = new EmailNotificationChannel({ ...getSmtpOptionsFromEnv(), allowInsecureAuth: false });
+    const commands: string[] = [];
+    smtpServer.once("connection", (socket: Socket) => socket.on("data", (chunk: Buffer | string) => commands.push(String(chunk))));
+
+    await expect(channel.send(notification, { type: "email", to: ["ops@example.com"] })).rejects.toThrow(
+      "Error upgrading connection with STARTTLS"
+    );
+    expect(commands.join("")).not.toContain("AUTH");
+    expect(received).toHaveLength(0);
+  });
+
+  it("sends without credentials over plaintext", async () => {
+    const channel = new EmailNotificationChannel({ ...getSmtpOptionsFromEnv(), user: undefined, allowInsecureAuth: false });
+
+    await channel.send(notification, { type: "email", to: ["ops@example.com"] });
+
+    expect(received).toHaveLength(1);
+    expect(received[0].commands.some((command) => command.startsWith("AUTH"))).toBe(false);
+  });
+
+  it("fails without recipients", async () => {
+    const channel = new EmailNotificationChannel(getSmtpOptionsFromEnv());
+
+    await expect(channel.send(notification, { type: "email", to: [] })).rejects.toThrow(
+      "Email channel has no recipients"
+    );
+  });
+
+  it("fails when the SMTP server cannot be reached", async () => {
+    const channel = new EmailNotificationChannel({ ...getSmtpOptionsFromEnv(), port: 1 });
+
+    await expect(channel.send(notification, { type: "email", to: ["ops@example.com"] })).rejects.toThrow();
+  });
+});
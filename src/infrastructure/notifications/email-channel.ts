@@ -0,0 +1,51 @@
+import { AlertNotification, ChannelTarget, NotificationChannel } from "./notification-channel";
+import { sendMail, SmtpOptions } from "./smtp-client";
+
+/**
+ * Emails the alert through the SMTP server configured in the environment
+ * - SMTP_HOST / SMTP_PORT (default 587, or 465 with SMTP_SECURE=true)
+ * - SMTP_SECURE: "true" for TLS from the start; otherwise STARTTLS is used when the server offers it
+ * - SMTP_USER / SMTP_PASS: optional credentials, only sent over TLS
+ * - SMTP_ALLOW_INSECURE_AUTH: "true" to send the credentials even when the server does not offer STARTTLS
+ * - SMTP_FROM: sender address (default alerts@localhost)
+ */
+export class EmailNotificationChannel implements NotificationChannel {
+  readonly type = "email";
+
+  constructor(private readonly options: SmtpOptions) {}
+
+  async send(notification: AlertNotification, target: ChannelTarget) {
+    if (!target.to || target.to.length === 0) {
+      throw new Error("Email channel has no recipients");
+    }
+
+    await sendMail(this.options, {
+      to: target.to,
+      subject: `[${notification.severity.toUpperCase()}] ${notification.ruleName}: ${notification.serialNumber}`,
+      text: [
+        notification.message,
+        "",
+        `Rule: ${notification.ruleName}`,
+        `Unit: ${notification.serialNumber}`,
+        `Severity: ${notification.severity}`,
+        `Triggered at: ${notification.triggeredAt.toISOString()}`,
+        `Alert: ${notification.alertId}`,
+        "",
+        JSON.stringify(notification.evidence, null, 2),
+      ].join("\n"),
+    });
+  }
+}
+
+export const getSmtpOptionsFromEnv = (): SmtpOptions => {
+  const secure = process.env.SMTP_SECURE === "true";
+  return {
+    host: process.env.SMTP_HOST || "localhost",
+    port: Number(process.env.SMTP_PORT) || (secure ? 465 : 587),
+    secure,
+    user: process.env.SMTP_USER,
+    pass: process.env.SMTP_PASS,
+    allowInsecureAuth: process.env.SMTP_ALLOW_INSECURE_AUTH === "true",
+    from: process.env.SMTP_FROM || "alerts@localhost",
+  };
+};
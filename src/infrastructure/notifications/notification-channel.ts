@@ -0,0 +1,31 @@
+import { AlertSeverity, NotificationChannelType } from "../../domain/types";
+
+/**
+ * What a channel tells the recipient about a fired alert
+ */
+export type AlertNotification = {
+  alertId: string;
+  ruleId: string;
+  ruleName: string;
+  serialNumber: string;
+  severity: AlertSeverity;
+  message: string;
+  evidence: Record<string, unknown>;
+  triggeredAt: Date;
+};
+
+/**
+ * Where a rule sends its notifications: url (and an optional signing secret) for webhooks,
+ * recipient addresses for email
+ */
+export type ChannelTarget = {
+  type: NotificationChannelType;
+  url?: string | null;
+  secret?: string | null;
+  to?: string[] | null;
+};
+
+export interface NotificationChannel {
+  readonly type: NotificationChannelType;
+  send(notification: AlertNotification, target: ChannelTarget): Promise<void>;
+}
@@ -0,0 +1,41 @@
+import { NotificationChannelType } from "../../domain/types";
+import { ConsoleNotificationChannel } from "./console-channel";
+import { EmailNotificationChannel, getSmtpOptionsFromEnv } from "./email-channel";
+import { NotificationChannel } from "./notification-channel";
+import { WebhookNotificationChannel } from "./webhook-channel";
+
+const channels = new Map<NotificationChannelType, NotificationChannel>();
+
+const createChannel = (type: NotificationChannelType): NotificationChannel => {
+  switch (type) {
+    case "console":
+      return new ConsoleNotificationChannel();
+    case "webhook":
+      return new WebhookNotificationChannel();
+    case "email":
+      return new EmailNotificationChannel(getSmtpOptionsFromEnv());
+  }
+};
+
+/**
+ * The channel that delivers notifications of the given type
+ */
+export const getNotificationChannel = (type: NotificationChannelType) => {
+  let channel = channels.get(type);
+  if (!channel) {
+    channel = createChannel(type);
+    channels.set(type, channel);
+  }
+  return channel;
+};
+
+/**
+ * Replace a channel, e.g. with one pointed at a local SMTP or HTTP stand-in in tests; null restores the default
+ */
+export const setNotificationChannel = (type: NotificationChannelType, channel: NotificationChannel | null) => {
+  if (channel) {
+    channels.set(type, channel);
+  } else {
+    channels.delete(type);
+  }
+};
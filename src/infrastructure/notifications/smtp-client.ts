@@ -0,0 +1,45 @@
+import nodemailer from "nodemailer";
+
+const CONNECTION_TIMEOUT_MS = 10 * 1000;
+const GREETING_TIMEOUT_MS = 10 * 1000;
+const SOCKET_TIMEOUT_MS = 30 * 1000;
+
+export type SmtpOptions = {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  // Send credentials even when the connection could not be upgraded to TLS
+  allowInsecureAuth?: boolean;
+  from: string;
+};
+
+export type MailMessage = {
+  to: string[];
+  subject: string;
+  text: string;
+};
+
+/**
+ * Send a plain-text email over SMTP
+ * Upgrades with STARTTLS when the server offers it. When a user is set the upgrade is required, so the
+ * credentials never travel in plaintext, unless allowInsecureAuth is set.
+ */
+export const sendMail = async (options: SmtpOptions, message: MailMessage) => {
+  const transport = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure,
+    requireTLS: !!options.user && !options.allowInsecureAuth,
+    auth: options.user ? { user: options.user, pass: options.pass ?? "" } : undefined,
+    connectionTimeout: CONNECTION_TIMEOUT_MS,
+    greetingTimeout: GREETING_TIMEOUT_MS,
+    socketTimeout: SOCKET_TIMEOUT_MS,
+  });
+  try {
+    await transport.sendMail({ from: options.from, to: message.to, subject: message.subject, text: message.text });
+  } finally {
+    transport.close();
+  }
+};
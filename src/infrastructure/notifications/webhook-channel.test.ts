@@ -0,0 +1,85 @@
+import { IncomingHttpHeaders } from "http";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { listen } from "../../test/listen";
+import { signWebhookPayload } from "../webhooks/webhook-dispatcher";
+import { AlertNotification } from "./notification-channel";
+import { WebhookNotificationChannel } from "./webhook-channel";
+
+type ReceivedRequest = { url?: string; headers: IncomingHttpHeaders; body: string };
+
+// Local receiver that answers with the queued status codes (200 once they run out)
+const received: ReceivedRequest[] = [];
+const statusCodes: number[] = [];
+let receiver: Awaited<ReturnType<typeof listen>>;
+
+const notification: AlertNotification = {
+  alertId: "alert_1",
+  ruleId: "rule_1",
+  ruleName: "No output",
+  serialNumber: "SU-0001",
+  severity: "warning",
+  message: "SU-0001 generated nothing for 4 hours",
+  evidence: { hours: 4 },
+  triggeredAt: new Date("2025-12-01T10:00:00Z"),
+};
+
+const channel = new WebhookNotificationChannel();
+
+beforeAll(async () => {
+  receiver = await listen((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      received.push({ url: req.url, headers: req.headers, body });
+      res.statusCode = statusCodes.shift() ?? 200;
+      res.end();
+    });
+  });
+});
+
+afterAll(async () => {
+  await receiver.close();
+});
+
+beforeEach(() => {
+  received.length = 0;
+  statusCodes.length = 0;
+});
+
+describe("WebhookNotificationChannel", () => {
+  it("posts the alert signed with the rule's secret", async () => {
+    await channel.send(notification, { type: "webhook", url: `${receiver.url}/alerts`, secret: "whsec_alerts" });
+
+    expect(received).toHaveLength(1);
+    const [{ url, headers, body }] = received;
+    expect(url).toBe("/alerts");
+    expect(JSON.parse(body)).toEqual({
+      type: "alert.fired",
+      data: { ...notification, triggeredAt: "2025-12-01T10:00:00.000Z" },
+    });
+    expect(headers["x-webhook-event"]).toBe("alert.fired");
+    expect(headers["x-webhook-signature"]).toBe(
+      signWebhookPayload("whsec_alerts", String(headers["x-webhook-timestamp"]), body)
+    );
+  });
+
+  it("posts unsigned without a secret", async () => {
+    await channel.send(notification, { type: "webhook", url: `${receiver.url}/alerts` });
+
+    expect(received).toHaveLength(1);
+    expect(received[0].headers["x-webhook-signature"]).toBeUndefined();
+  });
+
+  it("fails when the receiver answers with an error status", async () => {
+    statusCodes.push(502);
+
+    await expect(
+      channel.send(notification, { type: "webhook", url: `${receiver.url}/alerts`, secret: "whsec_alerts" })
+    ).rejects.toThrow("Receiver responded with 502");
+  });
+
+  it("fails without a url", async () => {
+    await expect(channel.send(notification, { type: "webhook" })).rejects.toThrow("Webhook channel has no url");
+    expect(received).toHaveLength(0);
+  });
+});
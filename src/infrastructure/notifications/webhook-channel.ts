@@ -0,0 +1,35 @@
+import axios from "axios";
+import { signWebhookPayload } from "../webhooks/webhook-dispatcher";
+import { AlertNotification, ChannelTarget, NotificationChannel } from "./notification-channel";
+
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * POSTs the alert as JSON to the rule's URL
+ * With a secret, the request is signed like webhook deliveries (X-Webhook-Signature).
+ */
+export class WebhookNotificationChannel implements NotificationChannel {
+  readonly type = "webhook";
+
+  async send(notification: AlertNotification, target: ChannelTarget) {
+    if (!target.url) {
+      throw new Error("Webhook channel has no url");
+    }
+
+    const body = JSON.stringify({ type: "alert.fired", data: notification });
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const response = await axios.post(target.url, body, {
+      timeout: DELIVERY_TIMEOUT_MS,
+      headers: {
+        "Content-Type": "application/json",
+        "X-Webhook-Event": "alert.fired",
+        "X-Webhook-Timestamp": timestamp,
+        ...(target.secret && { "X-Webhook-Signature": signWebhookPayload(target.secret, timestamp, body) }),
+      },
+      validateStatus: () => true,
+    });
+    if (response.status < 200 || response.status >= 300) {
+      throw new Error(`Receiver responded with ${response.status}`);
+    }
+  }
+}
@@ -0,0 +1,48 @@
+import 'dotenv/config';
+import mongoose from 'mongoose';
+import { formatIssues } from '../application/energy-generation-record';
+import { rebuildRollups } from '../application/energy-rollups';
+import { RollupRangeDto } from '../domain/dtos/rollup';
+import { parseArgs } from './cli-args';
+import { connectDB } from './db';
+import { EnergyGenerationRecord } from './entities/EnergyGenerationRecord';
+
+/**
+ * Recompute the daily and monthly energy summaries from the raw records
+ * Without --from/--to every month that has records is rebuilt.
+ *
+ * Usage: npm run rebuild:rollups [-- --serial-number SU-1 --from 2025-08-01 --to 2025-08-31]
+ */
+async function rebuild() {
+  const result = RollupRangeDto.safeParse(parseArgs(process.argv.slice(2)).options);
+  if (!result.success) {
+    console.error('❌ Invalid options:', formatIssues(result.error));
+    process.exitCode = 1;
+    return;
+  }
+  const { serialNumber, from, to } = result.data;
+
+  try {
+    console.log('🔌 Connecting to database...');
+    await connectDB();
+
+    const serialNumbers: string[] = serialNumber
+      ? [serialNumber]
+      : await EnergyGenerationRecord.distinct('serialNumber');
+
+    console.log(`🧮 Rebuilding rollups for ${serialNumbers.length} unit(s)...`);
+    const results = await rebuildRollups({ serialNumbers, from, to });
+    results.forEach((unit) => {
+      console.log(`   ${unit.serialNumber}: ${unit.days} days, ${unit.months} months`);
+    });
+
+    console.log('\n✅ Rollups rebuilt');
+  } catch (error: any) {
+    console.error('❌ Rollup rebuild failed:', error.message);
+    process.exitCode = 1;
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+rebuild();
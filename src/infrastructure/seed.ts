@@ -1,13 +1,20 @@
 import mongoose from "mongoose";
 import { EnergyGenerationRecord } from "./entities/EnergyGenerationRecord";
+import { DailyEnergySummary } from "./entities/DailyEnergySummary";
+import { MonthlyEnergySummary } from "./entities/MonthlyEnergySummary";
+import { applyRecordsToRollups } from "../application/energy-rollups";
 import dotenv from "dotenv";
 import { connectDB } from "./db";
+import { createGenerationModel } from "./generation/create-generation-model";
 
 dotenv.config();
 
 async function seed() {
 
   const serialNumber = "SU-TEST-2024";
+  // 500 W keeps values on the scale of the original seed data
+  const site = { serialNumber, capacity: 500 };
+  const model = createGenerationModel();
 
   try {
     // Connect to DB
@@ -15,6 +22,8 @@ async function seed() {
 
     // Clear existing data
     await EnergyGenerationRecord.deleteMany({});
+    await DailyEnergySummary.deleteMany({});
+    await MonthlyEnergySummary.deleteMany({});
 
     // Create historical energy generation records from Aug 1, 2025 8pm to Oct 12, 2025 8am every 2 hours
     const records = [];
@@ -25,50 +34,14 @@ async function seed() {
     let recordCount = 0;
 
     while (currentDate <= endDate) {
-      // Generate realistic energy values based on time of day and season
-      const hour = currentDate.getUTCHours();
-      const month = currentDate.getUTCMonth(); // 0-11
-
-      // Base energy generation (higher in summer months)
-      let baseEnergy = 200;
-      if (month >= 5 && month <= 7) {
-        // June-August (summer)
-        baseEnergy = 300;
-      } else if (month >= 2 && month <= 4) {
-        // March-May (spring)
-        baseEnergy = 250;
-      } else if (month >= 8 && month <= 10) {
-        // September-November (fall)
-        baseEnergy = 200;
-      } else {
-        // December-February (winter)
-        baseEnergy = 150;
-      }
-
-      // Adjust based on time of day (solar panels generate more during daylight)
-      let timeMultiplier = 1;
-      if (hour >= 6 && hour <= 18) {
-        // Daylight hours
-        timeMultiplier = 1.2;
-        if (hour >= 10 && hour <= 14) {
-          // Peak sun hours
-          timeMultiplier = 1.5;
-        }
-      } else {
-        // Night hours
-        timeMultiplier = 0; // Minimal generation at night
-      }
-
-      // Add some random variation (±20%)
-      const variation = 0.8 + Math.random() * 0.4;
-      const energyGenerated = Math.round(
-        baseEnergy * timeMultiplier * variation
-      );
+      // Energy values come from the configured generation model (GENERATION_MODEL)
+      const reading = await model.generateInterval(site, currentDate, 2);
 
       records.push({
         serialNumber: serialNumber,
         timestamp: new Date(currentDate),
-        energyGenerated: energyGenerated,
+        intervalHours: 2,
+        ...reading,
       });
 
       // Move to next 2-hour interval
@@ -76,9 +49,10 @@ async function seed() {
       recordCount++;
     }
     await EnergyGenerationRecord.insertMany(records);
+    await applyRecordsToRollups(records);
 
     console.log(
-      `Database seeded successfully. Generated ${recordCount} energy generation records from ${startDate.toUTCString()} to ${endDate.toUTCString()}.`
+      `Database seeded successfully. Generated ${recordCount} energy generation records from ${startDate.toUTCString()} to ${endDate.toUTCString()} using the ${model.name} model.`
     );
   } catch (err) {
     console.error("Seeding error:", err);
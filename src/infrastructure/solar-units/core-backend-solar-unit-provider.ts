@@ -0,0 +1,73 @@
+import axios from "axios";
+import { z } from "zod";
+import { SolarUnitDto } from "../../domain/dtos/solar-unit";
+import { SolarUnit } from "../../domain/types";
+import { SolarUnitProvider } from "./solar-unit-provider";
+import { logger } from "../logging/logger";
+
+export type CoreBackendSolarUnitProviderOptions = {
+  timeoutMs?: number;
+  retries?: number;
+  retryDelayMs?: number;
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Fetches active units from the core backend over HTTP
+ * Retries timeouts, network errors and 5xx responses with exponential backoff, and
+ * validates every unit in the response; invalid entries are skipped with a warning.
+ */
+export class CoreBackendSolarUnitProvider implements SolarUnitProvider {
+  readonly name = "core-backend";
+  private readonly timeoutMs: number;
+  private readonly retries: number;
+  private readonly retryDelayMs: number;
+
+  constructor(private readonly baseUrl: string, options: CoreBackendSolarUnitProviderOptions = {}) {
+    this.timeoutMs = options.timeoutMs ?? (Number(process.env.CORE_BACKEND_TIMEOUT_MS) || 10000);
+    this.retries = options.retries ?? 3;
+    this.retryDelayMs = options.retryDelayMs ?? 1000;
+  }
+
+  async getActiveSolarUnits(): Promise<SolarUnit[]> {
+    // Test endpoint - no auth required
+    const data = await this.request(`${this.baseUrl}/api/solar-units/test`, { status: "ACTIVE" });
+
+    const result = z.array(z.unknown()).safeParse(data);
+    if (!result.success) {
+      throw new Error("Core backend returned an unexpected solar units response");
+    }
+
+    const units: SolarUnit[] = [];
+    result.data.forEach((item, index) => {
+      const unit = SolarUnitDto.safeParse(item);
+      if (!unit.success) {
+        logger.warn("Skipping invalid solar unit from the core backend", { index, reason: unit.error.message });
+        return;
+      }
+      if (unit.data.status === "ACTIVE") {
+        units.push(unit.data);
+      }
+    });
+    return units;
+  }
+
+  private async request(url: string, params: Record<string, string>) {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await axios.get(url, { params, timeout: this.timeoutMs });
+        return response.data;
+      } catch (error: any) {
+        const status = error?.response?.status;
+        const retryable = !status || status >= 500;
+        if (!retryable || attempt >= this.retries) {
+          throw error;
+        }
+        const delay = this.retryDelayMs * Math.pow(2, attempt);
+        logger.warn("Core backend request failed, retrying", { reason: error.message, attempt: attempt + 1, delayMs: delay });
+        await sleep(delay);
+      }
+    }
+  }
+}
@@ -0,0 +1,26 @@
+import { SolarUnitProvider } from "./solar-unit-provider";
+import { logger } from "../logging/logger";
+
+/**
+ * Tries each provider in order and returns the first successful answer
+ */
+export class FallbackSolarUnitProvider implements SolarUnitProvider {
+  readonly name: string;
+
+  constructor(private readonly providers: SolarUnitProvider[]) {
+    this.name = providers.map((provider) => provider.name).join(",");
+  }
+
+  async getActiveSolarUnits() {
+    let lastError: unknown = new Error("No solar unit providers configured");
+    for (const provider of this.providers) {
+      try {
+        return await provider.getActiveSolarUnits();
+      } catch (error: any) {
+        logger.error("Solar unit provider failed", { provider: provider.name, error });
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+}
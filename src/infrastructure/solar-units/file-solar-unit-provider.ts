@@ -0,0 +1,27 @@
+import { readFile } from "fs/promises";
+import { z } from "zod";
+import { SolarUnitDto } from "../../domain/dtos/solar-unit";
+import { SolarUnit } from "../../domain/types";
+import { SolarUnitProvider } from "./solar-unit-provider";
+
+/**
+ * Static units from a JSON file (an array of units), or from a list passed in directly
+ * For offline development and tests.
+ */
+export class FileSolarUnitProvider implements SolarUnitProvider {
+  readonly name = "file";
+
+  constructor(private readonly source: string | SolarUnit[]) {}
+
+  async getActiveSolarUnits(): Promise<SolarUnit[]> {
+    const data = typeof this.source === "string"
+      ? JSON.parse(await readFile(this.source, "utf8"))
+      : this.source;
+
+    const result = z.array(SolarUnitDto).safeParse(data);
+    if (!result.success) {
+      throw new Error(`Invalid solar units file: ${result.error.message}`);
+    }
+    return result.data.filter((unit) => unit.status === "ACTIVE");
+  }
+}
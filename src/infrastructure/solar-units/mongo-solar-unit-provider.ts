@@ -0,0 +1,28 @@
+import { SolarUnit as SolarUnitModel } from "../entities/SolarUnit";
+import { SolarUnit } from "../../domain/types";
+import { SolarUnitProvider } from "./solar-unit-provider";
+
+/**
+ * Reads active units from the local SolarUnit collection
+ */
+export class MongoSolarUnitProvider implements SolarUnitProvider {
+  readonly name = "mongo";
+
+  async getActiveSolarUnits(): Promise<SolarUnit[]> {
+    const units = await SolarUnitModel.find({ status: "ACTIVE" }).lean();
+    return units.map((unit) => ({
+      _id: String(unit._id),
+      serialNumber: unit.serialNumber,
+      name: unit.name ?? undefined,
+      installationDate: unit.installationDate.toISOString(),
+      capacity: unit.capacity,
+      status: unit.status ?? "ACTIVE",
+      userId: unit.userId ?? undefined,
+      latitude: unit.latitude ?? undefined,
+      longitude: unit.longitude ?? undefined,
+      tilt: unit.tilt ?? undefined,
+      azimuth: unit.azimuth ?? undefined,
+      timezone: unit.timezone ?? undefined,
+    }));
+  }
+}
@@ -0,0 +1,27 @@
+import { SolarUnit as SolarUnitModel } from "../entities/SolarUnit";
+import { SolarUnitProvider } from "./solar-unit-provider";
+
+/**
+ * Holds back units the local registry does not have as ACTIVE, whichever provider lists them
+ * A unit in MAINTENANCE there gets no generated records, backfills or alert checks.
+ */
+export class RegistryStatusSolarUnitProvider implements SolarUnitProvider {
+  readonly name: string;
+
+  constructor(private readonly provider: SolarUnitProvider) {
+    this.name = provider.name;
+  }
+
+  async getActiveSolarUnits() {
+    const units = await this.provider.getActiveSolarUnits();
+    if (units.length === 0) {
+      return units;
+    }
+
+    const heldBack: string[] = await SolarUnitModel.distinct("serialNumber", {
+      serialNumber: { $in: units.map((unit) => unit.serialNumber) },
+      status: { $ne: "ACTIVE" },
+    });
+    return units.filter((unit) => !heldBack.includes(unit.serialNumber));
+  }
+}
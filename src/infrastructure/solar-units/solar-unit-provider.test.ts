@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { SolarUnit } from "../../domain/types";
+import { SolarUnit as SolarUnitModel } from "../entities/SolarUnit";
+import { FallbackSolarUnitProvider } from "./fallback-solar-unit-provider";
+import { RegistryStatusSolarUnitProvider } from "./registry-status-solar-unit-provider";
+import { findActiveSolarUnit, getSolarUnitProvider, setSolarUnitProvider, SolarUnitProvider } from "./solar-unit-provider";
+
+const unit = (serialNumber: string) =>
+  ({ serialNumber, installationDate: "2024-01-15", capacity: 5000, status: "ACTIVE" }) as SolarUnit;
+
+const provider = (name: string, answer: () => Promise<SolarUnit[]>) => {
+  const getActiveSolarUnits = vi.fn(answer);
+  return { name, getActiveSolarUnits } satisfies SolarUnitProvider;
+};
+
+const failing = (name: string) => provider(name, () => Promise.reject(new Error(`${name} is down`)));
+
+afterEach(() => {
+  setSolarUnitProvider(null);
+  delete process.env.SOLAR_UNIT_PROVIDER;
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("FallbackSolarUnitProvider", () => {
+  it("answers with the first provider that succeeds", async () => {
+    const first = failing("core-backend");
+    const second = provider("mongo", async () => [unit("SU-0001")]);
+    const third = provider("file", async () => [unit("SU-0002")]);
+
+    const units = await new FallbackSolarUnitProvider([first, second, third]).getActiveSolarUnits();
+
+    expect(units).toEqual([unit("SU-0001")]);
+    expect(first.getActiveSolarUnits).toHaveBeenCalledOnce();
+    expect(third.getActiveSolarUnits).not.toHaveBeenCalled();
+  });
+
+  it("fails with the last error when every provider fails", async () => {
+    const fallback = new FallbackSolarUnitProvider([failing("core-backend"), failing("mongo")]);
+
+    expect(fallback.name).toBe("core-backend,mongo");
+    await expect(fallback.getActiveSolarUnits()).rejects.toThrow("mongo is down");
+  });
+});
+
+describe("getSolarUnitProvider", () => {
+  it("chains the providers listed in SOLAR_UNIT_PROVIDER behind the registry status filter", () => {
+    process.env.SOLAR_UNIT_PROVIDER = "core-backend, file";
+    setSolarUnitProvider(null);
+
+    const configured = getSolarUnitProvider();
+
+    expect(configured).toBeInstanceOf(RegistryStatusSolarUnitProvider);
+    expect(configured.name).toBe("core-backend,file");
+  });
+
+  it("holds back units the registry does not have as ACTIVE", async () => {
+    const distinct = vi.spyOn(SolarUnitModel, "distinct").mockResolvedValue(["SU-0002"] as any);
+    const registry = new RegistryStatusSolarUnitProvider(
+      provider("file", async () => [unit("SU-0001"), unit("SU-0002")])
+    );
+
+    expect(await registry.getActiveSolarUnits()).toEqual([unit("SU-0001")]);
+    expect(distinct).toHaveBeenCalledWith("serialNumber", {
+      serialNumber: { $in: ["SU-0001", "SU-0002"] },
+      status: { $ne: "ACTIVE" },
+    });
+  });
+});
+
+describe("findActiveSolarUnit", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"], now: new Date("2025-12-01T08:00:00Z") });
+  });
+
+  it("reuses the unit list for a minute", async () => {
+    const source = provider("file", async () => [unit("SU-0001")]);
+    setSolarUnitProvider(source);
+
+    expect(await findActiveSolarUnit("SU-0001")).toEqual(unit("SU-0001"));
+    expect(await findActiveSolarUnit("SU-9999")).toBeUndefined();
+    expect(source.getActiveSolarUnits).toHaveBeenCalledOnce();
+
+    vi.advanceTimersByTime(61 * 1000);
+    await findActiveSolarUnit("SU-0001");
+    expect(source.getActiveSolarUnits).toHaveBeenCalledTimes(2);
+  });
+
+  it("shares one provider call between concurrent lookups", async () => {
+    const source = provider("file", async () => [unit("SU-0001"), unit("SU-0002")]);
+    setSolarUnitProvider(source);
+
+    const found = await Promise.all([findActiveSolarUnit("SU-0001"), findActiveSolarUnit("SU-0002")]);
+
+    expect(found).toEqual([unit("SU-0001"), unit("SU-0002")]);
+    expect(source.getActiveSolarUnits).toHaveBeenCalledOnce();
+  });
+
+  it("answers with the last list while the provider is down", async () => {
+    let down = false;
+    const source = provider("core-backend", async () => {
+      if (down) {
+        throw new Error("core-backend is down");
+      }
+      return [unit("SU-0001")];
+    });
+    setSolarUnitProvider(source);
+    await findActiveSolarUnit("SU-0001");
+
+    down = true;
+    vi.advanceTimersByTime(61 * 1000);
+
+    expect(await findActiveSolarUnit("SU-0001")).toEqual(unit("SU-0001"));
+    expect(await findActiveSolarUnit("SU-0001")).toEqual(unit("SU-0001"));
+    // The second lookup falls within the 15 second failure window and does not ask again
+    expect(source.getActiveSolarUnits).toHaveBeenCalledTimes(2);
+  });
+
+  it("repeats a failure without a list for 15 seconds before asking the provider again", async () => {
+    const source = failing("core-backend");
+    setSolarUnitProvider(source);
+
+    await expect(findActiveSolarUnit("SU-0001")).rejects.toThrow("core-backend is down");
+    vi.advanceTimersByTime(10 * 1000);
+    await expect(findActiveSolarUnit("SU-0001")).rejects.toThrow("core-backend is down");
+    expect(source.getActiveSolarUnits).toHaveBeenCalledOnce();
+
+    vi.advanceTimersByTime(6 * 1000);
+    await expect(findActiveSolarUnit("SU-0001")).rejects.toThrow("core-backend is down");
+    expect(source.getActiveSolarUnits).toHaveBeenCalledTimes(2);
+  });
+});
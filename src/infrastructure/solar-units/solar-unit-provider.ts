@@ -0,0 +1,126 @@
+import { SolarUnit } from "../../domain/types";
+import { CoreBackendSolarUnitProvider } from "./core-backend-solar-unit-provider";
+import { FallbackSolarUnitProvider } from "./fallback-solar-unit-provider";
+import { FileSolarUnitProvider } from "./file-solar-unit-provider";
+import { MongoSolarUnitProvider } from "./mongo-solar-unit-provider";
+import { RegistryStatusSolarUnitProvider } from "./registry-status-solar-unit-provider";
+
+/**
+ * Source of the solar units the data API generates records for
+ */
+export interface SolarUnitProvider {
+  readonly name: string;
+  getActiveSolarUnits(): Promise<SolarUnit[]>;
+}
+
+let provider: SolarUnitProvider | null = null;
+
+// How long findActiveSolarUnit reuses the provider's unit list
+const UNIT_CACHE_MS = 60 * 1000;
+// How long a failed lookup keeps findActiveSolarUnit from asking the provider again
+const FAILURE_CACHE_MS = 15 * 1000;
+let cachedUnits: { units: SolarUnit[]; expiresAt: number } | null = null;
+let lastFailure: { error: unknown; retryAt: number } | null = null;
+let pendingUnits: Promise<SolarUnit[]> | null = null;
+
+const getCoreBackendBaseUrl = () => process.env.CORE_BACKEND_URL || "http://localhost:8002";
+
+const getProviderNames = () =>
+  (process.env.SOLAR_UNIT_PROVIDER || "core-backend")
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+const createProvider = (name: string): SolarUnitProvider => {
+  switch (name) {
+    case "core-backend":
+      return new CoreBackendSolarUnitProvider(getCoreBackendBaseUrl());
+    case "mongo":
+      return new MongoSolarUnitProvider();
+    case "file":
+      return new FileSolarUnitProvider(process.env.SOLAR_UNITS_FILE || "solar-units.json");
+    default:
+      throw new Error(`Unknown SOLAR_UNIT_PROVIDER: ${name}`);
+  }
+};
+
+/**
+ * SOLAR_UNIT_PROVIDER picks the source: "core-backend" (default), "mongo" or "file"
+ * (SOLAR_UNITS_FILE, see solar-units.example.json).
+ * A comma-separated list (e.g. "core-backend,mongo") tries each in order until one answers.
+ * Units the local registry holds in another status than ACTIVE are left out either way.
+ */
+export const getSolarUnitProvider = () => {
+  if (!provider) {
+    const providers = getProviderNames().map(createProvider);
+    provider = new RegistryStatusSolarUnitProvider(
+      providers.length === 1 ? providers[0] : new FallbackSolarUnitProvider(providers)
+    );
+  }
+  return provider;
+};
+
+/**
+ * Base URL of the core backend when it is one of the configured providers, null otherwise
+ */
+export const getCoreBackendUrl = () => (getProviderNames().includes("core-backend") ? getCoreBackendBaseUrl() : null);
+
+/**
+ * Replace the provider, e.g. with a FileSolarUnitProvider over fixed units in tests
+ */
+export const setSolarUnitProvider = (solarUnitProvider: SolarUnitProvider | null) => {
+  provider = solarUnitProvider;
+  clearSolarUnitCache();
+};
+
+/**
+ * Drop the cached unit list, e.g. after a unit changed status
+ */
+export const clearSolarUnitCache = () => {
+  cachedUnits = null;
+  lastFailure = null;
+};
+
+// One provider call at a time, shared by every lookup waiting on it
+const fetchUnits = async () => {
+  try {
+    const units = await getSolarUnitProvider().getActiveSolarUnits();
+    cachedUnits = { units, expiresAt: Date.now() + UNIT_CACHE_MS };
+    lastFailure = null;
+    return units;
+  } catch (error) {
+    lastFailure = { error, retryAt: Date.now() + FAILURE_CACHE_MS };
+    // The last list the provider gave is better than none while it is down
+    if (cachedUnits) {
+      return cachedUnits.units;
+    }
+    throw error;
+  }
+};
+
+const getCachedUnits = async () => {
+  if (cachedUnits && cachedUnits.expiresAt >= Date.now()) {
+    return cachedUnits.units;
+  }
+  if (lastFailure && lastFailure.retryAt > Date.now()) {
+    if (cachedUnits) {
+      return cachedUnits.units;
+    }
+    throw lastFailure.error;
+  }
+  if (!pendingUnits) {
+    pendingUnits = fetchUnits().finally(() => {
+      pendingUnits = null;
+    });
+  }
+  return pendingUnits;
+};
+
+/**
+ * Look up one active unit by serial number, for callers that only have a reading in hand
+ * The unit list is cached for a minute so ingestion does not query the provider per request.
+ * After a failed lookup the provider is left alone for 15 seconds: lookups get the last list it gave,
+ * or its error when there is none, instead of each going through the provider's retries again.
+ */
+export const findActiveSolarUnit = async (serialNumber: string) =>
+  (await getCachedUnits()).find((unit) => unit.serialNumber === serialNumber);
@@ -0,0 +1,33 @@
+import { randomUUID } from "crypto";
+import { WebhookEventType } from "../../domain/types";
+import { WebhookDelivery } from "../entities/WebhookDelivery";
+import { WebhookSubscription } from "../entities/WebhookSubscription";
+import { publishLiveEvent } from "../live-events/live-events";
+import { logger } from "../logging/logger";
+
+/**
+ * Queue an event for every active subscription that listens to it, and pass it to in-process live streams
+ * Only writes to the outbox; WebhookDispatcher does the HTTP delivery. Failures are logged
+ * and never break the operation that emitted the event.
+ */
+export const publishEvent = async (type: WebhookEventType, data: Record<string, unknown>) => {
+  publishLiveEvent(type, data);
+  try {
+    const subscriptions = await WebhookSubscription.find({ active: true, events: type }).select("_id");
+    if (subscriptions.length === 0) {
+      return;
+    }
+
+    const event = { id: randomUUID(), type, createdAt: new Date().toISOString(), data };
+    await WebhookDelivery.insertMany(
+      subscriptions.map((subscription) => ({
+        subscriptionId: subscription._id,
+        eventId: event.id,
+        eventType: type,
+        payload: event,
+      }))
+    );
+  } catch (error: any) {
+    logger.error("Failed to publish event", { type, error });
+  }
+};
@@ -0,0 +1,129 @@
+import { IncomingHttpHeaders } from 'http';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { listen } from '../../test/listen';
+import { WebhookDelivery } from '../entities/WebhookDelivery';
+import { WebhookSubscription } from '../entities/WebhookSubscription';
+import { getRetryDelayMs, signWebhookPayload, WebhookDispatcher } from './webhook-dispatcher';
+
+type ReceivedRequest = { headers: IncomingHttpHeaders; body: string };
+
+// Local receiver that answers with the queued status codes (200 once they run out)
+const received: ReceivedRequest[] = [];
+const statusCodes: number[] = [];
+let receiver: Awaited<ReturnType<typeof listen>>;
+
+beforeAll(async () => {
+  receiver = await listen((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      received.push({ headers: req.headers, body });
+      res.statusCode = statusCodes.shift() ?? 200;
+      res.end();
+    });
+  });
+});
+
+afterAll(async () => {
+  await receiver.close();
+});
+
+let subscription: InstanceType<typeof WebhookSubscription>;
+let delivery: InstanceType<typeof WebhookDelivery>;
+
+beforeEach(() => {
+  received.length = 0;
+  statusCodes.length = 0;
+
+  subscription = new WebhookSubscription({
+    url: `${receiver.url}/hooks`,
+    secret: 'whsec_test',
+    events: ['records.created'],
+  });
+  delivery = new WebhookDelivery({
+    subscriptionId: subscription._id,
+    eventId: 'evt_1',
+    eventType: 'records.created',
+    payload: { id: 'evt_1', type: 'records.created', data: { serialNumber: 'SU-0001', count: 3 } },
+  });
+
+  // Stand-ins for the outbox queries; the documents are never written
+  vi.spyOn(WebhookDelivery, 'findOneAndUpdate').mockImplementation(() => Promise.resolve(null) as any);
+  vi.spyOn(WebhookSubscription, 'findById').mockImplementation(() => Promise.resolve(subscription) as any);
+  vi.spyOn(delivery, 'save').mockImplementation(() => Promise.resolve(delivery));
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+const runOnce = async () => {
+  // Only one attempt per run, as the delivery is not due again until its retry time
+  vi.mocked(WebhookDelivery.findOneAndUpdate)
+    .mockImplementationOnce(() => Promise.resolve(delivery) as any)
+    .mockImplementationOnce(() => Promise.resolve(null) as any);
+  return WebhookDispatcher.processDueDeliveries();
+};
+
+describe('WebhookDispatcher', () => {
+  it('posts the payload with a signature the receiver can verify', async () => {
+    await runOnce();
+
+    expect(received).toHaveLength(1);
+    const [{ headers, body }] = received;
+    expect(JSON.parse(body)).toEqual(delivery.payload);
+    expect(headers['x-webhook-id']).toBe('evt_1');
+    expect(headers['x-webhook-event']).toBe('records.created');
+    expect(headers['x-webhook-signature']).toBe(
+      signWebhookPayload('whsec_test', String(headers['x-webhook-timestamp']), body)
+    );
+    expect(headers['x-webhook-signature']).not.toBe(
+      signWebhookPayload('another-secret', String(headers['x-webhook-timestamp']), body)
+    );
+    expect(delivery.status).toBe('delivered');
+    expect(delivery.attempts).toBe(1);
+  });
+
+  it('retries with backoff after a 5xx and delivers on the next attempt', async () => {
+    statusCodes.push(503);
+
+    const before = Date.now();
+    await runOnce();
+
+    expect(delivery.status).toBe('pending');
+    expect(delivery.attempts).toBe(1);
+    expect(delivery.lastStatusCode).toBe(503);
+    expect(delivery.lastError).toBe('Receiver responded with 503');
+    expect(delivery.nextAttemptAt.getTime()).toBeGreaterThanOrEqual(before + getRetryDelayMs(1));
+
+    await runOnce();
+
+    expect(received).toHaveLength(2);
+    expect(received[1].headers['x-webhook-id']).toBe(received[0].headers['x-webhook-id']);
+    expect(received[1].headers['x-webhook-signature']).toBe(
+      signWebhookPayload('whsec_test', String(received[1].headers['x-webhook-timestamp']), received[1].body)
+    );
+    expect(delivery.status).toBe('delivered');
+    expect(delivery.attempts).toBe(2);
+    expect(delivery.lastStatusCode).toBe(200);
+  });
+
+  it('moves the delivery to dead after the last attempt fails', async () => {
+    statusCodes.push(500);
+    delivery.attempts = 7;
+
+    await runOnce();
+
+    expect(delivery.status).toBe('dead');
+    expect(delivery.attempts).toBe(8);
+  });
+
+  it('does not post for an inactive subscription', async () => {
+    subscription.active = false;
+
+    await runOnce();
+
+    expect(received).toHaveLength(0);
+    expect(delivery.status).toBe('dead');
+  });
+});
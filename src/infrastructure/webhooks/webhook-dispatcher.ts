@@ -0,0 +1,138 @@
+import axios from 'axios';
+import { createHmac } from 'crypto';
+import { WebhookDelivery } from '../entities/WebhookDelivery';
+import { WebhookSubscription } from '../entities/WebhookSubscription';
+import { logger } from '../logging/logger';
+
+const MAX_ATTEMPTS = 8;
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+// A claimed delivery is released again if the instance dies mid-request
+const LOCK_MS = 60 * 1000;
+const BATCH_SIZE = 20;
+
+/**
+ * Signature header value: HMAC-SHA256 over "<timestamp>.<body>" with the subscription secret
+ * Receivers recompute it and compare, and reject stale timestamps to stop replays.
+ */
+export const signWebhookPayload = (secret: string, timestamp: string, body: string) =>
+  `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+
+export const getRetryDelayMs = (attempts: number) =>
+  Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * Math.pow(2, attempts - 1));
+
+/**
+ * Delivers queued webhook events from the outbox
+ * Polls for due deliveries, POSTs them signed, and reschedules failures with exponential
+ * backoff. After MAX_ATTEMPTS a delivery is moved to "dead" for the dead-letter view.
+ */
+export class WebhookDispatcher {
+  private static timer: NodeJS.Timeout | null = null;
+  private static processing = false;
+
+  static start(intervalMs = Number(process.env.WEBHOOK_POLL_INTERVAL_MS) || 5000) {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      this.processDueDeliveries().catch((error: any) => {
+        logger.error('Webhook dispatch failed', { error });
+      });
+    }, intervalMs);
+    logger.info('Webhook dispatcher started', { intervalMs });
+  }
+
+  static stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Deliver every due delivery once; returns how many were attempted
+   */
+  static async processDueDeliveries() {
+    if (this.processing) {
+      return 0;
+    }
+    this.processing = true;
+
+    let attempted = 0;
+    try {
+      for (; attempted < BATCH_SIZE; attempted++) {
+        const now = new Date();
+        const delivery = await WebhookDelivery.findOneAndUpdate(
+          {
+            $or: [
+              { status: 'pending', nextAttemptAt: { $lte: now } },
+              { status: 'delivering', lockedUntil: { $lt: now } },
+            ],
+          },
+          { $set: { status: 'delivering', lockedUntil: new Date(now.getTime() + LOCK_MS) } },
+          { sort: { nextAttemptAt: 1 }, new: true }
+        );
+        if (!delivery) {
+          break;
+        }
+        await this.deliver(delivery);
+      }
+    } finally {
+      this.processing = false;
+    }
+    return attempted;
+  }
+
+  private static async deliver(delivery: InstanceType<typeof WebhookDelivery>) {
+    const attempts = delivery.attempts + 1;
+    const subscription = await WebhookSubscription.findById(delivery.subscriptionId);
+
+    if (!subscription || !subscription.active) {
+      delivery.set({ status: 'dead', attempts, lastError: 'Subscription removed or inactive', lockedUntil: undefined });
+      await delivery.save();
+      return;
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    let statusCode: number | undefined;
+    let errorMessage: string | undefined;
+
+    try {
+      const response = await axios.post(subscription.url, body, {
+        timeout: DELIVERY_TIMEOUT_MS,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Webhook-Id': delivery.eventId,
+          'X-Webhook-Event': delivery.eventType,
+          'X-Webhook-Timestamp': timestamp,
+          'X-Webhook-Signature': signWebhookPayload(subscription.secret, timestamp, body),
+        },
+        validateStatus: () => true,
+      });
+      statusCode = response.status;
+      if (statusCode < 200 || statusCode >= 300) {
+        errorMessage = `Receiver responded with ${statusCode}`;
+      }
+    } catch (error: any) {
+      errorMessage = error.message;
+    }
+
+    if (!errorMessage) {
+      delivery.set({ status: 'delivered', attempts, lastStatusCode: statusCode, deliveredAt: new Date(), lockedUntil: undefined });
+    } else if (attempts >= MAX_ATTEMPTS) {
+      delivery.set({ status: 'dead', attempts, lastStatusCode: statusCode, lastError: errorMessage, lockedUntil: undefined });
+    } else {
+      delivery.set({
+        status: 'pending',
+        attempts,
+        lastStatusCode: statusCode,
+        lastError: errorMessage,
+        nextAttemptAt: new Date(Date.now() + getRetryDelayMs(attempts)),
+        lockedUntil: undefined,
+      });
+    }
+    await delivery.save();
+  }
+}
@@ -0,0 +1,122 @@
+import { Server } from "http";
+import { AddressInfo } from "net";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AlertEvaluator } from "./infrastructure/alert-evaluator";
+import { DataGenerationScheduler } from "./infrastructure/data-generation-scheduler";
+import { connectDB } from "./infrastructure/db";
+import { logger } from "./infrastructure/logging/logger";
+import { WebhookDispatcher } from "./infrastructure/webhooks/webhook-dispatcher";
+import { createApp, startServer } from "./server";
+
+vi.mock("./infrastructure/db", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./infrastructure/db")>()),
+  connectDB: vi.fn(),
+}));
+
+// A connection the test settles when it chooses
+const deferConnection = () => {
+  let settle!: { resolve: () => void; reject: (error: Error) => void };
+  vi.mocked(connectDB).mockReturnValue(
+    new Promise<void>((resolve, reject) => {
+      settle = { resolve, reject };
+    })
+  );
+  return settle;
+};
+
+const checkLiveness = async (server: Server) => {
+  const { port } = server.address() as AddressInfo;
+  const response = await fetch(`http://127.0.0.1:${port}/health/live`);
+  return response.status;
+};
+
+let server: Server | undefined;
+
+beforeEach(() => {
+  vi.spyOn(DataGenerationScheduler, "start").mockImplementation(() => {});
+  vi.spyOn(WebhookDispatcher, "start").mockImplementation(() => {});
+  vi.spyOn(AlertEvaluator, "start").mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  if (server) {
+    await new Promise((resolve) => server!.close(resolve));
+    server = undefined;
+  }
+  delete process.env.DB_REQUIRED_ON_START;
+  delete process.env.GENERATION_MODEL;
+  DataGenerationScheduler.setGenerationModel(null);
+  vi.mocked(connectDB).mockReset();
+  vi.restoreAllMocks();
+});
+
+describe("startServer", () => {
+  it("serves before the database is reachable and starts the background jobs once it is", async () => {
+    const connection = deferConnection();
+
+    server = await startServer(createApp(), 0);
+
+    expect(connectDB).toHaveBeenCalledWith(Infinity);
+    expect(await checkLiveness(server)).toBe(200);
+    expect(DataGenerationScheduler.start).not.toHaveBeenCalled();
+
+    connection.resolve();
+
+    await vi.waitFor(() => {
+      expect(DataGenerationScheduler.start).toHaveBeenCalled();
+      expect(WebhookDispatcher.start).toHaveBeenCalled();
+      expect(AlertEvaluator.start).toHaveBeenCalled();
+    });
+  });
+
+  it("keeps serving without background jobs when the deferred connection gives up", async () => {
+    const error = vi.spyOn(logger, "error");
+    const connection = deferConnection();
+
+    server = await startServer(createApp(), 0);
+    connection.reject(new Error("MONGODB_URL is not defined"));
+
+    await vi.waitFor(() => expect(error).toHaveBeenCalledWith("Background jobs not started", expect.anything()));
+    expect(DataGenerationScheduler.start).not.toHaveBeenCalled();
+    expect(await checkLiveness(server)).toBe(200);
+  });
+
+  it("with DB_REQUIRED_ON_START, connects and starts the jobs before it listens", async () => {
+    process.env.DB_REQUIRED_ON_START = "true";
+    const connection = deferConnection();
+    const info = vi.spyOn(logger, "info");
+
+    const starting = startServer(createApp(), 0);
+    await vi.waitFor(() => expect(connectDB).toHaveBeenCalledWith());
+    expect(info).not.toHaveBeenCalledWith("Server is running", expect.anything());
+
+    connection.resolve();
+    server = await starting;
+
+    expect(DataGenerationScheduler.start).toHaveBeenCalled();
+    expect(await checkLiveness(server)).toBe(200);
+  });
+
+  it("with DB_REQUIRED_ON_START, never listens when the database cannot be reached", async () => {
+    process.env.DB_REQUIRED_ON_START = "true";
+    vi.mocked(connectDB).mockRejectedValue(new Error("connect ECONNREFUSED"));
+    const info = vi.spyOn(logger, "info");
+    const error = vi.spyOn(logger, "error");
+
+    await expect(startServer(createApp(), 0)).rejects.toThrow("connect ECONNREFUSED");
+
+    expect(error).toHaveBeenCalledWith("Refusing to start without a database");
+    expect(info).not.toHaveBeenCalledWith("Server is running", expect.anything());
+    expect(DataGenerationScheduler.start).not.toHaveBeenCalled();
+  });
+
+  it("refuses an invalid generation configuration before connecting", async () => {
+    process.env.GENERATION_MODEL = "quantum";
+    const error = vi.spyOn(logger, "error");
+
+    await expect(startServer(createApp(), 0)).rejects.toThrow("Unknown GENERATION_MODEL: quantum");
+
+    expect(error).toHaveBeenCalledWith("Invalid generation configuration", expect.anything());
+    expect(connectDB).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,104 @@
+import cors from "cors";
+import express from "express";
+import { once } from "events";
+import { Server } from "http";
+import energyGenerationRecordRouter, { bulkJsonParser } from "./api/energy-generation-record";
+import adminRouter from "./api/admin";
+import alertRouter from "./api/alert";
+import streamRouter from "./api/stream";
+import anomalyRouter from "./api/anomaly";
+import dataQualityRouter from "./api/data-quality";
+import metricsRouter from "./api/metrics";
+import forecastRouter from "./api/forecast";
+import performanceRouter from "./api/performance";
+import solarUnitRouter from "./api/solar-unit";
+import v1Router from "./api/v1";
+import prometheusRouter from "./api/prometheus";
+import healthRouter from "./api/health";
+import { globalErrorHandler } from "./api/middlewares/global-error-handling-middleware";
+import { loggerMiddleware } from "./api/middlewares/logger-middleware";
+import { isAuthenticatedOrService, isMetricsScraper } from "./api/middlewares/authentication-middleware";
+import { connectDB } from "./infrastructure/db";
+import { DataGenerationScheduler } from "./infrastructure/data-generation-scheduler";
+import { createGenerationModel } from "./infrastructure/generation/create-generation-model";
+import { WebhookDispatcher } from "./infrastructure/webhooks/webhook-dispatcher";
+import { AlertEvaluator } from "./infrastructure/alert-evaluator";
+import { logger } from "./infrastructure/logging/logger";
+
+export const createApp = () => {
+  const app = express();
+  app.use(cors({ origin: true })); // Allow all origins for production
+
+  app.use(loggerMiddleware);
+
+  app.use("/api/energy-generation-records/bulk", bulkJsonParser);
+  app.use(express.json());
+
+  app.use("/health", healthRouter);
+  app.use("/metrics", isMetricsScraper, prometheusRouter);
+  app.use("/api/v1", v1Router);
+  app.use("/api/energy-generation-records", energyGenerationRecordRouter);
+  app.use("/api/solar-units", isAuthenticatedOrService, solarUnitRouter);
+  app.use("/api/anomalies", isAuthenticatedOrService, anomalyRouter);
+  app.use("/api/metrics", isAuthenticatedOrService, metricsRouter);
+  app.use("/api/data-quality", isAuthenticatedOrService, dataQualityRouter);
+  app.use("/api/forecasts", isAuthenticatedOrService, forecastRouter);
+  app.use("/api/performance", isAuthenticatedOrService, performanceRouter);
+  app.use("/api/alerts", isAuthenticatedOrService, alertRouter);
+  app.use("/api/stream", streamRouter);
+  app.use("/api/admin", adminRouter);
+
+  app.use(globalErrorHandler);
+  return app;
+};
+
+const startBackgroundJobs = () => {
+  // Start daily data generation scheduler
+  DataGenerationScheduler.start();
+  // Deliver queued webhook events
+  WebhookDispatcher.start();
+  // Check alert rules
+  AlertEvaluator.start();
+};
+
+const listen = async (app: express.Express, port: number | string) => {
+  const server = app.listen(port);
+  await once(server, "listening");
+  logger.info("Server is running", { port });
+  return server;
+};
+
+/**
+ * Validate the generation configuration, connect to the database, start the background jobs and serve the app.
+ * With DB_REQUIRED_ON_START=true the server only listens once the database is reachable; otherwise it serves
+ * right away (readiness reports the database down) and starts the jobs once the connection is made.
+ * Rejects, after logging why, when the server must not start.
+ */
+export const startServer = async (app: express.Express, port: number | string): Promise<Server> => {
+  // Refuse to start with an invalid generation configuration (model, weather provider, default location)
+  try {
+    DataGenerationScheduler.setGenerationModel(createGenerationModel());
+  } catch (error) {
+    logger.error("Invalid generation configuration", { error });
+    throw error;
+  }
+
+  if (process.env.DB_REQUIRED_ON_START === "true") {
+    // Give up once DB_CONNECT_ATTEMPTS connection attempts have failed
+    try {
+      await connectDB();
+    } catch (error) {
+      logger.error("Refusing to start without a database");
+      throw error;
+    }
+    startBackgroundJobs();
+    return listen(app, port);
+  }
+
+  const server = await listen(app, port);
+  // Keep retrying until the database is reachable
+  connectDB(Infinity)
+    .then(startBackgroundJobs)
+    .catch((error) => logger.error("Background jobs not started", { error }));
+  return server;
+};
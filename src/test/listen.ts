@@ -0,0 +1,17 @@
+import { once } from "events";
+import { createServer, RequestListener } from "http";
+import { AddressInfo } from "net";
+
+/**
+ * Serve a request handler (an express app or a stand-in for a remote service) on a free local port
+ */
+export const listen = async (handler: RequestListener) => {
+  const server = createServer(handler);
+  server.listen(0, "127.0.0.1");
+  await once(server, "listening");
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+};